@@ -0,0 +1,13 @@
+import { ActivityClient } from "@/components/activity-client";
+
+export default async function ActivityPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+  const params = await searchParams;
+  const customer =
+    typeof params.customer === "string" ? params.customer : null;
+
+  return <ActivityClient initialCustomerId={customer} />;
+}
@@ -9,6 +9,9 @@ import {
   Merge,
   X,
   CheckCircle2,
+  Split,
+  ListChecks,
+  Columns2,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -28,13 +31,29 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
 import {
   getStitchingConflicts,
   resolveConflict,
+  unmergeCustomers,
   type ConflictWithCustomers,
 } from "@/lib/actions/history";
 import type { ConflictStatus } from "@/lib/types";
+import { useOrgRole } from "@/hooks/use-org-role";
+import { RestitchJobPanel } from "@/components/restitch-job-panel";
+import { BulkResolveDialog } from "@/components/bulk-resolve-dialog";
+import { ConflictComparisonSheet } from "@/components/conflict-comparison-sheet";
 
 const PAGE_SIZE = 20;
 
@@ -55,6 +74,12 @@ export default function ConflictsPage() {
   const [page, setPage] = useState(0);
   const [statusFilter, setStatusFilter] = useState<string>("all");
   const [resolving, setResolving] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const { can } = useOrgRole();
+  const canResolve = can("conflict:resolve");
+  const canUnmerge = can("customer:merge");
 
   const fetchConflicts = useCallback(async () => {
     setLoading(true);
@@ -66,6 +91,7 @@ export default function ConflictsPage() {
       });
       setConflicts(result.conflicts);
       setTotal(result.total);
+      setSelected(new Set());
     } catch {
       // Silently fail
     } finally {
@@ -80,7 +106,7 @@ export default function ConflictsPage() {
   const handleResolve = async (
     conflictId: string,
     resolution: "merged" | "dismissed"
-  ) => {
+  ): Promise<boolean> => {
     setResolving(conflictId);
     try {
       await resolveConflict(conflictId, resolution);
@@ -90,27 +116,59 @@ export default function ConflictsPage() {
           : "Conflict dismissed"
       );
       fetchConflicts();
+      return true;
     } catch (err) {
       toast.error(
         err instanceof Error ? err.message : "Failed to resolve conflict"
       );
+      return false;
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const handleUnmerge = async (conflictId: string, mergeId: string) => {
+    setResolving(conflictId);
+    try {
+      await unmergeCustomers(mergeId);
+      toast.success("Merge undone — customers separated");
+      fetchConflicts();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to unmerge");
     } finally {
       setResolving(null);
     }
   };
 
   const totalPages = Math.ceil(total / PAGE_SIZE);
+  const pendingOnPage = conflicts.filter((c) => c.status === "pending");
+  const allPendingSelected =
+    pendingOnPage.length > 0 && pendingOnPage.every((c) => selected.has(c.id));
+
+  const toggleSelected = (conflictId: string, checked: boolean) =>
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(conflictId);
+      else next.delete(conflictId);
+      return next;
+    });
+
+  const toggleAllPending = (checked: boolean) =>
+    setSelected(checked ? new Set(pendingOnPage.map((c) => c.id)) : new Set());
 
   return (
     <div className="p-8 max-w-[1400px]">
       {/* Header */}
-      <div className="mb-8 animate-fade-in">
-        <h1 className="text-2xl font-semibold tracking-[-0.02em] text-text-primary">
-          Identity Conflicts
-        </h1>
-        <p className="mt-1 text-[13px] text-text-muted">
-          Review flagged customer identity matches that need manual confirmation
-        </p>
+      <div className="mb-8 flex items-start justify-between gap-6 animate-fade-in">
+        <div>
+          <h1 className="text-2xl font-semibold tracking-[-0.02em] text-text-primary">
+            Identity Conflicts
+          </h1>
+          <p className="mt-1 text-[13px] text-text-muted">
+            Review flagged customer identity matches that need manual confirmation
+          </p>
+        </div>
+        <RestitchJobPanel canRun={canResolve} onComplete={fetchConflicts} />
       </div>
 
       {/* Filter bar */}
@@ -130,13 +188,41 @@ export default function ConflictsPage() {
             <SelectItem value="pending">Pending</SelectItem>
             <SelectItem value="merged">Merged</SelectItem>
             <SelectItem value="dismissed">Dismissed</SelectItem>
+            <SelectItem value="split">Split</SelectItem>
           </SelectContent>
         </Select>
         <span className="text-[12px] text-text-muted ml-auto">
+          {selected.size > 0 && `${selected.size} selected · `}
           {total} {total === 1 ? "conflict" : "conflicts"}
         </span>
+        {canResolve && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-[12px]"
+            onClick={() => setBulkOpen(true)}
+          >
+            <ListChecks className="h-3.5 w-3.5 mr-1" />
+            {selected.size > 0 ? `Resolve ${selected.size} selected` : "Bulk resolve"}
+          </Button>
+        )}
       </div>
 
+      <BulkResolveDialog
+        open={bulkOpen}
+        onOpenChange={setBulkOpen}
+        selectedIds={Array.from(selected)}
+        onResolved={fetchConflicts}
+      />
+
+      <ConflictComparisonSheet
+        open={compareId !== null}
+        onOpenChange={(open) => !open && setCompareId(null)}
+        conflictId={compareId}
+        canResolve={canResolve}
+        onResolve={handleResolve}
+      />
+
       {/* Table */}
       <Card className="border-border-default shadow-none animate-fade-in-up stagger-3">
         {loading ? (
@@ -161,6 +247,16 @@ export default function ConflictsPage() {
             <Table>
               <TableHeader>
                 <TableRow>
+                  {canResolve && (
+                    <TableHead className="w-[36px]">
+                      <Checkbox
+                        checked={allPendingSelected}
+                        onCheckedChange={(v) => toggleAllPending(v === true)}
+                        disabled={pendingOnPage.length === 0}
+                        aria-label="Select all pending conflicts on this page"
+                      />
+                    </TableHead>
+                  )}
                   <TableHead className="text-[12px]">Customer A</TableHead>
                   <TableHead className="text-[12px]">Customer B</TableHead>
                   <TableHead className="text-[12px]">Match Field</TableHead>
@@ -181,6 +277,17 @@ export default function ConflictsPage() {
 
                   return (
                     <TableRow key={conflict.id}>
+                      {canResolve && (
+                        <TableCell>
+                          {isPending && (
+                            <Checkbox
+                              checked={selected.has(conflict.id)}
+                              onCheckedChange={(v) => toggleSelected(conflict.id, v === true)}
+                              aria-label="Select conflict"
+                            />
+                          )}
+                        </TableCell>
+                      )}
                       <TableCell>
                         <div>
                           <p className="text-[13px] font-medium text-text-primary truncate max-w-[180px]">
@@ -223,42 +330,105 @@ export default function ConflictsPage() {
                       <TableCell className="text-right">
                         {isPending && (
                           <div className="flex items-center justify-end gap-1.5">
-                            <Button
-                              variant="ghost"
-                              size="sm"
-                              className="h-7 text-[11px] text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50 dark:text-emerald-400 dark:hover:text-emerald-300 dark:hover:bg-emerald-500/10"
-                              disabled={isResolvingThis}
-                              onClick={() =>
-                                handleResolve(conflict.id, "merged")
-                              }
-                            >
-                              {isResolvingThis ? (
-                                <Loader2 className="h-3 w-3 animate-spin" />
-                              ) : (
-                                <>
-                                  <Merge className="mr-1 h-3 w-3" />
-                                  Merge
-                                </>
-                              )}
-                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
                               className="h-7 text-[11px] text-text-muted hover:text-text-secondary"
-                              disabled={isResolvingThis}
-                              onClick={() =>
-                                handleResolve(conflict.id, "dismissed")
-                              }
+                              onClick={() => setCompareId(conflict.id)}
                             >
-                              <X className="mr-1 h-3 w-3" />
-                              Dismiss
+                              <Columns2 className="mr-1 h-3 w-3" />
+                              Compare
                             </Button>
+                            {canResolve && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7 text-[11px] text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50 dark:text-emerald-400 dark:hover:text-emerald-300 dark:hover:bg-emerald-500/10"
+                                  disabled={isResolvingThis}
+                                  onClick={() =>
+                                    handleResolve(conflict.id, "merged")
+                                  }
+                                >
+                                  {isResolvingThis ? (
+                                    <Loader2 className="h-3 w-3 animate-spin" />
+                                  ) : (
+                                    <>
+                                      <Merge className="mr-1 h-3 w-3" />
+                                      Merge
+                                    </>
+                                  )}
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="h-7 text-[11px] text-text-muted hover:text-text-secondary"
+                                  disabled={isResolvingThis}
+                                  onClick={() =>
+                                    handleResolve(conflict.id, "dismissed")
+                                  }
+                                >
+                                  <X className="mr-1 h-3 w-3" />
+                                  Dismiss
+                                </Button>
+                              </>
+                            )}
                           </div>
                         )}
                         {conflict.status === "merged" && (
-                          <span className="text-[11px] text-emerald-600 flex items-center justify-end gap-1">
-                            <CheckCircle2 className="h-3 w-3" />
-                            Merged
+                          <div className="flex items-center justify-end gap-1.5">
+                            <span className="text-[11px] text-emerald-600 flex items-center gap-1">
+                              <CheckCircle2 className="h-3 w-3" />
+                              Merged
+                            </span>
+                            {canUnmerge && conflict.merge_id && (
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-7 text-[11px] text-text-muted hover:text-amber-600"
+                                    disabled={isResolvingThis}
+                                  >
+                                    {isResolvingThis ? (
+                                      <Loader2 className="h-3 w-3 animate-spin" />
+                                    ) : (
+                                      <>
+                                        <Split className="mr-1 h-3 w-3" />
+                                        Unmerge
+                                      </>
+                                    )}
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Undo this merge?</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      <span className="font-medium">
+                                        {conflict.customer_b_name ?? conflict.customer_b_email ?? "Customer B"}
+                                      </span>{" "}
+                                      will be restored as a separate customer and
+                                      their payments, bookings, attendance, CRM and
+                                      attribution records will be moved back.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <Button
+                                      onClick={() => handleUnmerge(conflict.id, conflict.merge_id!)}
+                                      className="bg-amber-600 hover:bg-amber-700"
+                                    >
+                                      Unmerge
+                                    </Button>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            )}
+                          </div>
+                        )}
+                        {conflict.status === "split" && (
+                          <span className="text-[11px] text-text-muted">
+                            {conflict.match_field === "split" ? "Split manually" : "Unmerged"}
                           </span>
                         )}
                         {conflict.status === "dismissed" && (
@@ -7,6 +7,9 @@ import {
   Calendar,
   Ticket,
   ShoppingBag,
+  Store,
+  Receipt,
+  Dumbbell,
   Globe,
   Loader2,
   ChevronLeft,
@@ -59,7 +62,9 @@ import {
 import { Checkbox } from "@/components/ui/checkbox";
 import Papa from "papaparse";
 import { CsvViewerSheet } from "@/components/csv-viewer-sheet";
-import type { SourceType } from "@/lib/types";
+import { useOrgRole } from "@/hooks/use-org-role";
+import { getCustomSchemas } from "@/lib/actions/custom-sources";
+import type { SourceType, SourceSchema } from "@/lib/types";
 import { toast } from "sonner";
 
 const PAGE_SIZE = 20;
@@ -98,6 +103,24 @@ const SOURCE_CONFIG: Record<
     color: "text-cyan-700 dark:text-cyan-400",
     bg: "bg-cyan-100 dark:bg-cyan-500/10",
   },
+  shopify: {
+    label: "Shopify",
+    icon: Store,
+    color: "text-lime-700 dark:text-lime-400",
+    bg: "bg-lime-100 dark:bg-lime-500/10",
+  },
+  square: {
+    label: "Square",
+    icon: Receipt,
+    color: "text-sky-700 dark:text-sky-400",
+    bg: "bg-sky-100 dark:bg-sky-500/10",
+  },
+  mindbody: {
+    label: "Mindbody",
+    icon: Dumbbell,
+    color: "text-yellow-700 dark:text-yellow-400",
+    bg: "bg-yellow-100 dark:bg-yellow-500/10",
+  },
   crm: {
     label: "CRM",
     icon: Users,
@@ -164,6 +187,19 @@ export default function ImportsPage() {
   const [resetConfirmText, setResetConfirmText] = useState("");
   const lastSelectedIndex = useRef<number | null>(null);
 
+  const { can } = useOrgRole();
+  const canDelete = can("import:delete");
+  const canReset = can("data:reset");
+
+  // The org's custom sources, named in the list and the filter
+  const [customSchemas, setCustomSchemas] = useState<SourceSchema[]>([]);
+
+  useEffect(() => {
+    getCustomSchemas()
+      .then(setCustomSchemas)
+      .catch(() => {});
+  }, []);
+
   const fetchImports = useCallback(async () => {
     setLoading(true);
     try {
@@ -341,13 +377,21 @@ export default function ImportsPage() {
             <SelectItem value="passline">PassLine</SelectItem>
             <SelectItem value="pos">POS</SelectItem>
             <SelectItem value="wetravel">WeTravel</SelectItem>
+            <SelectItem value="shopify">Shopify</SelectItem>
+            <SelectItem value="square">Square</SelectItem>
+            <SelectItem value="mindbody">Mindbody</SelectItem>
             <SelectItem value="crm">CRM</SelectItem>
             <SelectItem value="attribution">Attribution</SelectItem>
+            {customSchemas.map((s) => (
+              <SelectItem key={s.source} value={s.source}>
+                {s.label}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
 
         <div className="flex items-center gap-2 ml-auto">
-          {selectedIds.size > 0 && (
+          {canDelete && selectedIds.size > 0 && (
             <Button
               variant="outline"
               size="sm"
@@ -363,55 +407,57 @@ export default function ImportsPage() {
               Delete selected ({selectedIds.size})
             </Button>
           )}
-          <AlertDialog open={resetDialogOpen} onOpenChange={(open) => { setResetDialogOpen(open); if (!open) setResetConfirmText(""); }}>
-            <AlertDialogTrigger asChild>
-              <Button
-                variant="outline"
-                size="sm"
-                className="h-8 text-[12px] text-text-muted"
-              >
-                <RotateCcw className="h-3 w-3 mr-1.5" />
-                Reset Demo Data
-              </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Reset all demo data?</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This will permanently delete all customer data, imports, and derived records. This cannot be undone.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <div className="mt-2">
-                <label className="text-[13px] text-text-secondary">
-                  Type <span className="font-semibold">reset</span> to confirm
-                </label>
-                <Input
-                  value={resetConfirmText}
-                  onChange={(e) => setResetConfirmText(e.target.value)}
-                  placeholder="reset"
-                  className="mt-1.5 text-[13px]"
-                  autoComplete="off"
-                />
-              </div>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
+          {canReset && (
+            <AlertDialog open={resetDialogOpen} onOpenChange={(open) => { setResetDialogOpen(open); if (!open) setResetConfirmText(""); }}>
+              <AlertDialogTrigger asChild>
                 <Button
-                  disabled={resetConfirmText !== "reset" || isResetting}
-                  onClick={handleReset}
-                  className="bg-rose-600 hover:bg-rose-700 disabled:opacity-50"
+                  variant="outline"
+                  size="sm"
+                  className="h-8 text-[12px] text-text-muted"
                 >
-                  {isResetting ? (
-                    <>
-                      <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
-                      Resetting...
-                    </>
-                  ) : (
-                    "Reset all data"
-                  )}
+                  <RotateCcw className="h-3 w-3 mr-1.5" />
+                  Reset Demo Data
                 </Button>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Reset all demo data?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This will permanently delete all customer data, imports, and derived records. This cannot be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <div className="mt-2">
+                  <label className="text-[13px] text-text-secondary">
+                    Type <span className="font-semibold">reset</span> to confirm
+                  </label>
+                  <Input
+                    value={resetConfirmText}
+                    onChange={(e) => setResetConfirmText(e.target.value)}
+                    placeholder="reset"
+                    className="mt-1.5 text-[13px]"
+                    autoComplete="off"
+                  />
+                </div>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <Button
+                    disabled={resetConfirmText !== "reset" || isResetting}
+                    onClick={handleReset}
+                    className="bg-rose-600 hover:bg-rose-700 disabled:opacity-50"
+                  >
+                    {isResetting ? (
+                      <>
+                        <Loader2 className="h-3 w-3 mr-1.5 animate-spin" />
+                        Resetting...
+                      </>
+                    ) : (
+                      "Reset all data"
+                    )}
+                  </Button>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
           <span className="text-[12px] text-text-muted">
             {total} {total === 1 ? "import" : "imports"}
           </span>
@@ -441,16 +487,18 @@ export default function ImportsPage() {
             <Table>
               <TableHeader>
                 <TableRow>
-                  <TableHead className="w-[40px]">
-                    <Checkbox
-                      checked={allSelected}
-                      onClick={(e: React.MouseEvent) => {
-                        e.preventDefault();
-                        toggleSelectAll();
-                      }}
-                      aria-label="Select all"
-                    />
-                  </TableHead>
+                  {canDelete && (
+                    <TableHead className="w-[40px]">
+                      <Checkbox
+                        checked={allSelected}
+                        onClick={(e: React.MouseEvent) => {
+                          e.preventDefault();
+                          toggleSelectAll();
+                        }}
+                        aria-label="Select all"
+                      />
+                    </TableHead>
+                  )}
                   <TableHead className="text-[12px]">File</TableHead>
                   <TableHead className="text-[12px]">Source</TableHead>
                   <TableHead className="text-[12px]">Status</TableHead>
@@ -477,7 +525,9 @@ export default function ImportsPage() {
                     STATUS_CONFIG[imp.status] ?? STATUS_CONFIG.pending;
                   const SrcIcon = src?.icon ?? History;
                   const canRevert =
-                    imp.status === "completed" && imp.imported_rows > 0;
+                    can("import:revert") &&
+                    imp.status === "completed" &&
+                    imp.imported_rows > 0;
                   const isReverting = revertingId === imp.id;
 
                   const isSelectable = imp.status !== "processing";
@@ -489,20 +539,22 @@ export default function ImportsPage() {
                         imp.status === "reverted" ? "opacity-60" : ""
                       }
                     >
-                      <TableCell>
-                        {isSelectable ? (
-                          <Checkbox
-                            checked={selectedIds.has(imp.id)}
-                            onClick={(e: React.MouseEvent) => {
-                              e.preventDefault();
-                              toggleSelect(imp.id, e.shiftKey);
-                            }}
-                            aria-label={`Select ${imp.file_name}`}
-                          />
-                        ) : (
-                          <div className="w-4" />
-                        )}
-                      </TableCell>
+                      {canDelete && (
+                        <TableCell>
+                          {isSelectable ? (
+                            <Checkbox
+                              checked={selectedIds.has(imp.id)}
+                              onClick={(e: React.MouseEvent) => {
+                                e.preventDefault();
+                                toggleSelect(imp.id, e.shiftKey);
+                              }}
+                              aria-label={`Select ${imp.file_name}`}
+                            />
+                          ) : (
+                            <div className="w-4" />
+                          )}
+                        </TableCell>
+                      )}
                       <TableCell className="text-[13px] font-medium text-text-primary max-w-[200px] truncate">
                         {imp.file_name}
                       </TableCell>
@@ -516,7 +568,9 @@ export default function ImportsPage() {
                             />
                           </div>
                           <span className="text-[12px] text-text-secondary">
-                            {src?.label ?? imp.source}
+                            {src?.label ??
+                              customSchemas.find((s) => s.source === imp.source)?.label ??
+                              imp.source}
                           </span>
                         </div>
                       </TableCell>
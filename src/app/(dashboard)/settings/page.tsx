@@ -0,0 +1,25 @@
+import { StitchingPolicySettings } from "@/components/stitching-policy-settings";
+import { CustomSourcesSettings } from "@/components/custom-sources-settings";
+import { getStitchingPolicy } from "@/lib/actions/config";
+import { getCustomSources } from "@/lib/actions/custom-sources";
+
+export default async function SettingsPage() {
+  const [policy, customSources] = await Promise.all([getStitchingPolicy(), getCustomSources()]);
+
+  return (
+    <div className="p-8 max-w-[900px]">
+      <div className="mb-8 animate-fade-in">
+        <h1 className="text-2xl font-semibold tracking-[-0.02em] text-text-primary">
+          Settings
+        </h1>
+        <p className="mt-1 text-[13px] text-text-muted">
+          Organization-wide rules for matching imported rows to customers, and
+          the custom sources your uploads can come from
+        </p>
+      </div>
+
+      <StitchingPolicySettings initialPolicy={policy} />
+      <CustomSourcesSettings initialSources={customSources} />
+    </div>
+  );
+}
@@ -1175,7 +1175,14 @@ function CandidateOption({
   );
 }
 
-function CandidateMatchBadge({ matchedBy }: { matchedBy: "phone" | "name" }) {
+function CandidateMatchBadge({ matchedBy }: { matchedBy: StitchCandidate["matchedBy"] }) {
+  if (matchedBy === "email") {
+    return (
+      <span className="inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-medium bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300">
+        Email
+      </span>
+    );
+  }
   if (matchedBy === "phone") {
     return (
       <span className="inline-flex items-center rounded-full px-2 py-0.5 text-[10px] font-medium bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300">
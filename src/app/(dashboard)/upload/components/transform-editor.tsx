@@ -0,0 +1,378 @@
+"use client";
+
+import { useState } from "react";
+import { Plus, X, ArrowRight, AlertCircle, ChevronDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import {
+  TRANSFORM_STEP_LABELS,
+  defaultTransformStep,
+  runTransformPipeline,
+  validateTransforms,
+} from "@/lib/csv/transforms";
+import type { SourceSchema, TransformStep, FieldTransforms } from "@/lib/types";
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface TransformEditorProps {
+  schema: SourceSchema;
+  headers: string[];
+  mapping: Record<string, string>;
+  transforms: FieldTransforms;
+  sampleRows: Record<string, string>[];
+  onChange: (transforms: FieldTransforms) => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const STEP_TYPES = Object.keys(TRANSFORM_STEP_LABELS) as TransformStep["type"][];
+
+// ─── Component ──────────────────────────────────────────────
+
+export function TransformEditor({
+  schema,
+  headers,
+  mapping,
+  transforms,
+  sampleRows,
+  onChange,
+}: TransformEditorProps) {
+  const fields = Object.keys(transforms);
+  const available = schema.fields.filter((f) => !(f.key in transforms));
+  const problems = validateTransforms(transforms);
+
+  const setSteps = (field: string, steps: TransformStep[]) => {
+    onChange({ ...transforms, [field]: steps });
+  };
+
+  const removeField = (field: string) => {
+    const next = { ...transforms };
+    delete next[field];
+    onChange(next);
+  };
+
+  return (
+    <div className="rounded-xl border border-border-default bg-surface">
+      <div className="flex items-center justify-between gap-3 px-4 py-2.5">
+        <div>
+          <p className="text-[12px] font-medium text-text-primary">Transforms</p>
+          <p className="text-[11px] text-text-muted">
+            Combine, split, scale or rewrite values before they are imported
+          </p>
+        </div>
+        {available.length > 0 && (
+          <InlineSelect
+            value=""
+            placeholder="Add transform"
+            options={available.map((f) => ({ value: f.key, label: f.label }))}
+            onSelect={(field) => setSteps(field, [defaultTransformStep("concat")])}
+          />
+        )}
+      </div>
+
+      {fields.map((field) => {
+        const fieldDef = schema.fields.find((f) => f.key === field);
+        const column = Object.keys(mapping).find((h) => mapping[h] === field);
+        return (
+          <FieldPipeline
+            key={field}
+            label={fieldDef?.label ?? field}
+            column={column}
+            headers={headers}
+            steps={transforms[field]}
+            sampleRows={sampleRows}
+            onChange={(steps) => setSteps(field, steps)}
+            onRemove={() => removeField(field)}
+          />
+        );
+      })}
+
+      {problems.length > 0 && (
+        <div className="flex items-start gap-2 border-t border-border-muted px-4 py-2">
+          <AlertCircle className="mt-0.5 h-3.5 w-3.5 text-rose-500 shrink-0" />
+          <div className="text-[11px] text-rose-600 space-y-0.5">
+            {problems.map((p) => (
+              <p key={p}>{p}</p>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── One field's pipeline ───────────────────────────────────
+
+function FieldPipeline({
+  label,
+  column,
+  headers,
+  steps,
+  sampleRows,
+  onChange,
+  onRemove,
+}: {
+  label: string;
+  /** The CSV column mapped to this field, if any — the pipeline's input */
+  column: string | undefined;
+  headers: string[];
+  steps: TransformStep[];
+  sampleRows: Record<string, string>[];
+  onChange: (steps: TransformStep[]) => void;
+  onRemove: () => void;
+}) {
+  const updateStep = (index: number, step: TransformStep) => {
+    onChange(steps.map((s, i) => (i === index ? step : s)));
+  };
+
+  const preview = sampleRows.slice(0, PREVIEW_ROWS).map((row) => {
+    const input = column ? (row[column]?.trim() ?? "") : "";
+    return { input, output: runTransformPipeline(input, steps, row) };
+  });
+
+  return (
+    <div className="border-t border-border-muted px-4 py-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <p className="text-[12px] font-medium text-text-secondary">{label}</p>
+        <span className="text-[10px] font-mono text-text-muted">
+          {column ? `from ${column}` : "no column mapped"}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onRemove}
+          className="ml-auto h-6 w-6 text-text-muted hover:text-text-secondary"
+        >
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-3">
+        <div className="flex-1 space-y-1.5">
+          {steps.map((step, i) => (
+            <div key={i} className="flex flex-wrap items-center gap-1.5">
+              <span className="w-4 text-[10px] font-mono text-text-muted tabular-nums">{i + 1}</span>
+              <InlineSelect
+                value={step.type}
+                options={STEP_TYPES.map((type) => ({ value: type, label: TRANSFORM_STEP_LABELS[type] }))}
+                onSelect={(type) => updateStep(i, defaultTransformStep(type as TransformStep["type"]))}
+              />
+              <StepFields step={step} headers={headers} onChange={(s) => updateStep(i, s)} />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onChange(steps.filter((_, j) => j !== i))}
+                className="h-6 w-6 text-text-muted hover:text-text-secondary"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+          <button
+            onClick={() => onChange([...steps, defaultTransformStep("regex")])}
+            className="flex items-center gap-1 pl-5 text-[11px] font-medium text-text-muted hover:text-text-secondary transition-colors"
+          >
+            <Plus className="h-3 w-3" />
+            Add step
+          </button>
+        </div>
+
+        {/* Preview on the sample rows */}
+        <div className="lg:w-72 shrink-0 rounded-lg border border-border-muted bg-surface-elevated/50 px-3 py-2 space-y-1">
+          {preview.map(({ input, output }, i) => (
+            <div key={i} className="flex items-center gap-2 text-[11px]">
+              <span className="flex-1 truncate text-text-muted">{input || "—"}</span>
+              <ArrowRight className="h-3 w-3 shrink-0 text-text-muted" />
+              <span className={cn("flex-1 truncate", output ? "text-text-secondary" : "text-text-muted italic")}>
+                {output || "empty"}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ─── Step parameters ────────────────────────────────────────
+
+function StepFields({
+  step,
+  headers,
+  onChange,
+}: {
+  step: TransformStep;
+  headers: string[];
+  onChange: (step: TransformStep) => void;
+}) {
+  switch (step.type) {
+    case "concat":
+      return (
+        <>
+          {step.columns.map((c) => (
+            <span
+              key={c}
+              className="inline-flex items-center gap-1 rounded-md bg-surface-muted px-1.5 py-0.5 text-[10px] font-mono text-text-secondary"
+            >
+              {c}
+              <button onClick={() => onChange({ ...step, columns: step.columns.filter((x) => x !== c) })}>
+                <X className="h-2.5 w-2.5" />
+              </button>
+            </span>
+          ))}
+          <InlineSelect
+            value=""
+            placeholder="Add column"
+            options={headers.filter((h) => !step.columns.includes(h)).map((h) => ({ value: h, label: h }))}
+            onSelect={(h) => onChange({ ...step, columns: [...step.columns, h] })}
+          />
+          <StepInput label="with" value={step.separator} onChange={(separator) => onChange({ ...step, separator })} />
+        </>
+      );
+    case "split":
+      return (
+        <>
+          <StepInput label="on" value={step.separator} onChange={(separator) => onChange({ ...step, separator })} />
+          <StepNumber
+            label="keep part"
+            value={step.index >= 0 ? step.index + 1 : step.index}
+            onChange={(n) => onChange({ ...step, index: n > 0 ? n - 1 : n })}
+          />
+        </>
+      );
+    case "multiply":
+      return <StepNumber label="by" value={step.factor} onChange={(factor) => onChange({ ...step, factor })} />;
+    case "divide":
+      return <StepNumber label="by" value={step.divisor} onChange={(divisor) => onChange({ ...step, divisor })} />;
+    case "regex":
+      return (
+        <>
+          <StepInput
+            label="pattern"
+            value={step.pattern}
+            onChange={(pattern) => onChange({ ...step, pattern })}
+            className="w-40 font-mono"
+          />
+          <StepNumber label="group" value={step.group} onChange={(group) => onChange({ ...step, group })} />
+        </>
+      );
+    case "constant":
+      return <StepInput label="value" value={step.value} onChange={(value) => onChange({ ...step, value })} />;
+    case "lookup":
+      return <LookupTable table={step.table} onChange={(table) => onChange({ ...step, table })} />;
+  }
+}
+
+function StepInput({
+  label,
+  value,
+  onChange,
+  className,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+}) {
+  return (
+    <label className="flex items-center gap-1 text-[11px] text-text-muted">
+      {label}
+      <Input
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className={cn("h-7 w-20 px-2 text-[11px] border-border-default", className)}
+      />
+    </label>
+  );
+}
+
+function StepNumber({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <label className="flex items-center gap-1 text-[11px] text-text-muted">
+      {label}
+      <Input
+        type="number"
+        value={Number.isFinite(value) ? value : ""}
+        onChange={(e) => onChange(e.target.value === "" ? NaN : Number(e.target.value))}
+        className="h-7 w-20 px-2 text-[11px] border-border-default tabular-nums"
+      />
+    </label>
+  );
+}
+
+/** One "from = to" pair per line; kept as text while typing so half-written lines survive */
+function LookupTable({
+  table,
+  onChange,
+}: {
+  table: Record<string, string>;
+  onChange: (table: Record<string, string>) => void;
+}) {
+  const [text, setText] = useState(() =>
+    Object.entries(table).map(([from, to]) => `${from} = ${to}`).join("\n")
+  );
+
+  const handleChange = (value: string) => {
+    setText(value);
+    const next: Record<string, string> = {};
+    for (const line of value.split("\n")) {
+      const eq = line.indexOf("=");
+      if (eq <= 0) continue;
+      next[line.slice(0, eq).trim()] = line.slice(eq + 1).trim();
+    }
+    onChange(next);
+  };
+
+  return (
+    <textarea
+      value={text}
+      onChange={(e) => handleChange(e.target.value)}
+      placeholder={"paid = succeeded\nrefunded = refunded"}
+      rows={Math.max(2, text.split("\n").length)}
+      className="w-56 rounded-md border border-border-default bg-surface px-2 py-1 text-[11px] font-mono text-text-secondary"
+    />
+  );
+}
+
+function InlineSelect({
+  value,
+  placeholder,
+  options,
+  onSelect,
+}: {
+  value: string;
+  placeholder?: string;
+  options: { value: string; label: string }[];
+  onSelect: (value: string) => void;
+}) {
+  return (
+    <div className="relative">
+      <select
+        value={value}
+        onChange={(e) => onSelect(e.target.value)}
+        className="h-7 rounded-md border border-border-default bg-surface px-2 pr-7 text-[11px] font-medium text-text-secondary appearance-none cursor-pointer hover:border-border-default transition-colors"
+      >
+        {placeholder && (
+          <option value="" disabled>
+            {placeholder}
+          </option>
+        )}
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 h-3 w-3 text-text-muted pointer-events-none" />
+    </div>
+  );
+}
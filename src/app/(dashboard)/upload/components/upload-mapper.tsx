@@ -15,9 +15,13 @@ import {
   Calendar,
   Ticket,
   ShoppingCart,
+  ShoppingBag,
+  Receipt,
+  Dumbbell,
   Plane,
   Users,
   TrendingUp,
+  Database,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -29,23 +33,47 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { cn } from "@/lib/utils";
-import { parseCSVContent } from "@/lib/csv/parser";
+import { parseCSVContent, MAX_UPLOAD_BYTES } from "@/lib/csv/parser";
+import {
+  readUploadFile,
+  isSupportedUploadFile,
+  UPLOAD_FILE_ACCEPT,
+  type UploadFileContents,
+} from "@/lib/csv/read-file";
 import {
   generateMappingSuggestions,
   suggestionsToMapping,
 } from "@/lib/csv/heuristic-mapper";
-import { getSchema, schemaKeyToSourceType, detectAttributionSubtype } from "@/lib/csv/schemas";
+import {
+  DATE_ORDER_LABELS,
+  DEFAULT_TIMEZONE,
+  inferDateFormat,
+  listTimeZones,
+  type DateFormat,
+  type DateOrder,
+} from "@/lib/csv/dates";
+import { activeTransforms, applyTransforms } from "@/lib/csv/transforms";
+import { activeValueMappings } from "@/lib/csv/stored-mapping";
+import { collectEnumValues } from "@/lib/csv/normalizers";
+import { applyMapping } from "@/lib/csv/validators";
+import { getSchema, schemaKeyToSourceType, detectAttributionSubtype, resolveSchemaKey } from "@/lib/csv/schemas";
 import { detectSource, isConfidentDetection } from "@/lib/csv/detect-source";
+import { isCustomSource } from "@/lib/csv/custom-sources";
 import { getSavedMappings } from "@/lib/actions/mappings";
+import { getCustomSchemas } from "@/lib/actions/custom-sources";
 import type {
   SourceType,
   SchemaKey,
   SourceSchema,
   MappingSuggestion,
   SavedMapping,
+  FieldTransforms,
+  ValueMappings,
 } from "@/lib/types";
 import type { DetectionResult } from "@/lib/csv/detect-source";
 import type { MapperRestoredData } from "@/lib/upload-session";
+import { TransformEditor } from "./transform-editor";
+import { ValueMappingEditor } from "./value-mapping-editor";
 
 // ─── Types ───────────────────────────────────────────────────
 
@@ -70,13 +98,21 @@ interface UploadMapperProps {
     mapping: Record<string, string>;
     headers: string[];
     totalRows: number;
+    /** The chosen order, or the inferred one when "auto" settles it */
+    dateFormat: DateFormat;
+    timezone: string;
+    transforms: FieldTransforms;
+    valueMappings: ValueMappings;
   }) => void;
   onClear: () => void;
   onSaveTemplate: (
     source: SourceType,
     name: string,
     mapping: Record<string, string>,
-    headers: string[]
+    headers: string[],
+    dates: { dateFormat: DateFormat; timezone: string },
+    transforms: FieldTransforms,
+    valueMappings: ValueMappings
   ) => void;
   onMultipleFiles?: (entries: MultiFileEntry[]) => void;
   initialData?: MapperRestoredData | null;
@@ -102,17 +138,33 @@ const SOURCE_META: Record<
   passline: { label: "PassLine", icon: Ticket, color: "text-emerald-500" },
   pos: { label: "POS", icon: ShoppingCart, color: "text-orange-500" },
   wetravel: { label: "WeTravel", icon: Plane, color: "text-cyan-500" },
+  shopify: { label: "Shopify", icon: ShoppingBag, color: "text-lime-600" },
+  square: { label: "Square", icon: Receipt, color: "text-sky-500" },
+  mindbody: { label: "Mindbody", icon: Dumbbell, color: "text-yellow-600" },
+  mindbody_sales: { label: "Mindbody (Sales)", icon: Dumbbell, color: "text-yellow-600" },
+  mindbody_visits: { label: "Mindbody (Visits)", icon: Dumbbell, color: "text-yellow-600" },
   crm: { label: "CRM / Members", icon: Users, color: "text-indigo-500" },
   attribution: { label: "Attribution", icon: TrendingUp, color: "text-rose-500" },
   attribution_firsttouch: { label: "Attribution (First Touch)", icon: TrendingUp, color: "text-rose-500" },
   attribution_journeys: { label: "Attribution (Journeys)", icon: TrendingUp, color: "text-rose-500" },
 };
 
+/** Display info for a source; custom sources use their schema's name */
+function sourceMetaFor(source: string, customSchemas: SourceSchema[]) {
+  return SOURCE_META[source] ?? {
+    label: customSchemas.find((s) => s.source === source)?.label ?? source,
+    icon: Database,
+    color: "text-slate-500",
+  };
+}
+
 function SourcePicker({
   results,
+  customSchemas,
   onSelect,
 }: {
   results: DetectionResult[];
+  customSchemas: SourceSchema[];
   onSelect: (source: SourceType | SchemaKey) => void;
 }) {
   const crmMeta = SOURCE_META.crm;
@@ -131,8 +183,8 @@ function SourcePicker({
       {results.length > 0 && (
         <div className="flex gap-2 flex-wrap">
           {results.map((r) => {
-            const meta = SOURCE_META[r.source];
-            if (!meta) return null;
+            if (!SOURCE_META[r.source] && !isCustomSource(r.source)) return null;
+            const meta = sourceMetaFor(r.source, customSchemas);
             const Icon = meta.icon;
             return (
               <button
@@ -152,7 +204,7 @@ function SourcePicker({
       )}
       <div className="border-t border-amber-200 dark:border-amber-500/20 pt-3">
         <p className="text-[11px] text-text-muted mb-2">Or choose a data type:</p>
-        <div className="flex gap-2">
+        <div className="flex gap-2 flex-wrap">
           <button
             onClick={() => onSelect("crm")}
             className="flex items-center gap-2 rounded-lg border border-border-default bg-surface px-3 py-2 text-[12px] font-medium text-text-secondary hover:border-border-default hover:shadow-sm transition-all"
@@ -167,6 +219,16 @@ function SourcePicker({
             <AttrIcon className={cn("h-4 w-4", attrMeta.color)} strokeWidth={1.8} />
             {attrMeta.label}
           </button>
+          {customSchemas.map((custom) => (
+            <button
+              key={custom.source}
+              onClick={() => onSelect(custom.source)}
+              className="flex items-center gap-2 rounded-lg border border-border-default bg-surface px-3 py-2 text-[12px] font-medium text-text-secondary hover:border-border-default hover:shadow-sm transition-all"
+            >
+              <Database className="h-4 w-4 text-slate-500" strokeWidth={1.8} />
+              {custom.label}
+            </button>
+          ))}
         </div>
       </div>
     </div>
@@ -325,6 +387,10 @@ export function UploadMapper({
   // File state
   const [file, setFile] = useState<File | null>(null);
   const [fileContent, setFileContent] = useState("");
+  // The file as dropped — a workbook is re-read when another sheet is picked
+  const [sourceFile, setSourceFile] = useState<File | null>(null);
+  const [sheets, setSheets] = useState<string[] | null>(null);
+  const [sheet, setSheet] = useState<string | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [fileError, setFileError] = useState<string | null>(null);
 
@@ -347,6 +413,16 @@ export function UploadMapper({
   const [suggestions, setSuggestions] = useState<MappingSuggestion[]>([]);
   const [savedMappings, setSavedMappings] = useState<SavedMapping[]>([]);
 
+  // Date parsing state
+  const [dateFormat, setDateFormat] = useState<DateFormat>("auto");
+  const [timezone, setTimezone] = useState(DEFAULT_TIMEZONE);
+
+  // Transform pipelines, keyed by schema field
+  const [transforms, setTransforms] = useState<FieldTransforms>({});
+
+  // User mappings for enum values, keyed by schema field
+  const [valueMappings, setValueMappings] = useState<ValueMappings>({});
+
   // UI state
   const [saveDialogOpen, setSaveDialogOpen] = useState(false);
   const [templateName, setTemplateName] = useState("");
@@ -354,7 +430,18 @@ export function UploadMapper({
   // Attribution sub-type tracking
   const [resolvedSchemaKey, setResolvedSchemaKey] = useState<SchemaKey | undefined>();
 
-  const schema = resolvedSchemaKey ? getSchema(resolvedSchemaKey) : (detectedSource ? getSchema(detectedSource) : null);
+  // The org's custom sources, detected and picked like the built-ins
+  const [customSchemas, setCustomSchemas] = useState<SourceSchema[]>([]);
+
+  useEffect(() => {
+    getCustomSchemas()
+      .then(setCustomSchemas)
+      .catch(() => {});
+  }, []);
+
+  const schema = resolvedSchemaKey
+    ? getSchema(resolvedSchemaKey, customSchemas)
+    : (detectedSource ? getSchema(detectedSource, customSchemas) : null);
 
   // Confidence map
   const confidenceMap = useMemo(() => {
@@ -365,10 +452,10 @@ export function UploadMapper({
     return m;
   }, [suggestions]);
 
-  // Used fields
+  // Used fields — a field with a transform is filled even without a column
   const usedFields = useMemo(() => {
-    return new Set(Object.values(mapping));
-  }, [mapping]);
+    return new Set([...Object.values(mapping), ...Object.keys(activeTransforms(transforms))]);
+  }, [mapping, transforms]);
 
   // Required fields check
   const requiredFields = schema?.fields.filter((f) => f.required) ?? [];
@@ -377,6 +464,42 @@ export function UploadMapper({
   );
   const mappedCount = Object.values(mapping).filter(Boolean).length;
 
+  // Date order inferred from every row's mapped date columns, for "auto"
+  const dateInference = useMemo(() => {
+    if (!schema) return null;
+    const dateFields = new Set(
+      schema.fields.filter((f) => f.type === "date" || f.type === "timestamp").map((f) => f.key)
+    );
+    const dateColumns = Object.entries(mapping).filter(([, field]) => dateFields.has(field));
+    const dateTransforms = Object.fromEntries(
+      Object.entries(activeTransforms(transforms)).filter(([field]) => dateFields.has(field))
+    );
+    if (dateColumns.length === 0 && Object.keys(dateTransforms).length === 0) return null;
+    const rows = allRows.map((row) => {
+      const mapped: Record<string, string | null> = Object.fromEntries(
+        dateColumns.map(([header, field]) => [field, row[header] ?? null])
+      );
+      applyTransforms(mapped, row, dateTransforms);
+      return mapped;
+    });
+    return inferDateFormat(rows, schema);
+  }, [schema, mapping, transforms, allRows]);
+
+  const resolvedDateFormat: DateFormat =
+    dateFormat === "auto" ? (dateInference?.order ?? "auto") : dateFormat;
+
+  // Distinct values of mapped enum columns, for the value mapping editor
+  const enumColumns = useMemo(() => {
+    if (!schema || !detectedSource) return [];
+    const enumFields = schema.fields.filter((f) => f.type === "enum").map((f) => f.key);
+    const active = activeTransforms(transforms);
+    if (!enumFields.some((key) => Object.values(mapping).includes(key) || key in active)) return [];
+    const rows = allRows.map((row) => applyMapping(row, mapping, active));
+    return collectEnumValues(rows, schema, detectedSource);
+  }, [schema, detectedSource, mapping, transforms, allRows]);
+
+  const timeZones = useMemo(() => listTimeZones(), []);
+
   // Visible rows for the table
   const rows = useMemo(
     () => allRows.slice(0, visibleRowCount),
@@ -400,13 +523,25 @@ export function UploadMapper({
     setTotalRows(parsed.totalRows);
     setSampleRows(parsed.sampleRows);
     setDetectedSource(initialData.source);
+    setResolvedSchemaKey(initialData.schemaKey);
     setMapping(initialData.mapping);
-
-    const schema = getSchema(initialData.source);
-    if (schema) {
-      setSuggestions(
-        generateMappingSuggestions(parsed.headers, schema, parsed.sampleRows)
-      );
+    setDateFormat(initialData.dateFormat ?? "auto");
+    setTimezone(initialData.timezone ?? DEFAULT_TIMEZONE);
+    setTransforms(initialData.transforms ?? {});
+    setValueMappings(initialData.valueMappings ?? {});
+
+    const restoreSuggestions = (schemas: SourceSchema[]) => {
+      const schema = getSchema(initialData.schemaKey ?? initialData.source, schemas);
+      if (schema) {
+        setSuggestions(
+          generateMappingSuggestions(parsed.headers, schema, parsed.sampleRows)
+        );
+      }
+    };
+    if (isCustomSource(initialData.source)) {
+      getCustomSchemas().then(restoreSuggestions).catch(() => {});
+    } else {
+      restoreSuggestions([]);
     }
 
     getSavedMappings(initialData.source)
@@ -430,6 +565,10 @@ export function UploadMapper({
         mapping,
         headers,
         totalRows,
+        dateFormat: resolvedDateFormat,
+        timezone,
+        transforms: activeTransforms(transforms),
+        valueMappings: activeValueMappings(valueMappings),
       });
     }
   }, [
@@ -440,25 +579,34 @@ export function UploadMapper({
     resolvedSchemaKey,
     headers,
     totalRows,
+    resolvedDateFormat,
+    timezone,
+    transforms,
+    valueMappings,
     onReady,
   ]);
 
   // ─── Apply mapping for a given source ────────────────────
 
   const applySource = useCallback(
-    async (source: SourceType, hdrs: string[], samples: Record<string, string>[]) => {
-      // For attribution, resolve sub-type from headers
+    async (source: SourceType, hdrs: string[], samples: Record<string, string>[], pickedKey?: SchemaKey) => {
+      // For attribution and Mindbody, resolve sub-type from headers (Mindbody: unless picked)
       let effectiveKey: SchemaKey = source;
       if (source === "attribution") {
         effectiveKey = detectAttributionSubtype(hdrs);
+      } else if (source === "mindbody") {
+        effectiveKey = resolveSchemaKey(source, hdrs, pickedKey) as SchemaKey;
       }
       setResolvedSchemaKey(effectiveKey);
       setDetectedSource(source);
 
-      const s = getSchema(effectiveKey) ?? getSchema(source)!;
+      const s = getSchema(effectiveKey, customSchemas) ?? getSchema(source, customSchemas);
+      if (!s) return;
       const suggs = generateMappingSuggestions(hdrs, s, samples);
       setSuggestions(suggs);
       setMapping(suggestionsToMapping(suggs));
+      setTransforms({});
+      setValueMappings({});
 
       try {
         const saved = await getSavedMappings(source);
@@ -467,39 +615,44 @@ export function UploadMapper({
         // Non-critical
       }
     },
-    []
+    [customSchemas]
   );
 
   // ─── File handling ───────────────────────────────────────
 
   const processFile = useCallback(
-    async (f: File) => {
+    async (f: File, sheetName?: string) => {
       setFileError(null);
       setNeedsSourcePick(false);
 
-      if (!f.name.toLowerCase().endsWith(".csv")) {
-        setFileError("Only CSV files are supported");
+      if (!isSupportedUploadFile(f.name)) {
+        setFileError("Only CSV, TSV and Excel (.xlsx) files are supported");
         return;
       }
-      if (f.size > 10 * 1024 * 1024) {
-        setFileError("File too large (max 10 MB)");
+      if (f.size > MAX_UPLOAD_BYTES) {
+        setFileError(`File too large (max ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB)`);
         return;
       }
 
-      const content = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => resolve(e.target?.result as string);
-        reader.onerror = () => reject(new Error("Failed to read file"));
-        reader.readAsText(f);
-      });
+      let contents: UploadFileContents;
+      try {
+        contents = await readUploadFile(f, sheetName);
+      } catch (err) {
+        setFileError(err instanceof Error ? err.message : "Failed to read file");
+        return;
+      }
+      const { content } = contents;
 
       if (!content?.trim()) {
-        setFileError("File is empty");
+        setFileError(contents.sheet ? `Sheet "${contents.sheet}" is empty` : "File is empty");
         return;
       }
 
-      setFile(f);
+      setFile(contents.file);
       setFileContent(content);
+      setSourceFile(f);
+      setSheets(contents.sheets);
+      setSheet(contents.sheet);
 
       // Parse
       const parsed = parseCSVContent(content);
@@ -510,48 +663,49 @@ export function UploadMapper({
       setVisibleRowCount(50);
 
       // Auto-detect source
-      const results = detectSource(parsed.headers, parsed.sampleRows);
+      const results = detectSource(parsed.headers, parsed.sampleRows, customSchemas);
       setDetectionResults(results);
 
       if (isConfidentDetection(results)) {
         // Auto-select — map SchemaKey back to SourceType
         const detectedKey = results[0].source;
-        const dbSource = (detectedKey.startsWith("attribution") ? "attribution" : detectedKey) as SourceType;
-        await applySource(dbSource, parsed.headers, parsed.sampleRows);
+        const dbSource = schemaKeyToSourceType(detectedKey) as SourceType;
+        await applySource(dbSource, parsed.headers, parsed.sampleRows, detectedKey);
       } else {
         // Need user to pick
         setNeedsSourcePick(true);
       }
     },
-    [applySource]
+    [applySource, customSchemas]
   );
 
   const processMultipleFiles = useCallback(
     async (files: File[]) => {
       const entries: MultiFileEntry[] = [];
       for (const f of files) {
-        if (!f.name.toLowerCase().endsWith(".csv")) continue;
-        if (f.size > 10 * 1024 * 1024) continue;
-
-        const content = await new Promise<string>((resolve, reject) => {
-          const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.onerror = () => reject(new Error("Failed to read file"));
-          reader.readAsText(f);
-        });
+        if (!isSupportedUploadFile(f.name)) continue;
+        if (f.size > MAX_UPLOAD_BYTES) continue;
+
+        let contents: UploadFileContents;
+        try {
+          contents = await readUploadFile(f);
+        } catch {
+          continue;
+        }
+        const { content } = contents;
 
         if (!content?.trim()) continue;
 
         const parsed = parseCSVContent(content);
-        const results = detectSource(parsed.headers, parsed.sampleRows);
+        const results = detectSource(parsed.headers, parsed.sampleRows, customSchemas);
         const confident = isConfidentDetection(results);
 
         // Map SchemaKey back to SourceType for DB writes
         const detectedKey = confident ? results[0].source : null;
-        const dbSource = detectedKey ? (detectedKey.startsWith("attribution") ? "attribution" : detectedKey) as SourceType : null;
+        const dbSource = detectedKey ? schemaKeyToSourceType(detectedKey) as SourceType : null;
 
         entries.push({
-          file: f,
+          file: contents.file,
           content,
           source: dbSource,
           schemaKey: detectedKey ?? undefined,
@@ -563,7 +717,7 @@ export function UploadMapper({
       }
       return entries;
     },
-    []
+    [customSchemas]
   );
 
   const handleDrop = useCallback(
@@ -572,7 +726,7 @@ export function UploadMapper({
       setIsDragging(false);
 
       const files = Array.from(e.dataTransfer.files).filter((f) =>
-        f.name.toLowerCase().endsWith(".csv")
+        isSupportedUploadFile(f.name)
       );
 
       if (files.length > 1 && onMultipleFiles) {
@@ -590,6 +744,10 @@ export function UploadMapper({
   const clearFile = () => {
     setFile(null);
     setFileContent("");
+    setSourceFile(null);
+    setSheets(null);
+    setSheet(null);
+    setFileError(null);
     setHeaders([]);
     setAllRows([]);
     setTotalRows(0);
@@ -601,15 +759,23 @@ export function UploadMapper({
     setDetectionResults([]);
     setNeedsSourcePick(false);
     setSavedMappings([]);
+    setDateFormat("auto");
+    setTimezone(DEFAULT_TIMEZONE);
+    setTransforms({});
+    setValueMappings({});
     if (inputRef.current) inputRef.current.value = "";
     onClear();
   };
 
+  const handleSheetSelect = (name: string) => {
+    if (sourceFile && name !== sheet) processFile(sourceFile, name);
+  };
+
   const handleSourcePick = async (source: SourceType | SchemaKey) => {
     setNeedsSourcePick(false);
-    // For attribution sub-types detected by the source detector, resolve to base SourceType
-    const dbSource = (source.startsWith("attribution") ? "attribution" : source) as SourceType;
-    await applySource(dbSource, headers, sampleRows);
+    // For attribution and Mindbody sub-types detected by the source detector, resolve to base SourceType
+    const dbSource = schemaKeyToSourceType(source) as SourceType;
+    await applySource(dbSource, headers, sampleRows, source);
   };
 
   // ─── Mapping handling ────────────────────────────────────
@@ -636,11 +802,23 @@ export function UploadMapper({
 
   const handleLoadSaved = (saved: SavedMapping) => {
     setMapping(saved.mapping);
+    setDateFormat(saved.date_format ?? "auto");
+    setTimezone(saved.timezone ?? DEFAULT_TIMEZONE);
+    setTransforms(saved.transforms);
+    setValueMappings(saved.value_mappings);
   };
 
   const handleSaveTemplate = () => {
     if (!templateName.trim() || !detectedSource) return;
-    onSaveTemplate(detectedSource, templateName.trim(), mapping, headers);
+    onSaveTemplate(
+      detectedSource,
+      templateName.trim(),
+      mapping,
+      headers,
+      { dateFormat, timezone },
+      activeTransforms(transforms),
+      activeValueMappings(valueMappings)
+    );
     setSaveDialogOpen(false);
     setTemplateName("");
   };
@@ -682,7 +860,7 @@ export function UploadMapper({
             <p className="mt-4 text-[13px] font-medium text-text-secondary">
               {isDragging
                 ? "Drop your file(s) here"
-                : "Drag & drop CSV exports from your systems"}
+                : "Drag & drop CSV or Excel exports from your systems"}
             </p>
             <p className="mt-1 text-[12px] text-text-muted">
               or{" "}
@@ -696,7 +874,7 @@ export function UploadMapper({
         <input
           ref={inputRef}
           type="file"
-          accept=".csv"
+          accept={UPLOAD_FILE_ACCEPT}
           multiple
           onChange={async (e) => {
             const files = Array.from(e.target.files ?? []);
@@ -731,7 +909,21 @@ export function UploadMapper({
         {/* Compact file bar */}
         <FileBar file={file} onClear={clearFile} />
 
-        <SourcePicker results={detectionResults} onSelect={handleSourcePick} />
+        {sheets && sheets.length > 1 && (
+          <div className="flex items-center gap-2">
+            <span className="text-[11px] text-text-muted">Sheet</span>
+            <ToolbarSelect
+              value={sheet ?? ""}
+              options={sheets.map((name) => ({ value: name, label: name }))}
+              onSelect={handleSheetSelect}
+            />
+          </div>
+        )}
+        {fileError && (
+          <p className="text-[12px] font-medium text-rose-600">{fileError}</p>
+        )}
+
+        <SourcePicker results={detectionResults} customSchemas={customSchemas} onSelect={handleSourcePick} />
 
         {/* Still show raw data preview while picking */}
         <RawPreview headers={headers} rows={allRows.slice(0, 4)} totalRows={totalRows} />
@@ -743,7 +935,7 @@ export function UploadMapper({
 
   if (!schema) return null;
 
-  const sourceMeta = SOURCE_META[detectedSource!];
+  const sourceMeta = sourceMetaFor(detectedSource!, customSchemas);
 
   return (
     <div className="space-y-4">
@@ -795,6 +987,13 @@ export function UploadMapper({
         </div>
 
         <div className="flex items-center gap-2 shrink-0">
+          {sheets && sheets.length > 1 && (
+            <ToolbarSelect
+              value={sheet ?? ""}
+              options={sheets.map((name) => ({ value: name, label: name }))}
+              onSelect={handleSheetSelect}
+            />
+          )}
           {savedMappings.length > 0 && (
             <div className="relative">
               <select
@@ -832,6 +1031,53 @@ export function UploadMapper({
         </div>
       </div>
 
+      {/* Date format and timezone, when date columns are mapped */}
+      {dateInference && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-[11px] text-text-muted">Dates</span>
+          <ToolbarSelect
+            value={dateFormat}
+            options={[
+              {
+                value: "auto",
+                label: dateInference.order
+                  ? `Auto (${DATE_ORDER_LABELS[dateInference.order]})`
+                  : "Auto",
+              },
+              ...(Object.keys(DATE_ORDER_LABELS) as DateOrder[]).map((order) => ({
+                value: order,
+                label: DATE_ORDER_LABELS[order],
+              })),
+            ]}
+            onSelect={(value) => setDateFormat(value as DateFormat)}
+          />
+          <span className="ml-2 text-[11px] text-text-muted">Timezone</span>
+          <ToolbarSelect
+            value={timezone}
+            options={timeZones.map((zone) => ({ value: zone, label: zone.replace(/_/g, " ") }))}
+            onSelect={setTimezone}
+            className="w-44"
+          />
+        </div>
+      )}
+
+      {/* Ambiguous dates — only while the format is left on auto */}
+      {dateFormat === "auto" && dateInference && dateInference.warnings.length > 0 && (
+        <div className="flex items-start gap-2 rounded-lg border border-amber-200 dark:border-amber-500/20 bg-amber-50/60 dark:bg-amber-500/5 px-3 py-2">
+          <AlertCircle className="mt-0.5 h-3.5 w-3.5 text-amber-500 shrink-0" />
+          <div className="text-[11px] text-amber-700 dark:text-amber-300 space-y-0.5">
+            {dateInference.warnings.map((w) => (
+              <p key={w.field}>{w.message}</p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Sheet switch failed (e.g. an empty sheet) — the previous sheet stays loaded */}
+      {fileError && (
+        <p className="text-[12px] font-medium text-rose-600">{fileError}</p>
+      )}
+
       {/* Missing required warning */}
       {missingRequired.length > 0 && (
         <div className="flex items-center gap-2 rounded-lg border border-amber-200 dark:border-amber-500/20 bg-amber-50/60 dark:bg-amber-500/5 px-3 py-2">
@@ -843,6 +1089,23 @@ export function UploadMapper({
         </div>
       )}
 
+      <TransformEditor
+        schema={schema}
+        headers={headers}
+        mapping={mapping}
+        transforms={transforms}
+        sampleRows={sampleRows}
+        onChange={setTransforms}
+      />
+
+      {enumColumns.length > 0 && (
+        <ValueMappingEditor
+          columns={enumColumns}
+          valueMappings={valueMappings}
+          onChange={setValueMappings}
+        />
+      )}
+
       {/* Data table */}
       <div className="rounded-xl border border-border-default bg-surface overflow-hidden">
         <div className="overflow-x-auto">
@@ -1028,6 +1291,35 @@ function FileBar({ file, onClear }: { file: File; onClear: () => void }) {
   );
 }
 
+function ToolbarSelect({
+  value,
+  options,
+  onSelect,
+  className,
+}: {
+  value: string;
+  options: { value: string; label: string }[];
+  onSelect: (value: string) => void;
+  className?: string;
+}) {
+  return (
+    <div className={cn("relative", className)}>
+      <select
+        value={value}
+        onChange={(e) => onSelect(e.target.value)}
+        className="h-8 w-full rounded-md border border-border-default bg-surface px-2 pr-7 text-[11px] font-medium text-text-secondary appearance-none cursor-pointer hover:border-border-default transition-colors"
+      >
+        {options.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 h-3 w-3 text-text-muted pointer-events-none" />
+    </div>
+  );
+}
+
 function RawPreview({
   headers,
   rows,
@@ -0,0 +1,97 @@
+"use client";
+
+import { ArrowRight, ChevronDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { EnumColumnValues } from "@/lib/csv/normalizers";
+import type { ValueMappings } from "@/lib/types";
+
+// ─── Types ──────────────────────────────────────────────────
+
+interface ValueMappingEditorProps {
+  columns: EnumColumnValues[];
+  valueMappings: ValueMappings;
+  onChange: (valueMappings: ValueMappings) => void;
+}
+
+// ─── Component ──────────────────────────────────────────────
+
+export function ValueMappingEditor({ columns, valueMappings, onChange }: ValueMappingEditorProps) {
+  const setValue = (field: string, key: string, target: string) => {
+    const values = { ...valueMappings[field] };
+    if (target) values[key] = target;
+    else delete values[key];
+    onChange({ ...valueMappings, [field]: values });
+  };
+
+  return (
+    <div className="rounded-xl border border-border-default bg-surface">
+      {columns.map(({ field, values, truncated }) => {
+        const allowed = field.enumValues ?? [];
+        const userMap = valueMappings[field.key] ?? {};
+        const unmatched = values.filter((v) => !allowed.includes(userMap[v.key] ?? v.builtIn)).length;
+
+        return (
+          <div key={field.key} className="border-b border-border-muted last:border-b-0 px-4 py-3 space-y-2">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <p className="text-[12px] font-medium text-text-primary">{field.label} values</p>
+                <p className="text-[11px] text-text-muted">
+                  Map each value in the file to one of: {allowed.join(", ")}
+                </p>
+              </div>
+              {unmatched > 0 && (
+                <span className="text-[11px] font-medium text-amber-600">
+                  {unmatched} {unmatched === 1 ? "value" : "values"} not recognized
+                </span>
+              )}
+            </div>
+
+            <div className="grid gap-1.5 sm:grid-cols-2">
+              {values.map((v) => {
+                const target = userMap[v.key] ?? "";
+                const valid = allowed.includes(target || v.builtIn);
+                return (
+                  <div key={v.key} className="flex items-center gap-2 text-[11px]">
+                    <span className={cn("flex-1 truncate", valid ? "text-text-secondary" : "text-rose-600")}>
+                      {v.value}
+                    </span>
+                    <span className="text-[10px] text-text-muted tabular-nums">{v.count}</span>
+                    <ArrowRight className="h-3 w-3 shrink-0 text-text-muted" />
+                    <div className="relative w-40 shrink-0">
+                      <select
+                        value={target}
+                        onChange={(e) => setValue(field.key, v.key, e.target.value)}
+                        className={cn(
+                          "h-7 w-full rounded-md border bg-surface px-2 pr-7 text-[11px] font-medium appearance-none cursor-pointer transition-colors",
+                          valid
+                            ? "border-border-default text-text-secondary"
+                            : "border-rose-300 dark:border-rose-500/30 text-rose-600"
+                        )}
+                      >
+                        <option value="">
+                          {allowed.includes(v.builtIn) ? `Auto (${v.builtIn})` : "Not recognized"}
+                        </option>
+                        {allowed.map((value) => (
+                          <option key={value} value={value}>
+                            {value}
+                          </option>
+                        ))}
+                      </select>
+                      <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 h-3 w-3 text-text-muted pointer-events-none" />
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {truncated && (
+              <p className="text-[11px] text-text-muted">
+                Showing the {values.length} most common values
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
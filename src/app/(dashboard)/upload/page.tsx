@@ -26,18 +26,30 @@ import { Progress } from "@/components/ui/progress";
 import { UploadMapper, type MultiFileEntry } from "./components/upload-mapper";
 import { StitchPreview } from "./components/stitch-preview";
 
-import { previewCSV, uploadCSV, previewStitching, previewStitchingFast, previewCRMStitching, previewAttributionStitching } from "@/lib/actions/import";
+import { previewStitching, previewCRMStitching, previewAttributionStitching } from "@/lib/actions/import";
 import { generateMappingSuggestions, suggestionsToMapping } from "@/lib/csv/heuristic-mapper";
-import { getSchema } from "@/lib/csv/schemas";
-import { parseCSVContent } from "@/lib/csv/parser";
+import { getSchema, resolveSchemaKey, schemaKeyToSourceType } from "@/lib/csv/schemas";
+import { parseCSVContent, MAX_UPLOAD_BYTES } from "@/lib/csv/parser";
+import {
+  readUploadFile,
+  isSupportedUploadFile,
+  UPLOAD_FILE_ACCEPT,
+  type UploadFileContents,
+} from "@/lib/csv/read-file";
 import { saveMappingTemplate } from "@/lib/actions/mappings";
+import { getCustomSchemas } from "@/lib/actions/custom-sources";
+import { DEFAULT_TIMEZONE, type DateFormat } from "@/lib/csv/dates";
+import { postUpload, type UploadProgress } from "@/lib/upload-stream";
 
 import type {
   SourceType,
   SchemaKey,
+  SourceSchema,
   ImportResultDetailed,
   StitchPreviewResult,
   StitchDecisions,
+  FieldTransforms,
+  ValueMappings,
 } from "@/lib/types";
 import { detectSource, isConfidentDetection, type DetectionResult } from "@/lib/csv/detect-source";
 
@@ -52,6 +64,7 @@ interface MultiFileQueueEntry {
   file: File;
   content: string;
   source: SourceType | null;
+  schemaKey?: SchemaKey;
   headers: string[];
   totalRows: number;
   needsSourcePick: boolean;
@@ -73,6 +86,15 @@ interface MultiFileQueueEntry {
 
 type Step = 1 | 2 | 3;
 
+/**
+ * Share of the file the server has worked through. Held below 100 until
+ * the result arrives — conflict detection runs after the last row.
+ */
+function uploadPercent(progress: UploadProgress | null): number {
+  if (!progress || progress.totalBytes === 0) return 0;
+  return Math.min(99, (100 * progress.bytesRead) / progress.totalBytes);
+}
+
 const STEP_LABELS: Record<Step, string> = {
   1: "Upload & Map",
   2: "Verify",
@@ -96,10 +118,15 @@ export default function UploadPage() {
     mapping: Record<string, string>;
     headers: string[];
     totalRows: number;
+    dateFormat: DateFormat;
+    timezone: string;
+    transforms: FieldTransforms;
+    valueMappings: ValueMappings;
   } | null>(null);
 
   const [isMapperReady, setIsMapperReady] = useState(false);
   const [isVerifying, setIsVerifying] = useState(false);
+  const [verifyProgress, setVerifyProgress] = useState<UploadProgress | null>(null);
 
   // Step 2 — stitch preview
   const [stitchPreview, setStitchPreviewResult] =
@@ -110,6 +137,7 @@ export default function UploadPage() {
   const [importResult, setImportResult] =
     useState<ImportResultDetailed | null>(null);
   const [isImporting, setIsImporting] = useState(false);
+  const [importProgress, setImportProgress] = useState<UploadProgress | null>(null);
 
   // Multi-file queue
   const [multiFileQueue, setMultiFileQueue] = useState<MultiFileQueueEntry[] | null>(null);
@@ -117,10 +145,21 @@ export default function UploadPage() {
   const [reviewingIndex, setReviewingIndex] = useState<number | null>(null);
   const [multiImportStarted, setMultiImportStarted] = useState(false);
   const [importingFileIndex, setImportingFileIndex] = useState<number | null>(null);
-  const [importingFileStart, setImportingFileStart] = useState<number>(0);
   const addMoreInputRef = useRef<HTMLInputElement>(null);
   const multiImportAbortRef = useRef(false);
 
+  // The org's custom sources, for detection and mapping of queued files
+  const [customSchemas, setCustomSchemas] = useState<SourceSchema[]>([]);
+
+  useEffect(() => {
+    getCustomSchemas()
+      .then(setCustomSchemas)
+      .catch(() => {});
+  }, []);
+
+  const sourceLabel = (source: string) =>
+    customSchemas.find((s) => s.source === source)?.label ?? source;
+
   // Scroll to top when switching between multi-file review files
   useEffect(() => {
     if (reviewingIndex !== null) window.scrollTo({ top: 0 });
@@ -131,22 +170,8 @@ export default function UploadPage() {
     useState<MapperRestoredData | null>(null);
   const [sessionLoaded, setSessionLoaded] = useState(false);
 
-  // Per-file import progress: eased value for the currently-importing file
+  // Per-file import progress for the currently-importing file
   const [fileImportProgress, setFileImportProgress] = useState(0);
-  useEffect(() => {
-    if (importingFileIndex === null) {
-      setFileImportProgress(0);
-      return;
-    }
-    const HALF_LIFE = 10_000;
-    const RATE = Math.LN2 / HALF_LIFE;
-    const INTERVAL = 200;
-    const timer = setInterval(() => {
-      const elapsed = Date.now() - importingFileStart;
-      setFileImportProgress(100 * (1 - Math.exp(-RATE * elapsed)));
-    }, INTERVAL);
-    return () => clearInterval(timer);
-  }, [importingFileIndex, importingFileStart]);
 
   // Restore session on mount (async — load is now async due to IndexedDB)
   useEffect(() => {
@@ -196,6 +221,10 @@ export default function UploadPage() {
             mapping: session.mapper.mapping,
             headers: session.mapper.headers,
             totalRows: session.mapper.totalRows,
+            dateFormat: session.mapper.dateFormat ?? "auto",
+            timezone: session.mapper.timezone ?? DEFAULT_TIMEZONE,
+            transforms: session.mapper.transforms ?? {},
+            valueMappings: session.mapper.valueMappings ?? {},
           };
           setIsMapperReady(true);
           setRestoredMapperData(session.mapper);
@@ -224,6 +253,10 @@ export default function UploadPage() {
       mapping: Record<string, string>;
       headers: string[];
       totalRows: number;
+      dateFormat: DateFormat;
+      timezone: string;
+      transforms: FieldTransforms;
+      valueMappings: ValueMappings;
     }) => {
       mapperData.current = data;
       setIsMapperReady(true);
@@ -241,6 +274,10 @@ export default function UploadPage() {
           mapping: data.mapping,
           headers: data.headers,
           totalRows: data.totalRows,
+          dateFormat: data.dateFormat,
+          timezone: data.timezone,
+          transforms: data.transforms,
+          valueMappings: data.valueMappings,
         },
         stitch: null,
         multiQueue: null,
@@ -262,10 +299,13 @@ export default function UploadPage() {
       source: SourceType,
       name: string,
       mapping: Record<string, string>,
-      headers: string[]
+      headers: string[],
+      dates: { dateFormat: DateFormat; timezone: string },
+      transforms: FieldTransforms,
+      valueMappings: ValueMappings
     ) => {
       try {
-        await saveMappingTemplate(source, name, mapping, headers);
+        await saveMappingTemplate(source, name, mapping, headers, dates, transforms, valueMappings);
         toast.success("Mapping template saved");
       } catch (err) {
         toast.error(
@@ -293,6 +333,10 @@ export default function UploadPage() {
         mapping: data.mapping,
         headers: data.headers,
         totalRows: data.totalRows,
+        dateFormat: data.dateFormat,
+        timezone: data.timezone,
+        transforms: data.transforms,
+        valueMappings: data.valueMappings,
       },
       stitch: { preview: stitchPreview, decisions: stitchDecisions },
       multiQueue: null,
@@ -306,26 +350,29 @@ export default function UploadPage() {
     if (!data) return;
 
     setIsVerifying(true);
+    setVerifyProgress(null);
     try {
-      // Validate via preview
-      const result = await previewCSV({
-        source: data.source,
-        content: data.content,
-        mapping: data.mapping,
-      });
-      if (result.preview.validRows === 0) {
+      // Validate and run the stitch preview, streaming the file
+      const stitchResult = await postUpload<StitchPreviewResult>(
+        "/api/import/preview",
+        {
+          source: data.source,
+          schemaKey: data.schemaKey,
+          mapping: data.mapping,
+          dateFormat: data.dateFormat,
+          timezone: data.timezone,
+          transforms: data.transforms,
+          valueMappings: data.valueMappings,
+        },
+        data.file,
+        setVerifyProgress
+      );
+      if (stitchResult.summary.totalValidRows === 0) {
         toast.error("No valid rows to import. Check your column mapping.");
         setIsVerifying(false);
         return;
       }
 
-      // Run stitch preview (fast in-memory version)
-      const stitchResult = await previewStitchingFast({
-        source: data.source,
-        content: data.content,
-        mapping: data.mapping,
-      });
-
       // Initialize default decisions: all uncertain rows → "create_new", flagged → "skip"
       const defaults: StitchDecisions = {};
       for (const row of stitchResult.uncertainRows) {
@@ -352,6 +399,10 @@ export default function UploadPage() {
           mapping: data.mapping,
           headers: data.headers,
           totalRows: data.totalRows,
+          dateFormat: data.dateFormat,
+          timezone: data.timezone,
+          transforms: data.transforms,
+          valueMappings: data.valueMappings,
         },
         stitch: { preview: stitchResult, decisions: defaults },
         multiQueue: null,
@@ -373,16 +424,25 @@ export default function UploadPage() {
 
     setStep(3);
     setIsImporting(true);
+    setImportProgress(null);
 
     try {
-      const importRes = await uploadCSV({
-        source: data.source,
-        schemaKey: data.schemaKey,
-        fileName: data.file.name,
-        content: data.content,
-        mapping: data.mapping,
-        stitchDecisions,
-      });
+      const importRes = await postUpload<ImportResultDetailed>(
+        "/api/import",
+        {
+          source: data.source,
+          schemaKey: data.schemaKey,
+          fileName: data.file.name,
+          mapping: data.mapping,
+          stitchDecisions,
+          dateFormat: data.dateFormat,
+          timezone: data.timezone,
+          transforms: data.transforms,
+          valueMappings: data.valueMappings,
+        },
+        data.file,
+        setImportProgress
+      );
       setImportResult(importRes);
 
       if (importRes.errorRows === 0) {
@@ -415,6 +475,7 @@ export default function UploadPage() {
         conflictsCreated: 0,
         matchedByPhone: 0,
         enrichedCount: 0,
+        conflictDetectionError: null,
       });
     } finally {
       setIsImporting(false);
@@ -438,14 +499,14 @@ export default function UploadPage() {
   const handleMultipleFiles = useCallback((entries: MultiFileEntry[]) => {
     const entriesWithMapping = entries.map((e) => {
       if (!e.source) return { ...e, status: "pending" as const };
-      const schema = getSchema(e.source);
+      const schema = getSchema(resolveSchemaKey(e.source, e.headers, e.schemaKey), customSchemas);
       if (!schema) return { ...e, status: "pending" as const };
       const suggestions = generateMappingSuggestions(e.headers, schema, []);
       const mapping = suggestionsToMapping(suggestions);
       return { ...e, status: "pending" as const, mapping };
     });
     setMultiFileQueue(entriesWithMapping);
-  }, []);
+  }, [customSchemas]);
 
   // Persist multi-file queue changes
   const persistTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -494,21 +555,24 @@ export default function UploadPage() {
     };
   }, [multiFileQueue, reviewingIndex]);
 
-  const handleMultiSourcePick = useCallback((index: number, source: SourceType) => {
+  const handleMultiSourcePick = useCallback((index: number, picked: SourceType | SchemaKey) => {
+    // Detection offers sub-type keys (e.g. mindbody_visits) — store their source
+    const source = schemaKeyToSourceType(picked) as SourceType;
     setMultiFileQueue((prev) => {
       if (!prev) return prev;
       const next = [...prev];
       const entry = next[index];
-      const schema = getSchema(source);
+      const schemaKey = resolveSchemaKey(source, entry.headers, picked) as SchemaKey;
+      const schema = getSchema(schemaKey, customSchemas);
       let mapping: Record<string, string> | undefined;
       if (schema) {
         const suggestions = generateMappingSuggestions(entry.headers, schema, []);
         mapping = suggestionsToMapping(suggestions);
       }
-      next[index] = { ...entry, source, needsSourcePick: false, mapping };
+      next[index] = { ...entry, source, schemaKey, needsSourcePick: false, mapping };
       return next;
     });
-  }, []);
+  }, [customSchemas]);
 
   const handleMultiPreviewAll = useCallback(async () => {
     if (!multiFileQueue) return;
@@ -547,11 +611,11 @@ export default function UploadPage() {
         const TIMEOUT_MS = 30_000;
         const startTime = performance.now();
 
-        const previewPromise = previewStitchingFast({
-          source: entry.source!,
-          content: entry.content,
-          mapping,
-        });
+        const previewPromise = postUpload<StitchPreviewResult>(
+          "/api/import/preview",
+          { source: entry.source!, schemaKey: entry.schemaKey, mapping },
+          entry.file
+        );
 
         const stitchResult = await Promise.race([
           previewPromise,
@@ -632,7 +696,7 @@ export default function UploadPage() {
 
       // Set "importing" status and yield
       setImportingFileIndex(i);
-      setImportingFileStart(Date.now());
+      setFileImportProgress(0);
       setMultiFileQueue((prev) => {
         if (!prev) return prev;
         const next = [...prev];
@@ -655,13 +719,18 @@ export default function UploadPage() {
           continue;
         }
 
-        const result = await uploadCSV({
-          source: entry.source,
-          fileName: entry.file.name,
-          content: entry.content,
-          mapping,
-          stitchDecisions: entry.stitchDecisions ?? {},
-        });
+        const result = await postUpload<ImportResultDetailed>(
+          "/api/import",
+          {
+            source: entry.source,
+            schemaKey: entry.schemaKey,
+            fileName: entry.file.name,
+            mapping,
+            stitchDecisions: entry.stitchDecisions ?? {},
+          },
+          entry.file,
+          (progress) => setFileImportProgress(uploadPercent(progress))
+        );
 
         if (multiImportAbortRef.current) break;
 
@@ -705,29 +774,30 @@ export default function UploadPage() {
 
   const handleAddMoreFiles = useCallback(async (files: FileList | null) => {
     if (!files || files.length === 0) return;
-    const csvFiles = Array.from(files).filter((f) => f.name.toLowerCase().endsWith(".csv"));
-    if (csvFiles.length === 0) return;
+    const uploadFiles = Array.from(files).filter((f) => isSupportedUploadFile(f.name));
+    if (uploadFiles.length === 0) return;
 
     const newEntries: MultiFileQueueEntry[] = [];
-    for (const f of csvFiles) {
-      if (f.size > 10 * 1024 * 1024) continue;
-      const content = await new Promise<string>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = (e) => resolve(e.target?.result as string);
-        reader.onerror = () => reject(new Error("Failed to read file"));
-        reader.readAsText(f);
-      });
+    for (const f of uploadFiles) {
+      if (f.size > MAX_UPLOAD_BYTES) continue;
+      let contents: UploadFileContents;
+      try {
+        contents = await readUploadFile(f);
+      } catch {
+        continue;
+      }
+      const { content } = contents;
       if (!content?.trim()) continue;
 
       const parsed = parseCSVContent(content);
-      const results = detectSource(parsed.headers, parsed.sampleRows);
+      const results = detectSource(parsed.headers, parsed.sampleRows, customSchemas);
       const confident = isConfidentDetection(results);
       const detectedKey = confident ? results[0].source : null;
-      const dbSource = detectedKey ? (detectedKey.startsWith("attribution") ? "attribution" : detectedKey) as SourceType : null;
+      const dbSource = detectedKey ? schemaKeyToSourceType(detectedKey) as SourceType : null;
 
       let mapping: Record<string, string> | undefined;
       if (dbSource) {
-        const schema = getSchema(dbSource);
+        const schema = getSchema(resolveSchemaKey(dbSource, parsed.headers, detectedKey ?? undefined), customSchemas);
         if (schema) {
           const suggestions = generateMappingSuggestions(parsed.headers, schema, []);
           mapping = suggestionsToMapping(suggestions);
@@ -735,9 +805,10 @@ export default function UploadPage() {
       }
 
       newEntries.push({
-        file: f,
+        file: contents.file,
         content,
         source: dbSource,
+        schemaKey: detectedKey ?? undefined,
         headers: parsed.headers,
         totalRows: parsed.totalRows,
         needsSourcePick: !confident,
@@ -751,7 +822,7 @@ export default function UploadPage() {
       setMultiFileQueue((prev) => prev ? [...prev, ...newEntries] : newEntries);
     }
     if (addMoreInputRef.current) addMoreInputRef.current.value = "";
-  }, []);
+  }, [customSchemas]);
 
   const canContinue = isMapperReady &&
     !!mapperData.current &&
@@ -888,7 +959,7 @@ export default function UploadPage() {
                       </td>
                       <td className="px-4 py-2.5">
                         {entry.source ? (
-                          <span className="text-[12px] text-text-secondary">{entry.source}</span>
+                          <span className="text-[12px] text-text-secondary">{sourceLabel(entry.source)}</span>
                         ) : entry.needsSourcePick ? (
                           <div className="flex gap-1">
                             {(["crm", "attribution", ...entry.detectionResults.map((r) => r.source)] as SourceType[]).slice(0, 4).map((s) => (
@@ -897,7 +968,7 @@ export default function UploadPage() {
                                 onClick={() => handleMultiSourcePick(idx, s)}
                                 className="px-2 py-0.5 rounded text-[10px] font-medium border border-border-default text-text-secondary hover:bg-surface-elevated transition-colors"
                               >
-                                {s}
+                                {sourceLabel(s)}
                               </button>
                             ))}
                           </div>
@@ -971,7 +1042,7 @@ export default function UploadPage() {
                 <input
                   ref={addMoreInputRef}
                   type="file"
-                  accept=".csv"
+                  accept={UPLOAD_FILE_ACCEPT}
                   multiple
                   onChange={(e) => handleAddMoreFiles(e.target.files)}
                   className="hidden"
@@ -1224,6 +1295,7 @@ export default function UploadPage() {
           <DetailedImportResultView
             result={importResult}
             isImporting={isImporting}
+            progress={importProgress}
           />
         )}
       </div>
@@ -1245,6 +1317,10 @@ export default function UploadPage() {
                     mapping: mapperData.current.mapping,
                     headers: mapperData.current.headers,
                     totalRows: mapperData.current.totalRows,
+                    dateFormat: mapperData.current.dateFormat,
+                    timezone: mapperData.current.timezone,
+                    transforms: mapperData.current.transforms,
+                    valueMappings: mapperData.current.valueMappings,
                   });
                 }
               }}
@@ -1276,6 +1352,7 @@ export default function UploadPage() {
                 <>
                   <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
                   Verifying...
+                  {verifyProgress && ` ${Math.round(uploadPercent(verifyProgress))}%`}
                 </>
               ) : (
                 <>
@@ -1306,34 +1383,14 @@ export default function UploadPage() {
 function DetailedImportResultView({
   result,
   isImporting,
+  progress,
 }: {
   result: ImportResultDetailed | null;
   isImporting: boolean;
+  progress: UploadProgress | null;
 }) {
-  // Animated progress: starts fast, decelerates, caps at 90%
-  const [progress, setProgress] = useState(0);
-
-  useEffect(() => {
-    if (!isImporting) {
-      setProgress(0);
-      return;
-    }
-
-    const HALF_LIFE = 15_000; // reaches ~50% at 15s, ~90% at ~50s
-    const RATE = Math.LN2 / HALF_LIFE; // exponential decay constant
-    const INTERVAL = 200;
-    let elapsed = 0;
-
-    const timer = setInterval(() => {
-      elapsed += INTERVAL;
-      // Exponential ease-out: fast start, continuously decelerates, never hits 100%
-      setProgress(100 * (1 - Math.exp(-RATE * elapsed)));
-    }, INTERVAL);
-
-    return () => clearInterval(timer);
-  }, [isImporting]);
-
   if (isImporting) {
+    const percent = uploadPercent(progress);
     return (
       <div className="flex flex-col items-center justify-center py-16">
         <div className="flex h-14 w-14 items-center justify-center rounded-2xl bg-surface-active">
@@ -1347,9 +1404,11 @@ function DetailedImportResultView({
         </p>
         <div className="mt-6 w-64">
           <p className="text-[12px] text-text-muted text-center mb-1.5 tabular-nums">
-            {Math.round(progress)}%
+            {Math.round(percent)}%
+            {progress?.rowsProcessed != null &&
+              ` · ${progress.rowsProcessed.toLocaleString()} rows`}
           </p>
-          <Progress value={progress} className="h-1.5" />
+          <Progress value={percent} className="h-1.5" />
         </div>
       </div>
     );
@@ -1405,6 +1464,15 @@ function DetailedImportResultView({
         )}
       </div>
 
+      {result.conflictDetectionError && (
+        <div className="flex items-center gap-2 rounded-lg border border-amber-200 dark:border-amber-500/20 bg-amber-50/60 dark:bg-amber-500/5 px-3 py-2">
+          <AlertTriangle className="h-3.5 w-3.5 text-amber-500 shrink-0" />
+          <p className="text-[11px] text-amber-700 dark:text-amber-300">
+            Rows were imported, but checking them for conflicts failed: {result.conflictDetectionError}
+          </p>
+        </div>
+      )}
+
       {/* Detailed breakdown */}
       <div className="rounded-xl border border-border-default overflow-hidden">
         <div className="border-b border-border-muted px-5 py-3">
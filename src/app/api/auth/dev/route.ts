@@ -3,6 +3,7 @@ import { createClient } from "@supabase/supabase-js";
 import { createServerClient } from "@supabase/ssr";
 
 const DEV_EMAIL = "dev@tailorloom.local";
+const DEV_ORG_ID = "00000000-0000-0000-0000-000000000001";
 
 export async function POST(request: NextRequest) {
   const { password } = await request.json();
@@ -33,6 +34,14 @@ export async function POST(request: NextRequest) {
     devUser = data.user;
   }
 
+  // Dev user owns the seeded default organization
+  await admin
+    .from("organization_members")
+    .upsert(
+      { org_id: DEV_ORG_ID, user_id: devUser.id, role: "owner" },
+      { onConflict: "org_id,user_id", ignoreDuplicates: true }
+    );
+
   // Generate a magic link to sign the user in
   const { data: linkData, error: linkError } =
     await admin.auth.admin.generateLink({
@@ -0,0 +1,24 @@
+import type { NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireOrg } from "@/lib/org";
+import { openCSVStream, readOptionsLine } from "@/lib/csv/stream";
+import { previewImport, type ImportOptions } from "@/lib/csv/importer";
+import { uploadEventResponse } from "@/lib/upload-stream";
+
+/**
+ * Streamed stitch preview — the previewStitchingFast server action for
+ * files of any size. Body: `<{ source, mapping, ...import options } JSON>\n<CSV bytes>`.
+ * Responds with NDJSON progress events and then the StitchPreviewResult.
+ */
+export async function POST(request: NextRequest) {
+  return uploadEventResponse(async (onProgress) => {
+    const { orgId } = await requireOrg();
+    if (!request.body) throw new Error("Upload is empty");
+
+    const { options, rest } = await readOptionsLine<
+      Pick<ImportOptions, "source" | "schemaKey" | "dateFormat" | "timezone" | "transforms" | "valueMappings"> & { mapping: Record<string, string> }
+    >(request.body);
+    const admin = createAdminClient();
+    return previewImport(admin, orgId, options, await openCSVStream(rest), onProgress);
+  });
+}
@@ -0,0 +1,22 @@
+import type { NextRequest } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requirePermission } from "@/lib/org";
+import { openCSVStream, readOptionsLine } from "@/lib/csv/stream";
+import { runImport, type ImportOptions } from "@/lib/csv/importer";
+import { uploadEventResponse } from "@/lib/upload-stream";
+
+/**
+ * Streamed CSV import, for files too large for the uploadCSV server action.
+ * Body: `<ImportOptions JSON>\n<CSV bytes>`. Responds with NDJSON progress
+ * events and then the ImportResultDetailed (see @/lib/upload-stream).
+ */
+export async function POST(request: NextRequest) {
+  return uploadEventResponse(async (onProgress) => {
+    const ctx = await requirePermission("import:upload");
+    if (!request.body) throw new Error("Upload is empty");
+
+    const { options, rest } = await readOptionsLine<ImportOptions>(request.body);
+    const admin = createAdminClient();
+    return runImport(admin, ctx, options, await openCSVStream(rest), onProgress);
+  });
+}
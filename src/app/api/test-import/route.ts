@@ -13,6 +13,9 @@ import type { SourceType, ValidationError } from "@/lib/types";
 import { readFileSync } from "fs";
 import { join } from "path";
 
+// Dev-only route with no signed-in user: always imports into the seeded default org
+const TEST_ORG_ID = "00000000-0000-0000-0000-000000000001";
+
 /**
  * Test route for CSV import pipeline.
  * GET /api/test-import — imports all 3 test CSVs and returns results.
@@ -52,6 +55,7 @@ export async function GET() {
       const { data: importRecord, error: importError } = await admin
         .from("import_history")
         .insert({
+          org_id: TEST_ORG_ID,
           source,
           file_name: file,
           file_size_bytes: Buffer.byteLength(content),
@@ -100,6 +104,7 @@ export async function GET() {
           const phone = schema.phoneField ? (mapped[schema.phoneField] ?? null) : null;
           const { customerId } = await stitchIdentity(
             admin,
+            TEST_ORG_ID,
             source,
             externalId,
             email,
@@ -112,6 +117,7 @@ export async function GET() {
 
           if (source === "stripe") {
             const { error } = await admin.from("payments").insert({
+              org_id: TEST_ORG_ID,
               customer_id: customerId,
               import_id: importId,
               external_payment_id: mapped.external_payment_id,
@@ -129,6 +135,7 @@ export async function GET() {
             inserted = true;
           } else if (source === "calendly") {
             const { error } = await admin.from("bookings").insert({
+              org_id: TEST_ORG_ID,
               customer_id: customerId,
               import_id: importId,
               external_booking_id: mapped.external_booking_id,
@@ -146,6 +153,7 @@ export async function GET() {
             inserted = true;
           } else if (source === "passline") {
             const { error } = await admin.from("attendance").insert({
+              org_id: TEST_ORG_ID,
               customer_id: customerId,
               import_id: importId,
               external_attendance_id: mapped.external_attendance_id,
@@ -184,7 +192,7 @@ export async function GET() {
         .eq("id", importId);
 
       // Post-import conflict detection
-      const conflictsFound = await detectPostImportConflicts(admin, importId);
+      const conflictsFound = await detectPostImportConflicts(admin, TEST_ORG_ID, importId);
 
       results[source] = {
         importId,
@@ -212,12 +220,14 @@ export async function GET() {
   // Verification queries
   const { data: customerCount } = await admin
     .from("customers")
-    .select("id", { count: "exact", head: true });
+    .select("id", { count: "exact", head: true })
+    .eq("org_id", TEST_ORG_ID);
 
   const { data: janeCustomer } = await admin
     .from("customers")
     .select("id, full_name, email")
-    .eq("email", "jane@example.com");
+    .eq("email", "jane@example.com")
+    .eq("org_id", TEST_ORG_ID);
 
   let janeSources = null;
   if (janeCustomer && janeCustomer.length > 0) {
@@ -230,11 +240,13 @@ export async function GET() {
 
   const { data: conflicts } = await admin
     .from("stitching_conflicts")
-    .select("customer_a_id, customer_b_id, match_field, match_value, confidence, status");
+    .select("customer_a_id, customer_b_id, match_field, match_value, confidence, status")
+    .eq("org_id", TEST_ORG_ID);
 
   const { data: importHistory } = await admin
     .from("import_history")
-    .select("id, source, file_name, total_rows, imported_rows, skipped_rows, error_rows, status");
+    .select("id, source, file_name, total_rows, imported_rows, skipped_rows, error_rows, status")
+    .eq("org_id", TEST_ORG_ID);
 
   return NextResponse.json({
     results,
@@ -0,0 +1,559 @@
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  Activity,
+  Loader2,
+  ChevronLeft,
+  ChevronRight,
+  Search,
+  X,
+} from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  getAuditEvents,
+  getAuditActors,
+  type AuditEventRow,
+} from "@/lib/actions/audit";
+import { searchCustomers } from "@/lib/actions/dashboard";
+import type { AuditAction } from "@/lib/types";
+
+const PAGE_SIZE = 25;
+
+const ACTION_CONFIG: Record<AuditAction, { label: string; className: string }> = {
+  "import.uploaded": {
+    label: "Import uploaded",
+    className: "bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-500/10 dark:text-blue-400 dark:border-blue-500/20",
+  },
+  "import.reverted": {
+    label: "Import reverted",
+    className: "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/10 dark:text-amber-400 dark:border-amber-500/20",
+  },
+  "import.deleted": {
+    label: "Import deleted",
+    className: "bg-rose-50 text-rose-700 border-rose-200 dark:bg-rose-500/10 dark:text-rose-400 dark:border-rose-500/20",
+  },
+  "data.reset": {
+    label: "Data reset",
+    className: "bg-rose-50 text-rose-700 border-rose-200 dark:bg-rose-500/10 dark:text-rose-400 dark:border-rose-500/20",
+  },
+  "conflict.merged": {
+    label: "Customers merged",
+    className: "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/10 dark:text-emerald-400 dark:border-emerald-500/20",
+  },
+  "conflict.dismissed": {
+    label: "Conflict dismissed",
+    className: "bg-surface-muted text-text-secondary border-border-default",
+  },
+  "customer.merged": {
+    label: "Customers merged",
+    className: "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/10 dark:text-emerald-400 dark:border-emerald-500/20",
+  },
+  "customer.unmerged": {
+    label: "Merge undone",
+    className: "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/10 dark:text-amber-400 dark:border-amber-500/20",
+  },
+  "customer.split": {
+    label: "Customer split",
+    className: "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/10 dark:text-amber-400 dark:border-amber-500/20",
+  },
+  "do_not_merge.removed": {
+    label: "Never-merge removed",
+    className: "bg-surface-muted text-text-secondary border-border-default",
+  },
+  "household.created": {
+    label: "Household created",
+    className: "bg-emerald-50 text-emerald-700 border-emerald-200 dark:bg-emerald-500/10 dark:text-emerald-400 dark:border-emerald-500/20",
+  },
+  "household.member_added": {
+    label: "Household member added",
+    className: "bg-surface-muted text-text-secondary border-border-default",
+  },
+  "household.member_removed": {
+    label: "Household member removed",
+    className: "bg-surface-muted text-text-secondary border-border-default",
+  },
+  "mapping.saved": {
+    label: "Mapping saved",
+    className: "bg-surface-muted text-text-secondary border-border-default",
+  },
+  "mapping.deleted": {
+    label: "Mapping deleted",
+    className: "bg-surface-muted text-text-secondary border-border-default",
+  },
+  "source.saved": {
+    label: "Source saved",
+    className: "bg-surface-muted text-text-secondary border-border-default",
+  },
+  "source.deleted": {
+    label: "Source deleted",
+    className: "bg-surface-muted text-text-secondary border-border-default",
+  },
+  "config.updated": {
+    label: "Config changed",
+    className: "bg-violet-50 text-violet-700 border-violet-200 dark:bg-violet-500/10 dark:text-violet-400 dark:border-violet-500/20",
+  },
+  "identity.restitched": {
+    label: "Identity re-run",
+    className: "bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-500/10 dark:text-amber-400 dark:border-amber-500/20",
+  },
+};
+
+interface CustomerOption {
+  id: string;
+  label: string;
+}
+
+export function ActivityClient({
+  initialCustomerId,
+}: {
+  initialCustomerId: string | null;
+}) {
+  const [events, setEvents] = useState<AuditEventRow[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [page, setPage] = useState(0);
+
+  // Filters
+  const [actors, setActors] = useState<{ id: string; email: string | null }[]>([]);
+  const [actorFilter, setActorFilter] = useState("all");
+  const [actionFilter, setActionFilter] = useState("all");
+  const [customer, setCustomer] = useState<CustomerOption | null>(
+    initialCustomerId ? { id: initialCustomerId, label: "Selected customer" } : null
+  );
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+
+  // Customer search
+  const [customerQuery, setCustomerQuery] = useState("");
+  const [customerResults, setCustomerResults] = useState<CustomerOption[]>([]);
+  const searchSeq = useRef(0);
+
+  useEffect(() => {
+    getAuditActors()
+      .then(setActors)
+      .catch(() => {
+        // Actor filter just stays empty
+      });
+  }, []);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await getAuditEvents({
+        limit: PAGE_SIZE,
+        offset: page * PAGE_SIZE,
+        actorId: actorFilter !== "all" ? actorFilter : undefined,
+        action: actionFilter !== "all" ? (actionFilter as AuditAction) : undefined,
+        customerId: customer?.id,
+        from: fromDate || undefined,
+        to: toDate || undefined,
+      });
+      setEvents(result.events);
+      setTotal(result.total);
+    } catch {
+      // Silently fail — empty state will show
+    } finally {
+      setLoading(false);
+    }
+  }, [page, actorFilter, actionFilter, customer?.id, fromDate, toDate]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  // Fill in the name for a customer that arrived via ?customer=
+  useEffect(() => {
+    if (!customer || customer.label !== "Selected customer") return;
+    for (const e of events) {
+      const match = e.customers.find((c) => c.id === customer.id);
+      if (match) {
+        setCustomer({ id: match.id, label: match.full_name ?? match.email ?? "Unknown" });
+        return;
+      }
+    }
+  }, [events, customer]);
+
+  useEffect(() => {
+    const q = customerQuery.trim();
+    if (!q) {
+      setCustomerResults([]);
+      return;
+    }
+    const seq = ++searchSeq.current;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchCustomers(q);
+        if (seq !== searchSeq.current) return;
+        setCustomerResults(
+          results.map((c) => ({ id: c.id, label: c.full_name ?? c.email ?? c.phone ?? "Unknown" }))
+        );
+      } catch {
+        setCustomerResults([]);
+      }
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [customerQuery]);
+
+  const hasFilters =
+    actorFilter !== "all" ||
+    actionFilter !== "all" ||
+    customer !== null ||
+    fromDate !== "" ||
+    toDate !== "";
+
+  const clearFilters = () => {
+    setActorFilter("all");
+    setActionFilter("all");
+    setCustomer(null);
+    setCustomerQuery("");
+    setFromDate("");
+    setToDate("");
+    setPage(0);
+  };
+
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+
+  return (
+    <div className="p-8 max-w-[1400px]">
+      {/* Header */}
+      <div className="mb-8 animate-fade-in">
+        <h1 className="text-2xl font-semibold tracking-[-0.02em] text-text-primary">
+          Activity
+        </h1>
+        <p className="mt-1 text-[13px] text-text-muted">
+          Who imported, reverted, merged or reconfigured what, and when
+        </p>
+      </div>
+
+      {/* Filter bar */}
+      <div className="mb-4 flex flex-wrap items-center gap-3 animate-fade-in-up stagger-2">
+        <Select
+          value={actorFilter}
+          onValueChange={(v) => {
+            setActorFilter(v);
+            setPage(0);
+          }}
+        >
+          <SelectTrigger className="w-[200px] text-[13px]">
+            <SelectValue placeholder="All users" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All users</SelectItem>
+            {actors.map((a) => (
+              <SelectItem key={a.id} value={a.id}>
+                {a.email ?? a.id.slice(0, 8)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select
+          value={actionFilter}
+          onValueChange={(v) => {
+            setActionFilter(v);
+            setPage(0);
+          }}
+        >
+          <SelectTrigger className="w-[180px] text-[13px]">
+            <SelectValue placeholder="All actions" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All actions</SelectItem>
+            {(Object.keys(ACTION_CONFIG) as AuditAction[]).map((action) => (
+              <SelectItem key={action} value={action}>
+                {ACTION_CONFIG[action].label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {customer ? (
+          <Badge
+            variant="outline"
+            className="h-9 gap-1.5 px-3 text-[13px] font-normal text-text-secondary"
+          >
+            {customer.label}
+            <button
+              type="button"
+              onClick={() => {
+                setCustomer(null);
+                setPage(0);
+              }}
+              aria-label="Clear customer filter"
+              className="text-text-muted hover:text-text-primary"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ) : (
+          <div className="relative w-[220px]">
+            <Search className="absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-text-muted" />
+            <Input
+              value={customerQuery}
+              onChange={(e) => setCustomerQuery(e.target.value)}
+              placeholder="Filter by customer..."
+              className="pl-8 text-[13px]"
+              autoComplete="off"
+            />
+            {customerResults.length > 0 && (
+              <div className="absolute z-20 mt-1 w-full rounded-md border border-border-default bg-surface-elevated shadow-md py-1">
+                {customerResults.map((c) => (
+                  <button
+                    key={c.id}
+                    type="button"
+                    className="block w-full truncate px-3 py-1.5 text-left text-[13px] text-text-secondary hover:bg-surface-muted"
+                    onClick={() => {
+                      setCustomer(c);
+                      setCustomerQuery("");
+                      setCustomerResults([]);
+                      setPage(0);
+                    }}
+                  >
+                    {c.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex items-center gap-1.5">
+          <Input
+            type="date"
+            value={fromDate}
+            max={toDate || undefined}
+            onChange={(e) => {
+              setFromDate(e.target.value);
+              setPage(0);
+            }}
+            className="w-[150px] text-[13px]"
+            aria-label="From date"
+          />
+          <span className="text-[12px] text-text-muted">to</span>
+          <Input
+            type="date"
+            value={toDate}
+            min={fromDate || undefined}
+            onChange={(e) => {
+              setToDate(e.target.value);
+              setPage(0);
+            }}
+            className="w-[150px] text-[13px]"
+            aria-label="To date"
+          />
+        </div>
+
+        {hasFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={clearFilters}
+            className="h-8 text-[12px] text-text-muted"
+          >
+            Clear filters
+          </Button>
+        )}
+
+        <span className="text-[12px] text-text-muted ml-auto">
+          {total} {total === 1 ? "event" : "events"}
+        </span>
+      </div>
+
+      {/* Table */}
+      <Card className="border-border-default shadow-none animate-fade-in-up stagger-3">
+        {loading ? (
+          <CardContent className="flex items-center justify-center py-16">
+            <Loader2 className="h-5 w-5 text-text-muted animate-spin" />
+          </CardContent>
+        ) : events.length === 0 ? (
+          <CardContent className="flex flex-col items-center justify-center py-16 px-8">
+            <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-surface-muted mb-4">
+              <Activity className="h-6 w-6 text-text-muted" />
+            </div>
+            <p className="text-[14px] font-medium text-text-secondary mb-1">
+              No activity
+            </p>
+            <p className="text-[13px] text-text-muted text-center max-w-md">
+              {hasFilters
+                ? "No events match these filters."
+                : "Imports, merges, reverts and config changes will appear here."}
+            </p>
+          </CardContent>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="text-[12px]">Date</TableHead>
+                  <TableHead className="text-[12px]">User</TableHead>
+                  <TableHead className="text-[12px]">Action</TableHead>
+                  <TableHead className="text-[12px]">Details</TableHead>
+                  <TableHead className="text-[12px]">Customers</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((event) => {
+                  const action = ACTION_CONFIG[event.action];
+                  const extra = event.customer_ids.length - event.customers.length;
+
+                  return (
+                    <TableRow key={event.id}>
+                      <TableCell className="text-[12px] text-text-muted whitespace-nowrap">
+                        {formatDate(event.created_at)}
+                      </TableCell>
+                      <TableCell className="text-[13px] text-text-secondary max-w-[200px] truncate">
+                        {event.actor_email ?? "System"}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant="outline"
+                          className={`text-[11px] font-medium ${action?.className ?? ""}`}
+                        >
+                          {action?.label ?? event.action}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-[12px] text-text-secondary max-w-[420px]">
+                        {describeEvent(event)}
+                      </TableCell>
+                      <TableCell className="text-[12px] text-text-muted max-w-[240px]">
+                        {event.customers.length === 0 && extra <= 0 ? (
+                          <span>&mdash;</span>
+                        ) : (
+                          <span className="truncate block">
+                            {event.customers
+                              .map((c) => c.full_name ?? c.email ?? "Unknown")
+                              .join(", ")}
+                            {extra > 0 && (
+                              <span className="text-text-muted">
+                                {event.customers.length > 0 ? " " : ""}+{extra} more
+                              </span>
+                            )}
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {/* Pagination */}
+            {totalPages > 1 && (
+              <div className="flex items-center justify-between px-4 py-3 border-t border-border-muted">
+                <span className="text-[12px] text-text-muted">
+                  Page {page + 1} of {totalPages}
+                </span>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={page === 0}
+                    onClick={() => setPage(page - 1)}
+                    className="h-7 w-7 p-0"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={page >= totalPages - 1}
+                    onClick={() => setPage(page + 1)}
+                    className="h-7 w-7 p-0"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+/** One-line human summary of an event's details. */
+function describeEvent(event: AuditEventRow): string {
+  const d = event.details as Record<string, unknown>;
+  const file = d.file_name ? `${d.file_name}` : "import";
+
+  switch (event.action) {
+    case "import.uploaded":
+      return `${file} (${d.source}) — ${d.imported_rows ?? 0} of ${d.total_rows ?? 0} rows imported, ${d.new_customers ?? 0} new customers`;
+    case "import.reverted":
+    case "import.deleted":
+      return `${file} (${d.source}) — ${d.deleted_payments ?? 0} payments, ${d.deleted_bookings ?? 0} bookings, ${d.deleted_customers ?? 0} customers removed`;
+    case "data.reset":
+      return `${d.deleted_imports ?? 0} imports and all customer data removed`;
+    case "conflict.merged":
+      return `Merged ${d.removed_name ?? d.removed_email ?? "customer"} into ${d.kept_name ?? "customer"} (matched on ${d.match_field})`;
+    case "conflict.dismissed":
+      return `Not the same person (matched on ${d.match_field}${d.match_value ? `: ${d.match_value}` : ""})`;
+    case "customer.merged": {
+      const names = (d.removed_names ?? []) as (string | null)[];
+      return `Merged ${names.filter(Boolean).join(", ") || "customers"} into ${d.kept_name ?? "customer"} (manual)`;
+    }
+    case "customer.unmerged":
+      return `Restored ${d.restored_name ?? d.restored_email ?? "customer"} — ${d.moved_payments ?? 0} payments, ${d.moved_bookings ?? 0} bookings moved back`;
+    case "customer.split":
+      return `Split ${d.new_name ?? d.new_email ?? "new customer"} off ${d.original_name ?? "customer"} — ${d.moved_sources ?? 0} source links, ${d.moved_payments ?? 0} payments, ${d.moved_bookings ?? 0} bookings, ${d.moved_attendance ?? 0} attendance moved`;
+    case "do_not_merge.removed":
+      return `Customers may be matched again (rule from ${d.reason ?? "conflict"})`;
+    case "household.created": {
+      const names = (d.member_names ?? []) as (string | null)[];
+      return `Grouped ${names.filter(Boolean).join(", ") || "customers"} as household${d.name ? ` "${d.name}"` : ""}`;
+    }
+    case "household.member_added": {
+      const names = (d.member_names ?? []) as (string | null)[];
+      return `Added ${names.filter(Boolean).join(", ") || "customers"} to household${d.name ? ` "${d.name}"` : ""}`;
+    }
+    case "household.member_removed":
+      return `Removed ${d.name ?? "customer"} from household${d.dissolved ? " (household dissolved)" : ""}`;
+    case "mapping.saved":
+    case "mapping.deleted":
+      return `${d.name} (${d.source})`;
+    case "source.saved":
+    case "source.deleted":
+      return `${d.name} (${d.target})`;
+    case "config.updated": {
+      const changes = (d.changes ?? {}) as Record<string, { from: unknown; to: unknown }>;
+      return Object.entries(changes)
+        .map(([field, c]) => `${field}: ${c.from ?? "default"} → ${c.to ?? "default"}`)
+        .join(", ");
+    }
+    case "identity.restitched":
+      return `${d.total_customers ?? 0} customers scanned, ${d.conflicts_created ?? 0} possible duplicates flagged for review`;
+    default:
+      return "";
+  }
+}
+
+function formatDate(dateStr: string): string {
+  const d = new Date(dateStr);
+  return d.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
@@ -0,0 +1,317 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Loader2, Merge, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  getImportsWithPendingConflicts,
+  previewBulkResolution,
+  resolveConflictsBulk,
+} from "@/lib/actions/history";
+import {
+  describeBulkRule,
+  type BulkConflictRule,
+  type BulkResolution,
+  type BulkResolveSummary,
+} from "@/lib/stitching/bulk-conflicts";
+import type { SourceType } from "@/lib/types";
+
+type RuleKind = BulkConflictRule["kind"];
+
+const RULE_LABELS: Record<RuleKind, string> = {
+  selected: "Selected conflicts",
+  phones_match: "Phones also match",
+  confidence_below: "Confidence below…",
+  import: "From an import…",
+};
+
+/** What each rule is usually for; the action can still be changed. */
+const DEFAULT_RESOLUTION: Record<RuleKind, BulkResolution> = {
+  selected: "merged",
+  phones_match: "merged",
+  confidence_below: "dismissed",
+  import: "merged",
+};
+
+interface BulkResolveDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Conflicts ticked in the table — offered as the "selected" rule */
+  selectedIds: string[];
+  /** Called after a run, so the table can refresh */
+  onResolved: () => void;
+}
+
+/**
+ * Merge or dismiss many pending conflicts at once, by selection or by
+ * rule. Shows how many conflicts the rule matches before running, and a
+ * summary afterwards.
+ */
+export function BulkResolveDialog({
+  open,
+  onOpenChange,
+  selectedIds,
+  onResolved,
+}: BulkResolveDialogProps) {
+  const [kind, setKind] = useState<RuleKind>("phones_match");
+  const [resolution, setResolution] = useState<BulkResolution>("merged");
+  const [threshold, setThreshold] = useState("50");
+  const [importId, setImportId] = useState("");
+  const [imports, setImports] = useState<
+    { id: string; file_name: string; source: SourceType; pending: number }[]
+  >([]);
+  const [preview, setPreview] = useState<{ matched: number; limit: number } | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [summary, setSummary] = useState<BulkResolveSummary | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const initial: RuleKind = selectedIds.length > 0 ? "selected" : "phones_match";
+    setKind(initial);
+    setResolution(DEFAULT_RESOLUTION[initial]);
+    setSummary(null);
+    getImportsWithPendingConflicts()
+      .then(setImports)
+      .catch(() => setImports([]));
+  }, [open, selectedIds.length]);
+
+  const rule = useMemo<BulkConflictRule | null>(() => {
+    switch (kind) {
+      case "selected":
+        return selectedIds.length > 0 ? { kind, conflictIds: selectedIds } : null;
+      case "phones_match":
+        return { kind };
+      case "confidence_below": {
+        const pct = Number(threshold);
+        return pct > 0 && pct <= 100 ? { kind, threshold: pct / 100 } : null;
+      }
+      case "import":
+        return importId ? { kind, importId } : null;
+    }
+  }, [kind, selectedIds, threshold, importId]);
+
+  useEffect(() => {
+    if (!open || !rule || summary) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    setPreviewing(true);
+    const timer = setTimeout(() => {
+      previewBulkResolution(rule)
+        .then((p) => !cancelled && setPreview(p))
+        .catch(() => !cancelled && setPreview(null))
+        .finally(() => !cancelled && setPreviewing(false));
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [open, rule, summary]);
+
+  const importName = imports.find((i) => i.id === importId)?.file_name;
+  const count = preview ? Math.min(preview.matched, preview.limit) : 0;
+
+  const handleRun = async () => {
+    if (!rule) return;
+    setRunning(true);
+    try {
+      const result = await resolveConflictsBulk(rule, resolution);
+      setSummary(result);
+      onResolved();
+      if (result.failed.length > 0) {
+        toast.error(`${result.failed.length} conflicts could not be resolved`);
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Bulk resolution failed");
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(v) => !running && onOpenChange(v)}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle className="text-[14px]">Resolve conflicts in bulk</DialogTitle>
+          <DialogDescription className="text-[12px]">
+            Each merge or dismissal is recorded in the activity log and can be
+            undone like one made by hand.
+          </DialogDescription>
+        </DialogHeader>
+
+        {summary ? (
+          <BulkSummary summary={summary} />
+        ) : (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Select
+                value={kind}
+                onValueChange={(v) => {
+                  setKind(v as RuleKind);
+                  setResolution(DEFAULT_RESOLUTION[v as RuleKind]);
+                }}
+                disabled={running}
+              >
+                <SelectTrigger className="flex-1 text-[13px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RULE_LABELS) as RuleKind[])
+                    .filter((k) => k !== "selected" || selectedIds.length > 0)
+                    .map((k) => (
+                      <SelectItem key={k} value={k}>
+                        {k === "selected" ? `${selectedIds.length} selected` : RULE_LABELS[k]}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={resolution}
+                onValueChange={(v) => setResolution(v as BulkResolution)}
+                disabled={running}
+              >
+                <SelectTrigger className="w-[120px] text-[13px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merged">Merge</SelectItem>
+                  <SelectItem value="dismissed">Dismiss</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {kind === "confidence_below" && (
+              <div className="flex items-center gap-2 text-[12px] text-text-muted">
+                Below
+                <Input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={threshold}
+                  onChange={(e) => setThreshold(e.target.value)}
+                  className="h-8 w-[80px] text-[13px]"
+                  disabled={running}
+                />
+                %
+              </div>
+            )}
+
+            {kind === "import" && (
+              <Select value={importId} onValueChange={setImportId} disabled={running}>
+                <SelectTrigger className="w-full text-[13px]">
+                  <SelectValue placeholder={imports.length > 0 ? "Choose an import" : "No imports with pending conflicts"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {imports.map((i) => (
+                    <SelectItem key={i.id} value={i.id}>
+                      {i.file_name} ({i.source}) — {i.pending} pending
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            <p className="text-[12px] text-text-muted">
+              {!rule
+                ? "Complete the rule to see how many conflicts it matches."
+                : previewing || !preview
+                  ? "Counting matching conflicts…"
+                  : preview.matched === 0
+                    ? `No pending ${describeBulkRule(rule, importName)}.`
+                    : `${preview.matched} pending ${describeBulkRule(rule, importName)}` +
+                      (preview.matched > preview.limit
+                        ? ` — the first ${preview.limit} will be resolved; run again for the rest.`
+                        : ".")}
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {summary ? (
+            <Button size="sm" onClick={() => onOpenChange(false)}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onOpenChange(false)}
+                disabled={running}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleRun}
+                disabled={running || previewing || !rule || count === 0}
+                className={resolution === "dismissed" ? "" : "bg-emerald-600 hover:bg-emerald-700"}
+              >
+                {running ? (
+                  <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                ) : resolution === "merged" ? (
+                  <Merge className="h-3.5 w-3.5 mr-1" />
+                ) : (
+                  <X className="h-3.5 w-3.5 mr-1" />
+                )}
+                {resolution === "merged" ? "Merge" : "Dismiss"} {count}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function BulkSummary({ summary }: { summary: BulkResolveSummary }) {
+  const rows: [string, number][] = [
+    ["Merged", summary.merged],
+    ["Dismissed", summary.dismissed],
+    ["Skipped (closed by an earlier merge or customer gone)", summary.skipped],
+    ["Failed", summary.failed.length],
+    ["Not processed yet (run again)", summary.remaining],
+  ];
+
+  return (
+    <div className="space-y-2 text-[13px]">
+      {rows
+        .filter(([, n]) => n > 0)
+        .map(([label, n]) => (
+          <div key={label} className="flex items-center justify-between">
+            <span className="text-text-secondary">{label}</span>
+            <span className="font-medium tabular-nums text-text-primary">{n}</span>
+          </div>
+        ))}
+      {summary.matched === 0 && (
+        <p className="text-text-muted">No pending conflicts matched.</p>
+      )}
+      {summary.failed.length > 0 && (
+        <ul className="mt-2 max-h-[120px] overflow-y-auto text-[11px] text-rose-600 dark:text-rose-400">
+          {summary.failed.map((f) => (
+            <li key={f.conflictId}>{f.error}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,420 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Calendar, CreditCard, Loader2, Merge, UserCheck, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { SOURCE_LABELS } from "@/components/customer-detail-content";
+import { getConflictComparison, type ConflictComparison } from "@/lib/actions/history";
+import type { FieldMatch, IdentityField } from "@/lib/stitching/compare";
+import type { CustomerDetail } from "@/lib/types/dashboard";
+
+const FIELD_LABELS: Record<IdentityField, string> = {
+  full_name: "Name",
+  email: "Email",
+  phone: "Phone",
+  country: "Country",
+};
+
+const MATCH_STYLES: Record<FieldMatch, string> = {
+  same: "",
+  equivalent: "bg-sky-50 dark:bg-sky-500/10",
+  different: "bg-amber-50 dark:bg-amber-500/10",
+  missing: "",
+};
+
+const MATCH_HINTS: Partial<Record<FieldMatch, string>> = {
+  equivalent: "Same after normalization",
+  different: "Different",
+};
+
+const TRANSACTION_ICONS = {
+  payment: CreditCard,
+  booking: Calendar,
+  attendance: UserCheck,
+} as const;
+
+const TIMELINE_PREVIEW = 30;
+
+type Transaction = CustomerDetail["transactions"][number];
+
+interface ConflictComparisonSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conflictId: string | null;
+  canResolve: boolean;
+  /** Resolve from the comparison; resolves true on success, which closes the sheet */
+  onResolve: (conflictId: string, resolution: "merged" | "dismissed") => Promise<boolean>;
+}
+
+/**
+ * Side-by-side review of a conflict: both customers' identity fields,
+ * activity totals, source records and a combined timeline, with
+ * differences highlighted and the record that merging would produce.
+ */
+export function ConflictComparisonSheet({
+  open,
+  onOpenChange,
+  conflictId,
+  canResolve,
+  onResolve,
+}: ConflictComparisonSheetProps) {
+  const [comparison, setComparison] = useState<ConflictComparison | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [resolving, setResolving] = useState(false);
+  const [showAllTimeline, setShowAllTimeline] = useState(false);
+
+  useEffect(() => {
+    if (!open || !conflictId) return;
+    let cancelled = false;
+    setLoading(true);
+    setShowAllTimeline(false);
+    getConflictComparison(conflictId)
+      .then((c) => !cancelled && setComparison(c))
+      .catch(() => !cancelled && setComparison(null))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, conflictId]);
+
+  const handleResolve = async (resolution: "merged" | "dismissed") => {
+    if (!comparison) return;
+    setResolving(true);
+    try {
+      if (await onResolve(comparison.conflict.id, resolution)) onOpenChange(false);
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  const { a, b } = comparison ?? { a: null, b: null };
+  const canAct =
+    canResolve && comparison?.conflict.status === "pending" && !!a && !!b;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-[920px] overflow-y-auto">
+        {loading && (
+          <div className="flex items-center justify-center h-64">
+            <Loader2 className="h-6 w-6 text-text-muted animate-spin" />
+          </div>
+        )}
+        {!loading && comparison && (
+          <div className="px-6 pb-6">
+            <SheetHeader className="px-0 pb-4">
+              <SheetTitle className="text-[15px]">Compare customers</SheetTitle>
+              <SheetDescription className="text-[12px]">
+                Matched on{" "}
+                <Badge variant="outline" className="text-[11px] mx-0.5">
+                  {comparison.conflict.match_field}
+                </Badge>
+                {comparison.conflict.match_value && ` ${comparison.conflict.match_value}`}
+                {comparison.conflict.confidence !== null &&
+                  ` · ${Math.round(comparison.conflict.confidence * 100)}% confidence`}
+              </SheetDescription>
+            </SheetHeader>
+
+            <IdentitySection comparison={comparison} />
+            <ActivitySection a={a} b={b} />
+            <SourcesSection a={a} b={b} />
+            <TimelineSection
+              a={a}
+              b={b}
+              showAll={showAllTimeline}
+              onShowAll={() => setShowAllTimeline(true)}
+            />
+
+            {canAct && (
+              <div className="mt-6 flex items-center justify-end gap-2 border-t border-border-muted pt-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={resolving}
+                  onClick={() => handleResolve("dismissed")}
+                >
+                  <X className="h-3.5 w-3.5 mr-1" />
+                  Not the same person
+                </Button>
+                <Button
+                  size="sm"
+                  className="bg-emerald-600 hover:bg-emerald-700"
+                  disabled={resolving}
+                  onClick={() => handleResolve("merged")}
+                >
+                  {resolving ? (
+                    <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+                  ) : (
+                    <Merge className="h-3.5 w-3.5 mr-1" />
+                  )}
+                  Merge B into A
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+        {!loading && !comparison && (
+          <div className="flex items-center justify-center h-64">
+            <p className="text-[13px] text-text-muted">Conflict not found.</p>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
+
+// ─── Sections ─────────────────────────────────────────────
+
+function SectionTitle({ children }: { children: React.ReactNode }) {
+  return (
+    <h3 className="mt-6 mb-2 text-[11px] font-medium uppercase tracking-wide text-text-muted">
+      {children}
+    </h3>
+  );
+}
+
+function ColumnHeaders({ merged = true }: { merged?: boolean }) {
+  return (
+    <div className="grid grid-cols-[110px_1fr_1fr_1fr] gap-3 pb-1 text-[11px] font-medium text-text-muted">
+      <span />
+      <span>Customer A (kept)</span>
+      <span>Customer B</span>
+      <span>{merged ? "After merge" : ""}</span>
+    </div>
+  );
+}
+
+function Missing({ label = "—" }: { label?: string }) {
+  return <span className="text-text-muted">{label}</span>;
+}
+
+function IdentitySection({ comparison }: { comparison: ConflictComparison }) {
+  const { a, b, fields, mergePreview } = comparison;
+
+  return (
+    <>
+      <SectionTitle>Identity</SectionTitle>
+      <ColumnHeaders merged={!!mergePreview} />
+      <div className="divide-y divide-border-muted text-[12px]">
+        {(Object.keys(FIELD_LABELS) as IdentityField[]).map((field) => {
+          const match = fields?.[field] ?? "same";
+          const fromB = mergePreview?.fromRemoved.some((f) => f === field);
+          return (
+            <div key={field} className="grid grid-cols-[110px_1fr_1fr_1fr] gap-3 py-2">
+              <span className="text-text-muted">{FIELD_LABELS[field]}</span>
+              <span className={`rounded px-1.5 py-0.5 break-words ${MATCH_STYLES[match]}`}>
+                {a ? a.customer[field] || <Missing /> : <Missing label="Merged away" />}
+              </span>
+              <span className={`rounded px-1.5 py-0.5 break-words ${MATCH_STYLES[match]}`}>
+                {b ? b.customer[field] || <Missing /> : <Missing label="Merged away" />}
+                {MATCH_HINTS[match] && (
+                  <span className="block text-[10px] text-text-muted">{MATCH_HINTS[match]}</span>
+                )}
+              </span>
+              <span className="px-1.5 py-0.5 break-words">
+                {mergePreview ? (
+                  <>
+                    {mergePreview.record[field] || <Missing />}
+                    {fromB && (
+                      <Badge variant="outline" className="ml-1.5 text-[10px] px-1 py-0">
+                        from B
+                      </Badge>
+                    )}
+                  </>
+                ) : null}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
+
+function countByType(detail: CustomerDetail | null, type: Transaction["type"]): number {
+  return detail?.transactions.filter((t) => t.type === type).length ?? 0;
+}
+
+function formatMoney(value: number): string {
+  return `$${value.toLocaleString()}`;
+}
+
+function formatDate(dateStr: string | null): string {
+  if (!dateStr) return "—";
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function ActivitySection({ a, b }: { a: CustomerDetail | null; b: CustomerDetail | null }) {
+  const latest = [a?.customer.lastActivityDate, b?.customer.lastActivityDate]
+    .filter((d): d is string => !!d)
+    .sort()
+    .at(-1) ?? null;
+
+  const rows: { label: string; a: string; b: string; merged: string; differs: boolean }[] = [
+    {
+      label: "Revenue",
+      a: formatMoney(a?.customer.totalRevenue ?? 0),
+      b: formatMoney(b?.customer.totalRevenue ?? 0),
+      merged: formatMoney(
+        Math.round(((a?.customer.totalRevenue ?? 0) + (b?.customer.totalRevenue ?? 0)) * 100) / 100
+      ),
+      differs: false,
+    },
+    ...(["payment", "booking", "attendance"] as const).map((type) => ({
+      label: type === "payment" ? "Payments" : type === "booking" ? "Bookings" : "Attendance",
+      a: String(countByType(a, type)),
+      b: String(countByType(b, type)),
+      merged: String(countByType(a, type) + countByType(b, type)),
+      differs: false,
+    })),
+    {
+      label: "Last activity",
+      a: formatDate(a?.customer.lastActivityDate ?? null),
+      b: formatDate(b?.customer.lastActivityDate ?? null),
+      merged: formatDate(latest),
+      differs: false,
+    },
+    {
+      label: "Household",
+      a: a?.customer.household?.name ?? (a?.customer.household ? "Unnamed" : "—"),
+      b: b?.customer.household?.name ?? (b?.customer.household ? "Unnamed" : "—"),
+      merged: a?.customer.household?.name ?? (a?.customer.household ? "Unnamed" : "—"),
+      differs:
+        !!a?.customer.household && !!b?.customer.household &&
+        a.customer.household.id !== b.customer.household.id,
+    },
+  ];
+
+  return (
+    <>
+      <SectionTitle>Activity</SectionTitle>
+      <ColumnHeaders />
+      <div className="divide-y divide-border-muted text-[12px]">
+        {rows.map((row) => (
+          <div key={row.label} className="grid grid-cols-[110px_1fr_1fr_1fr] gap-3 py-2 tabular-nums">
+            <span className="text-text-muted">{row.label}</span>
+            <span className={`rounded px-1.5 py-0.5 ${row.differs ? MATCH_STYLES.different : ""}`}>{row.a}</span>
+            <span className={`rounded px-1.5 py-0.5 ${row.differs ? MATCH_STYLES.different : ""}`}>{row.b}</span>
+            <span className="px-1.5 py-0.5 font-medium text-text-primary">{row.merged}</span>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
+
+function SourceList({ detail }: { detail: CustomerDetail | null }) {
+  if (!detail) return <Missing label="Merged away" />;
+  if (detail.customer.sourceLinks.length === 0) return <Missing label="No source records" />;
+
+  return (
+    <ul className="space-y-1.5">
+      {detail.customer.sourceLinks.map((link) => {
+        const cfg = SOURCE_LABELS[link.source] ?? { label: link.source, color: "bg-surface-muted text-text-secondary" };
+        return (
+          <li key={link.id} className="min-w-0">
+            <span className={`inline-flex rounded px-1.5 py-0.5 text-[10px] font-medium ${cfg.color}`}>
+              {cfg.label}
+            </span>
+            <span className="ml-1.5 text-text-secondary break-all">{link.external_id}</span>
+            {(link.external_email || link.external_name) && (
+              <span className="block text-[11px] text-text-muted truncate">
+                {[link.external_name, link.external_email].filter(Boolean).join(" · ")}
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function SourcesSection({ a, b }: { a: CustomerDetail | null; b: CustomerDetail | null }) {
+  const total = (a?.customer.sourceLinks.length ?? 0) + (b?.customer.sourceLinks.length ?? 0);
+  const systems = new Set([...(a?.customer.sources ?? []), ...(b?.customer.sources ?? [])]);
+
+  return (
+    <>
+      <SectionTitle>Source records</SectionTitle>
+      <ColumnHeaders />
+      <div className="grid grid-cols-[110px_1fr_1fr_1fr] gap-3 py-2 text-[12px]">
+        <span />
+        <SourceList detail={a} />
+        <SourceList detail={b} />
+        <span className="text-text-secondary">
+          {total} {total === 1 ? "record" : "records"} from{" "}
+          {Array.from(systems).map((s) => SOURCE_LABELS[s]?.label ?? s).join(", ") || "no sources"}
+        </span>
+      </div>
+    </>
+  );
+}
+
+function TimelineSection({
+  a,
+  b,
+  showAll,
+  onShowAll,
+}: {
+  a: CustomerDetail | null;
+  b: CustomerDetail | null;
+  showAll: boolean;
+  onShowAll: () => void;
+}) {
+  const entries = [
+    ...(a?.transactions ?? []).map((t) => ({ ...t, side: "A" as const })),
+    ...(b?.transactions ?? []).map((t) => ({ ...t, side: "B" as const })),
+  ].sort((x, y) => y.date.localeCompare(x.date));
+  const visible = showAll ? entries : entries.slice(0, TIMELINE_PREVIEW);
+
+  return (
+    <>
+      <SectionTitle>Timeline ({entries.length})</SectionTitle>
+      {entries.length === 0 ? (
+        <p className="text-[12px] text-text-muted">No payments, bookings or attendance.</p>
+      ) : (
+        <ul className="divide-y divide-border-muted text-[12px]">
+          {visible.map((t) => {
+            const Icon = TRANSACTION_ICONS[t.type];
+            return (
+              <li key={`${t.side}-${t.type}-${t.id}`} className="flex items-center gap-3 py-1.5">
+                <span
+                  className={`w-5 shrink-0 text-center text-[10px] font-semibold rounded ${
+                    t.side === "A"
+                      ? "bg-violet-50 text-violet-700 dark:bg-violet-500/10 dark:text-violet-400"
+                      : "bg-cyan-50 text-cyan-700 dark:bg-cyan-500/10 dark:text-cyan-400"
+                  }`}
+                >
+                  {t.side}
+                </span>
+                <Icon className="h-3.5 w-3.5 shrink-0 text-text-muted" />
+                <span className="min-w-0 flex-1 truncate text-text-primary">{t.description}</span>
+                <span className="shrink-0 text-text-muted">{SOURCE_LABELS[t.source]?.label ?? t.source}</span>
+                <span className="w-[70px] shrink-0 text-right tabular-nums text-text-secondary">
+                  {t.amount !== null ? formatMoney(t.amount) : ""}
+                </span>
+                <span className="w-[90px] shrink-0 text-right text-text-muted">{formatDate(t.date)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {!showAll && entries.length > TIMELINE_PREVIEW && (
+        <Button variant="ghost" size="sm" className="mt-1 h-7 text-[12px] text-text-muted" onClick={onShowAll}>
+          Show all {entries.length}
+        </Button>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,449 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Database, Loader2, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { saveCustomSource, deleteCustomSource } from "@/lib/actions/custom-sources";
+import {
+  CUSTOM_FIELD_TYPES,
+  CUSTOM_SOURCE_TARGETS,
+  defaultCustomSourceFields,
+  validateCustomSource,
+  type CustomSourceInput,
+} from "@/lib/csv/custom-sources";
+import type { CustomSource, CustomSourceField, CustomSourceTarget } from "@/lib/types";
+import { useOrgRole } from "@/hooks/use-org-role";
+
+type Draft = CustomSourceInput & { id?: string };
+
+const NO_PHONE = "__none__";
+
+function newDraft(): Draft {
+  return {
+    name: "",
+    target: "payments",
+    fields: defaultCustomSourceFields("payments"),
+    id_field: "external_id",
+    email_field: "email",
+    name_field: "name",
+    phone_field: null,
+  };
+}
+
+function toDraft(source: CustomSource): Draft {
+  const { id, name, target, fields, id_field, email_field, name_field, phone_field } = source;
+  return { id, name, target, fields, id_field, email_field, name_field, phone_field };
+}
+
+interface IdentitySelectProps {
+  label: string;
+  value: string | null;
+  fields: CustomSourceField[];
+  optional?: boolean;
+  disabled: boolean;
+  onChange: (value: string | null) => void;
+}
+
+function IdentitySelect({ label, value, fields, optional, disabled, onChange }: IdentitySelectProps) {
+  return (
+    <label className="space-y-1">
+      <span className="text-[11px] text-text-muted">{label}</span>
+      <Select
+        value={value ?? NO_PHONE}
+        onValueChange={(v) => onChange(v === NO_PHONE ? null : v)}
+        disabled={disabled}
+      >
+        <SelectTrigger className="h-8 text-[13px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NO_PHONE}>None</SelectItem>}
+          {fields.map((f) => (
+            <SelectItem key={f.key} value={f.key}>
+              {f.label || f.key}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </label>
+  );
+}
+
+interface SourceEditorProps {
+  initial: Draft;
+  onCancel: () => void;
+  onSaved: (source: CustomSource) => void;
+}
+
+/**
+ * Form for one custom source. The target table's own fields can be renamed
+ * and given aliases but not removed or retyped; the rest are free-form and
+ * kept in each row's raw data.
+ */
+function SourceEditor({ initial, onCancel, onSaved }: SourceEditorProps) {
+  const [draft, setDraft] = useState(initial);
+  const [saving, setSaving] = useState(false);
+
+  const problems = useMemo(() => validateCustomSource(draft), [draft]);
+  const columnKeys = new Set(CUSTOM_SOURCE_TARGETS[draft.target].columns.map((c) => c.key));
+
+  const update = (patch: Partial<Draft>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  const updateField = (i: number, patch: Partial<CustomSourceField>) =>
+    update({ fields: draft.fields.map((f, j) => (j === i ? { ...f, ...patch } : f)) });
+
+  // A new source starts over from the target's fields; an existing one keeps its own
+  const changeTarget = (target: CustomSourceTarget) =>
+    update(draft.id ? { target } : { target, fields: defaultCustomSourceFields(target) });
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveCustomSource(draft);
+      toast.success(`Source "${saved.name}" saved`);
+      onSaved(saved);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save source");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 rounded-lg border border-border-default p-4 space-y-4">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1">
+          <span className="text-[11px] text-text-muted">Name</span>
+          <Input
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="e.g. Mindbody sales"
+            className="h-8 text-[13px]"
+            disabled={saving}
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-[11px] text-text-muted">Rows are imported as</span>
+          <Select
+            value={draft.target}
+            onValueChange={(v) => changeTarget(v as CustomSourceTarget)}
+            disabled={saving}
+          >
+            <SelectTrigger className="h-8 text-[13px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CUSTOM_SOURCE_TARGETS) as CustomSourceTarget[]).map((t) => (
+                <SelectItem key={t} value={t}>
+                  {CUSTOM_SOURCE_TARGETS[t].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </label>
+      </div>
+
+      <div>
+        <p className="text-[12px] font-medium text-text-primary">Fields</p>
+        <p className="text-[11px] text-text-muted">
+          Aliases are other column names the field is matched to, separated by commas
+        </p>
+        <div className="mt-2 space-y-2">
+          {draft.fields.map((field, i) => {
+            const fixed = columnKeys.has(field.key);
+            return (
+              <div key={i} className="flex items-center gap-2 text-[12px]">
+                <Input
+                  value={field.key}
+                  onChange={(e) => updateField(i, { key: e.target.value })}
+                  placeholder="key"
+                  className="h-8 w-[130px] font-mono text-[12px]"
+                  disabled={saving || fixed}
+                />
+                <Input
+                  value={field.label}
+                  onChange={(e) => updateField(i, { label: e.target.value })}
+                  placeholder="Label"
+                  className="h-8 w-[130px] text-[13px]"
+                  disabled={saving}
+                />
+                <Select
+                  value={field.type}
+                  onValueChange={(v) => updateField(i, { type: v as CustomSourceField["type"] })}
+                  disabled={saving || fixed}
+                >
+                  <SelectTrigger className="h-8 w-[110px] text-[12px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(fixed && field.type === "enum" ? ["enum" as const] : CUSTOM_FIELD_TYPES).map((t) => (
+                      <SelectItem key={t} value={t}>
+                        {t}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={field.aliases.join(",")}
+                  onChange={(e) => updateField(i, { aliases: e.target.value.split(",") })}
+                  placeholder="Aliases"
+                  className="h-8 flex-1 text-[13px]"
+                  disabled={saving}
+                />
+                <label className="flex items-center gap-1.5 text-text-secondary">
+                  <Checkbox
+                    checked={field.required}
+                    onCheckedChange={(v) => updateField(i, { required: v === true })}
+                    disabled={saving}
+                  />
+                  Required
+                </label>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-text-muted hover:text-text-primary"
+                  disabled={saving || fixed}
+                  onClick={() => update({ fields: draft.fields.filter((_, j) => j !== i) })}
+                  aria-label="Remove field"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 h-7 px-2 text-[12px] text-text-muted"
+          disabled={saving}
+          onClick={() =>
+            update({
+              fields: [...draft.fields, { key: "", label: "", type: "text", required: false, aliases: [] }],
+            })
+          }
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add field
+        </Button>
+      </div>
+
+      <div>
+        <p className="text-[12px] font-medium text-text-primary">Customer identity</p>
+        <p className="text-[11px] text-text-muted">
+          Which fields identify the customer when rows are matched
+        </p>
+        <div className="mt-2 grid grid-cols-4 gap-3">
+          <IdentitySelect
+            label="Record ID"
+            value={draft.id_field}
+            fields={draft.fields}
+            disabled={saving}
+            onChange={(v) => update({ id_field: v ?? "" })}
+          />
+          <IdentitySelect
+            label="Email"
+            value={draft.email_field}
+            fields={draft.fields}
+            disabled={saving}
+            onChange={(v) => update({ email_field: v ?? "" })}
+          />
+          <IdentitySelect
+            label="Name"
+            value={draft.name_field}
+            fields={draft.fields}
+            disabled={saving}
+            onChange={(v) => update({ name_field: v ?? "" })}
+          />
+          <IdentitySelect
+            label="Phone"
+            value={draft.phone_field}
+            fields={draft.fields}
+            optional
+            disabled={saving}
+            onChange={(v) => update({ phone_field: v })}
+          />
+        </div>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="space-y-0.5 text-[12px] text-amber-600 dark:text-amber-400">
+          {problems.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <Button variant="ghost" size="sm" className="text-[12px] text-text-muted" disabled={saving} onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button size="sm" disabled={problems.length > 0 || saving} onClick={handleSave}>
+          {saving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+          Save source
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The org's custom sources: exports from systems without a built-in schema,
+ * imported into payments, bookings or attendance like the built-ins.
+ */
+export function CustomSourcesSettings({ initialSources }: { initialSources: CustomSource[] }) {
+  const { can } = useOrgRole();
+  const canEdit = can("config:update");
+  const [sources, setSources] = useState(initialSources);
+  const [editing, setEditing] = useState<Draft | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const handleSaved = (saved: CustomSource) => {
+    setSources((prev) =>
+      [...prev.filter((s) => s.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+    );
+    setEditing(null);
+  };
+
+  const handleDelete = async (source: CustomSource) => {
+    setDeletingId(source.id);
+    try {
+      await deleteCustomSource(source.id);
+      setSources((prev) => prev.filter((s) => s.id !== source.id));
+      toast.success(`Source "${source.name}" deleted`);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to delete source");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6 border-border-default shadow-none animate-fade-in-up stagger-3">
+      <CardContent className="p-6">
+        <div className="flex items-start justify-between gap-6">
+          <div>
+            <h2 className="text-[14px] font-semibold text-text-primary">Custom sources</h2>
+            <p className="mt-1 text-[12px] text-text-muted">
+              Exports from systems without a built-in format. Uploads are detected,
+              mapped and matched to customers like the built-in sources.
+            </p>
+          </div>
+          {canEdit && !editing && (
+            <Button size="sm" variant="outline" className="shrink-0" onClick={() => setEditing(newDraft())}>
+              <Plus className="h-3.5 w-3.5 mr-1" />
+              Add source
+            </Button>
+          )}
+        </div>
+
+        {sources.length > 0 && (
+          <div className="mt-4 divide-y divide-border-muted">
+            {sources.map((source) => (
+              <div key={source.id} className="flex items-center justify-between gap-6 py-3">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Database className="h-4 w-4 shrink-0 text-slate-500" strokeWidth={1.8} />
+                  <div className="min-w-0">
+                    <p className="text-[13px] font-medium text-text-primary truncate">{source.name}</p>
+                    <p className="text-[12px] text-text-muted">
+                      {CUSTOM_SOURCE_TARGETS[source.target].label} · {source.fields.length} fields
+                    </p>
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7 px-2 text-text-muted hover:text-text-primary"
+                      disabled={!!editing}
+                      onClick={() => setEditing(toDraft(source))}
+                      aria-label="Edit source"
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-text-muted hover:text-rose-600"
+                          disabled={!!editing || deletingId === source.id}
+                          aria-label="Delete source"
+                        >
+                          {deletingId === source.id ? (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          ) : (
+                            <Trash2 className="h-3 w-3" />
+                          )}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete {source.name}?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Its saved mappings are deleted too. A source with imports
+                            can&apos;t be deleted until those imports are.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <Button
+                            onClick={() => handleDelete(source)}
+                            className="bg-rose-600 hover:bg-rose-700"
+                          >
+                            Delete
+                          </Button>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {sources.length === 0 && !editing && (
+          <p className="mt-4 text-[12px] text-text-muted">No custom sources yet.</p>
+        )}
+
+        {editing && (
+          <SourceEditor
+            key={editing.id ?? "new"}
+            initial={editing}
+            onCancel={() => setEditing(null)}
+            onSaved={handleSaved}
+          />
+        )}
+
+        {!canEdit && (
+          <p className="mt-5 text-[12px] text-text-muted">
+            Only owners and admins can change custom sources.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
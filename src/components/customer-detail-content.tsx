@@ -1,10 +1,12 @@
 "use client";
 
+import Link from "next/link";
 import {
   CreditCard,
   Calendar,
   UserCheck,
   ChevronDown,
+  Activity,
 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { riskBadge, tierBadge } from "@/components/badge-helpers";
@@ -12,6 +14,11 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import type { CustomerDetail } from "@/lib/types/dashboard";
 import type { GroupedSource } from "@/hooks/use-customer-detail";
+import { CustomerMergesSection } from "@/components/customer-merges-section";
+import { CustomerNeverMatchSection } from "@/components/customer-never-match-section";
+import { CustomerHouseholdSection } from "@/components/customer-household-section";
+import { SplitCustomerDialog } from "@/components/split-customer-dialog";
+import { useOrgRole } from "@/hooks/use-org-role";
 
 type TransactionDetail = CustomerDetail["transactions"][number];
 
@@ -21,6 +28,9 @@ export const SOURCE_LABELS: Record<string, { label: string; color: string }> = {
   passline: { label: "PassLine", color: "bg-orange-50 text-orange-700 dark:bg-orange-500/10 dark:text-orange-400" },
   pos: { label: "POS", color: "bg-emerald-50 text-emerald-700 dark:bg-emerald-500/10 dark:text-emerald-400" },
   wetravel: { label: "WeTravel", color: "bg-cyan-50 text-cyan-700 dark:bg-cyan-500/10 dark:text-cyan-400" },
+  shopify: { label: "Shopify", color: "bg-lime-50 text-lime-700 dark:bg-lime-500/10 dark:text-lime-400" },
+  square: { label: "Square", color: "bg-sky-50 text-sky-700 dark:bg-sky-500/10 dark:text-sky-400" },
+  mindbody: { label: "Mindbody", color: "bg-yellow-50 text-yellow-700 dark:bg-yellow-500/10 dark:text-yellow-400" },
   manual: { label: "Manual", color: "bg-surface-muted text-text-secondary" },
 };
 
@@ -206,6 +216,7 @@ export interface CustomerDetailContentProps {
   expandedSources: Set<string>;
   setExpandedSources: React.Dispatch<React.SetStateAction<Set<string>>>;
   groupedSources: GroupedSource[];
+  onCustomerChanged?: () => void;
 }
 
 export function CustomerDetailContent({
@@ -217,7 +228,10 @@ export function CustomerDetailContent({
   expandedSources,
   setExpandedSources,
   groupedSources,
+  onCustomerChanged,
 }: CustomerDetailContentProps) {
+  const { can } = useOrgRole();
+
   return (
     <>
       {/* Header info */}
@@ -252,6 +266,16 @@ export function CustomerDetailContent({
             })}
           </div>
         )}
+        <Link
+          href={`/activity?customer=${detail.customer.id}`}
+          className="mt-2 inline-flex items-center gap-1 text-[12px] text-text-muted hover:text-text-primary"
+        >
+          <Activity className="h-3 w-3" />
+          View activity
+        </Link>
+        {can("customer:split") && (
+          <SplitCustomerDialog detail={detail} onSplit={onCustomerChanged} />
+        )}
       </div>
 
       {/* Stats cards */}
@@ -264,6 +288,11 @@ export function CustomerDetailContent({
             <p className="text-[16px] font-semibold text-text-primary tabular-nums">
               ${detail.customer.totalRevenue.toLocaleString()}
             </p>
+            {detail.customer.household && (
+              <p className="text-[11px] text-text-muted tabular-nums">
+                Household ${detail.customer.household.totalRevenue.toLocaleString()}
+              </p>
+            )}
           </CardContent>
         </Card>
         <Card className="border-border-default shadow-none">
@@ -386,6 +415,24 @@ export function CustomerDetailContent({
         </div>
       )}
 
+      {/* Household */}
+      {detail.customer.household && (
+        <CustomerHouseholdSection
+          customerId={detail.customer.id}
+          household={detail.customer.household}
+          onChanged={onCustomerChanged}
+        />
+      )}
+
+      {/* Merged Customers */}
+      <CustomerMergesSection
+        customerId={detail.customer.id}
+        onUnmerged={onCustomerChanged}
+      />
+
+      {/* Never-match rules */}
+      <CustomerNeverMatchSection customerId={detail.customer.id} />
+
       {/* Revenue by Source */}
       {Object.keys(detail.customer.revenueBySource).length > 0 && (
         <div className="mb-6">
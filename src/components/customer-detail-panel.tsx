@@ -28,6 +28,7 @@ export function CustomerDetailPanel({
     expandedSources,
     setExpandedSources,
     groupedSources,
+    reload,
   } = useCustomerDetail(customerId, profileParam, open);
 
   const handleKeyDown = useCallback(
@@ -89,6 +90,7 @@ export function CustomerDetailPanel({
             expandedSources={expandedSources}
             setExpandedSources={setExpandedSources}
             groupedSources={groupedSources}
+            onCustomerChanged={reload}
           />
         )}
         {!loading && !detail && open && customerId && (
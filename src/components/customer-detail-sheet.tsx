@@ -33,6 +33,7 @@ export function CustomerDetailSheet({
     expandedSources,
     setExpandedSources,
     groupedSources,
+    reload,
   } = useCustomerDetail(customerId, profileParam, open);
 
   return (
@@ -59,6 +60,7 @@ export function CustomerDetailSheet({
               expandedSources={expandedSources}
               setExpandedSources={setExpandedSources}
               groupedSources={groupedSources}
+              onCustomerChanged={reload}
             />
           </div>
         )}
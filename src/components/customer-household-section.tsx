@@ -0,0 +1,100 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { removeFromHousehold } from "@/lib/actions/households";
+import { useOrgRole } from "@/hooks/use-org-role";
+import type { CustomerDetail } from "@/lib/types/dashboard";
+
+interface CustomerHouseholdSectionProps {
+  customerId: string;
+  household: NonNullable<CustomerDetail["customer"]["household"]>;
+  /** Called after a member is removed so the parent can refetch the customer */
+  onChanged?: () => void;
+}
+
+/**
+ * Members of the customer's household with their individual LTV, and
+ * a remove action per member.
+ */
+export function CustomerHouseholdSection({
+  customerId,
+  household,
+  onChanged,
+}: CustomerHouseholdSectionProps) {
+  const router = useRouter();
+  const { can } = useOrgRole();
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const handleRemove = async (memberId: string) => {
+    setRemovingId(memberId);
+    try {
+      await removeFromHousehold(memberId);
+      toast.success("Removed from household");
+      onChanged?.();
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove from household");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-[13px] font-semibold text-text-primary mb-3">
+        Household{household.name ? ` · ${household.name}` : ""}
+      </h3>
+      <div className="space-y-1.5">
+        {household.members.map((m) => (
+          <div
+            key={m.id}
+            className="flex items-center justify-between gap-2 text-[12px]"
+          >
+            <div className="min-w-0">
+              <p className="font-medium text-text-primary truncate">
+                {m.full_name ?? m.email ?? "Unknown"}
+                {m.id === customerId && (
+                  <span className="ml-1 font-normal text-text-muted">(this customer)</span>
+                )}
+              </p>
+              <p className="text-[11px] text-text-muted truncate">
+                {m.email ?? "No email"}
+              </p>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <span className="tabular-nums text-text-secondary">
+                ${m.totalRevenue.toLocaleString()}
+              </span>
+              {can("customer:household") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-[11px] text-text-muted hover:text-text-primary"
+                  disabled={removingId === m.id}
+                  onClick={() => handleRemove(m.id)}
+                  aria-label="Remove from household"
+                >
+                  {removingId === m.id ? (
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                  ) : (
+                    <X className="h-3 w-3" />
+                  )}
+                </Button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between mt-2 pt-2 border-t border-border-muted text-[12px]">
+        <span className="text-text-muted">Household total</span>
+        <span className="font-semibold text-text-primary tabular-nums">
+          ${household.totalRevenue.toLocaleString()}
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Split } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  getCustomerMerges,
+  unmergeCustomers,
+  type CustomerMergeRow,
+} from "@/lib/actions/history";
+import { useOrgRole } from "@/hooks/use-org-role";
+
+interface CustomerMergesSectionProps {
+  customerId: string;
+  /** Called after an unmerge so the parent can refetch the customer */
+  onUnmerged?: () => void;
+}
+
+/**
+ * Customers merged into this one, each with an Unmerge action.
+ * Renders nothing when the customer has no active merges.
+ */
+export function CustomerMergesSection({
+  customerId,
+  onUnmerged,
+}: CustomerMergesSectionProps) {
+  const router = useRouter();
+  const { can } = useOrgRole();
+  const [merges, setMerges] = useState<CustomerMergeRow[]>([]);
+  const [unmergingId, setUnmergingId] = useState<string | null>(null);
+
+  const fetchMerges = useCallback(async () => {
+    try {
+      setMerges(await getCustomerMerges(customerId));
+    } catch {
+      setMerges([]);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchMerges();
+  }, [fetchMerges]);
+
+  const handleUnmerge = async (mergeId: string) => {
+    setUnmergingId(mergeId);
+    try {
+      await unmergeCustomers(mergeId);
+      toast.success("Merge undone — customer restored");
+      fetchMerges();
+      onUnmerged?.();
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to unmerge");
+    } finally {
+      setUnmergingId(null);
+    }
+  };
+
+  if (merges.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-[13px] font-semibold text-text-primary mb-3">
+        Merged Customers
+      </h3>
+      <div className="space-y-1.5">
+        {merges.map((m) => (
+          <div
+            key={m.id}
+            className="flex items-center justify-between gap-2 text-[12px]"
+          >
+            <div className="min-w-0">
+              <p className="font-medium text-text-primary truncate">
+                {m.removed_name ?? m.removed_email ?? "Unknown"}
+              </p>
+              <p className="text-[11px] text-text-muted truncate">
+                {m.removed_email ?? "No email"} · merged {formatDate(m.merged_at)}
+              </p>
+            </div>
+            {can("customer:merge") && (
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-[11px] text-text-muted hover:text-amber-600 shrink-0"
+                    disabled={unmergingId === m.id}
+                  >
+                    {unmergingId === m.id ? (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    ) : (
+                      <>
+                        <Split className="h-3 w-3 mr-1" />
+                        Unmerge
+                      </>
+                    )}
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Undo this merge?</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      <span className="font-medium">
+                        {m.removed_name ?? m.removed_email ?? "This customer"}
+                      </span>{" "}
+                      will be restored as a separate customer and their
+                      payments, bookings, attendance, CRM and attribution
+                      records will be moved back.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <Button
+                      onClick={() => handleUnmerge(m.id)}
+                      className="bg-amber-600 hover:bg-amber-700"
+                    >
+                      Unmerge
+                    </Button>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
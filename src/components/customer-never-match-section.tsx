@@ -0,0 +1,101 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  getNeverMatchRules,
+  removeNeverMatchRule,
+  type NeverMatchRow,
+} from "@/lib/actions/history";
+import { useOrgRole } from "@/hooks/use-org-role";
+
+const REASON_LABELS: Record<string, string> = {
+  dismissed: "conflict dismissed",
+  split: "split",
+  unmerged: "merge undone",
+};
+
+interface CustomerNeverMatchSectionProps {
+  customerId: string;
+}
+
+/**
+ * Customers known to be different people from this one. Imports never
+ * stitch or flag these pairs; removing a rule allows matching again.
+ * Renders nothing when there are no rules.
+ */
+export function CustomerNeverMatchSection({ customerId }: CustomerNeverMatchSectionProps) {
+  const { can } = useOrgRole();
+  const [rules, setRules] = useState<NeverMatchRow[]>([]);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const fetchRules = useCallback(async () => {
+    try {
+      setRules(await getNeverMatchRules(customerId));
+    } catch {
+      setRules([]);
+    }
+  }, [customerId]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const handleRemove = async (ruleId: string) => {
+    setRemovingId(ruleId);
+    try {
+      await removeNeverMatchRule(ruleId);
+      toast.success("Rule removed — these customers can be matched again");
+      fetchRules();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to remove rule");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  if (rules.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <h3 className="text-[13px] font-semibold text-text-primary mb-3">
+        Never Merge With
+      </h3>
+      <div className="space-y-1.5">
+        {rules.map((r) => (
+          <div
+            key={r.id}
+            className="flex items-center justify-between gap-2 text-[12px]"
+          >
+            <div className="min-w-0">
+              <p className="font-medium text-text-primary truncate">
+                {r.other_name ?? r.other_email ?? "Unknown"}
+              </p>
+              <p className="text-[11px] text-text-muted truncate">
+                {r.other_email ?? "No email"} · {REASON_LABELS[r.reason] ?? r.reason}
+              </p>
+            </div>
+            {can("conflict:resolve") && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-[11px] text-text-muted hover:text-text-primary shrink-0"
+                disabled={removingId === r.id}
+                onClick={() => handleRemove(r.id)}
+                aria-label="Remove never-merge rule"
+              >
+                {removingId === r.id ? (
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                ) : (
+                  <X className="h-3 w-3" />
+                )}
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -7,10 +7,13 @@ import {
   ArrowUp,
   ArrowDown,
   X,
+  Merge,
+  Users,
 } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   TableBody,
   TableCell,
@@ -21,7 +24,10 @@ import {
 import { CustomerDetailSheet } from "@/components/customer-detail-sheet";
 import { CustomerDetailPanel } from "@/components/customer-detail-panel";
 import { FilterMultiSelect } from "@/components/filter-multi-select";
+import { MergeCustomersDialog } from "@/components/merge-customers-dialog";
+import { HouseholdDialog } from "@/components/household-dialog";
 import { useMediaQuery } from "@/hooks/use-media-query";
+import { useOrgRole } from "@/hooks/use-org-role";
 import { riskBadge, tierBadge } from "@/components/badge-helpers";
 import type { ComputedCustomer, ResolvedConfig } from "@/lib/insights/types";
 import {
@@ -82,6 +88,18 @@ const SOURCE_LABELS: Record<string, { label: string; color: string }> = {
     label: "WeTravel",
     color: "bg-cyan-50 text-cyan-700 dark:bg-cyan-500/10 dark:text-cyan-400",
   },
+  shopify: {
+    label: "Shopify",
+    color: "bg-lime-50 text-lime-700 dark:bg-lime-500/10 dark:text-lime-400",
+  },
+  square: {
+    label: "Square",
+    color: "bg-sky-50 text-sky-700 dark:bg-sky-500/10 dark:text-sky-400",
+  },
+  mindbody: {
+    label: "Mindbody",
+    color: "bg-yellow-50 text-yellow-700 dark:bg-yellow-500/10 dark:text-yellow-400",
+  },
   manual: {
     label: "Manual",
     color: "bg-surface-muted text-text-secondary",
@@ -192,6 +210,13 @@ export function CustomersClient({
   const [sortDir, setSortDir] = useState<SortDir>("desc");
   const [sheetCustomerId, setSheetCustomerId] = useState<string | null>(null);
   const [sheetOpen, setSheetOpen] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeOpen, setMergeOpen] = useState(false);
+  const [householdOpen, setHouseholdOpen] = useState(false);
+  const { can } = useOrgRole();
+  const canMerge = can("customer:merge");
+  const canHousehold = can("customer:household");
+  const canSelect = canMerge || canHousehold;
 
   // ── Sheet auto-open from ?customer= ─────────────────────
   useEffect(() => {
@@ -370,6 +395,20 @@ export function CustomersClient({
     }
   };
 
+  const toggleSelect = (customerId: string) => {
+    setSelectedIds((prev) =>
+      prev.includes(customerId)
+        ? prev.filter((id) => id !== customerId)
+        : [...prev, customerId]
+    );
+  };
+
+  const handleMerged = (keptCustomerId: string) => {
+    setSelectedIds([]);
+    setSheetCustomerId(keptCustomerId);
+    setSheetOpen(true);
+  };
+
   const clearAllFilters = useCallback(() => {
     setSearch("");
     setSegmentFilter(new Set(ALL_SEGMENTS));
@@ -482,7 +521,43 @@ export function CustomersClient({
         </div>
 
         {/* Clear filters row — always takes space, button fades in/out */}
-        <div className="flex justify-end h-5">
+        <div className="flex justify-end items-center gap-2 h-5">
+          {canSelect && selectedIds.length > 0 && (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-[12px] text-text-muted"
+                onClick={() => setSelectedIds([])}
+              >
+                Clear selection
+              </Button>
+              {canHousehold && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-[12px]"
+                  disabled={selectedIds.length < 2}
+                  onClick={() => setHouseholdOpen(true)}
+                >
+                  <Users className="mr-1 h-3 w-3" />
+                  Group as household
+                </Button>
+              )}
+              {canMerge && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-[12px]"
+                  disabled={selectedIds.length < 2}
+                  onClick={() => setMergeOpen(true)}
+                >
+                  <Merge className="mr-1 h-3 w-3" />
+                  Merge selected ({selectedIds.length})
+                </Button>
+              )}
+            </>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -502,6 +577,7 @@ export function CustomersClient({
         <table className="w-full caption-bottom text-sm">
           <TableHeader className="sticky top-0 z-20 bg-surface [&_tr]:hover:bg-transparent">
             <TableRow className="border-border-default">
+              {canSelect && <TableHead className="w-[40px] pl-4" />}
               <TableHead
                 className={`pl-4 text-[11px] font-medium tracking-wide uppercase cursor-pointer select-none ${isActiveSort("full_name") ? "text-text-primary" : "text-text-muted"}`}
                 onClick={() => handleSort("full_name")}
@@ -569,6 +645,19 @@ export function CustomersClient({
                 }`}
                 onClick={() => handleRowClick(customer.id)}
               >
+                {canSelect && (
+                  <TableCell className="pl-4">
+                    <Checkbox
+                      checked={selectedIds.includes(customer.id)}
+                      onClick={(e: React.MouseEvent) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        toggleSelect(customer.id);
+                      }}
+                      aria-label={`Select ${customer.full_name || customer.email || "customer"}`}
+                    />
+                  </TableCell>
+                )}
                 <TableCell className="pl-4">
                   <p className="text-[13px] font-medium text-text-primary">
                     {customer.full_name || customer.email || "Unknown"}
@@ -582,6 +671,14 @@ export function CustomersClient({
                   {customer.lifetime_revenue.toLocaleString("en-US", {
                     minimumFractionDigits: 0,
                   })}
+                  {customer.household_revenue !== null && (
+                    <p className="text-[11px] font-normal text-text-muted">
+                      Household $
+                      {customer.household_revenue.toLocaleString("en-US", {
+                        minimumFractionDigits: 0,
+                      })}
+                    </p>
+                  )}
                 </TableCell>
                 <TableCell>{tierBadge(customer.revenue_tier)}</TableCell>
                 <TableCell>{riskBadge(customer.risk_status)}</TableCell>
@@ -607,7 +704,7 @@ export function CustomersClient({
             {filtered.length === 0 && (
               <TableRow>
                 <TableCell
-                  colSpan={7}
+                  colSpan={canSelect ? 8 : 7}
                   className="h-24 text-center text-[13px] text-text-muted"
                 >
                   No customers match your filters.
@@ -618,6 +715,23 @@ export function CustomersClient({
         </table>
       </div>
 
+      {canMerge && (
+        <MergeCustomersDialog
+          open={mergeOpen}
+          onOpenChange={setMergeOpen}
+          customerIds={selectedIds}
+          onMerged={handleMerged}
+        />
+      )}
+      {canHousehold && (
+        <HouseholdDialog
+          open={householdOpen}
+          onOpenChange={setHouseholdOpen}
+          customerIds={selectedIds}
+          onGrouped={() => setSelectedIds([])}
+        />
+      )}
+
       {/* Customer Detail — desktop: non-modal panel, mobile: modal sheet */}
       {mounted && isDesktop && (
         <CustomerDetailPanel
@@ -39,6 +39,9 @@ const SOURCE_COLORS: Record<string, string> = {
   stripe: "#3b82f6",
   pos: "#22c55e",
   wetravel: "#a855f7",
+  shopify: "#84cc16",
+  square: "#0ea5e9",
+  mindbody: "#eab308",
   calendly: "#f97316",
   passline: "#14b8a6",
   manual: "#64748b",
@@ -50,6 +53,9 @@ const SOURCE_LABELS: Record<string, string> = {
   stripe: "Stripe",
   pos: "POS",
   wetravel: "WeTravel",
+  shopify: "Shopify",
+  square: "Square",
+  mindbody: "Mindbody",
   calendly: "Calendly",
   passline: "PassLine",
   manual: "Manual",
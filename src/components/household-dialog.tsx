@@ -0,0 +1,103 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Users } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { groupHousehold } from "@/lib/actions/households";
+
+interface HouseholdDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerIds: string[];
+  /** Called after the customers were grouped */
+  onGrouped?: () => void;
+}
+
+/**
+ * Group selected customers into a household. If one of them already
+ * belongs to a household, the others join it.
+ */
+export function HouseholdDialog({
+  open,
+  onOpenChange,
+  customerIds,
+  onGrouped,
+}: HouseholdDialogProps) {
+  const router = useRouter();
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setName("");
+  }, [open]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await groupHousehold({ customerIds, name });
+      toast.success(`Grouped ${customerIds.length} customers as a household`);
+      onOpenChange(false);
+      onGrouped?.();
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to group customers");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="text-[14px]">
+            Group {customerIds.length} customers as a household
+          </DialogTitle>
+          <DialogDescription className="text-[12px]">
+            Household members stay separate customers. Imports that share their
+            email or phone are matched by name within the household, and
+            lifetime revenue is also shown per household.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Household name (optional)"
+          className="h-8 text-[13px]"
+          disabled={saving}
+        />
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+          >
+            Cancel
+          </Button>
+          <Button size="sm" onClick={handleSave} disabled={saving}>
+            {saving ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+            ) : (
+              <Users className="h-3.5 w-3.5 mr-1" />
+            )}
+            Group
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { useRouter } from "next/navigation";
+import { Check, Loader2, Merge } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { getCustomersForMerge, mergeCustomers } from "@/lib/actions/history";
+import {
+  MERGE_FIELDS,
+  defaultFieldPicks,
+  type MergeCandidate,
+  type MergeField,
+  type MergeFieldPicks,
+} from "@/lib/stitching/merge";
+
+const FIELD_LABELS: Record<MergeField, string> = {
+  full_name: "Name",
+  email: "Email",
+  phone: "Phone",
+  country: "Country",
+  notes: "Notes",
+  last_visit_date: "Last visit",
+  classes_remaining: "Classes remaining",
+  membership_status: "Membership status",
+  referral_source: "Referral source",
+  occupation: "Occupation",
+  skill_level: "Skill level",
+  member_type: "Member type",
+  join_date: "Join date",
+  preferred_currency: "Preferred currency",
+  preferred_time_slot: "Preferred time slot",
+};
+
+interface MergeCustomersDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customerIds: string[];
+  /** Called after a successful merge with the surviving customer's ID */
+  onMerged?: (keptCustomerId: string) => void;
+}
+
+function displayName(c: MergeCandidate): string {
+  return String(c.full_name ?? c.email ?? "Unknown");
+}
+
+function isBlank(value: string | number | null): boolean {
+  return value === null || String(value).trim() === "";
+}
+
+/**
+ * Merge two or more selected customers into one.
+ *
+ * The user picks the surviving record, then — for every field where the
+ * customers disagree — whose value to keep. Defaults follow the same
+ * precedence rules as automatic stitching.
+ */
+export function MergeCustomersDialog({
+  open,
+  onOpenChange,
+  customerIds,
+  onMerged,
+}: MergeCustomersDialogProps) {
+  const router = useRouter();
+  const [candidates, setCandidates] = useState<MergeCandidate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [survivorId, setSurvivorId] = useState<string | null>(null);
+  const [picks, setPicks] = useState<MergeFieldPicks | null>(null);
+
+  useEffect(() => {
+    if (!open || customerIds.length < 2) return;
+    let cancelled = false;
+    setLoading(true);
+    getCustomersForMerge(customerIds)
+      .then((rows) => {
+        if (cancelled) return;
+        setCandidates(rows);
+        const first = rows[0]?.id ?? null;
+        setSurvivorId(first);
+        setPicks(first ? defaultFieldPicks(rows, first) : null);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          toast.error(err instanceof Error ? err.message : "Failed to load customers");
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, customerIds]);
+
+  const chooseSurvivor = (id: string) => {
+    setSurvivorId(id);
+    setPicks(defaultFieldPicks(candidates, id));
+  };
+
+  // Only fields where at least two customers hold different non-empty values
+  const contestedFields = MERGE_FIELDS.filter((field) => {
+    const values = new Set(
+      candidates.filter((c) => !isBlank(c[field])).map((c) => String(c[field]))
+    );
+    return values.size > 1;
+  });
+
+  const handleMerge = async () => {
+    if (!survivorId || !picks) return;
+    setMerging(true);
+    try {
+      const { merged } = await mergeCustomers({
+        keepCustomerId: survivorId,
+        removeCustomerIds: candidates.map((c) => c.id).filter((id) => id !== survivorId),
+        picks,
+      });
+      toast.success(`Merged ${merged + 1} customers`);
+      onOpenChange(false);
+      onMerged?.(survivorId);
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to merge customers");
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="text-[14px]">
+            Merge {customerIds.length} customers
+          </DialogTitle>
+          <DialogDescription className="text-[12px]">
+            Payments, bookings, attendance, CRM and attribution records move to
+            the surviving customer. Each merge can be undone from the customer
+            detail.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading || !picks ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-5 w-5 animate-spin text-text-muted" />
+          </div>
+        ) : (
+          <div className="space-y-5 py-1">
+            {/* Survivor */}
+            <div>
+              <p className="text-[11px] font-medium tracking-wide uppercase text-text-muted mb-2">
+                Keep record
+              </p>
+              <div className="grid gap-1.5">
+                {candidates.map((c) => (
+                  <button
+                    key={c.id}
+                    type="button"
+                    onClick={() => chooseSurvivor(c.id)}
+                    className={cn(
+                      "flex items-center justify-between rounded-md border px-3 py-2 text-left text-[12px] transition-colors",
+                      survivorId === c.id
+                        ? "border-text-primary bg-surface-elevated"
+                        : "border-border-default hover:bg-surface-elevated/50"
+                    )}
+                  >
+                    <span className="min-w-0">
+                      <span className="block font-medium text-text-primary truncate">
+                        {displayName(c)}
+                      </span>
+                      <span className="block text-[11px] text-text-muted truncate">
+                        {c.email ?? "No email"}
+                      </span>
+                    </span>
+                    {survivorId === c.id && (
+                      <Check className="h-3.5 w-3.5 shrink-0 text-text-primary" />
+                    )}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Field picker */}
+            {contestedFields.length > 0 ? (
+              <div>
+                <p className="text-[11px] font-medium tracking-wide uppercase text-text-muted mb-2">
+                  Keep values
+                </p>
+                <div className="divide-y divide-border-muted rounded-md border border-border-default">
+                  {contestedFields.map((field) => (
+                    <div key={field} className="grid grid-cols-[140px_1fr] gap-3 px-3 py-2">
+                      <span className="pt-1 text-[12px] text-text-secondary">
+                        {FIELD_LABELS[field]}
+                      </span>
+                      <div className="flex flex-wrap gap-1.5">
+                        {candidates
+                          .filter((c) => !isBlank(c[field]))
+                          .map((c) => (
+                            <button
+                              key={c.id}
+                              type="button"
+                              onClick={() => setPicks({ ...picks, [field]: c.id })}
+                              title={`From ${displayName(c)}`}
+                              className={cn(
+                                "max-w-full truncate rounded border px-2 py-1 text-[12px] transition-colors",
+                                picks[field] === c.id
+                                  ? "border-text-primary bg-surface-elevated text-text-primary"
+                                  : "border-border-default text-text-muted hover:text-text-primary"
+                              )}
+                            >
+                              {String(c[field])}
+                            </button>
+                          ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-[12px] text-text-muted">
+                These customers have no conflicting fields.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onOpenChange(false)}
+            disabled={merging}
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleMerge}
+            disabled={loading || merging || !picks}
+          >
+            {merging ? (
+              <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+            ) : (
+              <Merge className="h-3.5 w-3.5 mr-1" />
+            )}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { getLatestRestitchJob, startRestitchJob } from "@/lib/actions/restitch";
+import type { RestitchJob } from "@/lib/types";
+
+const POLL_INTERVAL = 2000;
+
+function isActive(job: RestitchJob | null): boolean {
+  return job?.status === "pending" || job?.status === "running";
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * "Re-run identity resolution" control for the Conflicts page. Starts a
+ * background re-stitch job and polls its progress; calls onComplete when
+ * a job finishes so the conflict list can pick up the new proposals.
+ */
+export function RestitchJobPanel({
+  canRun,
+  onComplete,
+}: {
+  canRun: boolean;
+  onComplete: () => void;
+}) {
+  const [job, setJob] = useState<RestitchJob | null>(null);
+  const [starting, setStarting] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setJob(await getLatestRestitchJob());
+    } catch {
+      // Keep the last known state
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const active = isActive(job);
+
+  useEffect(() => {
+    if (!active) return;
+    const timer = setInterval(async () => {
+      const next = await getLatestRestitchJob().catch(() => null);
+      if (!next) return;
+      setJob(next);
+      if (next.status === "completed") {
+        toast.success(
+          next.conflicts_created === 0
+            ? "Identity resolution finished — no new duplicates found"
+            : `Identity resolution finished — ${next.conflicts_created} possible duplicates to review`
+        );
+        onComplete();
+      } else if (next.status === "failed") {
+        toast.error(next.error ?? "Identity resolution failed");
+      }
+    }, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [active, onComplete]);
+
+  const handleStart = async () => {
+    setStarting(true);
+    try {
+      setJob(await startRestitchJob());
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to start identity resolution");
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const percent =
+    job && job.total_customers > 0
+      ? Math.round((job.processed_customers / job.total_customers) * 100)
+      : 0;
+
+  return (
+    <div className="flex items-center gap-3">
+      {active && job ? (
+        <div className="w-[240px]">
+          <div className="flex items-center justify-between text-[12px] text-text-muted mb-1">
+            <span>
+              {job.total_customers > 0
+                ? `${job.processed_customers.toLocaleString()} of ${job.total_customers.toLocaleString()} customers`
+                : "Loading customers…"}
+            </span>
+            <span className="tabular-nums">{job.conflicts_created} found</span>
+          </div>
+          <Progress value={percent} className="h-1.5" />
+        </div>
+      ) : (
+        job?.completed_at && (
+          <span className="text-[12px] text-text-muted">
+            {job.status === "failed"
+              ? `Last run failed ${formatDate(job.completed_at)}`
+              : `Last run ${formatDate(job.completed_at)} — ${job.conflicts_created} flagged`}
+          </span>
+        )
+      )}
+      {canRun && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="text-[12px]"
+          disabled={active || starting}
+          onClick={handleStart}
+        >
+          {active || starting ? (
+            <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+          ) : (
+            <RefreshCw className="h-3.5 w-3.5 mr-1" />
+          )}
+          Re-run identity resolution
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -22,6 +22,9 @@ const SOURCE_COLORS: Record<string, string> = {
   stripe: "#3b82f6",
   pos: "#22c55e",
   wetravel: "#a855f7",
+  shopify: "#84cc16",
+  square: "#0ea5e9",
+  mindbody: "#eab308",
   calendly: "#f97316",
   passline: "#14b8a6",
   manual: "#64748b",
@@ -31,12 +34,15 @@ const SOURCE_LABELS: Record<string, string> = {
   stripe: "Stripe",
   pos: "POS",
   wetravel: "WeTravel",
+  shopify: "Shopify",
+  square: "Square",
+  mindbody: "Mindbody",
   calendly: "Calendly",
   passline: "PassLine",
   manual: "Manual",
 };
 
-const SOURCES = ["stripe", "pos", "wetravel", "calendly", "passline", "manual"] as const;
+const SOURCES = ["stripe", "pos", "wetravel", "shopify", "square", "mindbody", "calendly", "passline", "manual"] as const;
 
 function TotalTooltip({ active, payload, label }: { active?: boolean; payload?: Array<{ value: number }>; label?: string }) {
   if (!active || !payload?.length) return null;
@@ -1,14 +1,18 @@
 "use client";
 
+import { useEffect, useState } from "react";
 import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
-import { PanelLeftClose } from "lucide-react";
+import { PanelLeftClose, ChevronsUpDown, Check } from "lucide-react";
+import { toast } from "sonner";
 import {
   DashboardIcon,
   CustomersIcon,
   UploadIcon,
   ImportsIcon,
   ConflictsIcon,
+  ActivityIcon,
+  SettingsIcon,
   SunIcon,
   MoonIcon,
   LogOutIcon,
@@ -17,12 +21,20 @@ import { useTheme } from "next-themes";
 import { cn } from "@/lib/utils";
 import { createClient } from "@/lib/supabase/client";
 import { useSidebar } from "@/components/sidebar-provider";
+import { getMyOrganizations, switchOrganization } from "@/lib/actions/org";
 import {
   Tooltip,
   TooltipContent,
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 
 export const SIDEBAR_EXPANDED_W = 260;
 export const SIDEBAR_COLLAPSED_W = 64;
@@ -33,8 +45,90 @@ const navItems = [
   { href: "/upload", label: "Upload", icon: UploadIcon },
   { href: "/imports", label: "Imports", icon: ImportsIcon },
   { href: "/conflicts", label: "Conflicts", icon: ConflictsIcon },
+  { href: "/activity", label: "Activity", icon: ActivityIcon },
+  { href: "/settings", label: "Settings", icon: SettingsIcon },
 ];
 
+interface OrgOption {
+  id: string;
+  name: string;
+}
+
+function OrgSwitcher({ collapsed }: { collapsed: boolean }) {
+  const [orgs, setOrgs] = useState<OrgOption[]>([]);
+  const [activeOrgId, setActiveOrgId] = useState<string | null>(null);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    getMyOrganizations()
+      .then((res) => {
+        setOrgs(res.organizations);
+        setActiveOrgId(res.activeOrgId);
+      })
+      .catch(() => {
+        // Sidebar still renders without org info (e.g. during sign-out)
+      });
+  }, []);
+
+  const handleSwitch = async (orgId: string) => {
+    if (orgId === activeOrgId) return;
+    setSwitching(true);
+    try {
+      await switchOrganization(orgId);
+      // Pages hold org data in client state — reload so everything refetches
+      window.location.reload();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to switch organization");
+      setSwitching(false);
+    }
+  };
+
+  const active = orgs.find((o) => o.id === activeOrgId);
+  if (!active || collapsed) return null;
+
+  const label = (
+    <span className="truncate text-[13px] font-medium text-text-primary">
+      {active.name}
+    </span>
+  );
+
+  if (orgs.length < 2) {
+    return <div className="px-4 py-2.5">{label}</div>;
+  }
+
+  return (
+    <div className="px-3 py-2">
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            onClick={(e) => e.stopPropagation()}
+            disabled={switching}
+            className="flex w-full items-center justify-between gap-2 rounded-lg px-3 py-2 transition-colors hover:bg-surface-elevated disabled:opacity-50"
+          >
+            {label}
+            <ChevronsUpDown className="h-3.5 w-3.5 shrink-0 text-text-muted" />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-[228px]">
+          <DropdownMenuLabel className="text-[11px] text-text-muted">
+            Organizations
+          </DropdownMenuLabel>
+          {orgs.map((org) => (
+            <DropdownMenuItem
+              key={org.id}
+              onSelect={() => handleSwitch(org.id)}
+              className="text-[13px]"
+            >
+              <span className="flex-1 truncate">{org.name}</span>
+              {org.id === activeOrgId && <Check className="h-3.5 w-3.5" />}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+}
+
 export function Sidebar() {
   const pathname = usePathname();
   const router = useRouter();
@@ -107,6 +201,9 @@ export function Sidebar() {
 
         <div className="mx-4 h-px bg-border-muted" />
 
+        {/* Organization */}
+        <OrgSwitcher collapsed={collapsed} />
+
         {/* Navigation */}
         <nav className="flex flex-1 flex-col gap-1 px-3 pt-2">
           {navItems.map((item) => {
@@ -0,0 +1,266 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Loader2, Split } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { splitCustomer } from "@/lib/actions/history";
+import type { CustomerDetail } from "@/lib/types/dashboard";
+
+type Transaction = CustomerDetail["transactions"][number];
+
+const TYPE_LABELS: Record<Transaction["type"], string> = {
+  payment: "Payments",
+  booking: "Bookings",
+  attendance: "Attendance",
+};
+
+interface SplitCustomerDialogProps {
+  detail: CustomerDetail;
+  /** Called after a split so the parent can refetch the customer */
+  onSplit?: () => void;
+}
+
+function formatDate(dateStr: string): string {
+  return new Date(dateStr).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function toggle(set: Set<string>, id: string): Set<string> {
+  const next = new Set(set);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+}
+
+/**
+ * "Split customer" button + dialog. Moves the chosen source links and
+ * payments / bookings / attendance onto a new customer.
+ */
+export function SplitCustomerDialog({ detail, onSplit }: SplitCustomerDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [splitting, setSplitting] = useState(false);
+  const [linkIds, setLinkIds] = useState<Set<string>>(new Set());
+  const [txIds, setTxIds] = useState<Set<string>>(new Set());
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [phone, setPhone] = useState("");
+
+  const { sourceLinks } = detail.customer;
+  const itemCount = sourceLinks.length + detail.transactions.length;
+
+  const reset = () => {
+    setLinkIds(new Set());
+    setTxIds(new Set());
+    setName("");
+    setEmail("");
+    setPhone("");
+  };
+
+  const toggleLink = (link: CustomerDetail["customer"]["sourceLinks"][number]) => {
+    const selecting = !linkIds.has(link.id);
+    setLinkIds((prev) => toggle(prev, link.id));
+    // Prefill the new identity from the first link picked
+    if (selecting) {
+      if (!name && link.external_name) setName(link.external_name);
+      if (!email && link.external_email && link.external_email !== detail.customer.email) {
+        setEmail(link.external_email);
+      }
+    }
+  };
+
+  const selectedCount = linkIds.size + txIds.size;
+
+  const handleSplit = async () => {
+    const byType = (type: Transaction["type"]) =>
+      detail.transactions.filter((t) => t.type === type && txIds.has(t.id)).map((t) => t.id);
+
+    setSplitting(true);
+    try {
+      await splitCustomer({
+        customerId: detail.customer.id,
+        newCustomer: {
+          full_name: name.trim() || null,
+          email: email.trim() || null,
+          phone: phone.trim() || null,
+        },
+        sourceLinkIds: Array.from(linkIds),
+        paymentIds: byType("payment"),
+        bookingIds: byType("booking"),
+        attendanceIds: byType("attendance"),
+      });
+      toast.success(`Split ${name.trim() || email.trim() || "new customer"} into a separate customer`);
+      setOpen(false);
+      reset();
+      onSplit?.();
+      router.refresh();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to split customer");
+    } finally {
+      setSplitting(false);
+    }
+  };
+
+  // Need something left on each side
+  if (itemCount < 2) return null;
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className="mt-2 ml-3 inline-flex items-center gap-1 text-[12px] text-text-muted hover:text-text-primary"
+      >
+        <Split className="h-3 w-3" />
+        Split customer
+      </button>
+
+      <Dialog
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (!next) reset();
+        }}
+      >
+        <DialogContent className="sm:max-w-[560px] max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="text-[14px]">Split customer</DialogTitle>
+            <DialogDescription className="text-[12px]">
+              Move records that belong to a different person onto a new
+              customer. Future imports of the moved source IDs stay with the
+              new customer.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-5 py-1">
+            {/* New identity */}
+            <div className="grid grid-cols-2 gap-2">
+              <Input
+                placeholder="Name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="text-[13px] h-9 col-span-2"
+              />
+              <Input
+                placeholder="Email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="text-[13px] h-9"
+              />
+              <Input
+                placeholder="Phone"
+                value={phone}
+                onChange={(e) => setPhone(e.target.value)}
+                className="text-[13px] h-9"
+              />
+            </div>
+
+            {/* Source links */}
+            {sourceLinks.length > 0 && (
+              <div>
+                <p className="text-[11px] font-medium tracking-wide uppercase text-text-muted mb-2">
+                  Source links
+                </p>
+                <div className="space-y-1">
+                  {sourceLinks.map((link) => (
+                    <label
+                      key={link.id}
+                      className="flex items-center gap-2 text-[12px] py-1 cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={linkIds.has(link.id)}
+                        onCheckedChange={() => toggleLink(link)}
+                      />
+                      <span className="text-text-secondary shrink-0">{link.source}</span>
+                      <span className="font-mono text-text-secondary truncate">
+                        {link.external_id}
+                      </span>
+                      <span className="text-text-muted truncate ml-auto">
+                        {link.external_email ?? link.external_name ?? ""}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Payments / bookings / attendance */}
+            {(["payment", "booking", "attendance"] as const).map((type) => {
+              const rows = detail.transactions.filter((t) => t.type === type);
+              if (rows.length === 0) return null;
+              return (
+                <div key={type}>
+                  <p className="text-[11px] font-medium tracking-wide uppercase text-text-muted mb-2">
+                    {TYPE_LABELS[type]}
+                  </p>
+                  <div className="space-y-1">
+                    {rows.map((t) => (
+                      <label
+                        key={t.id}
+                        className="flex items-center gap-2 text-[12px] py-1 cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={txIds.has(t.id)}
+                          onCheckedChange={() => setTxIds((prev) => toggle(prev, t.id))}
+                        />
+                        <span className="text-text-muted shrink-0 w-[90px]">
+                          {formatDate(t.date)}
+                        </span>
+                        <span className="text-text-secondary truncate">{t.description}</span>
+                        {t.amount !== null && (
+                          <span className="ml-auto text-text-primary tabular-nums shrink-0">
+                            ${t.amount.toLocaleString("en-US", { minimumFractionDigits: 2 })}
+                            {t.currency ? ` ${t.currency.toUpperCase()}` : ""}
+                          </span>
+                        )}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setOpen(false)}
+              disabled={splitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSplit}
+              disabled={splitting || selectedCount === 0 || selectedCount === itemCount}
+              className="bg-amber-600 hover:bg-amber-700"
+            >
+              {splitting ? (
+                <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />
+              ) : (
+                <Split className="h-3.5 w-3.5 mr-1" />
+              )}
+              Split off {selectedCount > 0 ? selectedCount : ""}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
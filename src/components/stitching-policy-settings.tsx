@@ -0,0 +1,350 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { getCountries, type CountryCode } from "libphonenumber-js";
+import { Loader2, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { updateStitchingPolicy } from "@/lib/actions/config";
+import {
+  DEFAULT_STITCHING_POLICY,
+  type SignalAction,
+  type StitchingPolicy,
+} from "@/lib/stitching/policy";
+import type { EmailDomainRule } from "@/lib/stitching/email-utils";
+import { useOrgRole } from "@/hooks/use-org-role";
+
+const ACTION_LABELS: Record<SignalAction, string> = {
+  auto: "Merge automatically",
+  review: "Flag for review",
+  off: "Ignore",
+};
+
+interface SignalRowProps {
+  label: string;
+  description: string;
+  value: SignalAction;
+  options: SignalAction[];
+  disabled: boolean;
+  onChange: (value: SignalAction) => void;
+}
+
+function SignalRow({ label, description, value, options, disabled, onChange }: SignalRowProps) {
+  return (
+    <div className="flex items-center justify-between gap-6 py-3">
+      <div className="min-w-0">
+        <p className="text-[13px] font-medium text-text-primary">{label}</p>
+        <p className="text-[12px] text-text-muted">{description}</p>
+      </div>
+      <Select value={value} onValueChange={(v) => onChange(v as SignalAction)} disabled={disabled}>
+        <SelectTrigger className="w-[190px] shrink-0 text-[13px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map((o) => (
+            <SelectItem key={o} value={o}>
+              {ACTION_LABELS[o]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface ConfidenceRowProps {
+  label: string;
+  description: string;
+  value: number;
+  disabled: boolean;
+  onChange: (value: number) => void;
+}
+
+function ConfidenceRow({ label, description, value, disabled, onChange }: ConfidenceRowProps) {
+  return (
+    <div className="py-3">
+      <div className="flex items-center justify-between gap-6 mb-2">
+        <div className="min-w-0">
+          <p className="text-[13px] font-medium text-text-primary">{label}</p>
+          <p className="text-[12px] text-text-muted">{description}</p>
+        </div>
+        <span className="text-[13px] font-medium text-text-primary tabular-nums">
+          {Math.round(value * 100)}%
+        </span>
+      </div>
+      <Slider
+        value={[Math.round(value * 100)]}
+        min={0}
+        max={100}
+        step={5}
+        disabled={disabled}
+        onValueChange={([v]) => onChange(v / 100)}
+      />
+    </div>
+  );
+}
+
+interface PhoneCountryRowProps {
+  value: CountryCode;
+  disabled: boolean;
+  onChange: (value: CountryCode) => void;
+}
+
+function PhoneCountryRow({ value, disabled, onChange }: PhoneCountryRowProps) {
+  const countries = useMemo(() => {
+    const names = new Intl.DisplayNames(["en"], { type: "region" });
+    return getCountries()
+      .map((code) => ({ code, name: names.of(code) ?? code }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, []);
+
+  return (
+    <div className="flex items-center justify-between gap-6 py-3">
+      <div className="min-w-0">
+        <p className="text-[13px] font-medium text-text-primary">Default phone country</p>
+        <p className="text-[12px] text-text-muted">
+          For numbers without a + prefix when the row has no country
+        </p>
+      </div>
+      <Select value={value} onValueChange={(v) => onChange(v as CountryCode)} disabled={disabled}>
+        <SelectTrigger className="w-[190px] shrink-0 text-[13px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {countries.map((c) => (
+            <SelectItem key={c.code} value={c.code}>
+              {c.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface EmailRulesEditorProps {
+  rules: EmailDomainRule[];
+  disabled: boolean;
+  onChange: (rules: EmailDomainRule[]) => void;
+}
+
+/**
+ * Per-domain email canonicalization rules. Gmail's rules are built in;
+ * these add other providers (or company domains) with the same behavior.
+ */
+function EmailRulesEditor({ rules, disabled, onChange }: EmailRulesEditorProps) {
+  const updateRule = (i: number, patch: Partial<EmailDomainRule>) =>
+    onChange(rules.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+
+  return (
+    <div className="py-3">
+      <p className="text-[13px] font-medium text-text-primary">Email address variants</p>
+      <p className="text-[12px] text-text-muted">
+        Gmail addresses always match ignoring dots and +tags, and googlemail.com
+        counts as gmail.com. Add rules for other domains below.
+      </p>
+
+      {rules.length > 0 && (
+        <div className="mt-3 space-y-2">
+          {rules.map((rule, i) => (
+            <div key={i} className="flex items-center gap-3 text-[12px]">
+              <Input
+                value={rule.domain}
+                onChange={(e) => updateRule(i, { domain: e.target.value })}
+                placeholder="example.com"
+                className="h-8 w-[160px] text-[13px]"
+                disabled={disabled}
+              />
+              <label className="flex items-center gap-1.5 text-text-secondary">
+                <Checkbox
+                  checked={rule.ignore_dots}
+                  onCheckedChange={(v) => updateRule(i, { ignore_dots: v === true })}
+                  disabled={disabled}
+                />
+                Ignore dots
+              </label>
+              <label className="flex items-center gap-1.5 text-text-secondary">
+                <Checkbox
+                  checked={rule.ignore_plus}
+                  onCheckedChange={(v) => updateRule(i, { ignore_plus: v === true })}
+                  disabled={disabled}
+                />
+                Ignore +tags
+              </label>
+              <Input
+                value={rule.alias_of ?? ""}
+                onChange={(e) => updateRule(i, { alias_of: e.target.value || null })}
+                placeholder="Same as (optional)"
+                className="h-8 w-[150px] text-[13px]"
+                disabled={disabled}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 px-2 text-text-muted hover:text-text-primary"
+                disabled={disabled}
+                onClick={() => onChange(rules.filter((_, j) => j !== i))}
+                aria-label="Remove rule"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!disabled && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="mt-2 h-7 px-2 text-[12px] text-text-muted"
+          onClick={() =>
+            onChange([...rules, { domain: "", alias_of: null, ignore_dots: false, ignore_plus: true }])
+          }
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          Add domain rule
+        </Button>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Editor for the org's stitching policy. External ID matches always merge;
+ * email, phone and name matches follow the chosen actions.
+ */
+export function StitchingPolicySettings({ initialPolicy }: { initialPolicy: StitchingPolicy }) {
+  const { can } = useOrgRole();
+  const canEdit = can("config:update");
+  const [saved, setSaved] = useState(initialPolicy);
+  const [policy, setPolicy] = useState(initialPolicy);
+  const [saving, setSaving] = useState(false);
+
+  const dirty = (Object.keys(policy) as (keyof StitchingPolicy)[]).some(
+    (k) => JSON.stringify(policy[k]) !== JSON.stringify(saved[k])
+  );
+
+  const update = <K extends keyof StitchingPolicy>(key: K, value: StitchingPolicy[K]) =>
+    setPolicy((prev) => ({ ...prev, [key]: value }));
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const next = await updateStitchingPolicy(policy);
+      setSaved(next);
+      setPolicy(next);
+      toast.success("Stitching policy saved — applies to the next preview and import");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to save stitching policy");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const phoneAutoBlocked =
+    policy.phone_action === "auto" && policy.phone_confidence < policy.min_auto_confidence;
+
+  return (
+    <Card className="border-border-default shadow-none animate-fade-in-up stagger-2">
+      <CardContent className="p-6">
+        <h2 className="text-[14px] font-semibold text-text-primary">Identity stitching</h2>
+        <p className="mt-1 text-[12px] text-text-muted">
+          How imported rows are matched to existing customers. Matching by a
+          source&apos;s own customer ID always merges. Flagged matches show up for
+          review in the import preview and on the Conflicts page.
+        </p>
+
+        <div className="mt-4 divide-y divide-border-muted">
+          <SignalRow
+            label="Email"
+            description="Same email as an existing customer or one of their source records"
+            value={policy.email_action}
+            options={["auto", "review"]}
+            disabled={!canEdit || saving}
+            onChange={(v) => update("email_action", v as StitchingPolicy["email_action"])}
+          />
+          <SignalRow
+            label="Phone"
+            description="Same phone number after normalization"
+            value={policy.phone_action}
+            options={["auto", "review", "off"]}
+            disabled={!canEdit || saving}
+            onChange={(v) => update("phone_action", v)}
+          />
+          <PhoneCountryRow
+            value={policy.default_phone_country}
+            disabled={!canEdit || saving}
+            onChange={(v) => update("default_phone_country", v)}
+          />
+          <SignalRow
+            label="Name only"
+            description="Same or similar name (typos, nicknames), no other matching identifier — never merged automatically"
+            value={policy.name_action}
+            options={["review", "off"]}
+            disabled={!canEdit || saving}
+            onChange={(v) => update("name_action", v as StitchingPolicy["name_action"])}
+          />
+          <ConfidenceRow
+            label="Phone match confidence"
+            description="Score given to a phone match (lower when several customers share the number)"
+            value={policy.phone_confidence}
+            disabled={!canEdit || saving}
+            onChange={(v) => update("phone_confidence", v)}
+          />
+          <ConfidenceRow
+            label="Minimum confidence to merge automatically"
+            description="Matches scoring below this are flagged for review. Email scores 90–95%."
+            value={policy.min_auto_confidence}
+            disabled={!canEdit || saving}
+            onChange={(v) => update("min_auto_confidence", v)}
+          />
+          <EmailRulesEditor
+            rules={policy.email_rules}
+            disabled={!canEdit || saving}
+            onChange={(v) => update("email_rules", v)}
+          />
+        </div>
+
+        {phoneAutoBlocked && (
+          <p className="mt-3 text-[12px] text-amber-600 dark:text-amber-400">
+            Phone matches score below the minimum, so they will be flagged for review.
+          </p>
+        )}
+
+        {canEdit ? (
+          <div className="mt-5 flex items-center justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-[12px] text-text-muted"
+              disabled={saving}
+              onClick={() => setPolicy(DEFAULT_STITCHING_POLICY)}
+            >
+              Reset to defaults
+            </Button>
+            <Button size="sm" disabled={!dirty || saving} onClick={handleSave}>
+              {saving && <Loader2 className="h-3.5 w-3.5 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        ) : (
+          <p className="mt-5 text-[12px] text-text-muted">
+            Only owners and admins can change the stitching policy.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
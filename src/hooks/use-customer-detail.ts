@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useMemo, useRef } from "react";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { getCustomerDetail } from "@/lib/actions/dashboard";
 import type { CustomerDetail } from "@/lib/types/dashboard";
 
@@ -10,6 +10,9 @@ const SOURCE_LABELS: Record<string, { label: string }> = {
   passline: { label: "PassLine" },
   pos: { label: "POS" },
   wetravel: { label: "WeTravel" },
+  shopify: { label: "Shopify" },
+  square: { label: "Square" },
+  mindbody: { label: "Mindbody" },
   manual: { label: "Manual" },
 };
 
@@ -34,6 +37,7 @@ export function useCustomerDetail(
     new Set(),
   );
 
+  const [reloadKey, setReloadKey] = useState(0);
   const requestIdRef = useRef(0);
 
   useEffect(() => {
@@ -68,7 +72,9 @@ export function useCustomerDetail(
           setLoading(false);
         }
       });
-  }, [isActive, customerId, profileParam]);
+  }, [isActive, customerId, profileParam, reloadKey]);
+
+  const reload = useCallback(() => setReloadKey((k) => k + 1), []);
 
   const groupedSources: GroupedSource[] = useMemo(() => {
     if (!detail) return [];
@@ -110,5 +116,6 @@ export function useCustomerDetail(
     expandedSources,
     setExpandedSources,
     groupedSources,
+    reload,
   };
 }
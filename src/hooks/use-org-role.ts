@@ -0,0 +1,36 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { getMyOrganizations } from "@/lib/actions/org";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import type { OrgRole } from "@/lib/types";
+
+/**
+ * The current user's role in the active org. `can()` is false until the
+ * role has loaded, so gated controls stay hidden rather than flashing in.
+ * The server actions enforce the same rules; this only drives the UI.
+ */
+export function useOrgRole() {
+  const [role, setRole] = useState<OrgRole | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getMyOrganizations()
+      .then((res) => {
+        if (!cancelled) setRole(res.role);
+      })
+      .catch(() => {
+        // Leave role unset — everything gated stays hidden
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => hasPermission(role, permission),
+    [role]
+  );
+
+  return { role, can };
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { diffFields } from "../audit";
+
+describe("diffFields", () => {
+  it("reports changed fields with old and new values", () => {
+    const changes = diffFields(
+      { at_risk_days: 60, dormant_days: 120 },
+      { at_risk_days: 45, dormant_days: 120 }
+    );
+    expect(changes).toEqual({ at_risk_days: { from: 60, to: 45 } });
+  });
+
+  it("ignores keys not present in the update", () => {
+    const changes = diffFields({ at_risk_days: 60, lost_days: 365 }, { at_risk_days: 60 });
+    expect(changes).toEqual({});
+  });
+
+  it("ignores undefined values in the update", () => {
+    expect(diffFields({ lost_days: 365 }, { lost_days: undefined })).toEqual({});
+  });
+
+  it("treats a missing previous row as all-null", () => {
+    expect(diffFields(null, { active_profile: "gym" })).toEqual({
+      active_profile: { from: null, to: "gym" },
+    });
+  });
+
+  it("compares arrays by value", () => {
+    const rules = [{ domain: "example.com", ignore_plus: true }];
+    expect(diffFields({ email_rules: rules }, { email_rules: [...rules] })).toEqual({});
+    expect(diffFields({ email_rules: [] }, { email_rules: rules })).toEqual({
+      email_rules: { from: [], to: rules },
+    });
+  });
+
+  it("reports clearing an override back to null", () => {
+    expect(diffFields({ lost_days: 365 }, { lost_days: null })).toEqual({
+      lost_days: { from: 365, to: null },
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { hasPermission, ORG_ROLES, type Permission } from "../permissions";
+
+const ALL: Permission[] = [
+  "import:upload",
+  "import:revert",
+  "import:delete",
+  "conflict:resolve",
+  "customer:merge",
+  "customer:split",
+  "customer:household",
+  "config:update",
+  "data:reset",
+];
+
+describe("hasPermission", () => {
+  it("grants owners every permission", () => {
+    for (const p of ALL) expect(hasPermission("owner", p)).toBe(true);
+  });
+
+  it("only lets owners reset data", () => {
+    expect(ORG_ROLES.filter((r) => hasPermission(r, "data:reset"))).toEqual(["owner"]);
+  });
+
+  it("lets admins revert and delete imports", () => {
+    expect(hasPermission("admin", "import:revert")).toBe(true);
+    expect(hasPermission("admin", "import:delete")).toBe(true);
+  });
+
+  it("limits config changes to owners and admins", () => {
+    expect(ORG_ROLES.filter((r) => hasPermission(r, "config:update"))).toEqual(["owner", "admin"]);
+  });
+
+  it("lets analysts upload, resolve conflicts and edit identities but not revert or delete", () => {
+    expect(hasPermission("analyst", "import:upload")).toBe(true);
+    expect(hasPermission("analyst", "conflict:resolve")).toBe(true);
+    expect(hasPermission("analyst", "customer:merge")).toBe(true);
+    expect(hasPermission("analyst", "customer:split")).toBe(true);
+    expect(hasPermission("analyst", "customer:household")).toBe(true);
+    expect(hasPermission("analyst", "import:revert")).toBe(false);
+    expect(hasPermission("analyst", "import:delete")).toBe(false);
+    expect(hasPermission("analyst", "config:update")).toBe(false);
+  });
+
+  it("denies viewers every permission", () => {
+    for (const p of ALL) expect(hasPermission("viewer", p)).toBe(false);
+  });
+
+  it("denies a missing role", () => {
+    expect(hasPermission(null, "import:upload")).toBe(false);
+    expect(hasPermission(undefined, "import:upload")).toBe(false);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * In-memory stand-in for the Supabase admin client, for tests that drive
+ * loaders and imports without a database. Supports the query builder
+ * calls the app makes (filters, order, range, single, insert, update) and
+ * enforces PostgREST's 1000-row cap, so unpaged loads come back short.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+type Row = Record<string, unknown>;
+
+export const MAX_ROWS = 1000;
+
+export interface StubTable {
+  rows: Row[];
+  /** Columns whose combined values must be unique; a clash fails with 23505 */
+  unique?: string[];
+  /** Count inserts without keeping the rows, for tables a test only writes */
+  writeOnly?: boolean;
+}
+
+export interface StubOptions {
+  tables?: Record<string, Partial<StubTable>>;
+  /** A handler that throws fails the call with its message as the error */
+  rpc?: Record<string, (args: Record<string, unknown>, stub: SupabaseStub) => unknown>;
+}
+
+export interface SupabaseStub {
+  client: SupabaseClient;
+  tables: Record<string, StubTable>;
+  /** Rows inserted per table, including write-only ones */
+  inserted: Record<string, number>;
+  /** Queries run per table */
+  queries: Record<string, number>;
+}
+
+type Filter = (row: Row) => boolean;
+
+function likePattern(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/%/g, ".*").replace(/_/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+export function createSupabaseStub(options: StubOptions = {}): SupabaseStub {
+  const tables: Record<string, StubTable> = {};
+  const uniqueKeys: Record<string, Set<string>> = {};
+  const inserted: Record<string, number> = {};
+  const queries: Record<string, number> = {};
+  let nextId = 1;
+
+  const table = (name: string): StubTable => {
+    if (!tables[name]) {
+      const t = options.tables?.[name];
+      tables[name] = { rows: t?.rows ?? [], unique: t?.unique, writeOnly: t?.writeOnly };
+      uniqueKeys[name] = new Set(
+        t?.unique ? tables[name].rows.map((r) => t.unique!.map((c) => String(r[c])).join("|")) : []
+      );
+    }
+    return tables[name];
+  };
+
+  function from(name: string) {
+    const filters: Filter[] = [];
+    let op: "select" | "insert" | "update" | "delete" = "select";
+    let values: Row[] = [];
+    let patch: Row = {};
+    let returning = false;
+    let head = false;
+    let count = false;
+    let orderBy: string | null = null;
+    let range: [number, number] | null = null;
+    let limit: number | null = null;
+    let single: "single" | "maybe" | null = null;
+
+    const run = () => {
+      queries[name] = (queries[name] ?? 0) + 1;
+      const t = table(name);
+
+      if (op === "insert") {
+        const added: Row[] = [];
+        for (const value of values) {
+          const row: Row = { id: value.id ?? `${name}-${nextId++}`, ...value };
+          if (t.unique) {
+            const key = t.unique.map((c) => String(row[c])).join("|");
+            if (uniqueKeys[name].has(key)) {
+              return { data: null, error: { code: "23505", message: `duplicate key in ${name}` } };
+            }
+            uniqueKeys[name].add(key);
+          }
+          added.push(row);
+        }
+        inserted[name] = (inserted[name] ?? 0) + added.length;
+        if (!t.writeOnly) t.rows.push(...added);
+        if (!returning) return { data: null, error: null };
+        return { data: single ? added[0] : added, error: null };
+      }
+
+      const matched = t.rows.filter((r) => filters.every((f) => f(r)));
+
+      if (op === "update") {
+        for (const r of matched) Object.assign(r, patch);
+        return { data: null, error: null };
+      }
+      if (op === "delete") {
+        t.rows = t.rows.filter((r) => !matched.includes(r));
+        return { data: null, error: null };
+      }
+
+      if (orderBy) {
+        const col = orderBy;
+        matched.sort((a, b) => (String(a[col]) < String(b[col]) ? -1 : String(a[col]) > String(b[col]) ? 1 : 0));
+      }
+      const start = range?.[0] ?? 0;
+      const end = Math.min(range ? range[1] + 1 : Infinity, start + (limit ?? MAX_ROWS), start + MAX_ROWS);
+      const page = matched.slice(start, end);
+
+      if (single === "single" && page.length !== 1) {
+        return { data: null, error: { code: "PGRST116", message: "expected a single row" } };
+      }
+      if (single) return { data: page[0] ?? null, error: null };
+      return { data: head ? null : page, error: null, count: count ? matched.length : null };
+    };
+
+    const builder = {
+      select(_columns?: string, opts?: { count?: string; head?: boolean }) {
+        if (op !== "select") returning = true;
+        head = opts?.head ?? false;
+        count = !!opts?.count;
+        return builder;
+      },
+      insert(rows: Row | Row[]) {
+        op = "insert";
+        values = Array.isArray(rows) ? rows : [rows];
+        return builder;
+      },
+      update(value: Row) {
+        op = "update";
+        patch = value;
+        return builder;
+      },
+      delete() {
+        op = "delete";
+        return builder;
+      },
+      eq(col: string, value: unknown) {
+        filters.push((r) => r[col] === value);
+        return builder;
+      },
+      neq(col: string, value: unknown) {
+        filters.push((r) => r[col] !== value);
+        return builder;
+      },
+      in(col: string, list: unknown[]) {
+        filters.push((r) => list.includes(r[col]));
+        return builder;
+      },
+      is(col: string, value: null) {
+        filters.push((r) => (r[col] ?? null) === value);
+        return builder;
+      },
+      not(col: string, operator: string, value: unknown) {
+        if (operator !== "is" || value !== null) throw new Error(`stub: unsupported not(${operator})`);
+        filters.push((r) => r[col] != null);
+        return builder;
+      },
+      ilike(col: string, pattern: string) {
+        const re = likePattern(pattern);
+        filters.push((r) => typeof r[col] === "string" && re.test(r[col] as string));
+        return builder;
+      },
+      /** Only "col.in.(a,b),col.in.(c)" lists, as loadDoNotMergePairs sends */
+      or(conditions: string) {
+        const clauses = [...conditions.matchAll(/(\w+)\.in\.\(([^)]*)\)/g)].map(
+          ([, col, list]) => [col, list.split(",")] as const
+        );
+        if (clauses.length === 0) throw new Error(`stub: unsupported or(${conditions})`);
+        filters.push((r) => clauses.some(([col, list]) => list.includes(String(r[col]))));
+        return builder;
+      },
+      order(col: string) {
+        orderBy = col;
+        return builder;
+      },
+      range(fromRow: number, toRow: number) {
+        range = [fromRow, toRow];
+        return builder;
+      },
+      limit(n: number) {
+        limit = n;
+        return builder;
+      },
+      single() {
+        single = "single";
+        return builder;
+      },
+      maybeSingle() {
+        single = "maybe";
+        return builder;
+      },
+      then<T>(resolve: (value: ReturnType<typeof run>) => T, reject?: (reason: unknown) => T) {
+        return Promise.resolve().then(run).then(resolve, reject);
+      },
+    };
+    return builder;
+  }
+
+  const stub: SupabaseStub = { client: null as unknown as SupabaseClient, tables, inserted, queries };
+  stub.client = {
+    from,
+    rpc: async (fn: string, args: Record<string, unknown>) => {
+      const handler = options.rpc?.[fn];
+      try {
+        return { data: handler ? handler(args, stub) : null, error: null };
+      } catch (err) {
+        return { data: null, error: { message: err instanceof Error ? err.message : String(err) } };
+      }
+    },
+  } as unknown as SupabaseClient;
+
+  for (const name of Object.keys(options.tables ?? {})) table(name);
+  return stub;
+}
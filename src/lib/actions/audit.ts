@@ -0,0 +1,106 @@
+"use server";
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireOrg } from "@/lib/org";
+import type { AuditAction, AuditEvent } from "@/lib/types";
+
+export interface AuditEventRow extends AuditEvent {
+  customers: { id: string; full_name: string | null; email: string | null }[];
+}
+
+/**
+ * Get paginated audit events for the active org, newest first.
+ * Date bounds are inclusive calendar days (YYYY-MM-DD, UTC).
+ */
+export async function getAuditEvents(options?: {
+  limit?: number;
+  offset?: number;
+  actorId?: string;
+  action?: AuditAction;
+  customerId?: string;
+  from?: string;
+  to?: string;
+}): Promise<{ events: AuditEventRow[]; total: number }> {
+  const { orgId } = await requireOrg();
+
+  const admin = createAdminClient();
+  const limit = options?.limit ?? 20;
+  const offset = options?.offset ?? 0;
+
+  let query = admin
+    .from("audit_events")
+    .select("*", { count: "exact" })
+    .eq("org_id", orgId)
+    .order("created_at", { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (options?.actorId) query = query.eq("actor_id", options.actorId);
+  if (options?.action) query = query.eq("action", options.action);
+  if (options?.customerId) query = query.contains("customer_ids", [options.customerId]);
+  if (options?.from) query = query.gte("created_at", `${options.from}T00:00:00.000Z`);
+  if (options?.to) {
+    const end = new Date(`${options.to}T00:00:00.000Z`);
+    end.setUTCDate(end.getUTCDate() + 1);
+    query = query.lt("created_at", end.toISOString());
+  }
+
+  const { data, count, error } = await query;
+
+  if (error) throw new Error(`Failed to fetch activity: ${error.message}`);
+  const events = (data ?? []) as AuditEvent[];
+  if (events.length === 0) return { events: [], total: count ?? 0 };
+
+  // Resolve customer names for display (merged-away customers no longer exist)
+  const customerIds = new Set<string>();
+  for (const e of events) {
+    // Import events can touch thousands of customers — only name the first few
+    for (const id of e.customer_ids.slice(0, 3)) customerIds.add(id);
+  }
+
+  const { data: customers } = customerIds.size > 0
+    ? await admin
+        .from("customers")
+        .select("id, full_name, email")
+        .eq("org_id", orgId)
+        .in("id", Array.from(customerIds))
+    : { data: [] };
+
+  const customerMap = new Map(
+    (customers ?? []).map((c: { id: string; full_name: string | null; email: string | null }) => [c.id, c])
+  );
+
+  return {
+    events: events.map((e) => ({
+      ...e,
+      customers: e.customer_ids
+        .slice(0, 3)
+        .map((id) => customerMap.get(id))
+        .filter((c): c is NonNullable<typeof c> => !!c),
+    })),
+    total: count ?? 0,
+  };
+}
+
+/**
+ * Distinct actors that appear in the org's audit log (for the actor filter).
+ */
+export async function getAuditActors(): Promise<{ id: string; email: string | null }[]> {
+  const { orgId } = await requireOrg();
+
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("audit_events")
+    .select("actor_id, actor_email")
+    .eq("org_id", orgId)
+    .not("actor_id", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(1000);
+
+  if (error) throw new Error(`Failed to fetch actors: ${error.message}`);
+
+  const actors = new Map<string, string | null>();
+  for (const row of data ?? []) {
+    if (!actors.has(row.actor_id)) actors.set(row.actor_id, row.actor_email);
+  }
+  return Array.from(actors, ([id, email]) => ({ id, email }));
+}
@@ -0,0 +1,118 @@
+"use server";
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireOrg, requirePermission } from "@/lib/org";
+import { recordAuditEvent, diffFields } from "@/lib/audit";
+import {
+  loadStitchingPolicy,
+  normalizeStitchingPolicy,
+  STITCHING_POLICY_COLUMNS,
+  type StitchingPolicy,
+} from "@/lib/stitching/policy";
+import type { InsightConfig } from "@/lib/types";
+
+/** Columns of insight_config that override profile defaults (NULL = use profile). */
+export type InsightConfigOverrides = Partial<
+  Pick<
+    InsightConfig,
+    | "active_profile"
+    | "at_risk_days"
+    | "dormant_days"
+    | "lost_days"
+    | "repeat_purchase_min"
+    | "new_high_value_window_days"
+    | "one_and_done_days"
+  >
+>;
+
+const OVERRIDE_COLUMNS =
+  "active_profile, at_risk_days, dormant_days, lost_days, repeat_purchase_min, new_high_value_window_days, one_and_done_days";
+
+/**
+ * Update the org's insight thresholds / active profile.
+ *
+ * 1. Load the current row (for the audit diff)
+ * 2. Upsert the overrides (one row per org)
+ * 3. Record the changed fields, skipping no-op saves
+ */
+export async function updateInsightConfig(
+  overrides: InsightConfigOverrides
+): Promise<void> {
+  const ctx = await requirePermission("config:update");
+  const { orgId } = ctx;
+
+  const admin = createAdminClient();
+
+  const { data: before } = await admin
+    .from("insight_config")
+    .select(OVERRIDE_COLUMNS)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  const { error } = await admin
+    .from("insight_config")
+    .upsert({ org_id: orgId, ...overrides }, { onConflict: "org_id" });
+
+  if (error) throw new Error(`Failed to update config: ${error.message}`);
+
+  const changes = diffFields(before, overrides);
+  if (Object.keys(changes).length === 0) return;
+
+  await recordAuditEvent(admin, ctx, {
+    action: "config.updated",
+    entityType: "insight_config",
+    details: { changes },
+  });
+}
+
+// ─── Stitching policy ─────────────────────────────────────
+
+/** The org's stitching policy (defaults when none is saved). */
+export async function getStitchingPolicy(): Promise<StitchingPolicy> {
+  const { orgId } = await requireOrg();
+  return loadStitchingPolicy(createAdminClient(), orgId);
+}
+
+/**
+ * Save the org's stitching policy. Applies to every preview and import
+ * from then on; existing customers are not re-stitched.
+ *
+ * 1. Normalize the input (unknown values fall back to defaults)
+ * 2. Upsert the row (one per org)
+ * 3. Record the changed fields, skipping no-op saves
+ */
+export async function updateStitchingPolicy(
+  input: Partial<StitchingPolicy>
+): Promise<StitchingPolicy> {
+  const ctx = await requirePermission("config:update");
+  const { userId, orgId } = ctx;
+
+  const admin = createAdminClient();
+  const policy = normalizeStitchingPolicy(input);
+
+  const { data: before } = await admin
+    .from("stitching_policy")
+    .select(STITCHING_POLICY_COLUMNS)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  const { error } = await admin
+    .from("stitching_policy")
+    .upsert(
+      { org_id: orgId, ...policy, updated_by: userId, updated_at: new Date().toISOString() },
+      { onConflict: "org_id" }
+    );
+
+  if (error) throw new Error(`Failed to update stitching policy: ${error.message}`);
+
+  const changes = diffFields(before ? { ...normalizeStitchingPolicy(before) } : null, { ...policy });
+  if (Object.keys(changes).length === 0) return policy;
+
+  await recordAuditEvent(admin, ctx, {
+    action: "config.updated",
+    entityType: "stitching_policy",
+    details: { changes },
+  });
+
+  return policy;
+}
@@ -0,0 +1,157 @@
+"use server";
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireOrg, requirePermission } from "@/lib/org";
+import { recordAuditEvent } from "@/lib/audit";
+import {
+  customSourceType,
+  loadCustomSchemas,
+  validateCustomSource,
+  type CustomSourceInput,
+} from "@/lib/csv/custom-sources";
+import type { CustomSource, SourceSchema } from "@/lib/types";
+
+/** The org's custom source definitions, for the settings page. */
+export async function getCustomSources(): Promise<CustomSource[]> {
+  const { orgId } = await requireOrg();
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("custom_sources")
+    .select("*")
+    .eq("org_id", orgId)
+    .order("name");
+
+  if (error) throw new Error(`Failed to fetch custom sources: ${error.message}`);
+  return (data ?? []) as CustomSource[];
+}
+
+/** The org's custom sources as schemas, for detection and mapping on upload. */
+export async function getCustomSchemas(): Promise<SourceSchema[]> {
+  const { orgId } = await requireOrg();
+  return loadCustomSchemas(createAdminClient(), orgId);
+}
+
+/** Whether any import has used the source (its rows reference it). */
+async function hasImports(admin: ReturnType<typeof createAdminClient>, orgId: string, id: string): Promise<boolean> {
+  const { count } = await admin
+    .from("import_history")
+    .select("id", { count: "exact", head: true })
+    .eq("org_id", orgId)
+    .eq("source", customSourceType(id));
+  return (count ?? 0) > 0;
+}
+
+/**
+ * Create or update a custom source.
+ *
+ * 1. Validate the definition (throws on the first problem)
+ * 2. On update, refuse to move a source with imports to another table
+ * 3. Insert or update the row; names are unique per org
+ */
+export async function saveCustomSource(
+  input: CustomSourceInput & { id?: string }
+): Promise<CustomSource> {
+  const ctx = await requirePermission("config:update");
+  const { userId, orgId } = ctx;
+
+  const problems = validateCustomSource(input);
+  if (problems.length > 0) throw new Error(`Invalid source — ${problems[0]}`);
+
+  const admin = createAdminClient();
+  const row = {
+    name: input.name.trim(),
+    target: input.target,
+    fields: input.fields.map((f) => ({
+      key: f.key,
+      label: f.label.trim(),
+      type: f.type,
+      required: f.required,
+      aliases: [...new Set(f.aliases.map((a) => a.trim().toLowerCase()).filter(Boolean))],
+    })),
+    id_field: input.id_field,
+    email_field: input.email_field,
+    name_field: input.name_field,
+    phone_field: input.phone_field ?? null,
+  };
+
+  let result;
+  if (input.id) {
+    const { data: existing } = await admin
+      .from("custom_sources")
+      .select("target")
+      .eq("id", input.id)
+      .eq("org_id", orgId)
+      .maybeSingle();
+    if (!existing) throw new Error("Source not found");
+    if (existing.target !== row.target && (await hasImports(admin, orgId, input.id))) {
+      throw new Error("This source has imports — its table can't change");
+    }
+
+    result = await admin
+      .from("custom_sources")
+      .update({ ...row, updated_at: new Date().toISOString() })
+      .eq("id", input.id)
+      .eq("org_id", orgId)
+      .select()
+      .single();
+  } else {
+    result = await admin
+      .from("custom_sources")
+      .insert({ ...row, org_id: orgId, created_by: userId })
+      .select()
+      .single();
+  }
+
+  const { data, error } = result;
+  if (error) {
+    if (error.code === "23505") throw new Error(`A source named "${row.name}" already exists`);
+    throw new Error(`Failed to save source: ${error.message}`);
+  }
+
+  await recordAuditEvent(admin, ctx, {
+    action: "source.saved",
+    entityType: "custom_source",
+    entityId: data.id,
+    details: { name: row.name, target: row.target, fields: row.fields.length, created: !input.id },
+  });
+
+  return data as CustomSource;
+}
+
+/**
+ * Delete a custom source and its mapping templates. Refused while imports
+ * from it exist — delete those first, so no rows point at a missing source.
+ */
+export async function deleteCustomSource(id: string): Promise<void> {
+  const ctx = await requirePermission("config:update");
+  const { orgId } = ctx;
+  const admin = createAdminClient();
+
+  if (await hasImports(admin, orgId, id)) {
+    throw new Error("This source has imports — delete them before deleting the source");
+  }
+
+  const { data: deleted, error } = await admin
+    .from("custom_sources")
+    .delete()
+    .eq("id", id)
+    .eq("org_id", orgId)
+    .select("name, target");
+
+  if (error) throw new Error(`Failed to delete source: ${error.message}`);
+  if (!deleted || deleted.length === 0) return;
+
+  await admin
+    .from("saved_mappings")
+    .delete()
+    .eq("org_id", orgId)
+    .eq("source", customSourceType(id));
+
+  await recordAuditEvent(admin, ctx, {
+    action: "source.deleted",
+    entityType: "custom_source",
+    entityId: id,
+    details: { name: deleted[0].name, target: deleted[0].target },
+  });
+}
@@ -1,7 +1,7 @@
 "use server";
 
-import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { requireOrg } from "@/lib/org";
 import { resolveConfig } from "@/lib/insights/config";
 import {
   computeAllCustomerMetrics,
@@ -16,8 +16,6 @@ import type {
   InsightResult,
 } from "@/lib/insights/types";
 
-const DEFAULT_ORG_ID = "00000000-0000-0000-0000-000000000001";
-
 // ─── Types ─────────────────────────────────────────────────
 // Types are defined in @/lib/types/dashboard.ts and @/lib/insights/types.ts
 // to avoid "use server" export restrictions. Re-imported here for use in functions.
@@ -47,26 +45,15 @@ function applyDateFilter(query: any, dateColumn: string, dateRange?: DateRangePa
   return query;
 }
 
-// ─── Auth helper ───────────────────────────────────────────
-
-async function requireAuth() {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
-  return user;
-}
-
 // ─── New: Shared internal resolve + compute ────────────────
 
-async function _resolveAndCompute(profileParam?: string | null): Promise<{
+async function _resolveAndCompute(orgId: string, profileParam?: string | null): Promise<{
   customers: ComputedCustomer[];
   config: ResolvedConfig;
   insightResults: InsightResult[];
 }> {
-  const config = await resolveConfig(profileParam);
-  const customers = await computeAllCustomerMetrics(config);
+  const config = await resolveConfig(orgId, profileParam);
+  const customers = await computeAllCustomerMetrics(orgId, config);
   const insightResults = INSIGHT_CARDS.map((card) =>
     card.compute(customers, config)
   );
@@ -78,8 +65,8 @@ async function _resolveAndCompute(profileParam?: string | null): Promise<{
 export async function getComputedCustomersForTable(
   profileParam?: string | null
 ): Promise<{ customers: ComputedCustomer[]; config: ResolvedConfig }> {
-  await requireAuth();
-  const { customers, config } = await _resolveAndCompute(profileParam);
+  const { orgId } = await requireOrg();
+  const { customers, config } = await _resolveAndCompute(orgId, profileParam);
   return { customers, config };
 }
 
@@ -88,8 +75,8 @@ export async function getComputedCustomersForTable(
 export async function getInsightCardResults(
   profileParam?: string | null
 ): Promise<{ config: ResolvedConfig; insightResults: InsightResult[] }> {
-  await requireAuth();
-  const { config, insightResults } = await _resolveAndCompute(profileParam);
+  const { orgId } = await requireOrg();
+  const { config, insightResults } = await _resolveAndCompute(orgId, profileParam);
   return { config, insightResults };
 }
 
@@ -157,22 +144,22 @@ export async function getRevenueTrend(
   dateRange?: DateRangeParam,
   intervalOverride?: "week" | "month"
 ): Promise<RevenueTrendData> {
-  await requireAuth();
+  const { orgId } = await requireOrg();
   const admin = createAdminClient();
 
   let query = admin
     .from("payments")
     .select("amount_usd, payment_date, source")
-    .eq("org_id", DEFAULT_ORG_ID)
+    .eq("org_id", orgId)
     .in("status", ["succeeded", "approved"])
     .order("payment_date", { ascending: true });
 
   query = applyDateFilter(query, "payment_date", dateRange);
   const { data: payments } = await query;
 
-  const SOURCES = ["stripe", "pos", "wetravel", "calendly", "passline", "manual"] as const;
+  const SOURCES = ["stripe", "pos", "wetravel", "shopify", "square", "mindbody", "calendly", "passline", "manual"] as const;
   const emptySource = (): Omit<RevenueTrendBySourcePoint, "label"> => ({
-    stripe: 0, pos: 0, wetravel: 0, calendly: 0, passline: 0, manual: 0,
+    stripe: 0, pos: 0, wetravel: 0, shopify: 0, square: 0, mindbody: 0, calendly: 0, passline: 0, manual: 0,
   });
 
   const now = new Date();
@@ -234,6 +221,9 @@ export async function getRevenueTrend(
       stripe: Math.round(d.stripe * 100) / 100,
       pos: Math.round(d.pos * 100) / 100,
       wetravel: Math.round(d.wetravel * 100) / 100,
+      shopify: Math.round(d.shopify * 100) / 100,
+      square: Math.round(d.square * 100) / 100,
+      mindbody: Math.round(d.mindbody * 100) / 100,
       calendly: Math.round(d.calendly * 100) / 100,
       passline: Math.round(d.passline * 100) / 100,
       manual: Math.round(d.manual * 100) / 100,
@@ -246,10 +236,10 @@ export async function getRevenueTrend(
 // ─── getRevenueBySource (unchanged) ───────────────────────
 
 export async function getRevenueBySource(dateRange?: DateRangeParam): Promise<RevenueBySourceItem[]> {
-  await requireAuth();
+  const { orgId } = await requireOrg();
   const admin = createAdminClient();
 
-  let query = admin.from("payments").select("source, amount_usd").eq("org_id", DEFAULT_ORG_ID).in("status", ["succeeded", "approved"]);
+  let query = admin.from("payments").select("source, amount_usd").eq("org_id", orgId).in("status", ["succeeded", "approved"]);
   query = applyDateFilter(query, "payment_date", dateRange);
   const { data: payments } = await query;
 
@@ -275,16 +265,16 @@ export async function getRevenueBySource(dateRange?: DateRangeParam): Promise<Re
 // ─── getTopCustomers (unchanged) ──────────────────────────
 
 export async function getTopCustomers(dateRange?: DateRangeParam, limit: number = 5): Promise<TopCustomer[]> {
-  await requireAuth();
+  const { orgId } = await requireOrg();
   const admin = createAdminClient();
 
-  let paymentsQuery = admin.from("payments").select("customer_id, amount_usd").eq("org_id", DEFAULT_ORG_ID).in("status", ["succeeded", "approved"]);
+  let paymentsQuery = admin.from("payments").select("customer_id, amount_usd").eq("org_id", orgId).in("status", ["succeeded", "approved"]);
   paymentsQuery = applyDateFilter(paymentsQuery, "payment_date", dateRange);
 
   const [paymentsRes, customersRes, sourcesRes] = await Promise.all([
     paymentsQuery,
-    admin.from("customers").select("id, full_name, email").eq("org_id", DEFAULT_ORG_ID),
-    admin.from("customer_sources").select("customer_id, source"),
+    admin.from("customers").select("id, full_name, email").eq("org_id", orgId),
+    admin.from("customer_sources").select("customer_id, source").eq("org_id", orgId),
   ]);
 
   const payments = paymentsRes.data ?? [];
@@ -326,7 +316,7 @@ export async function getTopCustomers(dateRange?: DateRangeParam, limit: number
 export async function searchCustomers(
   query: string
 ): Promise<{ id: string; full_name: string | null; email: string | null; phone: string | null }[]> {
-  await requireAuth();
+  const { orgId } = await requireOrg();
   const admin = createAdminClient();
   const q = query.trim();
   if (!q) return [];
@@ -335,28 +325,73 @@ export async function searchCustomers(
   const { data } = await admin
     .from("customers")
     .select("id, full_name, email, phone")
-    .eq("org_id", DEFAULT_ORG_ID)
+    .eq("org_id", orgId)
     .or(`full_name.ilike.${pattern},email.ilike.${pattern},phone.ilike.${pattern}`)
     .limit(10);
 
   return data ?? [];
 }
 
+// ─── Household summary (customer detail) ──────────────────
+
+/** Household name, members and LTV per member (valid payments in USD). */
+async function getHouseholdSummary(
+  admin: ReturnType<typeof createAdminClient>,
+  orgId: string,
+  householdId: string
+): Promise<CustomerDetail["customer"]["household"]> {
+  const [householdRes, membersRes] = await Promise.all([
+    admin.from("households").select("id, name").eq("id", householdId).eq("org_id", orgId).maybeSingle(),
+    admin.from("customers").select("id, full_name, email").eq("household_id", householdId).eq("org_id", orgId),
+  ]);
+  if (!householdRes.data) return null;
+
+  const members = membersRes.data ?? [];
+  const { data: payments } = await admin
+    .from("payments")
+    .select("customer_id, amount_usd")
+    .eq("org_id", orgId)
+    .in("customer_id", members.map((m) => m.id))
+    .in("status", ["succeeded", "approved"])
+    .not("amount_usd", "is", null);
+
+  const revenue = new Map<string, number>();
+  for (const p of payments ?? []) {
+    revenue.set(p.customer_id, (revenue.get(p.customer_id) ?? 0) + (Number(p.amount_usd) || 0));
+  }
+
+  const memberRows = members
+    .map((m) => ({
+      id: m.id,
+      full_name: m.full_name,
+      email: m.email,
+      totalRevenue: Math.round((revenue.get(m.id) ?? 0) * 100) / 100,
+    }))
+    .sort((a, b) => b.totalRevenue - a.totalRevenue);
+
+  return {
+    id: householdRes.data.id,
+    name: householdRes.data.name,
+    totalRevenue: Math.round(memberRows.reduce((sum, m) => sum + m.totalRevenue, 0) * 100) / 100,
+    members: memberRows,
+  };
+}
+
 // ─── getCustomerDetail (updated: org_id guards on all queries) ─
 
 export async function getCustomerDetail(customerId: string, profileParam?: string): Promise<CustomerDetail | null> {
-  await requireAuth();
+  const { orgId } = await requireOrg();
   const admin = createAdminClient();
   const now = new Date();
 
-  const config = await resolveConfig(profileParam);
+  const config = await resolveConfig(orgId, profileParam);
 
   const [customerRes, paymentsRes, bookingsRes, attendanceRes, sourcesRes] = await Promise.all([
-    admin.from("customers").select("id, full_name, email, phone, country").eq("id", customerId).eq("org_id", DEFAULT_ORG_ID).single(),
-    admin.from("payments").select("id, source, amount, amount_usd, payment_date, payment_type, status, external_payment_id, currency, raw_data").eq("customer_id", customerId).eq("org_id", DEFAULT_ORG_ID).order("payment_date", { ascending: false }),
-    admin.from("bookings").select("id, source, event_type, start_time, end_time, start_date, end_date, status, external_booking_id, utm_source, utm_medium, utm_campaign, utm_content, referrer, referral_partner, lead_source_channel, lead_capture_method, raw_data").eq("customer_id", customerId).eq("org_id", DEFAULT_ORG_ID).order("start_time", { ascending: false }),
-    admin.from("attendance").select("id, source, event_name, check_in_time, ticket_type, external_attendance_id, raw_data").eq("customer_id", customerId).eq("org_id", DEFAULT_ORG_ID).order("check_in_time", { ascending: false }),
-    admin.from("customer_sources").select("source, external_id, external_email, external_name").eq("customer_id", customerId),
+    admin.from("customers").select("id, full_name, email, phone, country, household_id").eq("id", customerId).eq("org_id", orgId).single(),
+    admin.from("payments").select("id, source, amount, amount_usd, payment_date, payment_type, status, external_payment_id, currency, raw_data").eq("customer_id", customerId).eq("org_id", orgId).order("payment_date", { ascending: false }),
+    admin.from("bookings").select("id, source, event_type, start_time, end_time, start_date, end_date, status, external_booking_id, utm_source, utm_medium, utm_campaign, utm_content, referrer, referral_partner, lead_source_channel, lead_capture_method, raw_data").eq("customer_id", customerId).eq("org_id", orgId).order("start_time", { ascending: false }),
+    admin.from("attendance").select("id, source, event_name, check_in_time, ticket_type, external_attendance_id, raw_data").eq("customer_id", customerId).eq("org_id", orgId).order("check_in_time", { ascending: false }),
+    admin.from("customer_sources").select("id, source, external_id, external_email, external_name").eq("customer_id", customerId).eq("org_id", orgId),
   ]);
 
   if (!customerRes.data) return null;
@@ -370,12 +405,13 @@ export async function getCustomerDetail(customerId: string, profileParam?: strin
 
   // Build sourceLinks (dedupe by source + external_id)
   const linksSeen = new Set<string>();
-  const sourceLinks: { source: string; external_id: string; external_email: string | null; external_name: string | null }[] = [];
+  const sourceLinks: CustomerDetail["customer"]["sourceLinks"] = [];
   for (const s of rawSources) {
     const key = `${s.source}::${s.external_id}`;
     if (!linksSeen.has(key)) {
       linksSeen.add(key);
       sourceLinks.push({
+        id: s.id,
         source: s.source,
         external_id: s.external_id,
         external_email: s.external_email ?? null,
@@ -409,6 +445,8 @@ export async function getCustomerDetail(customerId: string, profileParam?: strin
     ? Math.floor((now.getTime() - new Date(lastActivity).getTime()) / (1000 * 60 * 60 * 24))
     : null;
 
+  const household = c.household_id ? await getHouseholdSummary(admin, orgId, c.household_id) : null;
+
   const customer = {
     id: c.id,
     full_name: c.full_name,
@@ -423,6 +461,7 @@ export async function getCustomerDetail(customerId: string, profileParam?: strin
     sources,
     sourceLinks,
     revenueBySource,
+    household,
   };
 
   const transactions: CustomerDetail["transactions"] = [];
@@ -1,16 +1,49 @@
 "use server";
 
-import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
-import { shouldUpdateName } from "@/lib/stitching/matcher";
+import { requireOrg, requirePermission, type OrgContext } from "@/lib/org";
+import { recordAuditEvent, getImportCustomerIds } from "@/lib/audit";
+import {
+  planMergeFieldUpdates,
+  previewMerge,
+  buildMergeUpdates,
+  MERGE_FIELDS,
+  type MergeCandidate,
+  type MergeFieldPicks,
+  type MergePreview,
+} from "@/lib/stitching/merge";
+import {
+  compareIdentityFields,
+  type FieldMatch,
+  type IdentityField,
+} from "@/lib/stitching/compare";
+import { getCustomerDetail } from "./dashboard";
+import {
+  addDoNotMergePair,
+  isNeverMatch,
+  loadDoNotMergePairs,
+} from "@/lib/stitching/do-not-merge";
+import {
+  conflictMatchesRule,
+  normalizeBulkRule,
+  MAX_BULK_CONFLICTS,
+  type BulkConflictCandidate,
+  type BulkConflictRule,
+  type BulkCustomerContact,
+  type BulkResolution,
+  type BulkResolveSummary,
+} from "@/lib/stitching/bulk-conflicts";
+import { loadStitchingPolicy } from "@/lib/stitching/policy";
+import { unpackMapping } from "@/lib/csv/stored-mapping";
+import { loadSourceSchema } from "@/lib/csv/custom-sources";
+import type { SupabaseClient } from "@supabase/supabase-js";
 import type {
   SourceType,
   ImportHistory,
   ImportError,
   ConflictStatus,
 } from "@/lib/types";
-
-const DEFAULT_ORG_ID = "00000000-0000-0000-0000-000000000001";
+import type { CustomerDetail } from "@/lib/types/dashboard";
 
 // ─── Types ─────────────────────────────────────────────────
 
@@ -30,10 +63,10 @@ export interface ImportHistoryRow {
 
 export interface ConflictWithCustomers {
   id: string;
-  customer_a_id: string;
+  customer_a_id: string | null;
   customer_a_name: string | null;
   customer_a_email: string | null;
-  customer_b_id: string;
+  customer_b_id: string | null;
   customer_b_name: string | null;
   customer_b_email: string | null;
   match_field: string;
@@ -41,6 +74,8 @@ export interface ConflictWithCustomers {
   confidence: number | null;
   status: ConflictStatus;
   created_at: string;
+  /** Active merge for a "merged" conflict — set when it can be unmerged */
+  merge_id: string | null;
 }
 
 // ─── Import History ────────────────────────────────────────
@@ -50,11 +85,7 @@ export async function getImportHistory(options?: {
   offset?: number;
   source?: SourceType;
 }): Promise<{ imports: ImportHistoryRow[]; total: number }> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const { orgId } = await requireOrg();
 
   const admin = createAdminClient();
   const limit = options?.limit ?? 20;
@@ -66,7 +97,7 @@ export async function getImportHistory(options?: {
       "id, source, file_name, total_rows, imported_rows, skipped_rows, error_rows, status, started_at, completed_at, created_at",
       { count: "exact" }
     )
-    .eq("org_id", DEFAULT_ORG_ID)
+    .eq("org_id", orgId)
     .order("created_at", { ascending: false })
     .range(offset, offset + limit - 1);
 
@@ -92,32 +123,43 @@ const SOURCE_TABLE: Record<string, string> = {
   calendly: "bookings",
   passline: "attendance",
   wetravel: "payments",
+  shopify: "payments",
+  square: "payments",
   crm: "crm_enrichments",
   attribution: "customer_attribution",
 };
 
+/**
+ * The table a Mindbody import wrote to: visits imports map a visit id
+ * (attendance), sales imports a sale id (payments).
+ */
+function mindbodyImportTable(columnMapping: Record<string, unknown> | null): string {
+  const { mapping, transforms } = unpackMapping(columnMapping ?? {});
+  const fields = [...Object.values(mapping), ...Object.keys(transforms)];
+  return fields.includes("external_attendance_id") ? "attendance" : "payments";
+}
+
 export async function getImportRows(
   importId: string
 ): Promise<{ headers: string[]; rows: Record<string, string>[] }> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const { orgId } = await requireOrg();
 
   const admin = createAdminClient();
 
   // Get the import record to determine source
   const { data: imp, error: impError } = await admin
     .from("import_history")
-    .select("source")
+    .select("source, column_mapping")
     .eq("id", importId)
-    .eq("org_id", DEFAULT_ORG_ID)
+    .eq("org_id", orgId)
     .single();
 
   if (impError || !imp) throw new Error("Import not found");
 
-  const table = SOURCE_TABLE[imp.source];
+  // Custom sources write to the table they target
+  const table = imp.source === "mindbody"
+    ? mindbodyImportTable(imp.column_mapping)
+    : SOURCE_TABLE[imp.source] ?? (await loadSourceSchema(admin, orgId, imp.source))?.target;
   if (!table) throw new Error(`Unknown source: ${imp.source}`);
 
   const { data, error } = await admin
@@ -144,11 +186,7 @@ export async function getImportMetadata(importId: string): Promise<{
   errors: ImportError[] | null;
   source: SourceType;
 }> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const { orgId } = await requireOrg();
 
   const admin = createAdminClient();
 
@@ -156,13 +194,16 @@ export async function getImportMetadata(importId: string): Promise<{
     .from("import_history")
     .select("column_mapping, errors, source")
     .eq("id", importId)
-    .eq("org_id", DEFAULT_ORG_ID)
+    .eq("org_id", orgId)
     .single();
 
   if (error || !data) throw new Error("Import not found");
 
   return {
-    column_mapping: data.column_mapping as Record<string, string> | null,
+    // Transforms and value mappings are stored alongside the columns; the viewer shows columns only
+    column_mapping: data.column_mapping
+      ? unpackMapping(data.column_mapping as Record<string, unknown>).mapping
+      : null,
     errors: data.errors as ImportError[] | null,
     source: data.source as SourceType,
   };
@@ -175,11 +216,7 @@ export async function getStitchingConflicts(options?: {
   offset?: number;
   status?: ConflictStatus | "all";
 }): Promise<{ conflicts: ConflictWithCustomers[]; total: number }> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const { orgId } = await requireOrg();
 
   const admin = createAdminClient();
   const limit = options?.limit ?? 20;
@@ -192,7 +229,7 @@ export async function getStitchingConflicts(options?: {
       "id, customer_a_id, customer_b_id, match_field, match_value, confidence, status, created_at",
       { count: "exact" }
     )
-    .eq("org_id", DEFAULT_ORG_ID)
+    .eq("org_id", orgId)
     .order("created_at", { ascending: false })
     .range(offset, offset + limit - 1);
 
@@ -207,25 +244,42 @@ export async function getStitchingConflicts(options?: {
     return { conflicts: [], total: count ?? 0 };
   }
 
-  // Fetch customer details for both sides
+  // Fetch customer details for both sides (a side is null once merged away)
   const customerIds = new Set<string>();
   for (const c of conflicts) {
-    customerIds.add(c.customer_a_id);
-    customerIds.add(c.customer_b_id);
+    if (c.customer_a_id) customerIds.add(c.customer_a_id);
+    if (c.customer_b_id) customerIds.add(c.customer_b_id);
   }
 
   const { data: customers } = await admin
     .from("customers")
     .select("id, full_name, email")
+    .eq("org_id", orgId)
     .in("id", Array.from(customerIds));
 
   const customerMap = new Map(
     (customers ?? []).map((c: { id: string; full_name: string | null; email: string | null }) => [c.id, c])
   );
 
-  const enriched: ConflictWithCustomers[] = conflicts.map((c: { id: string; customer_a_id: string; customer_b_id: string; match_field: string; match_value: string | null; confidence: number | null; status: string; created_at: string }) => {
-    const a = customerMap.get(c.customer_a_id);
-    const b = customerMap.get(c.customer_b_id);
+  // Merged conflicts: the absorbed customer only survives in the merge snapshot
+  const mergedIds = conflicts.filter((c) => c.status === "merged").map((c) => c.id);
+  const { data: merges } = mergedIds.length > 0
+    ? await admin
+        .from("customer_merges")
+        .select("id, conflict_id, removed_customer")
+        .eq("org_id", orgId)
+        .in("conflict_id", mergedIds)
+        .is("undone_at", null)
+    : { data: [] };
+
+  const mergeMap = new Map(
+    (merges ?? []).map((m: { id: string; conflict_id: string; removed_customer: { full_name?: string | null; email?: string | null } }) => [m.conflict_id, m])
+  );
+
+  const enriched: ConflictWithCustomers[] = conflicts.map((c: { id: string; customer_a_id: string | null; customer_b_id: string | null; match_field: string; match_value: string | null; confidence: number | null; status: string; created_at: string }) => {
+    const a = c.customer_a_id ? customerMap.get(c.customer_a_id) : undefined;
+    const merge = mergeMap.get(c.id);
+    const b = (c.customer_b_id ? customerMap.get(c.customer_b_id) : undefined) ?? merge?.removed_customer;
     return {
       id: c.id,
       customer_a_id: c.customer_a_id,
@@ -239,6 +293,7 @@ export async function getStitchingConflicts(options?: {
       confidence: c.confidence,
       status: c.status as ConflictStatus,
       created_at: c.created_at,
+      merge_id: merge?.id ?? null,
     };
   });
 
@@ -248,32 +303,105 @@ export async function getStitchingConflicts(options?: {
   };
 }
 
+export interface ConflictComparison {
+  conflict: {
+    id: string;
+    match_field: string;
+    match_value: string | null;
+    confidence: number | null;
+    status: ConflictStatus;
+  };
+  /** Null once that customer has been merged away */
+  a: CustomerDetail | null;
+  b: CustomerDetail | null;
+  /** How each identity field compares (both customers present) */
+  fields: Record<IdentityField, FieldMatch> | null;
+  /** Customer A after merging B into it (both customers present) */
+  mergePreview: MergePreview | null;
+}
+
+/**
+ * Everything needed to decide a conflict: both customers' full detail
+ * (sources, contact fields, payments, bookings, attendance), a field-level
+ * comparison under the org's matching rules, and the merged record.
+ */
+export async function getConflictComparison(conflictId: string): Promise<ConflictComparison> {
+  const { orgId } = await requireOrg();
+  const admin = createAdminClient();
+
+  const { data: conflict, error } = await admin
+    .from("stitching_conflicts")
+    .select("id, customer_a_id, customer_b_id, match_field, match_value, confidence, status")
+    .eq("id", conflictId)
+    .eq("org_id", orgId)
+    .single();
+
+  if (error || !conflict) throw new Error("Conflict not found");
+
+  const ids = [conflict.customer_a_id, conflict.customer_b_id].filter((id): id is string => !!id);
+  const [a, b, identities, policy] = await Promise.all([
+    conflict.customer_a_id ? getCustomerDetail(conflict.customer_a_id) : null,
+    conflict.customer_b_id ? getCustomerDetail(conflict.customer_b_id) : null,
+    ids.length > 0
+      ? admin.from("customers").select("id, name_source").eq("org_id", orgId).in("id", ids)
+      : { data: [] },
+    loadStitchingPolicy(admin, orgId),
+  ]);
+
+  let fields: ConflictComparison["fields"] = null;
+  let mergePreview: MergePreview | null = null;
+  if (a && b) {
+    const nameSource = new Map(
+      (identities.data ?? []).map((c: { id: string; name_source: string | null }) => [c.id, c.name_source])
+    );
+    const identity = (d: CustomerDetail) => ({
+      full_name: d.customer.full_name,
+      email: d.customer.email,
+      phone: d.customer.phone,
+      country: d.customer.country,
+      name_source: nameSource.get(d.customer.id) ?? null,
+    });
+
+    fields = compareIdentityFields(identity(a), identity(b), policy.email_rules, policy.default_phone_country);
+    mergePreview = previewMerge(identity(a), identity(b));
+  }
+
+  return {
+    conflict: {
+      id: conflict.id,
+      match_field: conflict.match_field,
+      match_value: conflict.match_value,
+      confidence: conflict.confidence,
+      status: conflict.status as ConflictStatus,
+    },
+    a,
+    b,
+    fields,
+    mergePreview,
+  };
+}
+
 // ─── Resolve Conflict ──────────────────────────────────────
 
 /**
  * Resolve a stitching conflict by merging or dismissing.
  *
- * When merged:
- * 1. Reassign all customer_sources from B → A
- * 2. Reassign all payments from B → A
- * 3. Reassign all bookings from B → A
- * 4. Reassign all attendance from B → A
- * 5. Fill in missing name/email on A from B
- * 6. Delete customer B
- * 7. Mark conflict as "merged"
+ * When merged (A is kept, B is absorbed):
+ * 1. Decide which of B's identity fields A should take (name precedence)
+ * 2. Run merge_customers in a single transaction, which snapshots B,
+ *    moves every row referencing B onto A, closes conflicts naming B,
+ *    deletes B and records a customer_merges row for unmergeCustomers()
  *
  * When dismissed:
  * 1. Mark conflict as "dismissed"
+ * 2. Record the pair in do_not_merge so future imports keep them apart
  */
 export async function resolveConflict(
   conflictId: string,
   resolution: "merged" | "dismissed"
 ): Promise<void> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const ctx = await requirePermission("conflict:resolve");
+  const { orgId } = ctx;
 
   const admin = createAdminClient();
 
@@ -282,6 +410,7 @@ export async function resolveConflict(
     .from("stitching_conflicts")
     .select("*")
     .eq("id", conflictId)
+    .eq("org_id", orgId)
     .single();
 
   if (fetchError || !conflict) {
@@ -292,100 +421,651 @@ export async function resolveConflict(
     throw new Error("Conflict already resolved");
   }
 
+  await resolvePendingConflict(admin, ctx, conflict, resolution);
+}
+
+interface PendingConflictRow {
+  id: string;
+  customer_a_id: string | null;
+  customer_b_id: string | null;
+  match_field: string;
+  match_value: string | null;
+}
+
+/** Merge or dismiss a conflict already checked to be pending (see resolveConflict). */
+async function resolvePendingConflict(
+  admin: SupabaseClient,
+  ctx: OrgContext,
+  conflict: PendingConflictRow,
+  resolution: "merged" | "dismissed"
+): Promise<void> {
+  const { userId, orgId } = ctx;
+  const conflictId = conflict.id;
+
   if (resolution === "dismissed") {
-    await admin
+    // Save the rule first: if it fails the conflict stays pending and can be
+    // dismissed again, rather than being dismissed without its rule
+    if (conflict.customer_a_id && conflict.customer_b_id) {
+      await addDoNotMergePair(admin, orgId, conflict.customer_a_id, conflict.customer_b_id, {
+        reason: "dismissed",
+        conflictId,
+        userId,
+      });
+    }
+
+    const { error: dismissError } = await admin
       .from("stitching_conflicts")
       .update({
         status: "dismissed",
-        resolved_by: user.id,
+        resolved_by: userId,
         resolved_at: new Date().toISOString(),
       })
       .eq("id", conflictId);
+    if (dismissError) throw new Error(`Failed to dismiss conflict: ${dismissError.message}`);
+
+    await recordAuditEvent(admin, ctx, {
+      action: "conflict.dismissed",
+      entityType: "conflict",
+      entityId: conflictId,
+      customerIds: [conflict.customer_a_id, conflict.customer_b_id],
+      details: {
+        match_field: conflict.match_field,
+        match_value: conflict.match_value,
+      },
+    });
     return;
   }
 
   // ─── Merge: A is the target, B gets absorbed ─────────────
 
-  const keepId = conflict.customer_a_id;
-  const removeId = conflict.customer_b_id;
-
-  // 1. Reassign customer_sources
-  await admin
-    .from("customer_sources")
-    .update({ customer_id: keepId })
-    .eq("customer_id", removeId);
-
-  // 2. Reassign payments
-  await admin
-    .from("payments")
-    .update({ customer_id: keepId })
-    .eq("customer_id", removeId);
-
-  // 3. Reassign bookings
-  await admin
-    .from("bookings")
-    .update({ customer_id: keepId })
-    .eq("customer_id", removeId);
-
-  // 4. Reassign attendance
-  await admin
-    .from("attendance")
-    .update({ customer_id: keepId })
-    .eq("customer_id", removeId);
-
-  // 5. Fill in missing fields on A from B (with name precedence)
-  const { data: customerA } = await admin
-    .from("customers")
-    .select("full_name, email, phone, name_source")
-    .eq("id", keepId)
-    .single();
+  const keepId: string | null = conflict.customer_a_id;
+  const removeId: string | null = conflict.customer_b_id;
+  if (!keepId || !removeId) {
+    throw new Error("Conflict customer no longer exists");
+  }
 
-  const { data: customerB } = await admin
+  const { data: pair } = await admin
     .from("customers")
-    .select("full_name, email, phone, name_source")
-    .eq("id", removeId)
-    .single();
+    .select("id, full_name, email, phone, name_source")
+    .eq("org_id", orgId)
+    .in("id", [keepId, removeId]);
+
+  const customerA = pair?.find((c) => c.id === keepId);
+  const customerB = pair?.find((c) => c.id === removeId);
+  if (!customerA || !customerB) {
+    throw new Error("Conflict customer no longer exists");
+  }
 
-  if (customerA && customerB) {
-    const updates: Record<string, string> = {};
-    // Use name precedence to decide which name to keep
-    if (customerB.full_name) {
-      if (!customerA.full_name || shouldUpdateName(customerA.name_source, customerB.name_source ?? "")) {
-        updates.full_name = customerB.full_name;
-        updates.name_source = customerB.name_source ?? "";
-      }
+  const { data: result, error: mergeError } = await admin.rpc("merge_customers", {
+    target_org_id: orgId,
+    keep_customer_id: keepId,
+    remove_customer_id: removeId,
+    kept_updates: planMergeFieldUpdates(customerA, customerB),
+    source_conflict_id: conflictId,
+    acting_user_id: userId,
+  });
+
+  if (mergeError) throw new Error(`Merge failed: ${mergeError.message}`);
+
+  const { merge_id: mergeId, ...counts } = result as { merge_id: string } & Record<string, number>;
+
+  await recordAuditEvent(admin, ctx, {
+    action: "conflict.merged",
+    entityType: "conflict",
+    entityId: conflictId,
+    customerIds: [keepId, removeId],
+    details: {
+      merge_id: mergeId,
+      kept_customer_id: keepId,
+      kept_name: customerA.full_name ?? null,
+      removed_customer_id: removeId,
+      removed_name: customerB.full_name ?? null,
+      removed_email: customerB.email ?? null,
+      match_field: conflict.match_field,
+      match_value: conflict.match_value,
+      ...counts,
+    },
+  });
+}
+
+// ─── Bulk Resolution ───────────────────────────────────────
+
+const BULK_CONFLICT_COLUMNS =
+  "id, customer_a_id, customer_b_id, match_field, match_value, confidence, import_id";
+
+type BulkConflictRow = PendingConflictRow & BulkConflictCandidate;
+
+/**
+ * Pending conflicts selected by a bulk rule, oldest first. Rules that map
+ * to a column filter run in the database; phones_match loads the pending
+ * conflicts' customers and compares phones under the org's policy.
+ */
+async function loadBulkTargets(
+  admin: SupabaseClient,
+  orgId: string,
+  rule: BulkConflictRule
+): Promise<BulkConflictRow[]> {
+  const PAGE = 1000;
+  const rows: BulkConflictRow[] = [];
+
+  for (let from = 0; ; from += PAGE) {
+    let query = admin
+      .from("stitching_conflicts")
+      .select(BULK_CONFLICT_COLUMNS)
+      .eq("org_id", orgId)
+      .eq("status", "pending")
+      .order("created_at", { ascending: true })
+      .order("id", { ascending: true })
+      .range(from, from + PAGE - 1);
+
+    if (rule.kind === "selected") query = query.in("id", rule.conflictIds);
+    if (rule.kind === "import") query = query.eq("import_id", rule.importId);
+    if (rule.kind === "confidence_below") query = query.lt("confidence", rule.threshold);
+    if (rule.kind === "phones_match") {
+      query = query.not("customer_a_id", "is", null).not("customer_b_id", "is", null);
     }
-    if (!customerA.email && customerB.email) updates.email = customerB.email;
-    if (!customerA.phone && customerB.phone) updates.phone = customerB.phone;
 
-    if (Object.keys(updates).length > 0) {
-      await admin.from("customers").update(updates).eq("id", keepId);
+    const { data, error } = await query;
+    if (error) throw new Error(`Failed to fetch conflicts: ${error.message}`);
+    rows.push(...((data ?? []) as BulkConflictRow[]));
+    if (!data || data.length < PAGE) break;
+  }
+
+  if (rule.kind !== "phones_match") return rows;
+
+  const policy = await loadStitchingPolicy(admin, orgId);
+  const customerIds = Array.from(
+    new Set(rows.flatMap((r) => [r.customer_a_id, r.customer_b_id]).filter((id): id is string => !!id))
+  );
+  const contacts = new Map<string, BulkCustomerContact>();
+  for (let i = 0; i < customerIds.length; i += 500) {
+    const { data, error } = await admin
+      .from("customers")
+      .select("id, phone, country")
+      .eq("org_id", orgId)
+      .in("id", customerIds.slice(i, i + 500));
+    if (error) throw new Error(`Failed to fetch customers: ${error.message}`);
+    for (const c of data ?? []) contacts.set(c.id, { phone: c.phone, country: c.country });
+  }
+
+  return rows.filter((r) => conflictMatchesRule(r, rule, contacts, policy.default_phone_country));
+}
+
+/** How many pending conflicts a bulk rule would resolve, for the confirmation step. */
+export async function previewBulkResolution(
+  rule: BulkConflictRule
+): Promise<{ matched: number; limit: number }> {
+  const { orgId } = await requirePermission("conflict:resolve");
+  const admin = createAdminClient();
+  const targets = await loadBulkTargets(admin, orgId, normalizeBulkRule(rule));
+  return { matched: targets.length, limit: MAX_BULK_CONFLICTS };
+}
+
+/**
+ * Merge or dismiss every pending conflict a rule selects.
+ *
+ * 1. Load the matching pending conflicts, oldest first
+ * 2. Resolve up to MAX_BULK_CONFLICTS of them one at a time — each merge
+ *    is its own transaction and audit event, exactly as if resolved by hand
+ * 3. Skip conflicts naming a customer an earlier merge in this run absorbed
+ *    (merge_customers already closed them)
+ * 4. Report what happened; failures don't stop the run
+ */
+export async function resolveConflictsBulk(
+  rule: BulkConflictRule,
+  resolution: BulkResolution
+): Promise<BulkResolveSummary> {
+  const ctx = await requirePermission("conflict:resolve");
+  const admin = createAdminClient();
+
+  const targets = await loadBulkTargets(admin, ctx.orgId, normalizeBulkRule(rule));
+  const batch = targets.slice(0, MAX_BULK_CONFLICTS);
+
+  const summary: BulkResolveSummary = {
+    matched: targets.length,
+    merged: 0,
+    dismissed: 0,
+    skipped: 0,
+    failed: [],
+    remaining: targets.length - batch.length,
+  };
+  const absorbed = new Set<string>();
+
+  for (const conflict of batch) {
+    const gone =
+      (conflict.customer_a_id && absorbed.has(conflict.customer_a_id)) ||
+      (conflict.customer_b_id && absorbed.has(conflict.customer_b_id)) ||
+      (resolution === "merged" && (!conflict.customer_a_id || !conflict.customer_b_id));
+    if (gone) {
+      summary.skipped++;
+      continue;
+    }
+
+    try {
+      await resolvePendingConflict(admin, ctx, conflict, resolution);
+      if (resolution === "merged") {
+        summary.merged++;
+        absorbed.add(conflict.customer_b_id!);
+      } else {
+        summary.dismissed++;
+      }
+    } catch (err) {
+      summary.failed.push({
+        conflictId: conflict.id,
+        error: err instanceof Error ? err.message : String(err),
+      });
     }
   }
 
-  // 6. Delete customer B
-  await admin.from("customers").delete().eq("id", removeId);
+  return summary;
+}
 
-  // 7. Mark conflict as merged
-  await admin
-    .from("stitching_conflicts")
-    .update({
-      status: "merged",
-      resolved_by: user.id,
-      resolved_at: new Date().toISOString(),
-    })
-    .eq("id", conflictId);
-
-  // Also resolve any other pending conflicts involving the removed customer
-  await admin
+/** Imports that still have pending conflicts, for the "from import" rule. */
+export async function getImportsWithPendingConflicts(): Promise<
+  { id: string; file_name: string; source: SourceType; pending: number }[]
+> {
+  const { orgId } = await requireOrg();
+  const admin = createAdminClient();
+
+  const { data: conflicts, error } = await admin
     .from("stitching_conflicts")
-    .update({
-      status: "merged",
-      resolved_by: user.id,
-      resolved_at: new Date().toISOString(),
-    })
+    .select("import_id")
+    .eq("org_id", orgId)
     .eq("status", "pending")
-    .or(`customer_a_id.eq.${removeId},customer_b_id.eq.${removeId}`);
+    .not("import_id", "is", null);
+
+  if (error) throw new Error(`Failed to fetch conflicts: ${error.message}`);
+
+  const counts = new Map<string, number>();
+  for (const c of conflicts ?? []) {
+    counts.set(c.import_id, (counts.get(c.import_id) ?? 0) + 1);
+  }
+  if (counts.size === 0) return [];
+
+  const { data: imports } = await admin
+    .from("import_history")
+    .select("id, file_name, source, created_at")
+    .eq("org_id", orgId)
+    .in("id", Array.from(counts.keys()))
+    .order("created_at", { ascending: false });
+
+  return (imports ?? []).map((i) => ({
+    id: i.id,
+    file_name: i.file_name,
+    source: i.source as SourceType,
+    pending: counts.get(i.id) ?? 0,
+  }));
+}
+
+// ─── Manual Merge ────────────────────────────────────────
+
+/**
+ * Load customers for the manual merge dialog (all pickable fields).
+ */
+export async function getCustomersForMerge(customerIds: string[]): Promise<MergeCandidate[]> {
+  const { orgId } = await requireOrg();
+
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("customers")
+    .select(`id, name_source, ${MERGE_FIELDS.join(", ")}`)
+    .eq("org_id", orgId)
+    .in("id", customerIds);
+
+  if (error) throw new Error(`Failed to fetch customers: ${error.message}`);
+
+  // Keep the caller's order (it decides the default survivor)
+  const byId = new Map(((data ?? []) as unknown as MergeCandidate[]).map((c) => [c.id, c]));
+  return customerIds.map((id) => byId.get(id)).filter((c): c is MergeCandidate => !!c);
+}
+
+/**
+ * Merge any group of customers into one survivor, outside the conflict flow.
+ *
+ * 1. Load every customer in the group (all must belong to the active org)
+ * 2. Turn the per-field picks into per-customer updates for the survivor
+ * 3. Run merge_customer_group — one merge_customers per absorbed customer,
+ *    in a single transaction; each merge can be undone on its own
+ */
+export async function mergeCustomers(options: {
+  keepCustomerId: string;
+  removeCustomerIds: string[];
+  picks: Partial<MergeFieldPicks>;
+}): Promise<{ merged: number }> {
+  const ctx = await requirePermission("customer:merge");
+  const { userId, orgId } = ctx;
+
+  const removeIds = Array.from(new Set(options.removeCustomerIds)).filter(
+    (id) => id !== options.keepCustomerId
+  );
+  if (removeIds.length === 0) throw new Error("Select at least two customers to merge");
+
+  const admin = createAdminClient();
+  const { data, error: fetchError } = await admin
+    .from("customers")
+    .select(`id, name_source, ${MERGE_FIELDS.join(", ")}`)
+    .eq("org_id", orgId)
+    .in("id", [options.keepCustomerId, ...removeIds]);
+
+  if (fetchError) throw new Error(`Failed to fetch customers: ${fetchError.message}`);
+  const candidates = (data ?? []) as unknown as MergeCandidate[];
+  if (candidates.length !== removeIds.length + 1) {
+    throw new Error("Customer not found in this organization");
+  }
+
+  const allIds = [options.keepCustomerId, ...removeIds];
+  const neverMatch = await loadDoNotMergePairs(admin, orgId, allIds);
+  if (allIds.some((a, i) => allIds.slice(i + 1).some((b) => isNeverMatch(neverMatch, a, b)))) {
+    throw new Error("Some of these customers are marked as different people — remove the never-merge rule first");
+  }
+
+  const updates = buildMergeUpdates(candidates, options.keepCustomerId, options.picks);
+
+  const { data: results, error } = await admin.rpc("merge_customer_group", {
+    target_org_id: orgId,
+    keep_customer_id: options.keepCustomerId,
+    remove_customer_ids: removeIds,
+    updates_by_customer: updates,
+    acting_user_id: userId,
+  });
+
+  if (error) throw new Error(`Merge failed: ${error.message}`);
+
+  const byId = new Map(candidates.map((c) => [c.id, c]));
+  const kept = byId.get(options.keepCustomerId);
+  await recordAuditEvent(admin, ctx, {
+    action: "customer.merged",
+    entityType: "customer",
+    entityId: options.keepCustomerId,
+    customerIds: [options.keepCustomerId, ...removeIds],
+    details: {
+      kept_name: kept?.full_name ?? kept?.email ?? null,
+      removed_names: removeIds.map((id) => byId.get(id)?.full_name ?? byId.get(id)?.email ?? null),
+      merge_ids: ((results ?? []) as { merge_id: string }[]).map((r) => r.merge_id),
+      picks: options.picks,
+    },
+  });
+
+  return { merged: removeIds.length };
+}
+
+// ─── Unmerge ─────────────────────────────────────────────
+
+export interface CustomerMergeRow {
+  id: string;
+  conflict_id: string | null;
+  kept_customer_id: string;
+  removed_customer_id: string;
+  removed_name: string | null;
+  removed_email: string | null;
+  merged_at: string;
+}
+
+/**
+ * Active (not yet undone) merges into a customer, newest first.
+ */
+export async function getCustomerMerges(customerId: string): Promise<CustomerMergeRow[]> {
+  const { orgId } = await requireOrg();
+
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("customer_merges")
+    .select("id, conflict_id, kept_customer_id, removed_customer_id, removed_customer, merged_at")
+    .eq("org_id", orgId)
+    .eq("kept_customer_id", customerId)
+    .is("undone_at", null)
+    .order("merged_at", { ascending: false });
+
+  if (error) throw new Error(`Failed to fetch merges: ${error.message}`);
+
+  return (data ?? []).map((m) => {
+    const removed = m.removed_customer as { full_name?: string | null; email?: string | null };
+    return {
+      id: m.id,
+      conflict_id: m.conflict_id,
+      kept_customer_id: m.kept_customer_id,
+      removed_customer_id: m.removed_customer_id,
+      removed_name: removed.full_name ?? null,
+      removed_email: removed.email ?? null,
+      merged_at: m.merged_at,
+    };
+  });
+}
+
+/**
+ * Undo a merge using a single-transaction RPC.
+ *
+ * 1. Restore the fields of A the merge overwrote (unless edited since)
+ * 2. Re-create B from its snapshot
+ * 3. Move B's original rows back from A
+ * 4. Mark the merged conflict "split"; reopen conflicts it auto-closed
+ * 5. Mark the merge as undone
+ * 6. Record the pair in do_not_merge
+ */
+export async function unmergeCustomers(mergeId: string): Promise<void> {
+  const ctx = await requirePermission("customer:merge");
+  const { userId, orgId } = ctx;
+
+  const admin = createAdminClient();
+
+  const { data: merge } = await admin
+    .from("customer_merges")
+    .select("conflict_id, kept_customer_id, removed_customer_id, removed_customer")
+    .eq("id", mergeId)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  if (!merge) throw new Error("Merge not found");
+
+  const { data, error } = await admin.rpc("unmerge_customers", {
+    target_merge_id: mergeId,
+    target_org_id: orgId,
+    acting_user_id: userId,
+  });
+  if (error) throw new Error(`Unmerge failed: ${error.message}`);
+
+  await addDoNotMergePair(admin, orgId, merge.kept_customer_id, merge.removed_customer_id, {
+    reason: "unmerged",
+    conflictId: merge.conflict_id,
+    userId,
+  });
+
+  const removed = merge.removed_customer as { full_name?: string | null; email?: string | null };
+  await recordAuditEvent(admin, ctx, {
+    action: "customer.unmerged",
+    entityType: "customer",
+    entityId: merge.removed_customer_id,
+    customerIds: [merge.kept_customer_id, merge.removed_customer_id],
+    details: {
+      merge_id: mergeId,
+      conflict_id: merge.conflict_id,
+      restored_name: removed.full_name ?? null,
+      restored_email: removed.email ?? null,
+      ...(data as Record<string, number> | null),
+    },
+  });
+}
+
+// ─── Split Customer ──────────────────────────────────────
+
+/**
+ * Split part of a wrongly stitched customer off into a new customer.
+ *
+ * 1. Validate the selection (the RPC ignores rows not owned by the customer)
+ * 2. Take the new customer's name_source from the source link whose
+ *    external name was chosen, falling back to "manual"
+ * 3. Run split_customer — creates the customer, moves the rows and records
+ *    the pair as 'split' in one transaction
+ * 4. Record the pair in do_not_merge
+ */
+export async function splitCustomer(options: {
+  customerId: string;
+  newCustomer: { full_name: string | null; email: string | null; phone: string | null };
+  sourceLinkIds: string[];
+  paymentIds: string[];
+  bookingIds: string[];
+  attendanceIds: string[];
+}): Promise<{ newCustomerId: string }> {
+  const ctx = await requirePermission("customer:split");
+  const { userId, orgId } = ctx;
+
+  const total =
+    options.sourceLinkIds.length +
+    options.paymentIds.length +
+    options.bookingIds.length +
+    options.attendanceIds.length;
+  if (total === 0) throw new Error("Select at least one source link or record to split off");
+
+  const admin = createAdminClient();
+  const [{ data: original }, { data: links }] = await Promise.all([
+    admin
+      .from("customers")
+      .select("id, full_name, email")
+      .eq("id", options.customerId)
+      .eq("org_id", orgId)
+      .single(),
+    options.sourceLinkIds.length > 0
+      ? admin
+          .from("customer_sources")
+          .select("source, external_name")
+          .eq("org_id", orgId)
+          .in("id", options.sourceLinkIds)
+      : Promise.resolve({ data: [] as { source: string; external_name: string | null }[] }),
+  ]);
+
+  if (!original) throw new Error("Customer not found");
+
+  const newName = options.newCustomer.full_name?.trim() || null;
+  const nameSource =
+    (links ?? []).find(
+      (l) => newName && l.external_name?.trim().toLowerCase() === newName.toLowerCase()
+    )?.source ?? "manual";
+
+  const { data: result, error } = await admin.rpc("split_customer", {
+    target_org_id: orgId,
+    source_customer_id: options.customerId,
+    new_customer: { ...options.newCustomer, full_name: newName, name_source: nameSource },
+    source_link_ids: options.sourceLinkIds,
+    payment_ids: options.paymentIds,
+    booking_ids: options.bookingIds,
+    attendance_ids: options.attendanceIds,
+    acting_user_id: userId,
+  });
+
+  if (error) throw new Error(`Split failed: ${error.message}`);
+
+  const counts = result as {
+    split_id: string;
+    new_customer_id: string;
+    moved_sources: number;
+    moved_payments: number;
+    moved_bookings: number;
+    moved_attendance: number;
+  };
+
+  await addDoNotMergePair(admin, orgId, options.customerId, counts.new_customer_id, {
+    reason: "split",
+    userId,
+  });
+
+  await recordAuditEvent(admin, ctx, {
+    action: "customer.split",
+    entityType: "customer",
+    entityId: options.customerId,
+    customerIds: [options.customerId, counts.new_customer_id],
+    details: {
+      split_id: counts.split_id,
+      original_name: original.full_name ?? original.email ?? null,
+      new_name: newName,
+      new_email: options.newCustomer.email,
+      moved_sources: counts.moved_sources,
+      moved_payments: counts.moved_payments,
+      moved_bookings: counts.moved_bookings,
+      moved_attendance: counts.moved_attendance,
+    },
+  });
+
+  return { newCustomerId: counts.new_customer_id };
+}
+
+// ─── Never-Match Rules ───────────────────────────────────
+
+export interface NeverMatchRow {
+  id: string;
+  other_customer_id: string;
+  other_name: string | null;
+  other_email: string | null;
+  reason: string;
+  created_at: string;
+}
+
+/**
+ * Customers this one must never be matched with, newest first.
+ * Rules whose other customer is currently merged away are left out.
+ */
+export async function getNeverMatchRules(customerId: string): Promise<NeverMatchRow[]> {
+  const { orgId } = await requireOrg();
+
+  const admin = createAdminClient();
+  const { data, error } = await admin
+    .from("do_not_merge")
+    .select("id, customer_a_id, customer_b_id, reason, created_at")
+    .eq("org_id", orgId)
+    .or(`customer_a_id.eq.${customerId},customer_b_id.eq.${customerId}`)
+    .order("created_at", { ascending: false });
+
+  if (error) throw new Error(`Failed to fetch never-merge rules: ${error.message}`);
+  if (!data || data.length === 0) return [];
+
+  const otherIds = data.map((r) => (r.customer_a_id === customerId ? r.customer_b_id : r.customer_a_id));
+  const { data: others } = await admin
+    .from("customers")
+    .select("id, full_name, email")
+    .eq("org_id", orgId)
+    .in("id", otherIds);
+
+  const byId = new Map((others ?? []).map((c) => [c.id, c]));
+  return data.flatMap((r) => {
+    const otherId = r.customer_a_id === customerId ? r.customer_b_id : r.customer_a_id;
+    const other = byId.get(otherId);
+    if (!other) return [];
+    return [{
+      id: r.id,
+      other_customer_id: otherId,
+      other_name: other.full_name,
+      other_email: other.email,
+      reason: r.reason,
+      created_at: r.created_at,
+    }];
+  });
+}
+
+/**
+ * Remove a never-match rule so the pair can be matched (and flagged) again.
+ */
+export async function removeNeverMatchRule(ruleId: string): Promise<void> {
+  const ctx = await requirePermission("conflict:resolve");
+  const { orgId } = ctx;
+
+  const admin = createAdminClient();
+  const { data: rule, error } = await admin
+    .from("do_not_merge")
+    .delete()
+    .eq("id", ruleId)
+    .eq("org_id", orgId)
+    .select("customer_a_id, customer_b_id, reason")
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to remove rule: ${error.message}`);
+  if (!rule) throw new Error("Rule not found");
+
+  await recordAuditEvent(admin, ctx, {
+    action: "do_not_merge.removed",
+    entityType: "customer",
+    entityId: rule.customer_a_id,
+    customerIds: [rule.customer_a_id, rule.customer_b_id],
+    details: { reason: rule.reason },
+  });
 }
 
 // ─── Revert Import ───────────────────────────────────────
@@ -400,18 +1080,26 @@ export async function resolveConflict(
  * 5. Mark import_history as "reverted"
  */
 export async function revertImport(importId: string): Promise<void> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const ctx = await requirePermission("import:revert");
+  const { orgId } = ctx;
 
   const admin = createAdminClient();
-  const { error } = await admin.rpc("revert_import_data", {
+  const imp = await getImportSummary(admin, orgId, importId);
+  const customerIds = await getImportCustomerIds(admin, orgId, importId);
+
+  const { data, error } = await admin.rpc("revert_import_data", {
     target_import_id: importId,
-    target_org_id: DEFAULT_ORG_ID,
+    target_org_id: orgId,
   });
   if (error) throw new Error(error.message);
+
+  await recordAuditEvent(admin, ctx, {
+    action: "import.reverted",
+    entityType: "import",
+    entityId: importId,
+    customerIds,
+    details: { ...imp, ...(data as Record<string, number> | null) },
+  });
 }
 
 // ─── Reset All Data ──────────────────────────────────────
@@ -422,20 +1110,24 @@ export async function revertImport(importId: string): Promise<void> {
  * customers (with cascading customer_sources), and import_history.
  */
 export async function resetAllData(): Promise<{ deleted: number }> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const ctx = await requirePermission("data:reset");
+  const { orgId } = ctx;
 
   const admin = createAdminClient();
 
   const { data, error } = await admin.rpc("reset_demo_data", {
-    target_org_id: DEFAULT_ORG_ID,
+    target_org_id: orgId,
   });
 
   if (error) throw new Error(`Reset failed: ${error.message}`);
 
+  await recordAuditEvent(admin, ctx, {
+    action: "data.reset",
+    entityType: "organization",
+    entityId: orgId,
+    details: { deleted_imports: data ?? 0 },
+  });
+
   return { deleted: data ?? 0 };
 }
 
@@ -446,16 +1138,39 @@ export async function resetAllData(): Promise<{ deleted: number }> {
  * Same cascade as revert, but also hard-deletes the import_history row.
  */
 export async function deleteImport(importId: string): Promise<void> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const ctx = await requirePermission("import:delete");
+  const { orgId } = ctx;
 
   const admin = createAdminClient();
-  const { error } = await admin.rpc("delete_import_data", {
+  const imp = await getImportSummary(admin, orgId, importId);
+  const customerIds = await getImportCustomerIds(admin, orgId, importId);
+
+  const { data, error } = await admin.rpc("delete_import_data", {
     target_import_id: importId,
-    target_org_id: DEFAULT_ORG_ID,
+    target_org_id: orgId,
   });
   if (error) throw new Error(error.message);
+
+  await recordAuditEvent(admin, ctx, {
+    action: "import.deleted",
+    entityType: "import",
+    entityId: importId,
+    customerIds,
+    details: { ...imp, ...(data as Record<string, number> | null) },
+  });
+}
+
+/** File name and source of an import, kept in audit details after deletion. */
+async function getImportSummary(
+  admin: SupabaseClient,
+  orgId: string,
+  importId: string
+): Promise<{ file_name: string | null; source: string | null }> {
+  const { data } = await admin
+    .from("import_history")
+    .select("file_name, source")
+    .eq("id", importId)
+    .eq("org_id", orgId)
+    .maybeSingle();
+  return { file_name: data?.file_name ?? null, source: data?.source ?? null };
 }
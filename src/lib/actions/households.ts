@@ -0,0 +1,139 @@
+"use server";
+
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requirePermission } from "@/lib/org";
+import { recordAuditEvent } from "@/lib/audit";
+
+// ─── Households ───────────────────────────────────────────
+
+/**
+ * Group customers into a household.
+ *
+ * 1. Validate the customers (2+, all in the active org)
+ * 2. Reuse the household one of them already belongs to, else create one
+ * 3. Point every selected customer at it
+ */
+export async function groupHousehold(options: {
+  customerIds: string[];
+  name?: string | null;
+}): Promise<{ householdId: string }> {
+  const ctx = await requirePermission("customer:household");
+  const { userId, orgId } = ctx;
+
+  const customerIds = Array.from(new Set(options.customerIds));
+  if (customerIds.length < 2) throw new Error("Select at least two customers");
+
+  const admin = createAdminClient();
+  const { data: customers, error: fetchError } = await admin
+    .from("customers")
+    .select("id, full_name, household_id")
+    .eq("org_id", orgId)
+    .in("id", customerIds);
+
+  if (fetchError) throw new Error(`Failed to fetch customers: ${fetchError.message}`);
+  if (!customers || customers.length !== customerIds.length) {
+    throw new Error("Customer not found in this organization");
+  }
+
+  const existingIds = Array.from(
+    new Set(customers.map((c) => c.household_id).filter((id): id is string => !!id))
+  );
+  if (existingIds.length > 1) {
+    throw new Error("These customers belong to different households — remove them from one first");
+  }
+
+  let householdId = existingIds[0] ?? null;
+  const name = options.name?.trim() || null;
+  const created = !householdId;
+
+  if (!householdId) {
+    const { data: household, error } = await admin
+      .from("households")
+      .insert({ org_id: orgId, name, created_by: userId })
+      .select("id")
+      .single();
+    if (error) throw new Error(`Failed to create household: ${error.message}`);
+    householdId = household.id as string;
+  } else if (name) {
+    await admin
+      .from("households")
+      .update({ name, updated_at: new Date().toISOString() })
+      .eq("id", householdId)
+      .eq("org_id", orgId);
+  }
+
+  const added = customers.filter((c) => c.household_id !== householdId);
+  const { error: updateError } = await admin
+    .from("customers")
+    .update({ household_id: householdId, updated_at: new Date().toISOString() })
+    .eq("org_id", orgId)
+    .in("id", added.map((c) => c.id));
+
+  if (updateError) throw new Error(`Failed to update customers: ${updateError.message}`);
+
+  await recordAuditEvent(admin, ctx, {
+    action: created ? "household.created" : "household.member_added",
+    entityType: "household",
+    entityId: householdId,
+    customerIds: created ? customerIds : added.map((c) => c.id),
+    details: {
+      name,
+      member_names: (created ? customers : added).map((c) => c.full_name),
+    },
+  });
+
+  return { householdId };
+}
+
+/**
+ * Take a customer out of their household. A household left with a single
+ * member is dissolved (the row is kept for merge snapshots that reference it).
+ */
+export async function removeFromHousehold(customerId: string): Promise<void> {
+  const ctx = await requirePermission("customer:household");
+  const { orgId } = ctx;
+
+  const admin = createAdminClient();
+  const { data: customer } = await admin
+    .from("customers")
+    .select("id, full_name, household_id")
+    .eq("id", customerId)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  if (!customer) throw new Error("Customer not found");
+  if (!customer.household_id) throw new Error("Customer is not in a household");
+
+  const householdId: string = customer.household_id;
+  const now = new Date().toISOString();
+
+  const { error } = await admin
+    .from("customers")
+    .update({ household_id: null, updated_at: now })
+    .eq("id", customerId)
+    .eq("org_id", orgId);
+  if (error) throw new Error(`Failed to update customer: ${error.message}`);
+
+  const { data: remaining } = await admin
+    .from("customers")
+    .select("id")
+    .eq("org_id", orgId)
+    .eq("household_id", householdId);
+
+  const dissolved = (remaining ?? []).length === 1;
+  if (dissolved) {
+    await admin
+      .from("customers")
+      .update({ household_id: null, updated_at: now })
+      .eq("id", remaining![0].id)
+      .eq("org_id", orgId);
+  }
+
+  await recordAuditEvent(admin, ctx, {
+    action: "household.member_removed",
+    entityType: "household",
+    entityId: householdId,
+    customerIds: [customerId, ...(dissolved ? [remaining![0].id] : [])],
+    details: { name: customer.full_name, dissolved },
+  });
+}
@@ -1,41 +1,80 @@
 "use server";
 
-import { createClient } from "@/lib/supabase/server";
 import { createAdminClient } from "@/lib/supabase/admin";
+import { requireOrg, requirePermission } from "@/lib/org";
+import { recordAuditEvent } from "@/lib/audit";
 import type { SupabaseClient } from "@supabase/supabase-js";
-import type { SourceType, SavedMapping } from "@/lib/types";
+import { isDateFormat, isValidTimeZone, type DateFormat } from "@/lib/csv/dates";
+import { assertValidTransforms } from "@/lib/csv/transforms";
+import { assertValidValueMappings } from "@/lib/csv/normalizers";
+import { packMapping, unpackMapping } from "@/lib/csv/stored-mapping";
+import { loadSourceSchema } from "@/lib/csv/custom-sources";
+import { resolveSchemaKey } from "@/lib/csv/schemas";
+import type { SourceType, SavedMapping, FieldTransforms, ValueMappings } from "@/lib/types";
 
 /**
- * Save a column mapping template for future reuse.
+ * A saved_mappings row as the app sees it: transforms and value mappings
+ * are stored inside the mapping JSON and split out here.
+ */
+function toSavedMapping(row: Record<string, unknown>): SavedMapping {
+  const { mapping, transforms, valueMappings } = unpackMapping((row.mapping ?? {}) as Record<string, unknown>);
+  return { ...(row as unknown as SavedMapping), mapping, transforms, value_mappings: valueMappings };
+}
+
+/**
+ * Save a column mapping template for future reuse, with the date format
+ * and timezone chosen for it ("auto" is stored as null), any field
+ * transforms and any enum value mappings.
  */
 export async function saveMappingTemplate(
   source: SourceType,
   name: string,
   mapping: Record<string, string>,
-  headers: string[]
+  headers: string[],
+  dates?: { dateFormat: DateFormat; timezone: string },
+  transforms: FieldTransforms = {},
+  valueMappings: ValueMappings = {}
 ): Promise<SavedMapping> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const ctx = await requirePermission("import:upload");
+  const { orgId } = ctx;
 
+  if (dates && !isDateFormat(dates.dateFormat)) {
+    throw new Error(`Unknown date format: ${dates.dateFormat}`);
+  }
+  if (dates && !isValidTimeZone(dates.timezone)) {
+    throw new Error(`Unknown timezone: ${dates.timezone}`);
+  }
+  assertValidTransforms(transforms);
   const admin = createAdminClient();
+  const schema = await loadSourceSchema(admin, orgId, resolveSchemaKey(source, headers));
+  if (!schema) throw new Error(`Unknown source: ${source}`);
+  assertValidValueMappings(valueMappings, schema);
 
   const { data, error } = await admin
     .from("saved_mappings")
     .insert({
+      org_id: orgId,
       source,
       name,
-      mapping,
+      mapping: packMapping(mapping, { transforms, valueMappings }),
       sample_headers: headers,
+      date_format: dates && dates.dateFormat !== "auto" ? dates.dateFormat : null,
+      timezone: dates?.timezone ?? null,
       is_default: false,
     })
     .select()
     .single();
 
   if (error) throw new Error(`Failed to save mapping: ${error.message}`);
-  return data as SavedMapping;
+
+  await recordAuditEvent(admin, ctx, {
+    action: "mapping.saved",
+    entityType: "mapping",
+    entityId: data.id,
+    details: { name, source, mapping, dates, transforms, valueMappings },
+  });
+
+  return toSavedMapping(data);
 }
 
 /**
@@ -44,36 +83,36 @@ export async function saveMappingTemplate(
 export async function getSavedMappings(
   source: SourceType
 ): Promise<SavedMapping[]> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const { orgId } = await requireOrg();
 
   const admin = createAdminClient();
 
   const { data, error } = await admin
     .from("saved_mappings")
     .select("*")
+    .eq("org_id", orgId)
     .eq("source", source)
     .order("created_at", { ascending: false });
 
   if (error) throw new Error(`Failed to fetch mappings: ${error.message}`);
-  return (data ?? []) as SavedMapping[];
+  return (data ?? []).map(toSavedMapping);
 }
 
 /**
  * Find a saved mapping that matches the given CSV headers (>70% overlap).
- * Uses admin client so it can be called from server actions without user context.
+ * Uses admin client so it can be called from server actions without user context;
+ * the caller passes the already-resolved org.
  */
 export async function findMatchingSavedMapping(
   admin: SupabaseClient,
+  orgId: string,
   source: SourceType,
   headers: string[]
 ): Promise<SavedMapping | null> {
   const { data: mappings } = await admin
     .from("saved_mappings")
     .select("*")
+    .eq("org_id", orgId)
     .eq("source", source)
     .order("is_default", { ascending: false })
     .order("created_at", { ascending: false });
@@ -98,7 +137,7 @@ export async function findMatchingSavedMapping(
     const overlapRatio = overlap / Math.max(normalizedSample.length, 1);
 
     if (overlapRatio >= 0.7) {
-      return mapping as SavedMapping;
+      return toSavedMapping(mapping);
     }
   }
 
@@ -109,18 +148,26 @@ export async function findMatchingSavedMapping(
  * Delete a saved mapping.
  */
 export async function deleteSavedMapping(mappingId: string): Promise<void> {
-  const supabase = await createClient();
-  const {
-    data: { user },
-  } = await supabase.auth.getUser();
-  if (!user) throw new Error("Unauthorized");
+  const ctx = await requirePermission("import:upload");
+  const { orgId } = ctx;
 
   const admin = createAdminClient();
 
-  const { error } = await admin
+  const { data: deleted, error } = await admin
     .from("saved_mappings")
     .delete()
-    .eq("id", mappingId);
+    .eq("id", mappingId)
+    .eq("org_id", orgId)
+    .select("name, source");
 
   if (error) throw new Error(`Failed to delete mapping: ${error.message}`);
+
+  if (deleted && deleted.length > 0) {
+    await recordAuditEvent(admin, ctx, {
+      action: "mapping.deleted",
+      entityType: "mapping",
+      entityId: mappingId,
+      details: { name: deleted[0].name, source: deleted[0].source },
+    });
+  }
 }
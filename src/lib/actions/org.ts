@@ -0,0 +1,66 @@
+"use server";
+
+import { cookies } from "next/headers";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireOrg, ACTIVE_ORG_COOKIE } from "@/lib/org";
+import type { Organization, OrgRole } from "@/lib/types";
+
+/**
+ * List the organizations the signed-in user belongs to, plus the one
+ * the current request resolves to and the user's role there (for the
+ * sidebar org switcher and for hiding controls the role cannot use).
+ */
+export async function getMyOrganizations(): Promise<{
+  organizations: Pick<Organization, "id" | "name">[];
+  activeOrgId: string;
+  role: OrgRole;
+}> {
+  const { userId, orgId, role } = await requireOrg();
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("organization_members")
+    .select("org_id, organizations(id, name)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw new Error(`Failed to fetch organizations: ${error.message}`);
+
+  const organizations = (data ?? [])
+    .map((m) => m.organizations as unknown as Pick<Organization, "id" | "name"> | null)
+    .filter((o): o is Pick<Organization, "id" | "name"> => o !== null);
+
+  return { organizations, activeOrgId: orgId, role };
+}
+
+/**
+ * Switch the active organization. Only orgs the user is a member of
+ * are accepted; the choice is persisted in a cookie read by requireOrg().
+ */
+export async function switchOrganization(orgId: string): Promise<void> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Unauthorized");
+
+  const admin = createAdminClient();
+  const { data: membership } = await admin
+    .from("organization_members")
+    .select("id")
+    .eq("user_id", user.id)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  if (!membership) throw new Error("Not a member of this organization");
+
+  const cookieStore = await cookies();
+  cookieStore.set(ACTIVE_ORG_COOKIE, orgId, {
+    path: "/",
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: 60 * 60 * 24 * 365,
+  });
+}
@@ -0,0 +1,69 @@
+"use server";
+
+import { after } from "next/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { requireOrg, requirePermission } from "@/lib/org";
+import { RESTITCH_STALE_AFTER_MS, runRestitchJob } from "@/lib/stitching/restitch";
+import type { RestitchJob } from "@/lib/types";
+
+const JOB_COLUMNS =
+  "id, org_id, status, total_customers, processed_customers, conflicts_created, error, started_by, created_at, updated_at, completed_at";
+
+// ─── Re-stitching ─────────────────────────────────────────
+
+/**
+ * Start re-running identity resolution over the whole customer base.
+ *
+ * 1. Fail a previous job that stopped reporting progress (server restart)
+ * 2. Create the job — the unique index allows one active job per org
+ * 3. Run it after the response is sent; poll getLatestRestitchJob()
+ */
+export async function startRestitchJob(): Promise<RestitchJob> {
+  const ctx = await requirePermission("conflict:resolve");
+  const { userId, orgId } = ctx;
+  const admin = createAdminClient();
+
+  const staleBefore = new Date(Date.now() - RESTITCH_STALE_AFTER_MS).toISOString();
+  await admin
+    .from("restitch_jobs")
+    .update({
+      status: "failed",
+      error: "Job stopped responding",
+      completed_at: new Date().toISOString(),
+    })
+    .eq("org_id", orgId)
+    .in("status", ["pending", "running"])
+    .lt("updated_at", staleBefore);
+
+  const { data: job, error } = await admin
+    .from("restitch_jobs")
+    .insert({ org_id: orgId, status: "pending", started_by: userId })
+    .select(JOB_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === "23505") throw new Error("Identity resolution is already running");
+    throw new Error(`Failed to start identity resolution: ${error.message}`);
+  }
+
+  after(() => runRestitchJob(admin, ctx, job.id));
+
+  return job as RestitchJob;
+}
+
+/** Most recent re-stitch job for the active org, for progress polling. */
+export async function getLatestRestitchJob(): Promise<RestitchJob | null> {
+  const { orgId } = await requireOrg();
+  const admin = createAdminClient();
+
+  const { data, error } = await admin
+    .from("restitch_jobs")
+    .select(JOB_COLUMNS)
+    .eq("org_id", orgId)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to fetch identity resolution job: ${error.message}`);
+  return (data as RestitchJob | null) ?? null;
+}
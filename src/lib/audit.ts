@@ -0,0 +1,87 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { OrgContext } from "@/lib/org";
+import type { AuditAction, AuditEntityType } from "@/lib/types";
+
+// ─── Audit log ──────────────────────────────────────────────
+
+export interface AuditEventInput {
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId?: string | null;
+  customerIds?: (string | null | undefined)[];
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Append an event to audit_events.
+ *
+ * Called after the action it describes has succeeded. A failed write is
+ * logged rather than thrown: the change is already committed, and failing
+ * the action at this point would only invite a duplicate retry.
+ */
+export async function recordAuditEvent(
+  admin: SupabaseClient,
+  ctx: Pick<OrgContext, "orgId" | "userId" | "email">,
+  event: AuditEventInput
+): Promise<void> {
+  const customerIds = Array.from(
+    new Set((event.customerIds ?? []).filter((id): id is string => !!id))
+  );
+
+  const { error } = await admin.from("audit_events").insert({
+    org_id: ctx.orgId,
+    actor_id: ctx.userId,
+    actor_email: ctx.email,
+    action: event.action,
+    entity_type: event.entityType,
+    entity_id: event.entityId ?? null,
+    customer_ids: customerIds,
+    details: event.details ?? {},
+  });
+
+  if (error) {
+    console.error(`[audit] Failed to record ${event.action}: ${error.message}`);
+  }
+}
+
+/**
+ * Customers with rows from an import. Must run before a revert/delete,
+ * which removes the rows this is derived from. Throws if they can't be
+ * collected, so callers don't mistake a failed lookup for an empty import.
+ */
+export async function getImportCustomerIds(
+  admin: SupabaseClient,
+  orgId: string,
+  importId: string
+): Promise<string[]> {
+  const { data, error } = await admin.rpc("import_customer_ids", {
+    target_import_id: importId,
+    target_org_id: orgId,
+  });
+  if (error) throw new Error(`Failed to collect import customers: ${error.message}`);
+  return (data as string[] | null) ?? [];
+}
+
+// ─── Config diff ────────────────────────────────────────────
+
+export type FieldChanges = Record<string, { from: unknown; to: unknown }>;
+
+/**
+ * Fields in `next` whose value differs from `prev`. Keys absent from
+ * `next` are untouched and therefore not reported. Arrays and objects
+ * are compared by value.
+ */
+export function diffFields(
+  prev: Record<string, unknown> | null,
+  next: Record<string, unknown>
+): FieldChanges {
+  const changes: FieldChanges = {};
+  for (const [key, to] of Object.entries(next)) {
+    if (to === undefined) continue;
+    const from = prev?.[key] ?? null;
+    if (from === to) continue;
+    if (typeof to === "object" && to !== null && JSON.stringify(from) === JSON.stringify(to)) continue;
+    changes[key] = { from, to };
+  }
+  return changes;
+}
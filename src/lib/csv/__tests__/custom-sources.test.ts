@@ -0,0 +1,130 @@
+import { describe, it, expect } from "vitest";
+import {
+  customSourceType,
+  customSourceId,
+  isCustomSource,
+  defaultCustomSourceFields,
+  validateCustomSource,
+  toSourceSchema,
+  type CustomSourceInput,
+} from "../custom-sources";
+import { getSchema } from "../schemas";
+import { detectSource, isConfidentDetection } from "../detect-source";
+import { validateMappedRow } from "../validators";
+import type { CustomSource } from "@/lib/types";
+
+const ID = "0b7c3f4e-8a2d-4e1f-9c6b-5d4a3b2c1e0f";
+
+function input(overrides: Partial<CustomSourceInput> = {}): CustomSourceInput {
+  return {
+    name: "Studio sales",
+    target: "payments",
+    fields: [
+      ...defaultCustomSourceFields("payments"),
+      { key: "studio", label: "Studio", type: "text", required: false, aliases: ["location"] },
+    ],
+    id_field: "external_id",
+    email_field: "email",
+    name_field: "name",
+    phone_field: null,
+    ...overrides,
+  };
+}
+
+function source(overrides: Partial<CustomSourceInput> = {}): CustomSource {
+  return {
+    ...input(overrides),
+    id: ID,
+    org_id: "org",
+    created_by: null,
+    created_at: "2026-03-25T00:00:00Z",
+    updated_at: "2026-03-25T00:00:00Z",
+  };
+}
+
+describe("custom source types", () => {
+  it("round-trip through the custom: prefix", () => {
+    const type = customSourceType(ID);
+    expect(type).toBe(`custom:${ID}`);
+    expect(isCustomSource(type)).toBe(true);
+    expect(isCustomSource("stripe")).toBe(false);
+    expect(customSourceId(type)).toBe(ID);
+  });
+});
+
+describe("validateCustomSource", () => {
+  it("accepts the default fields for every target", () => {
+    expect(validateCustomSource(input())).toEqual([]);
+    expect(validateCustomSource(input({ target: "bookings", fields: defaultCustomSourceFields("bookings") }))).toEqual([]);
+    expect(validateCustomSource(input({ target: "attendance", fields: defaultCustomSourceFields("attendance") }))).toEqual([]);
+  });
+
+  it("requires the target's columns with their types", () => {
+    const fields = input().fields
+      .filter((f) => f.key !== "payment_date")
+      .map((f) => (f.key === "amount" ? { ...f, type: "number" as const } : f));
+    expect(validateCustomSource(input({ fields }))).toEqual([
+      'Field "amount" must have type currency',
+      'Missing the payments field "payment_date"',
+    ]);
+  });
+
+  it("checks keys, duplicates and identity fields", () => {
+    const fields = [
+      ...input().fields,
+      { key: "Bad Key", label: "Bad", type: "text" as const, required: false, aliases: [] },
+      { key: "studio", label: "Again", type: "text" as const, required: false, aliases: [] },
+    ];
+    expect(validateCustomSource(input({ name: " ", fields, email_field: "studio", phone_field: "missing" }))).toEqual([
+      "Name is empty",
+      `Field ${fields.length - 1}: key must be lowercase letters, digits and underscores`,
+      'Field key "studio" is used twice',
+      'Email field "studio" must have type email',
+      "Phone field is not one of the fields",
+    ]);
+  });
+
+  it("keeps fixed values to the target's status field", () => {
+    const fields = [...input().fields, { key: "tier", label: "Tier", type: "enum" as const, required: false, aliases: [] }];
+    expect(validateCustomSource(input({ fields }))).toEqual(['Field "tier" can\'t have fixed values']);
+  });
+});
+
+describe("toSourceSchema", () => {
+  it("builds a schema the shared pipeline can use", () => {
+    const schema = toSourceSchema(source());
+    expect(schema.source).toBe(`custom:${ID}`);
+    expect(schema.target).toBe("payments");
+    expect(schema.idField).toBe("external_id");
+    expect(schema.phoneField).toBeUndefined();
+    expect(schema.fields.find((f) => f.key === "status")?.enumValues).toEqual(
+      getSchema("stripe")!.fields.find((f) => f.key === "status")!.enumValues
+    );
+  });
+
+  it("is found by getSchema alongside the built-ins", () => {
+    const schema = toSourceSchema(source());
+    expect(getSchema(schema.source, [schema])).toBe(schema);
+    expect(getSchema(schema.source)).toBeUndefined();
+    expect(getSchema("stripe", [schema])?.label).toBe(getSchema("stripe")!.label);
+  });
+
+  it("is detected from its own aliases", () => {
+    const schema = toSourceSchema(source());
+    const headers = ["Reference", "Customer Email", "Customer Name", "Total", "Paid At", "Location"];
+    const rows = [{
+      Reference: "S-1", "Customer Email": "a@b.com", "Customer Name": "Ann", Total: "12.50",
+      "Paid At": "2026-03-01", Location: "Downtown",
+    }];
+    const results = detectSource(headers, rows, [schema]);
+    expect(results[0].source).toBe(schema.source);
+    expect(isConfidentDetection(results)).toBe(true);
+  });
+
+  it("validates mapped rows by the custom field types", () => {
+    const schema = toSourceSchema(source());
+    const row = { external_id: "S-1", email: "a@b.com", name: "Ann", amount: "abc", payment_date: "2026-03-01", studio: "Downtown" };
+    const { errors } = validateMappedRow(row, schema, 1);
+    expect(errors.map((e) => e.field)).toEqual(["amount"]);
+  });
+});
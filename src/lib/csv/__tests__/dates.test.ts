@@ -0,0 +1,149 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseDate,
+  inferDateOrder,
+  inferDateFormat,
+  resolveDateOptions,
+  DEFAULT_DATE_OPTIONS,
+} from "../dates";
+import { validateMappedRow } from "../validators";
+import { getSchema } from "../schemas";
+
+const utc = (order: "mdy" | "dmy" | "ymd") => ({ order, timezone: "UTC" });
+
+describe("parseDate", () => {
+  it("reads numeric dates in the chosen order", () => {
+    expect(parseDate("03/04/2025", utc("mdy"))).toBe("2025-03-04T00:00:00.000Z");
+    expect(parseDate("03/04/2025", utc("dmy"))).toBe("2025-04-03T00:00:00.000Z");
+    expect(parseDate("25.12.24", utc("dmy"))).toBe("2024-12-25T00:00:00.000Z");
+    expect(parseDate("24/12/25", utc("ymd"))).toBe("2024-12-25T00:00:00.000Z");
+  });
+
+  it("always reads a four-digit first part year-first", () => {
+    expect(parseDate("2025-01-15", utc("dmy"))).toBe("2025-01-15T00:00:00.000Z");
+    expect(parseDate("2025/01/15 09:32:14", utc("mdy"))).toBe("2025-01-15T09:32:14.000Z");
+  });
+
+  it("rejects dates that don't exist instead of rolling them over", () => {
+    expect(parseDate("13/02/2025", utc("mdy"))).toBeNull();
+    expect(parseDate("31/04/2025", utc("dmy"))).toBeNull();
+    expect(parseDate("29/02/2025", utc("dmy"))).toBeNull();
+    expect(parseDate("29/02/2024", utc("dmy"))).toBe("2024-02-29T00:00:00.000Z");
+    expect(parseDate("15/01/2025 25:00", utc("dmy"))).toBeNull();
+  });
+
+  it("reads times, including 12-hour clocks and fractions", () => {
+    expect(parseDate("15/01/2025 9:05 PM", utc("dmy"))).toBe("2025-01-15T21:05:00.000Z");
+    expect(parseDate("01/15/2025 12:30 a.m.", utc("mdy"))).toBe("2025-01-15T00:30:00.000Z");
+    expect(parseDate("2025-01-15T09:32:14.5", utc("mdy"))).toBe("2025-01-15T09:32:14.500Z");
+  });
+
+  it("honors explicit offsets and ignores the import timezone for them", () => {
+    const berlin = { order: "mdy" as const, timezone: "Europe/Berlin" };
+    expect(parseDate("2025-01-15T09:00:00Z", berlin)).toBe("2025-01-15T09:00:00.000Z");
+    expect(parseDate("2025-01-15T09:00:00+05:30", berlin)).toBe("2025-01-15T03:30:00.000Z");
+    expect(parseDate("2025-01-15 09:00 -0800", berlin)).toBe("2025-01-15T17:00:00.000Z");
+  });
+
+  it("takes times without an offset in the import timezone, across DST", () => {
+    const berlin = { order: "dmy" as const, timezone: "Europe/Berlin" };
+    expect(parseDate("15/01/2025 09:00", berlin)).toBe("2025-01-15T08:00:00.000Z");
+    expect(parseDate("15/07/2025 09:00", berlin)).toBe("2025-07-15T07:00:00.000Z");
+    expect(parseDate("15/07/2025", berlin)).toBe("2025-07-14T22:00:00.000Z");
+
+    const newYork = { order: "mdy" as const, timezone: "America/New_York" };
+    expect(parseDate("03/09/2025 01:30", newYork)).toBe("2025-03-09T06:30:00.000Z");
+    expect(parseDate("03/09/2025 03:30", newYork)).toBe("2025-03-09T07:30:00.000Z");
+  });
+
+  it("falls back to Date parsing for textual dates", () => {
+    expect(parseDate("Jan 15, 2025 9:30 AM", utc("dmy"))).toBe("2025-01-15T09:30:00.000Z");
+    expect(parseDate("15 January 2025", { order: "mdy", timezone: "Asia/Tokyo" })).toBe(
+      "2025-01-14T15:00:00.000Z"
+    );
+    expect(parseDate("Wed, 15 Jan 2025 09:30:00 GMT", { order: "mdy", timezone: "Asia/Tokyo" })).toBe(
+      "2025-01-15T09:30:00.000Z"
+    );
+    expect(parseDate("not a date")).toBeNull();
+    expect(parseDate("")).toBeNull();
+  });
+});
+
+describe("inferDateOrder", () => {
+  it("settles the order from any value with a part over 12", () => {
+    expect(inferDateOrder(["03/04/2025", "15/04/2025", null]).order).toBe("dmy");
+    expect(inferDateOrder(["03/04/2025", "04/15/2025"]).order).toBe("mdy");
+    expect(inferDateOrder(["2025-03-04"]).order).toBe("ymd");
+  });
+
+  it("reports ambiguity with the first value that reads both ways", () => {
+    expect(inferDateOrder(["01/01/2025", "03/04/2025", "05/06/2025"])).toEqual({
+      order: null,
+      ambiguous: true,
+      example: { index: 1, value: "03/04/2025" },
+    });
+    expect(inferDateOrder(["15/01/2025", "01/15/2025"])).toMatchObject({ order: null, ambiguous: true });
+  });
+
+  it("ignores values that are not numeric dates", () => {
+    expect(inferDateOrder(["Jan 15, 2025", "", "n/a"])).toEqual({
+      order: null,
+      ambiguous: false,
+      example: null,
+    });
+  });
+});
+
+describe("inferDateFormat", () => {
+  const schema = getSchema("wetravel")!;
+  const dateFields = schema.fields.filter((f) => f.type === "date" || f.type === "timestamp");
+
+  it("lets one column settle the order for the others", () => {
+    const rows = [
+      { [dateFields[0].key]: "03/04/2025", [dateFields[1].key]: "20/05/2025" },
+      { [dateFields[0].key]: "05/06/2025", [dateFields[1].key]: "01/02/2025" },
+    ];
+    expect(inferDateFormat(rows, schema)).toEqual({ order: "dmy", warnings: [] });
+  });
+
+  it("warns about ambiguous columns, pointing at the example row", () => {
+    const rows = [{ [dateFields[0].key]: "01/01/2025" }, { [dateFields[0].key]: "03/04/2025" }];
+    const { order, warnings } = inferDateFormat(rows, schema, 10);
+    expect(order).toBeNull();
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ row: 11, field: dateFields[0].key, value: "03/04/2025", severity: "warning" });
+    expect(warnings[0].message).toContain("ambiguous");
+  });
+});
+
+describe("resolveDateOptions", () => {
+  it("prefers the chosen order, then the inferred one, then month-first", () => {
+    expect(resolveDateOptions("ymd", "Europe/Paris", "dmy")).toEqual({ order: "ymd", timezone: "Europe/Paris" });
+    expect(resolveDateOptions("auto", undefined, "dmy")).toEqual({ order: "dmy", timezone: "UTC" });
+    expect(resolveDateOptions(undefined, null)).toEqual(DEFAULT_DATE_OPTIONS);
+  });
+
+  it("falls back to UTC for unknown timezones", () => {
+    expect(resolveDateOptions("mdy", "Mars/Olympus").timezone).toBe("UTC");
+  });
+});
+
+describe("validateMappedRow date handling", () => {
+  const schema = getSchema("stripe")!;
+  const dateField = schema.fields.find((f) => f.type === "timestamp")!;
+  const row = (value: string) => ({
+    [schema.idField]: "pi_1",
+    amount: "10.00",
+    [schema.emailField]: "ana@example.com",
+    [dateField.key]: value,
+  });
+
+  it("validates dates in the import's order", () => {
+    const dmy = { order: "dmy" as const, timezone: "UTC" };
+    expect(validateMappedRow(row("13/02/2025"), schema, 1, "US", dmy).errors).toEqual([]);
+
+    const { errors } = validateMappedRow(row("13/02/2025"), schema, 1);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toBe('Invalid date for MM/DD/YYYY: "13/02/2025"');
+  });
+});
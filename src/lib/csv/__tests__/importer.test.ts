@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { openCSVStream, type CSVProgress } from "../stream";
+import { generateMappingSuggestions, suggestionsToMapping } from "../heuristic-mapper";
+import { getSchema } from "../schemas";
+import { runImport } from "../importer";
+import { createSupabaseStub } from "@/lib/__tests__/supabase-stub";
+import type { OrgContext } from "@/lib/org";
+
+const encoder = new TextEncoder();
+
+const ctx: OrgContext = { userId: "user-1", email: "owner@example.com", orgId: "org", role: "owner" };
+
+describe("runImport on a 500k-row Stripe export", () => {
+  const ROWS = 500_000;
+  // Not a multiple of 1000, so every customer has valid rows
+  const CUSTOMERS = 4_999;
+  const SYLLABLES = ["ka", "lo", "mi", "ra", "ne", "to", "su", "vi", "da", "po", "le", "zu", "ha", "ri", "go", "be", "fa", "ju", "ce", "wo"];
+
+  /** A distinct, pronounceable name per customer, so name matching stays realistic */
+  function customerName(c: number): string {
+    const [a, b, d] = [c % 20, Math.floor(c / 20) % 20, Math.floor(c / 400) % 20];
+    const cap = (w: string) => w[0].toUpperCase() + w.slice(1);
+    return `${cap(SYLLABLES[a] + SYLLABLES[b])} ${cap(SYLLABLES[d] + SYLLABLES[b] + SYLLABLES[a] + "n")}`;
+  }
+  const header = "id,Amount,Currency,Status,Customer Email,Customer Name,Customer,Created (UTC)\n";
+
+  /**
+   * Generate the export lazily so the test never holds the whole file.
+   * Every 1000th row is missing its payment id and fails validation; every
+   * 10,000th repeats an earlier row's id and is skipped as a duplicate.
+   */
+  async function* stripeExport(): AsyncGenerator<Uint8Array> {
+    yield encoder.encode(header);
+    for (let start = 0; start < ROWS; start += 5000) {
+      let text = "";
+      for (let i = start; i < start + 5000; i++) {
+        const id = i % 1000 === 999 ? "" : i % 10_000 === 5000 ? `pi_${i - 2}` : `pi_${i}`;
+        const c = i % CUSTOMERS;
+        text += `${id},"$${(i % 500) + 1}.00",usd,succeeded,customer${c}@example.com,${customerName(c)},cus_${c},2025-01-15 09:32:14\n`;
+      }
+      yield encoder.encode(text);
+    }
+  }
+
+  it("imports every row through the stitcher, reading the file as it goes", async () => {
+    const stub = createSupabaseStub({
+      tables: {
+        payments: { writeOnly: true, unique: ["org_id", "source", "external_payment_id"] },
+        audit_events: { writeOnly: true },
+      },
+      rpc: {
+        import_customer_ids: ({ target_import_id }, { tables }) =>
+          Array.from(new Set(
+            tables.customer_sources.rows.filter((s) => s.import_id === target_import_id).map((s) => s.customer_id)
+          )),
+        existing_conflict_pairs: () => [],
+      },
+    });
+
+    const csv = await openCSVStream(stripeExport());
+    const mapping = suggestionsToMapping(
+      generateMappingSuggestions(csv.headers, getSchema("stripe")!, csv.sampleRows)
+    );
+    const progress: CSVProgress[] = [];
+    const heapBefore = process.memoryUsage().heapUsed;
+    let heapPeak = heapBefore;
+
+    const result = await runImport(
+      stub.client,
+      ctx,
+      { source: "stripe", fileName: "payments.csv", mapping },
+      csv,
+      (p) => {
+        progress.push(p);
+        heapPeak = Math.max(heapPeak, process.memoryUsage().heapUsed);
+      }
+    );
+
+    const invalid = ROWS / 1000;
+    const duplicates = ROWS / 10_000;
+    expect(result.totalRows).toBe(ROWS);
+    expect(result.errorRows).toBe(invalid);
+    expect(result.duplicateRowsSkipped).toBe(duplicates);
+    expect(result.importedRows).toBe(ROWS - invalid - duplicates);
+    expect(stub.inserted.payments).toBe(result.importedRows);
+
+    // One customer per Stripe customer ID; later rows stitch on it
+    expect(result.newCustomersCreated).toBe(CUSTOMERS);
+    expect(stub.inserted.customers).toBe(CUSTOMERS);
+    expect(result.matchedByExternalId).toBe(ROWS - invalid - CUSTOMERS);
+    expect(result.conflictDetectionError).toBeNull();
+
+    const history = stub.tables.import_history.rows[0];
+    expect(history).toMatchObject({ status: "completed", total_rows: ROWS, imported_rows: result.importedRows });
+
+    // Progress is reported per batch, and the source is only read a little
+    // ahead of the rows processed — the ~50 MB file is never buffered, and
+    // payments aren't kept (the stub only counts them)
+    expect(progress.length).toBeGreaterThanOrEqual(ROWS / 1000);
+    expect(progress.every((p, i) => i === 0 || p.rowsProcessed > progress[i - 1].rowsProcessed)).toBe(true);
+    expect(progress[progress.length - 1].rowsProcessed).toBe(ROWS);
+    const bytesPerRow = csv.bytesRead / ROWS;
+    const readAhead = Math.max(...progress.map((p) => p.bytesRead - p.rowsProcessed * bytesPerRow));
+    expect(csv.bytesRead).toBeGreaterThan(45 * 1024 * 1024);
+    expect(readAhead).toBeLessThan(4 * 1024 * 1024);
+    // Holding the parsed rows would take several times the file's size
+    expect(heapPeak - heapBefore).toBeLessThan(256 * 1024 * 1024);
+  }, 300_000);
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  normalizeStatus,
+  collectEnumValues,
+  validateValueMappings,
+  assertValidValueMappings,
+  validValueMappings,
+} from "../normalizers";
+import { packMapping, unpackMapping } from "../stored-mapping";
+import { getSchema } from "../schemas";
+
+const stripe = getSchema("stripe")!;
+
+describe("normalizeStatus", () => {
+  it("uses the source's built-in table, passing unknown values through", () => {
+    expect(normalizeStatus(" Paid ", "stripe")).toBe("succeeded");
+    expect(normalizeStatus("No Show", "calendly")).toBe("no_show");
+    expect(normalizeStatus("Settled", "stripe")).toBe("settled");
+  });
+
+  it("consults the user's value mapping first", () => {
+    const userMap = { settled: "succeeded", paid: "pending" };
+    expect(normalizeStatus("SETTLED", "stripe", userMap)).toBe("succeeded");
+    expect(normalizeStatus("Paid", "stripe", userMap)).toBe("pending");
+    expect(normalizeStatus("declined", "stripe", userMap)).toBe("failed");
+  });
+});
+
+describe("collectEnumValues", () => {
+  it("counts distinct values per enum field, most common first", () => {
+    const rows = [
+      { status: "Paid", amount: "1" },
+      { status: "Settled", amount: "2" },
+      { status: "paid ", amount: "3" },
+      { status: null, amount: "4" },
+    ];
+    const [column] = collectEnumValues(rows, stripe, "stripe");
+    expect(column.field.key).toBe("status");
+    expect(column.truncated).toBe(false);
+    expect(column.values).toEqual([
+      { value: "Paid", key: "paid", count: 2, builtIn: "succeeded" },
+      { value: "Settled", key: "settled", count: 1, builtIn: "settled" },
+    ]);
+  });
+
+  it("skips enum fields with no values", () => {
+    expect(collectEnumValues([{ amount: "1" }], stripe, "stripe")).toEqual([]);
+  });
+});
+
+describe("validateValueMappings", () => {
+  it("requires targets from the field's allowed values", () => {
+    expect(validateValueMappings({ status: { settled: "succeeded" } }, stripe)).toEqual([]);
+    expect(validateValueMappings({ status: { settled: "done" }, amount: { a: "b" } }, stripe)).toEqual([
+      'status "settled": "done" is not one of succeeded, pending, failed, refunded, disputed',
+      "amount is not a field with fixed values",
+    ]);
+    expect(() => assertValidValueMappings({ status: { x: 1 } }, stripe)).toThrow(
+      'Invalid value mapping — status "x": value must be text'
+    );
+  });
+
+  it("checks only the shape without a schema", () => {
+    expect(validateValueMappings({ status: { settled: "done" } })).toEqual([]);
+    expect(validateValueMappings({ status: ["done"] })).toEqual(["status: values must map text to text"]);
+  });
+});
+
+describe("validValueMappings", () => {
+  it("keeps a saved template's valid entries and reports the rest", () => {
+    const saved = { status: { settled: "succeeded", done: "complete" }, amount: { a: "b" } };
+    expect(validValueMappings(saved, stripe)).toEqual({
+      valueMappings: { status: { settled: "succeeded" } },
+      problems: [
+        'status "done": "complete" is not one of succeeded, pending, failed, refunded, disputed',
+        "amount is not a field with fixed values",
+      ],
+    });
+  });
+});
+
+describe("value mappings in stored mappings", () => {
+  it("round-trip alongside the columns, dropping empty fields", () => {
+    const mapping = { Status: "status" };
+    const stored = packMapping(mapping, { valueMappings: { status: { settled: "succeeded" }, other: {} } });
+    expect(stored).toEqual({ Status: "status", __values: { status: { settled: "succeeded" } } });
+    expect(unpackMapping(stored)).toEqual({
+      mapping,
+      transforms: {},
+      valueMappings: { status: { settled: "succeeded" } },
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { detectEncoding, decodeText } from "../encoding";
+import { detectDelimiter, parseCSVContent } from "../parser";
+import { openCSVStream } from "../stream";
+import { readWorkbook } from "../xlsx";
+import { readUploadFile, isSupportedUploadFile } from "../read-file";
+import { detectSource } from "../detect-source";
+
+const csv = "id,Customer Name,Amount\n1,José Müller,€12.50\n";
+
+function utf16le(text: string, bom: boolean): Uint8Array {
+  const bytes = new Uint8Array((bom ? 2 : 0) + text.length * 2);
+  if (bom) bytes.set([0xff, 0xfe]);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    bytes[(bom ? 2 : 0) + i * 2] = code & 0xff;
+    bytes[(bom ? 2 : 0) + i * 2 + 1] = code >> 8;
+  }
+  return bytes;
+}
+
+/** Windows-1252 bytes for text limited to ASCII, é, ü and € */
+function windows1252(text: string): Uint8Array {
+  const special: Record<string, number> = { "é": 0xe9, "ü": 0xfc, "€": 0x80 };
+  return Uint8Array.from(text, (ch) => special[ch] ?? ch.charCodeAt(0));
+}
+
+describe("detectEncoding", () => {
+  it("recognizes UTF-8, with or without a BOM", () => {
+    const bytes = new TextEncoder().encode(csv);
+    expect(detectEncoding(bytes)).toBe("utf-8");
+    expect(decodeText(Uint8Array.from([0xef, 0xbb, 0xbf, ...bytes])).text).toBe(csv);
+  });
+
+  it("recognizes UTF-16 by BOM and by its zero bytes", () => {
+    expect(decodeText(utf16le(csv, true))).toEqual({ text: csv, encoding: "utf-16le" });
+    expect(decodeText(utf16le(csv, false))).toEqual({ text: csv, encoding: "utf-16le" });
+  });
+
+  it("falls back to Windows-1252 for bytes that are not UTF-8", () => {
+    expect(decodeText(windows1252(csv))).toEqual({ text: csv, encoding: "windows-1252" });
+  });
+});
+
+describe("detectDelimiter", () => {
+  it("picks the delimiter used consistently across lines", () => {
+    expect(detectDelimiter("a,b,c\n1,2,3\n")).toBe(",");
+    expect(detectDelimiter("a\tb\tc\n1\t2,5\t3\n")).toBe("\t");
+    expect(detectDelimiter("name;amount\nAna;12,50\nBea;7,00\n")).toBe(";");
+    expect(detectDelimiter("a|b\n1|2\n")).toBe("|");
+  });
+
+  it("ignores delimiters inside quoted fields", () => {
+    expect(detectDelimiter('name\tnote\n"Ana"\t"a, b, c"\n')).toBe("\t");
+  });
+
+  it("defaults to a comma for single-column files", () => {
+    expect(detectDelimiter("email\nana@example.com\n")).toBe(",");
+  });
+
+  it("parses TSV the same in one pass and streamed", async () => {
+    const tsv = "id\tCustomer Name\n1\tAna, Jr.\n";
+    const whole = parseCSVContent(tsv);
+    expect(whole.rows).toEqual([{ id: "1", "Customer Name": "Ana, Jr." }]);
+
+    const stream = await openCSVStream(tsv);
+    const rows: Record<string, string>[] = [];
+    for await (const batch of stream.batches) rows.push(...batch.rows);
+    expect(rows).toEqual(whole.rows);
+  });
+});
+
+describe("readWorkbook", () => {
+  const bytes = new Uint8Array(readFileSync(join(__dirname, "../test-data/stripe_export.xlsx")));
+
+  it("lists visible sheets in workbook order", async () => {
+    const workbook = await readWorkbook(bytes);
+    expect(workbook.sheetNames).toEqual(["Payments", "Refunds & Fees"]);
+  });
+
+  it("reads strings, numbers, dates and sparse cells", async () => {
+    const rows = await (await readWorkbook(bytes)).readSheet("Payments");
+    expect(rows).toEqual([
+      [],
+      ["id", "Amount", "Currency", "Status", "Customer Email", "Customer Name", "Created (UTC)"],
+      ["pi_001", "120.1", "usd", "succeeded", "ana@example.com", "José Müller", "2025-01-15 13:30:00"],
+      ["pi_002", "0.015", "eur", "failed", "bea@example.com", "O'Brien & Co", "2025-01-16"],
+      ["pi_003", "", "", "TRUE", "", "", "18:00:00"],
+    ]);
+    expect(await (await readWorkbook(bytes)).readSheet("Refunds & Fees")).toEqual([
+      ["refund_id", "", "amount"],
+      ["re_1", "", "-20"],
+    ]);
+  });
+
+  it("rejects files that are not workbooks", async () => {
+    await expect(readWorkbook(new TextEncoder().encode(csv))).rejects.toThrow(".xlsx");
+  });
+});
+
+describe("readUploadFile", () => {
+  it("converts a workbook sheet into CSV the detector recognizes", async () => {
+    const xlsx = readFileSync(join(__dirname, "../test-data/stripe_export.xlsx"));
+    const file = new File([xlsx], "payments.xlsx");
+
+    const result = await readUploadFile(file);
+    expect(result.sheets).toEqual(["Payments", "Refunds & Fees"]);
+    expect(result.sheet).toBe("Payments");
+    expect(result.file.name).toBe("payments.xlsx");
+    expect(await result.file.text()).toBe(result.content);
+
+    const parsed = parseCSVContent(result.content);
+    expect(parsed.headers[0]).toBe("id");
+    expect(parsed.totalRows).toBe(3);
+    expect(detectSource(parsed.headers, parsed.sampleRows)[0].source).toBe("stripe");
+
+    const refunds = await readUploadFile(file, "Refunds & Fees");
+    expect(parseCSVContent(refunds.content).rows).toEqual([{ refund_id: "re_1", "": "", amount: "-20" }]);
+  });
+
+  it("uploads UTF-8 files as-is and re-encodes the rest", async () => {
+    const utf8 = new File([csv], "export.csv");
+    expect((await readUploadFile(utf8)).file).toBe(utf8);
+
+    const legacy = await readUploadFile(new File([windows1252(csv) as Uint8Array<ArrayBuffer>], "export.txt"));
+    expect(legacy.encoding).toBe("windows-1252");
+    expect(await legacy.file.text()).toBe(csv);
+  });
+
+  it("accepts CSV, TSV, text and Excel files", () => {
+    expect(["a.csv", "B.TSV", "c.txt", "d.xlsx"].every(isSupportedUploadFile)).toBe(true);
+    expect(isSupportedUploadFile("legacy.xls")).toBe(false);
+  });
+});
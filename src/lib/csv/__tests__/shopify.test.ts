@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import {
+  groupOrderRows,
+  groupOrderStream,
+  shopifyLineItems,
+  parseDiscountCodes,
+  landingSiteUtm,
+  LINE_ITEMS_COLUMN,
+} from "../shopify";
+import { openCSVStream } from "../stream";
+import { parseCSVContent } from "../parser";
+import { generateMappingSuggestions, suggestionsToMapping } from "../heuristic-mapper";
+import { applyMapping, validateMappedRow } from "../validators";
+import { normalizeStatus } from "../normalizers";
+import { detectSource, isConfidentDetection } from "../detect-source";
+import { SHOPIFY_SCHEMA } from "../schemas";
+
+// Shopify's orders export: a row per line item, order columns on the first
+const EXPORT = [
+  "Name,Email,Financial Status,Created at,Currency,Total,Discount Code,Lineitem quantity,Lineitem name,Lineitem price,Lineitem sku,Billing Name,Phone,Landing Site",
+  "#1001,ana@example.com,paid,2026-03-01 10:15:00 -0500,USD,58.00,SPRING10,1,Tote bag,20.00,TOTE-1,Ana Ruiz,+1 555 0100,/?utm_source=instagram&utm_medium=social&utm_campaign=spring",
+  "#1001,,,,,,,2,Gift card,25.00,GIFT-25,,,",
+  "#1002,bea@example.com,partially_refunded,2026-03-02 09:00:00 -0500,USD,15.00,,1,Sticker pack,15.00,STK-1,Bea Chan,,",
+  "#1003,cam@example.com,voided,2026-03-03 12:00:00 -0500,USD,40.00,\"VIP, FREESHIP\",1,Hoodie,40.00,HOOD-1,Cam Lee,,https://shop.example.com/products/hoodie?utm_source=newsletter",
+].join("\n");
+
+const parsed = parseCSVContent(EXPORT);
+const mapping = suggestionsToMapping(
+  generateMappingSuggestions(parsed.headers, SHOPIFY_SCHEMA, parsed.sampleRows)
+);
+
+describe("Shopify schema", () => {
+  it("maps the export's columns", () => {
+    expect(mapping).toMatchObject({
+      Name: "external_payment_id",
+      Email: "customer_email",
+      "Financial Status": "status",
+      "Created at": "payment_date",
+      Total: "amount",
+      "Discount Code": "discount_codes",
+      "Lineitem name": "line_item_name",
+      "Lineitem quantity": "line_item_quantity",
+      "Billing Name": "full_name",
+      Phone: "customer_phone",
+      "Landing Site": "landing_site",
+    });
+  });
+
+  it("is detected from the export's headers", () => {
+    const results = detectSource(parsed.headers, parsed.sampleRows);
+    expect(results[0].source).toBe("shopify");
+    expect(isConfidentDetection(results)).toBe(true);
+  });
+
+  it("normalizes financial statuses to payment statuses", () => {
+    expect(["paid", "authorized", "partially_paid", "partially_refunded", "voided", "expired"].map(
+      (s) => normalizeStatus(s, "shopify")
+    )).toEqual(["succeeded", "pending", "pending", "refunded", "void", "failed"]);
+  });
+});
+
+describe("groupOrderRows", () => {
+  const orders = groupOrderRows(parsed.rows, mapping);
+
+  it("merges an order's line item rows into one valid row", () => {
+    expect(orders.map((o) => o.Name)).toEqual(["#1001", "#1002", "#1003"]);
+    const mapped = applyMapping(orders[0], mapping);
+    expect(mapped).toMatchObject({ customer_email: "ana@example.com", amount: "58.00", line_item_name: "Tote bag" });
+    mapped.status = normalizeStatus(mapped.status!, "shopify");
+    expect(validateMappedRow(mapped, SHOPIFY_SCHEMA, 1).errors).toEqual([]);
+  });
+
+  it("keeps every line item", () => {
+    expect(shopifyLineItems(orders[0])).toEqual([
+      { name: "Tote bag", quantity: 1, price: 20, sku: "TOTE-1" },
+      { name: "Gift card", quantity: 2, price: 25, sku: "GIFT-25" },
+    ]);
+    expect(shopifyLineItems(orders[1])).toHaveLength(1);
+    expect(shopifyLineItems({ [LINE_ITEMS_COLUMN]: "not json" })).toEqual([]);
+  });
+
+  it("groups a stream the same way across batch boundaries", async () => {
+    const csv = groupOrderStream(await openCSVStream(EXPORT, 1), mapping);
+    const rows: Record<string, string>[] = [];
+    const firstRows: number[] = [];
+    for await (const batch of csv.batches) {
+      firstRows.push(batch.firstRow);
+      rows.push(...batch.rows);
+    }
+    expect(rows).toEqual(orders);
+    expect(firstRows).toEqual([1, 2, 3]);
+    // The eager first batch ends mid-order; it only feeds inference
+    expect(csv.firstBatch.map((o) => o.Name)).toEqual(["#1001"]);
+  });
+});
+
+describe("order details", () => {
+  it("splits discount codes", () => {
+    expect(parseDiscountCodes("VIP, FREESHIP")).toEqual(["VIP", "FREESHIP"]);
+    expect(parseDiscountCodes(null)).toEqual([]);
+  });
+
+  it("reads utm parameters from a landing path or URL", () => {
+    expect(landingSiteUtm("/?utm_source=instagram&utm_medium=social&utm_campaign=spring")).toEqual({
+      utm_source: "instagram",
+      utm_medium: "social",
+      utm_campaign: "spring",
+      utm_content: null,
+    });
+    expect(landingSiteUtm("https://shop.example.com/p?utm_source=newsletter").utm_source).toBe("newsletter");
+    expect(landingSiteUtm(null).utm_source).toBeNull();
+  });
+});
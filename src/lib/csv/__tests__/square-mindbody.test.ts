@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { parseCSVContent } from "../parser";
+import { generateMappingSuggestions, suggestionsToMapping } from "../heuristic-mapper";
+import { applyMapping, validateMappedRow } from "../validators";
+import { normalizeStatus } from "../normalizers";
+import { detectSource, isConfidentDetection } from "../detect-source";
+import {
+  SQUARE_SCHEMA,
+  MINDBODY_SALES_SCHEMA,
+  MINDBODY_VISITS_SCHEMA,
+  SCHEMAS,
+  detectMindbodySubtype,
+  resolveSchemaKey,
+  schemaKeyToSourceType,
+} from "../schemas";
+
+// Square's transactions export (a subset of its columns)
+const SQUARE_EXPORT = [
+  "Date,Time,Time Zone,Gross Sales,Discounts,Net Sales,Tax,Tip,Total Collected,Source,Card Brand,Transaction ID,Payment ID,Device Name,Description,Event Type,Location,Customer ID,Customer Name,Customer Reference ID,Transaction Status",
+  "2026-03-01,10:15:00,Pacific Time (US & Canada),$20.00,$0.00,$20.00,$1.80,$3.00,$24.80,Point of Sale,Visa,tx_8Kq2,pay_41Aa,Front Desk,1 x Drop-in,Payment,Mission St,CUST_7FQ9,Ana Ruiz,,Complete",
+  "2026-03-01,11:02:00,Pacific Time (US & Canada),$120.00,$0.00,$120.00,$10.80,$0.00,$130.80,Point of Sale,Mastercard,tx_9Lr3,pay_52Bb,Front Desk,1 x 10 Class Pack,Payment,Mission St,,,,Canceled",
+].join("\n");
+
+// Mindbody's sales export
+const MINDBODY_SALES_EXPORT = [
+  "Sale Date,Sale ID,Client ID,Client,Item name,Total,Payment Method,Location,Sales Rep",
+  "03/01/2026,100234,100000451,Ana Ruiz,10 Class Pack,$150.00,Visa,Mission St,Jo Park",
+  "03/02/2026,100235,100000452,Bea Chan,Drop-in,$25.00,Cash,Mission St,Jo Park",
+].join("\n");
+
+// Mindbody's class visits export
+const MINDBODY_VISITS_EXPORT = [
+  "Visit Date,Visit ID,Client ID,Client,Email,Class Name,Visit Type,Staff,Location",
+  "03/03/2026 07:00,5512,100000451,Ana Ruiz,ana@example.com,Vinyasa Flow,10 Class Pack,Sam Lee,Mission St",
+  "03/03/2026 18:30,5513,100000452,Bea Chan,bea@example.com,Power Yoga,Drop-in,Sam Lee,Mission St",
+].join("\n");
+
+function mapWith(content: string, schema: typeof SQUARE_SCHEMA) {
+  const parsed = parseCSVContent(content);
+  const mapping = suggestionsToMapping(
+    generateMappingSuggestions(parsed.headers, schema, parsed.sampleRows)
+  );
+  return { parsed, mapping };
+}
+
+describe("Square schema", () => {
+  const { parsed, mapping } = mapWith(SQUARE_EXPORT, SQUARE_SCHEMA);
+
+  it("maps the export's columns", () => {
+    expect(mapping).toMatchObject({
+      "Transaction ID": "external_payment_id",
+      "Customer ID": "customer_id",
+      "Customer Name": "full_name",
+      "Total Collected": "amount",
+      "Gross Sales": "gross_sales",
+      Date: "payment_date",
+      "Card Brand": "payment_type",
+      Location: "location",
+      "Transaction Status": "status",
+    });
+  });
+
+  it("is detected from the export's headers", () => {
+    const results = detectSource(parsed.headers, parsed.sampleRows);
+    expect(results[0].source).toBe("square");
+    expect(isConfidentDetection(results)).toBe(true);
+  });
+
+  it("stitches on the Square customer ID", () => {
+    expect(SQUARE_SCHEMA.customerIdField).toBe("customer_id");
+    const mapped = applyMapping(parsed.rows[0], mapping);
+    expect(mapped.customer_id).toBe("CUST_7FQ9");
+    mapped.status = normalizeStatus(mapped.status!, "square");
+    expect(validateMappedRow(mapped, SQUARE_SCHEMA, 1).errors).toEqual([]);
+  });
+
+  it("normalizes transaction statuses to payment statuses", () => {
+    expect(["Complete", "Completed", "Canceled", "Pending", "Failed"].map(
+      (s) => normalizeStatus(s, "square")
+    )).toEqual(["succeeded", "succeeded", "void", "pending", "failed"]);
+  });
+});
+
+describe("Mindbody schemas", () => {
+  const sales = mapWith(MINDBODY_SALES_EXPORT, MINDBODY_SALES_SCHEMA);
+  const visits = mapWith(MINDBODY_VISITS_EXPORT, MINDBODY_VISITS_SCHEMA);
+
+  it("maps the sales export's columns", () => {
+    expect(sales.mapping).toMatchObject({
+      "Sale ID": "external_payment_id",
+      "Sale Date": "payment_date",
+      "Client ID": "client_id",
+      Client: "full_name",
+      "Item name": "item_name",
+      Total: "amount",
+      "Payment Method": "payment_type",
+    });
+    const mapped = applyMapping(sales.parsed.rows[0], sales.mapping);
+    expect(validateMappedRow(mapped, MINDBODY_SALES_SCHEMA, 1).errors).toEqual([]);
+  });
+
+  it("maps the visits export's columns", () => {
+    expect(visits.mapping).toMatchObject({
+      "Visit ID": "external_attendance_id",
+      "Visit Date": "check_in_time",
+      "Client ID": "client_id",
+      Client: "attendee_name",
+      Email: "attendee_email",
+      "Class Name": "event_name",
+      "Visit Type": "ticket_type",
+    });
+    const mapped = applyMapping(visits.parsed.rows[0], visits.mapping);
+    expect(validateMappedRow(mapped, MINDBODY_VISITS_SCHEMA, 1).errors).toEqual([]);
+  });
+
+  it("detects each export from its headers", () => {
+    const salesResults = detectSource(sales.parsed.headers, sales.parsed.sampleRows);
+    expect(salesResults[0].source).toBe("mindbody_sales");
+    expect(isConfidentDetection(salesResults)).toBe(true);
+
+    const visitsResults = detectSource(visits.parsed.headers, visits.parsed.sampleRows);
+    expect(visitsResults[0].source).toBe("mindbody_visits");
+    expect(isConfidentDetection(visitsResults)).toBe(true);
+  });
+
+  it("stitches both exports on the client ID under one source", () => {
+    expect(MINDBODY_SALES_SCHEMA.customerIdField).toBe("client_id");
+    expect(MINDBODY_VISITS_SCHEMA.customerIdField).toBe("client_id");
+    expect(MINDBODY_SALES_SCHEMA.source).toBe("mindbody");
+    expect(MINDBODY_VISITS_SCHEMA.source).toBe("mindbody");
+    expect(schemaKeyToSourceType("mindbody_sales")).toBe("mindbody");
+    expect(schemaKeyToSourceType("mindbody_visits")).toBe("mindbody");
+  });
+
+  it("resolves the export's schema key", () => {
+    expect(detectMindbodySubtype(visits.parsed.headers)).toBe("mindbody_visits");
+    expect(detectMindbodySubtype(sales.parsed.headers)).toBe("mindbody_sales");
+    expect(resolveSchemaKey("mindbody", sales.parsed.headers)).toBe("mindbody_sales");
+    expect(resolveSchemaKey("mindbody", sales.parsed.headers, "mindbody_visits")).toBe("mindbody_visits");
+    expect(resolveSchemaKey("mindbody", visits.parsed.headers, "mindbody")).toBe("mindbody_visits");
+    expect(resolveSchemaKey("pos", visits.parsed.headers)).toBe("pos");
+    expect(resolveSchemaKey("pos", sales.parsed.headers, "mindbody_sales")).toBe("pos");
+    expect(SCHEMAS["mindbody"]).toBeUndefined();
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { openCSVStream, readOptionsLine, type CSVStream } from "../stream";
+import { parseCSVContent } from "../parser";
+import { generateMappingSuggestions, suggestionsToMapping } from "../heuristic-mapper";
+import { applyMapping, validateMappedRow } from "../validators";
+import { normalizeStatus } from "../normalizers";
+import { getSchema } from "../schemas";
+
+const encoder = new TextEncoder();
+
+/** Yield the bytes of `text` in fixed-size pieces, splitting characters. */
+async function* bytesOf(text: string, pieceSize: number): AsyncGenerator<Uint8Array> {
+  const bytes = encoder.encode(text);
+  for (let i = 0; i < bytes.length; i += pieceSize) yield bytes.subarray(i, i + pieceSize);
+}
+
+async function collect(csv: CSVStream) {
+  const rows: Record<string, string>[] = [];
+  const firstRows: number[] = [];
+  for await (const batch of csv.batches) {
+    firstRows.push(batch.firstRow);
+    rows.push(...batch.rows);
+  }
+  return { rows, firstRows };
+}
+
+describe("openCSVStream", () => {
+  const content = " id , name \n1,Ana\n\n2,Bea\n3,Cam\n";
+
+  it("parses like parseCSVContent, in numbered batches", async () => {
+    const csv = await openCSVStream(content, 2);
+    const { rows, firstRows } = await collect(csv);
+    const whole = parseCSVContent(content);
+
+    expect(csv.headers).toEqual(whole.headers);
+    expect(csv.sampleRows).toEqual(whole.sampleRows.slice(0, 2));
+    expect(rows).toEqual(whole.rows);
+    expect(firstRows).toEqual([1, 3]);
+    expect(csv.bytesRead).toBe(encoder.encode(content).length);
+  });
+
+  it("keeps multi-byte characters split across chunks intact", async () => {
+    const text = "id,name\n1,José Müller\n2,Zoë 北京\n";
+    const { rows } = await collect(await openCSVStream(bytesOf(text, 3)));
+    expect(rows.map((r) => r.name)).toEqual(["José Müller", "Zoë 北京"]);
+  });
+
+  it("handles a file with headers only", async () => {
+    const csv = await openCSVStream("id,name\n");
+    expect(csv.headers).toEqual(["id", "name"]);
+    expect((await collect(csv)).rows).toEqual([]);
+  });
+});
+
+describe("readOptionsLine", () => {
+  function body(text: string, pieceSize: number): ReadableStream<Uint8Array> {
+    const chunks = bytesOf(text, pieceSize);
+    return new ReadableStream({
+      async pull(controller) {
+        const next = await chunks.next();
+        if (next.done) controller.close();
+        else controller.enqueue(next.value);
+      },
+    });
+  }
+
+  it("splits the options line from the file, wherever the chunks break", async () => {
+    for (const pieceSize of [1, 5, 1024]) {
+      const { options, rest } = await readOptionsLine<{ source: string }>(
+        body('{"source":"stripe"}\nid\n1\n', pieceSize)
+      );
+      expect(options).toEqual({ source: "stripe" });
+      const { rows } = await collect(await openCSVStream(rest));
+      expect(rows).toEqual([{ id: "1" }]);
+    }
+  });
+
+  it("rejects a body without an options line", async () => {
+    await expect(readOptionsLine(body("id,name", 4))).rejects.toThrow("missing its options line");
+    await expect(readOptionsLine(body("not json\nid\n", 4))).rejects.toThrow("not valid JSON");
+  });
+});
+
+// Parsing only — importer.test.ts runs a file this size through runImport
+describe("streaming a 500k-row Stripe export", () => {
+  const ROWS = 500_000;
+  const header = "id,Amount,Currency,Status,Customer Email,Customer Name,Customer,Created (UTC)\n";
+
+  /** Generate the export lazily so the test never holds the whole file. */
+  async function* stripeExport(): AsyncGenerator<Uint8Array> {
+    yield encoder.encode(header);
+    for (let start = 0; start < ROWS; start += 5000) {
+      let text = "";
+      for (let i = start; i < start + 5000; i++) {
+        // Every 1000th row is missing its payment id and fails validation
+        const id = i % 1000 === 999 ? "" : `pi_${i}`;
+        text += `${id},"$${(i % 500) + 1}.00",usd,succeeded,customer${i % 50_000}@example.com,Customer ${i % 50_000},cus_${i % 50_000},2025-01-15 09:32:14\n`;
+      }
+      yield encoder.encode(text);
+    }
+  }
+
+  it("streams through mapping and validation without buffering the file", async () => {
+    const schema = getSchema("stripe")!;
+    const csv = await openCSVStream(stripeExport());
+    const mapping = suggestionsToMapping(
+      generateMappingSuggestions(csv.headers, schema, csv.sampleRows)
+    );
+
+    // Bytes read from the source when each batch was handed out
+    const readAt: { rowsDone: number; bytesRead: number }[] = [];
+    let valid = 0;
+
+    for await (const batch of csv.batches) {
+      for (let j = 0; j < batch.rows.length; j++) {
+        const mapped = applyMapping(batch.rows[j], mapping);
+        if (mapped.status) mapped.status = normalizeStatus(mapped.status, "stripe");
+        const { errors } = validateMappedRow(mapped, schema, batch.firstRow + j);
+        if (errors.length === 0) valid++;
+      }
+      readAt.push({ rowsDone: batch.firstRow + batch.rows.length - 1, bytesRead: csv.bytesRead });
+    }
+
+    expect(readAt[readAt.length - 1].rowsDone).toBe(ROWS);
+    expect(valid).toBe(ROWS - ROWS / 1000);
+
+    // The source is only read a little ahead of the rows handed out — the
+    // ~50 MB file is never buffered
+    const bytesPerRow = csv.bytesRead / ROWS;
+    const readAhead = Math.max(...readAt.map((r) => r.bytesRead - r.rowsDone * bytesPerRow));
+    expect(csv.bytesRead).toBeGreaterThan(45 * 1024 * 1024);
+    expect(readAhead).toBeLessThan(4 * 1024 * 1024);
+  }, 120_000);
+});
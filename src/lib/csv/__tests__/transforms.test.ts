@@ -0,0 +1,166 @@
+import { describe, it, expect } from "vitest";
+import {
+  runTransformPipeline,
+  validateTransforms,
+  assertValidTransforms,
+  MAX_PATTERN_LENGTH,
+} from "../transforms";
+import { packMapping, unpackMapping } from "../stored-mapping";
+import { applyMapping } from "../validators";
+import type { FieldTransforms } from "@/lib/types";
+
+const row = {
+  "First Name": "Ana",
+  "Last Name": " Müller ",
+  "Amount (cents)": "$1,250",
+  Link: "https://pay.example.com/orders/ord_42?ref=mail",
+  Status: "Paid",
+};
+
+describe("runTransformPipeline", () => {
+  it("combines columns, skipping empty ones", () => {
+    expect(runTransformPipeline("Ana", [{ type: "concat", columns: ["Last Name"], separator: " " }], row)).toBe(
+      "Ana Müller"
+    );
+    expect(runTransformPipeline("", [{ type: "concat", columns: ["Last Name", "Missing"], separator: ", " }], row)).toBe(
+      "Müller"
+    );
+  });
+
+  it("keeps one part of a split, counting back from the end for negative parts", () => {
+    expect(runTransformPipeline("Ana María Müller", [{ type: "split", separator: " ", index: 0 }], row)).toBe("Ana");
+    expect(runTransformPipeline("Ana María Müller", [{ type: "split", separator: " ", index: -1 }], row)).toBe("Müller");
+    expect(runTransformPipeline("Ana", [{ type: "split", separator: " ", index: 3 }], row)).toBe("");
+  });
+
+  it("scales amounts without float noise and leaves non-numbers alone", () => {
+    expect(runTransformPipeline("$1,250", [{ type: "divide", divisor: 100 }], row)).toBe("12.5");
+    expect(runTransformPipeline("0.1", [{ type: "multiply", factor: 3 }], row)).toBe("0.3");
+    expect(runTransformPipeline("n/a", [{ type: "divide", divisor: 100 }], row)).toBe("n/a");
+  });
+
+  it("extracts a regex group, or nothing when the pattern misses", () => {
+    const step = { type: "regex" as const, pattern: "orders/(\\w+)", group: 1 };
+    expect(runTransformPipeline(row.Link, [step], row)).toBe("ord_42");
+    expect(runTransformPipeline("https://example.com", [step], row)).toBe("");
+  });
+
+  it("replaces values with a constant or a lookup, case-insensitively", () => {
+    expect(runTransformPipeline("anything", [{ type: "constant", value: "usd" }], row)).toBe("usd");
+    const lookup = { type: "lookup" as const, table: { paid: "succeeded", Refunded: "refunded" } };
+    expect(runTransformPipeline("Paid", [lookup], row)).toBe("succeeded");
+    expect(runTransformPipeline("REFUNDED", [lookup], row)).toBe("refunded");
+    expect(runTransformPipeline("failed", [lookup], row)).toBe("failed");
+  });
+
+  it("runs steps in order", () => {
+    expect(
+      runTransformPipeline(
+        row.Link,
+        [
+          { type: "regex", pattern: "ref=(\\w+)", group: 1 },
+          { type: "lookup", table: { mail: "email" } },
+          { type: "concat", columns: ["Status"], separator: "-" },
+        ],
+        row
+      )
+    ).toBe("email-Paid");
+  });
+});
+
+describe("applyMapping with transforms", () => {
+  it("fills transformed fields, including ones with no mapped column", () => {
+    const transforms: FieldTransforms = {
+      customer_name: [{ type: "concat", columns: ["Last Name"], separator: " " }],
+      amount: [{ type: "divide", divisor: 100 }],
+      currency: [{ type: "constant", value: "usd" }],
+      order_id: [{ type: "regex", pattern: "nope(\\d+)", group: 1 }],
+      status: [],
+    };
+    const mapped = applyMapping(
+      row,
+      { "First Name": "customer_name", "Amount (cents)": "amount", Status: "status", Link: "order_id" },
+      transforms
+    );
+    expect(mapped).toEqual({
+      customer_name: "Ana Müller",
+      amount: "12.5",
+      currency: "usd",
+      order_id: null,
+      status: "Paid",
+    });
+  });
+});
+
+describe("validateTransforms", () => {
+  it("accepts well-formed pipelines", () => {
+    expect(
+      validateTransforms({
+        name: [
+          { type: "split", separator: ",", index: -1 },
+          { type: "lookup", table: { a: "b" } },
+        ],
+      })
+    ).toEqual([]);
+  });
+
+  it("reports each broken step by field and position", () => {
+    expect(
+      validateTransforms({
+        amount: [{ type: "multiply", factor: 2 }, { type: "divide", divisor: 0 }],
+        id: [{ type: "regex", pattern: "(", group: 1 }],
+        status: [{ type: "uppercase" }],
+        email: "lowercase",
+      })
+    ).toEqual([
+      "amount step 2: divisor must be a non-zero number",
+      "id step 1: invalid pattern /(/",
+      'status step 1: unknown transform "uppercase"',
+      "email: steps must be a list",
+    ]);
+    expect(() => assertValidTransforms({ id: [{ type: "regex", pattern: "", group: 1 }] })).toThrow(
+      "Invalid transform — id step 1: pattern is empty"
+    );
+  });
+
+  it("rejects patterns that could backtrack for the whole import", () => {
+    const regex = (pattern: string) => ({ id: [{ type: "regex", pattern, group: 1 }] });
+    for (const pattern of ["(a+)+$", "(\\w*\\s?)*x", "(?:a|ab){2,}c", "((a)+)*"]) {
+      expect(validateTransforms(regex(pattern))).toEqual([
+        `id step 1: pattern /${pattern}/ repeats a repeating group, which can stall the import`,
+      ]);
+    }
+    expect(validateTransforms(regex("a".repeat(MAX_PATTERN_LENGTH + 1)))).toEqual([
+      `id step 1: pattern is longer than ${MAX_PATTERN_LENGTH} characters`,
+    ]);
+    // Repetition inside a group, alternatives, and quantifier characters in classes are fine
+    for (const pattern of ["orders/(\\w+)", "(\\d{3})-(\\d{4})", "(?:ord|inv)_(\\w+)", "([+*]\\d)+", "(\\(x\\)?)+"]) {
+      expect(validateTransforms(regex(pattern))).toEqual([]);
+    }
+  });
+
+  it("leaves values alone for a rejected pattern that bypassed validation", () => {
+    const value = "a".repeat(40) + "!";
+    expect(runTransformPipeline(value, [{ type: "regex", pattern: "(a+)+$", group: 1 }], row)).toBe(value);
+  });
+});
+
+describe("packMapping / unpackMapping", () => {
+  it("round-trips transforms through the stored mapping, dropping empty pipelines", () => {
+    const mapping = { Email: "email", Amount: "amount" };
+    const transforms: FieldTransforms = { amount: [{ type: "divide", divisor: 100 }], email: [] };
+
+    const stored = packMapping(mapping, { transforms });
+    expect(unpackMapping(stored)).toEqual({ mapping, transforms: { amount: transforms.amount }, valueMappings: {} });
+    expect(packMapping(mapping, { transforms: { email: [] } })).toEqual(mapping);
+  });
+
+  it("reads mappings saved before transforms existed, and ignores broken ones", () => {
+    expect(unpackMapping({ Email: "email" })).toEqual({
+      mapping: { Email: "email" },
+      transforms: {},
+      valueMappings: {},
+    });
+    expect(unpackMapping({ Email: "email", __transforms: { x: [{ type: "nope" }] } }).transforms).toEqual({});
+  });
+});
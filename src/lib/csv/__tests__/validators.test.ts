@@ -1,4 +1,6 @@
 import { describe, it, expect } from "vitest";
+import { validateMappedRow } from "../validators";
+import { getSchema } from "../schemas";
 
 describe("Email whitespace handling", () => {
   // Test 22: Email with leading/trailing whitespace gets trimmed
@@ -20,3 +22,27 @@ describe("Email whitespace handling", () => {
     expect(trimmed).toBe("user@example.com");
   });
 });
+
+describe("Phone validation", () => {
+  const schema = getSchema("wetravel")!;
+  const booking = { external_booking_id: "B-1", booking_date: "2026-03-01" };
+
+  it("parses phones for the row's country", () => {
+    const row = { ...booking, [schema.phoneField!]: "55 1234 5678", country: "México" };
+    expect(validateMappedRow(row, schema, 1).warnings).toEqual([]);
+  });
+
+  it("falls back to the org default country", () => {
+    const row = { ...booking, [schema.phoneField!]: "612 345 678" };
+    expect(validateMappedRow(row, schema, 1, "ES").warnings).toEqual([]);
+  });
+
+  it("keeps unparseable phones and reports them as warnings", () => {
+    const row: Record<string, string | null> = { ...booking, [schema.phoneField!]: "12345" };
+    const { errors, warnings } = validateMappedRow(row, schema, 3);
+    expect(errors).toEqual([]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ row: 3, field: schema.phoneField, value: "12345", severity: "warning" });
+    expect(row[schema.phoneField!]).toBe("12345");
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Org-defined sources, for exports the built-in schemas don't cover. The
+ * org picks the table rows go to (payments, bookings or attendance), names
+ * the fields and their aliases, and says which fields identify the
+ * customer. Each is turned into a SourceSchema, so detection, mapping,
+ * validation and stitching treat it like a built-in; its SourceType is
+ * "custom:<custom_sources.id>".
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  CustomSource,
+  CustomSourceField,
+  CustomSourceTarget,
+  CustomSourceType,
+  SchemaField,
+  SourceSchema,
+} from "@/lib/types";
+import { getSchema, STRIPE_SCHEMA, CALENDLY_SCHEMA } from "./schemas";
+
+const CUSTOM_PREFIX = "custom:";
+
+export function customSourceType(id: string): CustomSourceType {
+  return `${CUSTOM_PREFIX}${id}`;
+}
+
+export function isCustomSource(source: string): source is CustomSourceType {
+  return source.startsWith(CUSTOM_PREFIX);
+}
+
+export function customSourceId(source: CustomSourceType): string {
+  return source.slice(CUSTOM_PREFIX.length);
+}
+
+// ─── Target tables ───────────────────────────────────────────
+
+export interface CustomSourceTargetTable {
+  label: string;
+  /** Column the idField's value is written to */
+  idColumn: string;
+  /** Fields every source of this target has, written to the table's own columns */
+  columns: CustomSourceField[];
+  /** Allowed values of the status column, if the table has one */
+  statusValues?: string[];
+}
+
+function statusValues(schema: SourceSchema): string[] {
+  return schema.fields.find((f) => f.key === "status")?.enumValues ?? [];
+}
+
+export const CUSTOM_SOURCE_TARGETS: Record<CustomSourceTarget, CustomSourceTargetTable> = {
+  payments: {
+    label: "Payments",
+    idColumn: "external_payment_id",
+    columns: [
+      { key: "amount", label: "Amount", type: "currency", required: true, aliases: ["total", "price", "amount paid"] },
+      { key: "currency", label: "Currency", type: "text", required: false, aliases: ["currency code"] },
+      { key: "status", label: "Status", type: "enum", required: false, aliases: ["payment status"] },
+      { key: "payment_date", label: "Payment Date", type: "timestamp", required: true, aliases: ["date", "created", "paid at"] },
+      { key: "payment_type", label: "Payment Type", type: "text", required: false, aliases: ["payment method", "method"] },
+    ],
+    statusValues: statusValues(STRIPE_SCHEMA),
+  },
+  bookings: {
+    label: "Bookings",
+    idColumn: "external_booking_id",
+    columns: [
+      { key: "event_type", label: "Event Type", type: "text", required: false, aliases: ["event", "service", "class"] },
+      { key: "start_time", label: "Start Time", type: "timestamp", required: true, aliases: ["start", "date", "start date"] },
+      { key: "end_time", label: "End Time", type: "timestamp", required: false, aliases: ["end", "end date"] },
+      { key: "status", label: "Status", type: "enum", required: false, aliases: ["booking status"] },
+    ],
+    statusValues: statusValues(CALENDLY_SCHEMA),
+  },
+  attendance: {
+    label: "Attendance",
+    idColumn: "external_attendance_id",
+    columns: [
+      { key: "event_name", label: "Event", type: "text", required: true, aliases: ["event name", "event title"] },
+      { key: "check_in_time", label: "Check-in Time", type: "timestamp", required: true, aliases: ["check in", "checked in at", "date"] },
+      { key: "ticket_type", label: "Ticket Type", type: "text", required: false, aliases: ["ticket", "tier"] },
+    ],
+  },
+};
+
+/** Field types an org can give its own fields; enum is reserved for status */
+export const CUSTOM_FIELD_TYPES: Exclude<SchemaField["type"], "enum">[] = [
+  "text", "email", "number", "currency", "date", "timestamp",
+];
+
+/** Starting fields for a new source: identity fields plus the target's columns */
+export function defaultCustomSourceFields(target: CustomSourceTarget): CustomSourceField[] {
+  return [
+    { key: "external_id", label: "ID", type: "text", required: true, aliases: ["id", "reference"] },
+    { key: "email", label: "Email", type: "email", required: false, aliases: ["email address", "customer email"] },
+    { key: "name", label: "Name", type: "text", required: false, aliases: ["full name", "customer name"] },
+    ...CUSTOM_SOURCE_TARGETS[target].columns.map((c) => ({ ...c, aliases: [...c.aliases] })),
+  ];
+}
+
+// ─── Validation ──────────────────────────────────────────────
+
+export type CustomSourceInput = Pick<
+  CustomSource,
+  "name" | "target" | "fields" | "id_field" | "email_field" | "name_field" | "phone_field"
+>;
+
+const FIELD_KEY = /^[a-z][a-z0-9_]{0,39}$/;
+const MAX_FIELDS = 60;
+
+function fieldProblem(field: unknown): string | null {
+  if (typeof field !== "object" || field === null) return "must be an object";
+  const f = field as Record<string, unknown>;
+  if (typeof f.key !== "string" || !FIELD_KEY.test(f.key)) {
+    return "key must be lowercase letters, digits and underscores";
+  }
+  if (typeof f.label !== "string" || !f.label.trim()) return "label is empty";
+  if (!CUSTOM_FIELD_TYPES.includes(f.type as never) && f.type !== "enum") return `unknown type "${String(f.type)}"`;
+  if (typeof f.required !== "boolean") return "required must be true or false";
+  if (!Array.isArray(f.aliases) || !f.aliases.every((a) => typeof a === "string")) {
+    return "aliases must be a list of names";
+  }
+  return null;
+}
+
+/**
+ * Check a custom source definition (from the settings form). Returns one
+ * message per problem, e.g. `Field "amount" must have type currency`.
+ *
+ * 1. Name and target
+ * 2. Each field's shape, with unique keys
+ * 3. The target's columns are present with their types; required ones stay required
+ * 4. Identity fields point at fields of the right type
+ */
+export function validateCustomSource(input: CustomSourceInput): string[] {
+  const problems: string[] = [];
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) problems.push("Name is empty");
+  else if (name.length > 60) problems.push("Name is longer than 60 characters");
+
+  const target = CUSTOM_SOURCE_TARGETS[input.target as CustomSourceTarget];
+  if (!target) problems.push(`Unknown target table "${String(input.target)}"`);
+
+  if (!Array.isArray(input.fields) || input.fields.length === 0) {
+    problems.push("Add at least one field");
+    return problems;
+  }
+  if (input.fields.length > MAX_FIELDS) problems.push(`At most ${MAX_FIELDS} fields`);
+
+  const byKey = new Map<string, CustomSourceField>();
+  input.fields.forEach((field, i) => {
+    const problem = fieldProblem(field);
+    if (problem) {
+      problems.push(`Field ${i + 1}: ${problem}`);
+    } else if (byKey.has(field.key)) {
+      problems.push(`Field key "${field.key}" is used twice`);
+    } else {
+      byKey.set(field.key, field);
+    }
+  });
+
+  if (target) {
+    for (const column of target.columns) {
+      const field = byKey.get(column.key);
+      if (!field) problems.push(`Missing the ${target.label.toLowerCase()} field "${column.key}"`);
+      else if (field.type !== column.type) problems.push(`Field "${column.key}" must have type ${column.type}`);
+      else if (column.required && !field.required) problems.push(`Field "${column.key}" must be required`);
+    }
+  }
+  for (const field of byKey.values()) {
+    if (field.type === "enum" && !target?.columns.some((c) => c.key === field.key && c.type === "enum")) {
+      problems.push(`Field "${field.key}" can't have fixed values`);
+    }
+  }
+
+  const identity = (label: string, key: unknown, types: SchemaField["type"][]) => {
+    const field = typeof key === "string" ? byKey.get(key) : undefined;
+    if (!field) problems.push(`${label} field is not one of the fields`);
+    else if (!types.includes(field.type)) problems.push(`${label} field "${field.key}" must have type ${types.join(" or ")}`);
+  };
+  identity("ID", input.id_field, ["text", "number"]);
+  identity("Email", input.email_field, ["email"]);
+  identity("Name", input.name_field, ["text"]);
+  if (input.phone_field !== null && input.phone_field !== undefined) identity("Phone", input.phone_field, ["text"]);
+
+  return problems;
+}
+
+// ─── Schemas ─────────────────────────────────────────────────
+
+/** The SourceSchema a custom source maps and validates with. */
+export function toSourceSchema(source: CustomSource): SourceSchema {
+  const target = CUSTOM_SOURCE_TARGETS[source.target];
+  return {
+    source: customSourceType(source.id),
+    label: source.name,
+    target: source.target,
+    fields: source.fields.map((field) => ({
+      ...field,
+      aliases: [...field.aliases],
+      description: field.label,
+      enumValues: field.type === "enum" ? target.statusValues : undefined,
+    })),
+    idField: source.id_field,
+    emailField: source.email_field,
+    nameField: source.name_field,
+    phoneField: source.phone_field ?? undefined,
+  };
+}
+
+/** The org's custom sources as schemas, for detection and the source picker. */
+export async function loadCustomSchemas(admin: SupabaseClient, orgId: string): Promise<SourceSchema[]> {
+  const { data, error } = await admin
+    .from("custom_sources")
+    .select("*")
+    .eq("org_id", orgId)
+    .order("name");
+
+  if (error) throw new Error(`Failed to load custom sources: ${error.message}`);
+  return ((data ?? []) as CustomSource[]).map(toSourceSchema);
+}
+
+/**
+ * The schema for a source or schema key: built-ins from the registry,
+ * custom sources from the org's custom_sources (undefined if not the org's).
+ */
+export async function loadSourceSchema(
+  admin: SupabaseClient,
+  orgId: string,
+  source: string
+): Promise<SourceSchema | undefined> {
+  if (!isCustomSource(source)) return getSchema(source);
+
+  const { data } = await admin
+    .from("custom_sources")
+    .select("*")
+    .eq("org_id", orgId)
+    .eq("id", customSourceId(source))
+    .maybeSingle();
+
+  return data ? toSourceSchema(data as CustomSource) : undefined;
+}
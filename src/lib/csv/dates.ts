@@ -0,0 +1,282 @@
+/**
+ * Date parsing for imports. Numeric dates are read in an explicit order
+ * (month-first, day-first or year-first) instead of trusting `new Date()`,
+ * which reads "03/04/2025" month-first and rolls "13/02/2025" into the next
+ * year. Times without an offset are wall-clock times in the import's
+ * timezone.
+ */
+
+import type { SourceSchema, ValidationError } from "@/lib/types";
+
+export type DateOrder = "mdy" | "dmy" | "ymd";
+
+/** A date format choice: an explicit order, or "auto" to infer it from the rows */
+export type DateFormat = "auto" | DateOrder;
+
+export interface DateOptions {
+  order: DateOrder;
+  /** IANA timezone for times without an offset */
+  timezone: string;
+}
+
+export const DEFAULT_TIMEZONE = "UTC";
+
+/** Month-first, as before formats were selectable */
+export const DEFAULT_DATE_OPTIONS: DateOptions = { order: "mdy", timezone: DEFAULT_TIMEZONE };
+
+export const DATE_ORDER_LABELS: Record<DateOrder, string> = {
+  mdy: "MM/DD/YYYY",
+  dmy: "DD/MM/YYYY",
+  ymd: "YYYY-MM-DD",
+};
+
+export function isDateFormat(value: unknown): value is DateFormat {
+  return value === "auto" || (typeof value === "string" && value in DATE_ORDER_LABELS);
+}
+
+// ─── Timezones ───────────────────────────────────────────────
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = zoneFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    zoneFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    zoneFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** IANA timezones for the timezone picker, UTC first */
+export function listTimeZones(): string[] {
+  const zones = typeof Intl.supportedValuesOf === "function" ? Intl.supportedValuesOf("timeZone") : [];
+  return [DEFAULT_TIMEZONE, ...zones.filter((z) => z !== DEFAULT_TIMEZONE)];
+}
+
+/** Offset of `timeZone` from UTC at the instant `utcMs`, in ms */
+function zoneOffset(utcMs: number, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of zoneFormatter(timeZone).formatToParts(new Date(utcMs))) {
+    if (part.type !== "literal") parts[part.type] = Number(part.value);
+  }
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wall - Math.floor(utcMs / 1000) * 1000;
+}
+
+/** Convert a wall-clock time (as UTC fields) in `timeZone` to a UTC instant */
+function wallTimeToUtc(wallMs: number, timeZone: string): number {
+  if (timeZone === DEFAULT_TIMEZONE) return wallMs;
+  // Second pass settles times near a DST change
+  const guess = wallMs - zoneOffset(wallMs, timeZone);
+  return wallMs - zoneOffset(guess, timeZone);
+}
+
+// ─── Parsing ─────────────────────────────────────────────────
+
+const NUMERIC_DATE =
+  /^(\d{1,4})[/\-.](\d{1,2})[/\-.](\d{1,4})(?:(?:T|\s+|,\s*)(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?(?:\s*([ap])\.?m\.?)?)?\s*(Z|UTC|GMT|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+/** An explicit zone at the end of a textual date ("… GMT+0200", "… Z") */
+const EXPLICIT_ZONE = /(?:\bZ|\bUTC|\bGMT|[+-]\d{2}:?\d{2})\s*(?:\([^)]*\))?$/i;
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function fullYear(digits: string): number | null {
+  if (digits.length === 2) return 2000 + parseInt(digits, 10);
+  if (digits.length === 4) return parseInt(digits, 10);
+  return null;
+}
+
+function zoneOffsetMs(zone: string): number {
+  if (/^(z|utc|gmt)$/i.test(zone)) return 0;
+  const m = zone.match(/^([+-])(\d{2}):?(\d{2})?$/)!;
+  const minutes = parseInt(m[2], 10) * 60 + parseInt(m[3] ?? "0", 10);
+  return (m[1] === "-" ? -1 : 1) * minutes * 60_000;
+}
+
+function parseNumericDate(match: RegExpMatchArray, options: DateOptions): string | null {
+  const [, a, b, c, hourStr, minuteStr, secondStr, fraction, meridiem, zone] = match;
+
+  let year: number | null;
+  let month: number;
+  let day: number;
+  if (a.length === 4 || options.order === "ymd") {
+    year = fullYear(a);
+    month = parseInt(b, 10);
+    day = parseInt(c, 10);
+  } else {
+    year = fullYear(c);
+    month = parseInt(options.order === "dmy" ? b : a, 10);
+    day = parseInt(options.order === "dmy" ? a : b, 10);
+  }
+  if (year === null || month < 1 || month > 12 || day < 1 || day > daysInMonth(year, month)) {
+    return null;
+  }
+
+  let hour = hourStr ? parseInt(hourStr, 10) : 0;
+  const minute = minuteStr ? parseInt(minuteStr, 10) : 0;
+  const second = secondStr ? parseInt(secondStr, 10) : 0;
+  const ms = fraction ? parseInt(fraction.slice(0, 3).padEnd(3, "0"), 10) : 0;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem.toLowerCase() === "p" ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59 || second > 59) return null;
+
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+  const utc = zone ? wall - zoneOffsetMs(zone) : wallTimeToUtc(wall, options.timezone);
+  return new Date(utc).toISOString();
+}
+
+/**
+ * Parse a date or timestamp to an ISO string, or null if it isn't one.
+ *
+ * 1. Numeric dates ("15/01/2025", "2025-01-15T09:30:00Z") are read in
+ *    `options.order` — a four-digit first part is always year-first — and
+ *    out-of-range parts are rejected rather than rolled over
+ * 2. Anything else ("Jan 15, 2025 9:30 AM") goes through `new Date()`
+ * 3. Without an explicit offset, the time is taken in `options.timezone`
+ */
+export function parseDate(value: string, options: DateOptions = DEFAULT_DATE_OPTIONS): string | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const numeric = trimmed.match(NUMERIC_DATE);
+  if (numeric) return parseNumericDate(numeric, options);
+
+  const d = new Date(trimmed);
+  if (isNaN(d.getTime())) return null;
+  if (EXPLICIT_ZONE.test(trimmed)) return d.toISOString();
+
+  // `new Date()` read the wall-clock time in the runtime's zone; re-read it in ours
+  const wall = Date.UTC(
+    d.getFullYear(), d.getMonth(), d.getDate(),
+    d.getHours(), d.getMinutes(), d.getSeconds(), d.getMilliseconds()
+  );
+  return new Date(wallTimeToUtc(wall, options.timezone)).toISOString();
+}
+
+// ─── Inference ───────────────────────────────────────────────
+
+const LEADING_NUMERIC_DATE = /^\s*(\d{1,4})[/\-.](\d{1,2})[/\-.]\d{1,4}/;
+
+export interface DateOrderInference {
+  /** The order the values prove, or null if none do or they contradict each other */
+  order: DateOrder | null;
+  /** Values read both month-first and day-first and nothing settles which */
+  ambiguous: boolean;
+  /** Index and text of the first value that reads both ways */
+  example: { index: number; value: string } | null;
+}
+
+/**
+ * Infer the order of numeric dates in one column. A first part over 12
+ * proves day-first, a second part over 12 proves month-first, and a
+ * four-digit first part proves year-first.
+ */
+export function inferDateOrder(values: (string | null | undefined)[]): DateOrderInference {
+  const proven = new Set<DateOrder>();
+  let example: DateOrderInference["example"] = null;
+
+  for (let index = 0; index < values.length; index++) {
+    const value = values[index];
+    const m = value?.match(LEADING_NUMERIC_DATE);
+    if (!value || !m) continue;
+    if (m[1].length === 4) {
+      proven.add("ymd");
+      continue;
+    }
+    const first = parseInt(m[1], 10);
+    const second = parseInt(m[2], 10);
+    if (first > 12 && second <= 12) proven.add("dmy");
+    else if (second > 12 && first <= 12) proven.add("mdy");
+    else if (first !== second && !example) example = { index, value: value.trim() };
+  }
+
+  if (proven.size === 1) {
+    return { order: [...proven][0], ambiguous: false, example: null };
+  }
+  // Nothing proven, or both day-first and month-first values in one column
+  return { order: null, ambiguous: proven.size > 1 || example !== null, example };
+}
+
+export interface DateFormatInference {
+  /** Day- or month-first order proven by the date columns, if any */
+  order: DateOrder | null;
+  /** Warnings for date columns whose values could be read either way */
+  warnings: ValidationError[];
+}
+
+/**
+ * Infer the date order of an import from its mapped rows. One order
+ * applies to every date column: a column that proves day- or month-first
+ * settles the ambiguous ones. Year-first columns prove nothing about the
+ * others. `firstRow` is the 1-based row number of rows[0].
+ */
+export function inferDateFormat(
+  rows: Record<string, string | null>[],
+  schema: SourceSchema,
+  firstRow: number = 1
+): DateFormatInference {
+  const fields = schema.fields.filter((f) => f.type === "date" || f.type === "timestamp");
+  const columns = fields.map((field) => ({
+    field,
+    inference: inferDateOrder(rows.map((row) => row[field.key])),
+  }));
+
+  const proven = new Set(
+    columns.map((c) => c.inference.order).filter((o): o is DateOrder => o === "mdy" || o === "dmy")
+  );
+  if (proven.size === 1) return { order: [...proven][0], warnings: [] };
+
+  const assumed = DATE_ORDER_LABELS[DEFAULT_DATE_OPTIONS.order];
+  const warnings: ValidationError[] = [];
+  for (const { field, inference } of columns) {
+    if (!inference.ambiguous) continue;
+    const example = inference.example;
+    warnings.push({
+      row: example ? firstRow + example.index : firstRow,
+      field: field.key,
+      message: example
+        ? `Dates in "${field.label}" are ambiguous (e.g. "${example.value}") — read as ${assumed}. Choose a date format to be sure.`
+        : `Dates in "${field.label}" mix day-first and month-first values — choose a date format.`,
+      value: example?.value,
+      severity: "warning",
+    });
+  }
+  return { order: null, warnings };
+}
+
+/**
+ * Date options for an import: the chosen order, else the inferred one,
+ * else month-first; an unknown timezone falls back to UTC.
+ */
+export function resolveDateOptions(
+  format: DateFormat | null | undefined,
+  timezone: string | null | undefined,
+  inferred: DateOrder | null = null
+): DateOptions {
+  const order = format && format !== "auto" ? format : (inferred ?? DEFAULT_DATE_OPTIONS.order);
+  const zone = timezone && isValidTimeZone(timezone) ? timezone : DEFAULT_TIMEZONE;
+  return { order, timezone: zone };
+}
@@ -1,6 +1,6 @@
 import { SCHEMAS } from "./schemas";
 import { generateMappingSuggestions } from "./heuristic-mapper";
-import type { SchemaKey } from "@/lib/types";
+import type { SchemaKey, SourceSchema } from "@/lib/types";
 
 export interface DetectionResult {
   source: SchemaKey;
@@ -12,7 +12,8 @@ export interface DetectionResult {
 
 /**
  * Auto-detect the CSV source type by running the heuristic mapper against
- * all schemas and picking the best fit.
+ * all schemas — the built-ins plus the org's custom ones — and picking the
+ * best fit.
  *
  * Returns results sorted by confidence (best first).
  * If the top result's confidence is >= 0.5 AND it has all required fields
@@ -20,11 +21,16 @@ export interface DetectionResult {
  */
 export function detectSource(
   headers: string[],
-  sampleRows: Record<string, string>[]
+  sampleRows: Record<string, string>[],
+  customSchemas: SourceSchema[] = []
 ): DetectionResult[] {
   const results: DetectionResult[] = [];
+  const candidates: [string, SourceSchema][] = [
+    ...Object.entries(SCHEMAS),
+    ...customSchemas.map((schema): [string, SourceSchema] => [schema.source, schema]),
+  ];
 
-  for (const [key, schema] of Object.entries(SCHEMAS)) {
+  for (const [key, schema] of candidates) {
     const suggestions = generateMappingSuggestions(headers, schema, sampleRows);
 
     // Count mapped fields and their average confidence
@@ -0,0 +1,70 @@
+/**
+ * Text encoding detection for uploaded files. Exports from Excel and older
+ * Windows tools arrive as UTF-16 or Windows-1252 rather than UTF-8; reading
+ * them as UTF-8 garbles accented names and can break header matching.
+ */
+
+export type TextEncodingName = "utf-8" | "utf-16le" | "utf-16be" | "windows-1252";
+
+/** Bytes inspected for BOM-less UTF-16 */
+const UTF16_SNIFF_BYTES = 512;
+
+function sniffUtf16(bytes: Uint8Array): "utf-16le" | "utf-16be" | null {
+  const length = Math.min(bytes.length, UTF16_SNIFF_BYTES) & ~1;
+  if (length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  // ASCII text in UTF-16 has a zero in every other byte
+  const pairs = length / 2;
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return "utf-16le";
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return "utf-16be";
+  return null;
+}
+
+/**
+ * Detect the encoding of a text file.
+ *
+ * 1. A byte order mark decides (UTF-8, UTF-16 LE/BE)
+ * 2. BOM-less UTF-16 is recognized by its alternating zero bytes
+ * 3. Bytes that are valid UTF-8 are UTF-8 (plain ASCII included)
+ * 4. Anything else is taken as Windows-1252, the usual legacy Excel export
+ */
+export function detectEncoding(bytes: Uint8Array): TextEncodingName {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return "utf-8";
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return "utf-16le";
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return "utf-16be";
+
+  const utf16 = sniffUtf16(bytes);
+  if (utf16) return utf16;
+
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+/**
+ * Windows-1252 characters for bytes 0x80–0x9F (€, curly quotes, dashes).
+ * Node decodes "windows-1252" as ISO-8859-1, leaving these as C1 controls.
+ */
+const WINDOWS_1252_C1 =
+  "\u20ac\u0081\u201a\u0192\u201e\u2026\u2020\u2021\u02c6\u2030\u0160\u2039\u0152\u008d\u017d\u008f" +
+  "\u0090\u2018\u2019\u201c\u201d\u2022\u2013\u2014\u02dc\u2122\u0161\u203a\u0153\u009d\u017e\u0178";
+
+/** Decode a text file, dropping any byte order mark. */
+export function decodeText(bytes: Uint8Array): { text: string; encoding: TextEncodingName } {
+  const encoding = detectEncoding(bytes);
+  // TextDecoder strips a leading BOM for the encoding it decodes
+  let text = new TextDecoder(encoding).decode(bytes);
+  if (encoding === "windows-1252") {
+    text = text.replace(/[\u0080-\u009f]/g, (ch) => WINDOWS_1252_C1[ch.charCodeAt(0) - 0x80]);
+  }
+  return { text, encoding };
+}
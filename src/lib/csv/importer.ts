@@ -0,0 +1,1756 @@
+/**
+ * CSV import and stitch preview over a streamed file. Both walk the rows
+ * batch by batch (see ./stream), so a 200k-row export is never held in
+ * memory at once. Called by the upload route, which streams the request
+ * body, and by the server actions in @/lib/actions/import for small files.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { OrgContext } from "@/lib/org";
+import { recordAuditEvent, getImportCustomerIds } from "@/lib/audit";
+import { selectAll } from "@/lib/supabase/select-all";
+import {
+  generateMappingSuggestions,
+  suggestionsToMapping,
+} from "@/lib/csv/heuristic-mapper";
+import { validateMappedRow, applyMapping, parseCurrency, parseTimestamp } from "@/lib/csv/validators";
+import { normalizeStatus, assertValidValueMappings, validValueMappings } from "@/lib/csv/normalizers";
+import {
+  inferDateFormat,
+  resolveDateOptions,
+  type DateFormat,
+  type DateOptions,
+} from "@/lib/csv/dates";
+import { assertValidTransforms } from "@/lib/csv/transforms";
+import { packMapping } from "@/lib/csv/stored-mapping";
+import { getSchema, detectAttributionSubtype, resolveSchemaKey } from "@/lib/csv/schemas";
+import { CUSTOM_SOURCE_TARGETS, isCustomSource, loadSourceSchema } from "@/lib/csv/custom-sources";
+import { groupOrderStream, shopifyLineItems, parseDiscountCodes, landingSiteUtm } from "@/lib/csv/shopify";
+import {
+  stitchIdentityFast,
+  detectPostImportConflicts,
+  previewStitchIdentity,
+  matchCRMCustomerFast,
+  shouldUpdateName,
+  buildCustomerIndex,
+  namePreviewResult,
+  rowCustomerIds,
+  isNeverMatchForIndexedRow,
+  type CustomerRecord,
+} from "@/lib/stitching/matcher";
+import { normalizePhone, phoneCountry } from "@/lib/stitching/phone-utils";
+import { canonicalEmail } from "@/lib/stitching/email-utils";
+import { excludeNeverMatch } from "@/lib/stitching/do-not-merge";
+import { resolveHouseholdMatch } from "@/lib/stitching/household";
+import { findNameCandidates } from "@/lib/stitching/fuzzy-names";
+import { matchDisposition, phoneConfidence } from "@/lib/stitching/policy";
+import {
+  namesMatch,
+  detectEnrichableFields,
+  hasConflictingFields,
+} from "@/lib/stitching/name-utils";
+import { resolveRates, toUSD } from "@/lib/fx";
+import { findMatchingSavedMapping } from "@/lib/actions/mappings";
+import type {
+  SourceType,
+  SchemaKey,
+  SourceSchema,
+  ImportResultDetailed,
+  ValidationError,
+  StitchPreviewResult,
+  StitchPreviewRow,
+  StitchDecisions,
+  FieldTransforms,
+  ValueMappings,
+} from "@/lib/types";
+import type { CSVProgress, CSVStream } from "./stream";
+
+/** Validation warnings returned with a stitch preview. */
+const MAX_PREVIEW_WARNINGS = 50;
+
+/** Errors and warnings kept in an import result; the counts stay exact. */
+const MAX_IMPORT_ERRORS = 1000;
+
+const CRM_BATCH_SIZE = 200;
+const ATTRIBUTION_BATCH_SIZE = 200;
+
+export interface ImportOptions {
+  source: SourceType;
+  schemaKey?: SchemaKey;
+  fileName: string;
+  mapping?: Record<string, string>;
+  stitchDecisions?: StitchDecisions;
+  /** Date order for numeric dates; "auto" or absent infers it from the first batch */
+  dateFormat?: DateFormat;
+  /** IANA timezone for times without an offset (default UTC) */
+  timezone?: string;
+  /** Per-field transform pipelines, applied after the column mapping */
+  transforms?: FieldTransforms;
+  /** User mappings for enum values, consulted before the built-in tables */
+  valueMappings?: ValueMappings;
+}
+
+/**
+ * Date parsing for an import: the chosen order, else the one inferred from
+ * the first batch, with warnings for date columns the batch can't settle.
+ */
+function resolveImportDates(
+  dateFormat: DateFormat | undefined,
+  timezone: string | undefined,
+  schema: SourceSchema,
+  mapping: Record<string, string>,
+  transforms: FieldTransforms,
+  csv: CSVStream
+): { dateOptions: DateOptions; warnings: ValidationError[] } {
+  if (dateFormat && dateFormat !== "auto") {
+    return { dateOptions: resolveDateOptions(dateFormat, timezone), warnings: [] };
+  }
+  const inferred = inferDateFormat(csv.firstBatch.map((row) => applyMapping(row, mapping, transforms)), schema);
+  return { dateOptions: resolveDateOptions("auto", timezone, inferred.order), warnings: inferred.warnings };
+}
+
+/**
+ * Fast in-memory stitch preview: preloads customer data in 3 parallel queries
+ * (customers + customer_sources + do_not_merge), then a follow-up for
+ * duplicate-check data.
+ * Replicates the previewStitchIdentity cascade entirely in-memory.
+ * Used by both single-file and multi-file flows.
+ *
+ * Flags rows with validation errors or no usable identifiers as "flagged"
+ * instead of silently dropping them. Identifier guardrails are source-aware:
+ * CRM requires email/phone/member_id, attribution requires email/phone,
+ * transaction sources use the full stitch cascade.
+ */
+export async function previewImport(
+  admin: SupabaseClient,
+  orgId: string,
+  options: Pick<ImportOptions, "source" | "schemaKey" | "dateFormat" | "timezone" | "transforms" | "valueMappings"> & {
+    mapping: Record<string, string>;
+  },
+  csv: CSVStream,
+  onProgress?: (progress: CSVProgress) => void
+): Promise<StitchPreviewResult> {
+  const schema = await loadSourceSchema(admin, orgId, resolveSchemaKey(options.source, csv.headers, options.schemaKey));
+  if (!schema) throw new Error(`Unknown source: ${options.source}`);
+  const transforms = options.transforms ?? {};
+  assertValidTransforms(transforms);
+  const valueMappings = options.valueMappings ?? {};
+  assertValidValueMappings(valueMappings, schema);
+  // Shopify writes a row per line item — preview one row per order
+  if (options.source === "shopify") csv = groupOrderStream(csv, options.mapping);
+
+  // ─── Preload data using shared index builder ────────────────
+  const customerIndex = await buildCustomerIndex(admin, orgId);
+  const { emailMap, phoneMap, nameKeyMap, sourceIdMap, extEmailMap, doNotMerge, householdMap, policy } = customerIndex;
+
+  // Also preload duplicate-check data based on source
+  let existingExternalIds: Set<string> | null = null;
+  {
+    let table: string | null = null;
+    let idColumn: string | null = null;
+    let sourceFilter: string | null = null;
+    switch (options.source) {
+      case "stripe": table = "payments"; idColumn = "external_payment_id"; sourceFilter = "stripe"; break;
+      case "pos": table = "payments"; idColumn = "external_payment_id"; sourceFilter = "pos"; break;
+      case "shopify": table = "payments"; idColumn = "external_payment_id"; sourceFilter = "shopify"; break;
+      case "square": table = "payments"; idColumn = "external_payment_id"; sourceFilter = "square"; break;
+      // Mindbody sales are payments, class visits attendance — the id field names the column
+      case "mindbody":
+        table = schema.idField === "external_attendance_id" ? "attendance" : "payments";
+        idColumn = schema.idField;
+        sourceFilter = "mindbody";
+        break;
+      case "calendly": table = "bookings"; idColumn = "external_booking_id"; sourceFilter = "calendly"; break;
+      case "wetravel": table = "bookings"; idColumn = "external_booking_id"; sourceFilter = "wetravel"; break;
+      case "passline": table = "attendance"; idColumn = "external_attendance_id"; sourceFilter = "passline"; break;
+      default:
+        if (schema.target) {
+          table = schema.target;
+          idColumn = CUSTOM_SOURCE_TARGETS[schema.target].idColumn;
+          sourceFilter = options.source;
+        }
+    }
+    if (table && idColumn && sourceFilter) {
+      const rows = await selectAll<Record<string, string>>(
+        (from, to) =>
+          admin
+            .from(table)
+            .select(idColumn)
+            .eq("org_id", orgId)
+            .eq("source", sourceFilter)
+            .order("id")
+            .range(from, to)
+            .overrideTypes<Record<string, string>[], { merge: false }>(),
+        `existing ${table}`
+      );
+      existingExternalIds = new Set(rows.map((r) => r[idColumn!]));
+    }
+  }
+
+  // ─── Process rows ─────────────────────────────────────────
+  const uncertainRows: StitchPreviewRow[] = [];
+  const nameReviewRows: StitchPreviewRow[] = [];
+  const confidentRows: StitchPreviewRow[] = [];
+  const newRows: StitchPreviewRow[] = [];
+  const duplicateRows: StitchPreviewRow[] = [];
+  const enrichmentRows: StitchPreviewRow[] = [];
+  const flaggedRows: StitchPreviewRow[] = [];
+  const { dateOptions, warnings: dateWarnings } = resolveImportDates(
+    options.dateFormat, options.timezone, schema, options.mapping, transforms, csv
+  );
+  const allWarnings: ValidationError[] = [...dateWarnings];
+
+  let confidentCount = 0;
+  let uncertainCount = 0;
+  let nameReviewCount = 0;
+  let newCount = 0;
+  let duplicateCount = 0;
+  let enrichmentCount = 0;
+  let flaggedCount = 0;
+  let totalValid = 0;
+
+  let rowsProcessed = 0;
+  for await (const batch of csv.batches) {
+    for (let j = 0; j < batch.rows.length; j++) {
+      const i = batch.firstRow - 1 + j;
+      const rawRow = batch.rows[j];
+      const mapped = applyMapping(rawRow, options.mapping, transforms);
+      if (mapped.status) {
+        mapped.status = normalizeStatus(mapped.status, options.source, valueMappings.status);
+      }
+      const { errors: rowErrors, warnings: rowWarnings } = validateMappedRow(mapped, schema, i + 1, policy.default_phone_country, dateOptions);
+      if (rowWarnings.length > 0 && allWarnings.length < MAX_PREVIEW_WARNINGS) {
+        allWarnings.push(...rowWarnings);
+      }
+
+      // Flagged: validation errors (instead of silent skip)
+      if (rowErrors.length > 0) {
+        flaggedCount++;
+        flaggedRows.push({
+          rowIndex: i + 1,
+          externalId: mapped[schema.idField] ?? "",
+          email: mapped[schema.emailField] ?? null,
+          name: schema.nameField ? (mapped[schema.nameField] ?? null) : null,
+          phone: schema.phoneField ? (mapped[schema.phoneField] ?? null) : null,
+          category: "flagged",
+          existingCustomerId: null,
+          existingCustomerName: null,
+          existingCustomerEmail: null,
+          confidence: 0,
+          candidates: [],
+          enrichableFields: [],
+          rawRow,
+          flagReason: rowErrors.map((e) => e.message).join("; "),
+          flagIssues: [
+            ...rowWarnings.map((w) => ({ severity: "warning" as const, message: w.message, field: w.field, value: w.value })),
+            ...rowErrors.map((e) => ({ severity: "error" as const, message: e.message, field: e.field, value: e.value })),
+          ],
+        });
+        continue;
+      }
+
+      const externalId = mapped[schema.idField] ?? "";
+      const email = mapped[schema.emailField] ?? null;
+      const name = schema.nameField ? (mapped[schema.nameField] ?? null) : null;
+      const phone = schema.phoneField ? (mapped[schema.phoneField] ?? null) : null;
+
+      const stitchExternalId =
+        schema.customerIdField
+          ? (mapped[schema.customerIdField] ?? externalId)
+          : externalId;
+
+      // Flagged: no usable identifier — must match import-time guardrails per source
+      const memberId = mapped.member_id ?? null;
+      let noIdentifier = false;
+      let flagMsg = "";
+      if (options.source === "crm") {
+        // CRM requires email, phone, or member_id
+        if (!email && !phone && !memberId) {
+          noIdentifier = true;
+          flagMsg = "No usable identifier (need email, phone, or member_id)";
+        }
+      } else if (options.source === "attribution") {
+        // Attribution requires email, phone, or platform ID
+        if (!email && !phone && !stitchExternalId) {
+          noIdentifier = true;
+          flagMsg = "No usable identifier (need email, phone, or platform ID)";
+        }
+      } else {
+        // Transaction sources use full stitch cascade — only flag if nothing at all
+        if (!stitchExternalId && !email && !phone && !name) {
+          noIdentifier = true;
+          flagMsg = "No usable identifier (no ID, email, phone, or name)";
+        }
+      }
+      if (noIdentifier) {
+        flaggedCount++;
+        flaggedRows.push({
+          rowIndex: i + 1,
+          externalId: externalId || "",
+          email,
+          name,
+          phone,
+          category: "flagged",
+          existingCustomerId: null,
+          existingCustomerName: null,
+          existingCustomerEmail: null,
+          confidence: 0,
+          candidates: [],
+          enrichableFields: [],
+          rawRow,
+          flagReason: flagMsg,
+          flagIssues: [
+            ...rowWarnings.map((w) => ({ severity: "warning" as const, message: w.message, field: w.field, value: w.value })),
+            { severity: "error" as const, message: flagMsg },
+          ],
+        });
+        continue;
+      }
+
+      totalValid++;
+
+      // Duplicate check
+      if (externalId && existingExternalIds?.has(externalId)) {
+        duplicateCount++;
+        if (duplicateRows.length < 50) {
+          duplicateRows.push({
+            rowIndex: i + 1,
+            externalId,
+            email,
+            name,
+            phone,
+            category: "duplicate",
+            existingCustomerId: null,
+            existingCustomerName: null,
+            existingCustomerEmail: null,
+            confidence: 1,
+            candidates: [],
+            enrichableFields: [],
+          });
+        }
+        continue;
+      }
+
+      // Shared email/phone inside a household → the named member or a new
+      // customer (mirrors attachToHousehold in stitchIdentityFast)
+      const householdPreview = (
+        matched: CustomerRecord[],
+        category: "email" | "phone",
+        confidence: number
+      ): boolean => {
+        const householdId = matched[0]?.household_id;
+        if (!householdId) return false;
+        const members = householdMap.get(householdId) ?? [];
+        const resolution = resolveHouseholdMatch(matched, members, name);
+        if (!resolution) return false;
+
+        if (resolution.kind === "new_member") {
+          newCount++;
+          if (newRows.length < 50) {
+            newRows.push({
+              rowIndex: i + 1, externalId, email, name, phone,
+              category: "new",
+              existingCustomerId: null,
+              existingCustomerName: null,
+              existingCustomerEmail: null,
+              confidence: 0,
+              candidates: [], enrichableFields: [], rawRow,
+            });
+          }
+          return true;
+        }
+
+        const member = members.find((m) => m.id === resolution.customerId);
+        confidentCount++;
+        if (confidentRows.length < 50) {
+          confidentRows.push({
+            rowIndex: i + 1, externalId, email, name, phone,
+            category,
+            existingCustomerId: resolution.customerId,
+            existingCustomerName: member?.full_name ?? null,
+            existingCustomerEmail: member?.email ?? null,
+            confidence,
+            candidates: [], enrichableFields: [], rawRow,
+          });
+        }
+        return true;
+      };
+
+      // Match the org's policy only flags → needs a decision
+      const reviewRow = (
+        matches: CustomerRecord[],
+        matchedBy: "email" | "phone",
+        confidence: number
+      ): void => {
+        uncertainCount++;
+        uncertainRows.push({
+          rowIndex: i + 1, externalId, email, name, phone,
+          category: matchedBy,
+          existingCustomerId: matches[0].id,
+          existingCustomerName: matches[0].full_name,
+          existingCustomerEmail: matches[0].email,
+          confidence,
+          candidates: matches.map((m) => ({
+            customerId: m.id,
+            customerName: m.full_name,
+            customerEmail: m.email,
+            customerPhone: m.phone,
+            matchedBy,
+            confidence,
+          })),
+          enrichableFields: [], rawRow,
+        });
+      };
+
+      // ─── In-memory stitch cascade ─────────────────────────
+
+      // 1. External ID match via sourceIdMap
+      if (stitchExternalId) {
+        const sourceKey = `${options.source}:${stitchExternalId}`;
+        const match = sourceIdMap.get(sourceKey);
+        if (match) {
+          const c = match.customer;
+          if (c) {
+            const ef = detectEnrichableFields(c, name, email, phone);
+            if (ef.length > 0 && !hasConflictingFields(c, name, email)) {
+              enrichmentCount++;
+              enrichmentRows.push({
+                rowIndex: i + 1, externalId, email, name, phone,
+                category: "enrichment",
+                existingCustomerId: match.customerId,
+                existingCustomerName: c.full_name,
+                existingCustomerEmail: c.email,
+                confidence: 1.0,
+                candidates: [], enrichableFields: ef, rawRow,
+              });
+              continue;
+            }
+          }
+          confidentCount++;
+          if (confidentRows.length < 50) {
+            confidentRows.push({
+              rowIndex: i + 1, externalId, email, name, phone,
+              category: "external_id",
+              existingCustomerId: match.customerId,
+              existingCustomerName: c?.full_name ?? null,
+              existingCustomerEmail: c?.email ?? null,
+              confidence: 1.0,
+              candidates: [], enrichableFields: [], rawRow,
+            });
+          }
+          continue;
+        }
+      }
+
+      // 2. Email match — customers table (never-match pairs with the row's
+      // name match excluded, here and for source emails)
+      if (email) {
+        const emailKey = canonicalEmail(email, policy.email_rules) ?? "";
+        const found = emailMap.get(emailKey);
+        const customerMatch = found && !isNeverMatchForIndexedRow(customerIndex, found.id, name) ? found : undefined;
+        if (customerMatch) {
+          if (householdPreview([customerMatch], "email", 0.95)) continue;
+
+          if (matchDisposition(policy, "email", 0.95) === "review") {
+            reviewRow([customerMatch], "email", 0.95);
+            continue;
+          }
+
+          const ef = detectEnrichableFields(customerMatch, name, email, phone);
+          if (ef.length > 0 && !hasConflictingFields(customerMatch, name, email)) {
+            enrichmentCount++;
+            enrichmentRows.push({
+              rowIndex: i + 1, externalId, email, name, phone,
+              category: "enrichment",
+              existingCustomerId: customerMatch.id,
+              existingCustomerName: customerMatch.full_name,
+              existingCustomerEmail: customerMatch.email,
+              confidence: 0.95,
+              candidates: [], enrichableFields: ef, rawRow,
+            });
+            continue;
+          }
+
+          // Name mismatch check — uses smart matching (placeholder, format, abbreviation)
+          if (name && customerMatch.full_name && !namesMatch(customerMatch.full_name, name, customerMatch.email)) {
+            nameReviewCount++;
+            nameReviewRows.push({
+              rowIndex: i + 1, externalId, email, name, phone,
+              category: "email_name_mismatch",
+              existingCustomerId: customerMatch.id,
+              existingCustomerName: customerMatch.full_name,
+              existingCustomerEmail: customerMatch.email,
+              confidence: 0.95,
+              candidates: [], enrichableFields: [], rawRow,
+            });
+            continue;
+          }
+
+          confidentCount++;
+          if (confidentRows.length < 50) {
+            confidentRows.push({
+              rowIndex: i + 1, externalId, email, name, phone,
+              category: "email",
+              existingCustomerId: customerMatch.id,
+              existingCustomerName: customerMatch.full_name,
+              existingCustomerEmail: customerMatch.email,
+              confidence: 0.95,
+              candidates: [], enrichableFields: [], rawRow,
+            });
+          }
+          continue;
+        }
+
+        // Email match — customer_sources external_email
+        const foundExt = extEmailMap.get(emailKey);
+        const extMatch =
+          foundExt && !isNeverMatchForIndexedRow(customerIndex, foundExt.customerId, name) ? foundExt : undefined;
+        if (extMatch) {
+          const c = extMatch.customer;
+          if (c && householdPreview([c], "email", 0.9)) continue;
+
+          if (matchDisposition(policy, "email", 0.9) === "review") {
+            reviewRow([c ?? { id: extMatch.customerId, full_name: null, email: null, phone: null }], "email", 0.9);
+            continue;
+          }
+
+          if (c) {
+            const ef = detectEnrichableFields(c, name, email, phone);
+            if (ef.length > 0 && !hasConflictingFields(c, name, email)) {
+              enrichmentCount++;
+              enrichmentRows.push({
+                rowIndex: i + 1, externalId, email, name, phone,
+                category: "enrichment",
+                existingCustomerId: extMatch.customerId,
+                existingCustomerName: c.full_name,
+                existingCustomerEmail: c.email,
+                confidence: 0.9,
+                candidates: [], enrichableFields: ef, rawRow,
+              });
+              continue;
+            }
+
+            // Name mismatch on source email — uses smart matching
+            if (name && c.full_name && !namesMatch(c.full_name, name, c.email)) {
+              nameReviewCount++;
+              nameReviewRows.push({
+                rowIndex: i + 1, externalId, email, name, phone,
+                category: "email_name_mismatch",
+                existingCustomerId: extMatch.customerId,
+                existingCustomerName: c.full_name,
+                existingCustomerEmail: c.email,
+                confidence: 0.9,
+                candidates: [], enrichableFields: [], rawRow,
+              });
+              continue;
+            }
+          }
+
+          confidentCount++;
+          if (confidentRows.length < 50) {
+            confidentRows.push({
+              rowIndex: i + 1, externalId, email, name, phone,
+              category: "email",
+              existingCustomerId: extMatch.customerId,
+              existingCustomerName: c?.full_name ?? null,
+              existingCustomerEmail: c?.email ?? null,
+              confidence: 0.9,
+              candidates: [], enrichableFields: [], rawRow,
+            });
+          }
+          continue;
+        }
+      }
+
+      // 3. Phone match (never-match pairs with the row's name match excluded;
+      // skipped when the policy ignores phones)
+      const normalizedPhone =
+        policy.phone_action === "off"
+          ? null
+          : normalizePhone(phone, phoneCountry(mapped.country, policy.default_phone_country));
+      if (normalizedPhone) {
+        const phoneMatches = excludeNeverMatch(
+          phoneMap.get(normalizedPhone) ?? [],
+          rowCustomerIds(customerIndex, name),
+          doNotMerge
+        );
+        const confidence = phoneConfidence(policy, phoneMatches.length);
+        if (householdPreview(phoneMatches, "phone", confidence)) continue;
+
+        if (phoneMatches.length === 1 && matchDisposition(policy, "phone", confidence) === "auto") {
+          const match = phoneMatches[0];
+          const ef = detectEnrichableFields(match, name, email, phone);
+          if (ef.length > 0 && !hasConflictingFields(match, name, email)) {
+            enrichmentCount++;
+            enrichmentRows.push({
+              rowIndex: i + 1, externalId, email, name, phone,
+              category: "enrichment",
+              existingCustomerId: match.id,
+              existingCustomerName: match.full_name,
+              existingCustomerEmail: match.email,
+              confidence,
+              candidates: [], enrichableFields: ef, rawRow,
+            });
+            continue;
+          }
+          confidentCount++;
+          if (confidentRows.length < 50) {
+            confidentRows.push({
+              rowIndex: i + 1, externalId, email, name, phone,
+              category: "phone",
+              existingCustomerId: match.id,
+              existingCustomerName: match.full_name,
+              existingCustomerEmail: match.email,
+              confidence,
+              candidates: [], enrichableFields: [], rawRow,
+            });
+          }
+          continue;
+        }
+
+        // Several customers share the phone, or the policy only flags phones
+        if (phoneMatches.length > 0) {
+          reviewRow(phoneMatches, "phone", confidence);
+          continue;
+        }
+      }
+
+      // 4. Name match — same or close name (unless the policy ignores name-only matches)
+      if (name && policy.name_action !== "off") {
+        const nameResult = namePreviewResult(findNameCandidates(nameKeyMap, name).slice(0, 5), email, policy.email_rules);
+        if (nameResult) {
+          uncertainCount++;
+          uncertainRows.push({ rowIndex: i + 1, externalId, email, name, phone, ...nameResult, rawRow });
+          continue;
+        }
+      }
+
+      // 5. No match — new customer
+      newCount++;
+      if (newRows.length < 50) {
+        newRows.push({
+          rowIndex: i + 1, externalId, email, name, phone,
+          category: "new",
+          existingCustomerId: null,
+          existingCustomerName: null,
+          existingCustomerEmail: null,
+          confidence: 0,
+          candidates: [], enrichableFields: [], rawRow,
+        });
+      }
+    }
+
+    rowsProcessed += batch.rows.length;
+    onProgress?.({ rowsProcessed, bytesRead: csv.bytesRead });
+  }
+
+  // ─── Dev-only parity check ──────────────────────────────
+  if (process.env.NODE_ENV === "development") {
+    const sampleRows = [...confidentRows.slice(0, 3), ...uncertainRows.slice(0, 3), ...newRows.slice(0, 4)];
+    const parityChecks = sampleRows.slice(0, 10).map(async (row) => {
+      try {
+        const original = await previewStitchIdentity(
+          admin, orgId, options.source,
+          schema.customerIdField ? (row.rawRow?.[schema.customerIdField] ?? row.externalId) : row.externalId,
+          row.email, row.name, row.phone, policy,
+          row.rawRow ? applyMapping(row.rawRow, options.mapping, transforms).country : null
+        );
+        if (original.category !== row.category) {
+          console.warn(`[parity] row ${row.rowIndex}: fast=${row.category}, original=${original.category}`);
+        }
+      } catch {
+        // Parity check is best-effort
+      }
+    });
+    // Fire and forget — don't block the response
+    Promise.all(parityChecks).catch(() => {});
+  }
+
+  return {
+    summary: {
+      confidentMatches: confidentCount,
+      uncertainMatches: uncertainCount,
+      nameReviewMatches: nameReviewCount,
+      newCustomers: newCount,
+      duplicateRows: duplicateCount,
+      enrichments: enrichmentCount,
+      flaggedCount,
+      totalValidRows: totalValid,
+    },
+    uncertainRows,
+    nameReviewRows,
+    confidentRows,
+    newRows,
+    duplicateRows,
+    enrichmentRows,
+    flaggedRows,
+    warnings: allWarnings.slice(0, MAX_PREVIEW_WARNINGS),
+  };
+}
+
+/**
+ * Full CSV import: map, validate, stitch identities, write to DB — one
+ * batch of rows at a time, so only the current batch is held in memory.
+ * Reports progress after each batch.
+ */
+export async function runImport(
+  admin: SupabaseClient,
+  ctx: OrgContext,
+  options: ImportOptions,
+  csv: CSVStream,
+  onProgress?: (progress: CSVProgress) => void
+): Promise<ImportResultDetailed> {
+  const { userId, orgId } = ctx;
+
+  const schema = await loadSourceSchema(admin, orgId, resolveSchemaKey(options.source, csv.headers, options.schemaKey));
+  if (!schema) throw new Error(`Unknown source: ${options.source}`);
+
+  // Get mapping (and the date settings saved with it)
+  let mapping = options.mapping;
+  let { dateFormat, timezone } = options;
+  let transforms = options.transforms ?? {};
+  assertValidTransforms(transforms);
+  let valueMappings = options.valueMappings ?? {};
+  assertValidValueMappings(valueMappings, schema);
+  let templateProblems: string[] = [];
+  if (!mapping) {
+    const savedMapping = await findMatchingSavedMapping(
+      admin,
+      orgId,
+      options.source,
+      csv.headers
+    );
+    if (savedMapping) {
+      mapping = savedMapping.mapping;
+      transforms = savedMapping.transforms;
+      // Entries the schema no longer allows are dropped and reported
+      ({ valueMappings, problems: templateProblems } = validValueMappings(savedMapping.value_mappings, schema));
+      dateFormat ??= savedMapping.date_format ?? undefined;
+      timezone ??= savedMapping.timezone ?? undefined;
+    } else {
+      const suggestions = generateMappingSuggestions(
+        csv.headers,
+        schema,
+        csv.sampleRows
+      );
+      mapping = suggestionsToMapping(suggestions);
+    }
+  }
+  // Shopify writes a row per line item — import one payment per order
+  if (options.source === "shopify") csv = groupOrderStream(csv, mapping);
+
+  // Merge targets come from the client — reject any outside the active org
+  const targetIds = new Set<string>();
+  for (const d of Object.values(options.stitchDecisions ?? {})) {
+    if ("targetCustomerId" in d) targetIds.add(d.targetCustomerId);
+  }
+  if (targetIds.size > 0) {
+    const { count } = await admin
+      .from("customers")
+      .select("id", { count: "exact", head: true })
+      .eq("org_id", orgId)
+      .in("id", Array.from(targetIds));
+    if ((count ?? 0) !== targetIds.size) {
+      throw new Error("Merge target not found in this organization");
+    }
+  }
+
+  // Create import_history record
+  const { data: importRecord, error: importError } = await admin
+    .from("import_history")
+    .insert({
+      org_id: orgId,
+      source: options.source,
+      file_name: options.fileName,
+      status: "processing",
+      column_mapping: packMapping(mapping, { transforms, valueMappings }),
+      imported_by: userId,
+      started_at: new Date().toISOString(),
+    })
+    .select("id")
+    .single();
+
+  if (importError)
+    throw new Error(`Failed to create import record: ${importError.message}`);
+
+  const importId = importRecord.id;
+  let importedRows = 0;
+  let skippedRows = 0;
+  let errorRows = 0;
+  let totalRows = 0;
+  const errors: ValidationError[] = [];
+  // Every row can carry a warning — keep the first MAX_IMPORT_ERRORS
+  const recordError = (...entries: ValidationError[]) => {
+    if (errors.length < MAX_IMPORT_ERRORS) errors.push(...entries);
+  };
+
+  // Date order and timezone — attribution dates follow its sub-type schema
+  const dateSchema = options.source === "attribution"
+    ? getSchema(options.schemaKey ?? detectAttributionSubtype(csv.headers)) ?? schema
+    : schema;
+  const { dateOptions, warnings: dateWarnings } = resolveImportDates(dateFormat, timezone, dateSchema, mapping, transforms, csv);
+  recordError(...dateWarnings);
+  recordError(...templateProblems.map((problem) => ({
+    row: 0,
+    field: "",
+    message: `Saved template value mapping ignored — ${problem}`,
+    severity: "warning" as const,
+  })));
+
+  // Detailed counters
+  let matchedByExternalId = 0;
+  let matchedByEmail = 0;
+  let matchedByPhone = 0;
+  let newCustomersCreated = 0;
+  let duplicateRowsSkipped = 0;
+  let userSkippedRows = 0;
+  let conflictsCreated = 0;
+  let enrichedCount = 0;
+
+  const decisions = options.stitchDecisions ?? {};
+
+  // Pre-load all customer data into in-memory indexes (2 queries total)
+  const customerIndex = await buildCustomerIndex(admin, orgId);
+
+  // Batches are consumed by exactly one of the paths below
+  const reportProgress = (rows: number) => {
+    totalRows += rows;
+    onProgress?.({ rowsProcessed: totalRows, bytesRead: csv.bytesRead });
+  };
+
+  // ─── CRM import path ────────────────────────────────────
+  if (options.source === "crm") {
+    // Collect CRM enrichment records for batch insert, flushed per batch
+    const crmBatch: Record<string, unknown>[] = [];
+
+    for await (const batch of csv.batches) {
+      for (let j = 0; j < batch.rows.length; j++) {
+        const i = batch.firstRow - 1 + j;
+        const rawRow = batch.rows[j];
+        const mapped = applyMapping(rawRow, mapping, transforms);
+        const { errors: rowErrors, warnings: rowWarnings } = validateMappedRow(mapped, schema, i + 1, customerIndex.policy.default_phone_country, dateOptions);
+        if (rowErrors.length > 0) { recordError(...rowErrors); errorRows++; continue; }
+
+        const email = mapped.email ?? null;
+        const phone = mapped.phone ?? null;
+        const memberId = mapped.member_id ?? null;
+        const name = mapped.full_name ?? null;
+
+        // Row-level identifier check
+        if (!email && !phone && !memberId) {
+          const context = rowWarnings.filter((w) => w.field === "email" && w.value).map((w) => w.value).join(", ");
+          const msg = context
+            ? `No usable identifier — email stripped (possible typo: ${context})`
+            : "No usable identifier (need email, phone, or member_id)";
+          recordError({ row: i + 1, field: "", message: msg });
+          errorRows++;
+          continue;
+        }
+
+        // Push warnings only for rows that will actually be imported
+        if (rowWarnings.length > 0) recordError(...rowWarnings.map((w) => ({ ...w, severity: "warning" as const })));
+
+        try {
+          const { customerId, isNew } = await matchCRMCustomerFast(
+            admin, customerIndex, email, phone, memberId, name, mapped.country ?? null
+          );
+          if (isNew) newCustomersCreated++;
+          else matchedByEmail++;
+
+          // Build enrichment fields (fill-null-only)
+          const enrichedFields: Record<string, string | number> = {};
+          const updates: Record<string, unknown> = {};
+
+          // Fetch extended CRM fields from DB (index only has basic fields)
+          const { data: current } = await admin
+            .from("customers")
+            .select("full_name, email, phone, last_visit_date, classes_remaining, membership_status, referral_source, country, notes, occupation, skill_level, member_type, join_date, preferred_currency, preferred_time_slot, name_source")
+            .eq("id", customerId)
+            .single();
+
+          if (current) {
+            // CRM has highest name priority — always overwrite name if different
+            if (name && (!current.full_name || current.full_name !== name)) {
+              updates.full_name = name; updates.name_source = "crm"; enrichedFields.full_name = name;
+            }
+            if (!current.email && email) { updates.email = email; enrichedFields.email = email; }
+            if (!current.phone && phone) { updates.phone = phone; enrichedFields.phone = phone; }
+            if (!current.last_visit_date && mapped.last_visit_date) { updates.last_visit_date = mapped.last_visit_date; enrichedFields.last_visit_date = mapped.last_visit_date; }
+            if (current.classes_remaining == null && mapped.classes_remaining) {
+              const val = parseInt(mapped.classes_remaining, 10);
+              if (!isNaN(val)) { updates.classes_remaining = val; enrichedFields.classes_remaining = val; }
+            }
+            if (!current.membership_status && mapped.membership_status) { updates.membership_status = mapped.membership_status; enrichedFields.membership_status = mapped.membership_status; }
+            if (!current.referral_source && mapped.referral_source) { updates.referral_source = mapped.referral_source; enrichedFields.referral_source = mapped.referral_source; }
+            if (!current.country && mapped.country) { updates.country = mapped.country; enrichedFields.country = mapped.country; }
+            if (!current.notes && mapped.notes) { updates.notes = mapped.notes; enrichedFields.notes = mapped.notes; }
+            if (!current.occupation && mapped.occupation) { updates.occupation = mapped.occupation; enrichedFields.occupation = mapped.occupation; }
+            if (!current.skill_level && mapped.skill_level) { updates.skill_level = mapped.skill_level; enrichedFields.skill_level = mapped.skill_level; }
+            if (!current.member_type && mapped.member_type) { updates.member_type = mapped.member_type; enrichedFields.member_type = mapped.member_type; }
+            if (!current.join_date && mapped.join_date) { updates.join_date = mapped.join_date; enrichedFields.join_date = mapped.join_date; }
+            if (!current.preferred_currency && mapped.preferred_currency) { updates.preferred_currency = mapped.preferred_currency; enrichedFields.preferred_currency = mapped.preferred_currency; }
+            if (!current.preferred_time_slot && mapped.preferred_time_slot) { updates.preferred_time_slot = mapped.preferred_time_slot; enrichedFields.preferred_time_slot = mapped.preferred_time_slot; }
+
+            if (Object.keys(updates).length > 0) {
+              await admin.from("customers").update({ ...updates, updated_at: new Date().toISOString() }).eq("id", customerId);
+              enrichedCount++;
+            }
+          }
+
+          // Collect for batch insert
+          crmBatch.push({
+            org_id: orgId,
+            customer_id: customerId,
+            import_id: importId,
+            enriched_fields: enrichedFields,
+            raw_data: rawRow,
+          });
+        } catch (err) {
+          recordError({ row: i + 1, field: "", message: err instanceof Error ? err.message : "Unknown error" });
+          errorRows++;
+        }
+      }
+
+      // Batch insert CRM enrichment records
+      for (let b = 0; b < crmBatch.length; b += CRM_BATCH_SIZE) {
+        const chunk = crmBatch.slice(b, b + CRM_BATCH_SIZE);
+        const { error: batchErr } = await admin.from("crm_enrichments").insert(chunk);
+        if (batchErr) {
+          for (const rec of chunk) {
+            const { error: rowErr } = await admin.from("crm_enrichments").insert(rec);
+            if (rowErr) errorRows++;
+            else importedRows++;
+          }
+        } else {
+          importedRows += chunk.length;
+        }
+      }
+      crmBatch.length = 0;
+      reportProgress(batch.rows.length);
+    }
+  }
+  // ─── Attribution import path ─────────────────────────────
+  else if (options.source === "attribution") {
+    // Determine attribution sub-type
+    const resolvedSchemaKey = options.schemaKey ?? detectAttributionSubtype(csv.headers);
+    const attrSchema = getSchema(resolvedSchemaKey) ?? schema;
+    const isJourneys = resolvedSchemaKey === "attribution_journeys";
+    const attributionType = isJourneys ? "touchpoint" : "summary";
+
+    // Preload customer data for fast in-memory matching
+    const { data: attrCustomers } = await admin
+      .from("customers")
+      .select("id, email, phone, full_name, name_source, country")
+      .eq("org_id", orgId);
+
+    const defaultPhoneCountry = customerIndex.policy.default_phone_country;
+    const attrEmailIndex = new Map<string, { id: string; full_name: string | null; name_source: string | null }>();
+    const attrPhoneIndex = new Map<string, string>();
+
+    if (attrCustomers) {
+      for (const c of attrCustomers) {
+        if (c.email) attrEmailIndex.set(c.email.trim().toLowerCase(), { id: c.id, full_name: c.full_name, name_source: c.name_source });
+        const norm = normalizePhone(c.phone, phoneCountry(c.country, defaultPhoneCountry));
+        if (norm) attrPhoneIndex.set(norm, c.id);
+      }
+    }
+
+    // Batch name updates: collect all unique name updates first, then apply in one pass
+    const nameUpdates = new Map<string, { id: string; name: string }>();
+    // Collect new customers to batch-create
+    const newCustomerRows: { email: string | null; name: string | null; phone: string | null; rowIndex: number }[] = [];
+    // Collect attribution records for batch insert
+    const attrBatch: Record<string, unknown>[] = [];
+    // Track which rows succeeded for counting
+    const rowResults: { rowIndex: number; isNew: boolean }[] = [];
+
+    for await (const batch of csv.batches) {
+      for (let j = 0; j < batch.rows.length; j++) {
+        const i = batch.firstRow - 1 + j;
+        const rawRow = batch.rows[j];
+        const mapped = applyMapping(rawRow, mapping, transforms);
+        const { errors: rowErrors, warnings: rowWarnings } = validateMappedRow(mapped, attrSchema, i + 1, customerIndex.policy.default_phone_country, dateOptions);
+        if (rowErrors.length > 0) { recordError(...rowErrors); errorRows++; continue; }
+
+        const email = mapped.email ?? null;
+        const phone = mapped.phone ?? null;
+        const name = mapped.full_name ?? null;
+
+        // Row-level identifier check
+        if (!email && !phone) {
+          const context = rowWarnings.filter((w) => w.field === "email" && w.value).map((w) => w.value).join(", ");
+          const msg = context
+            ? `No usable identifier — email stripped (possible typo: ${context})`
+            : "No usable identifier (need email or phone)";
+          recordError({ row: i + 1, field: "", message: msg });
+          errorRows++;
+          continue;
+        }
+
+        // Push warnings only for rows that will actually be imported
+        if (rowWarnings.length > 0) recordError(...rowWarnings.map((w) => ({ ...w, severity: "warning" as const })));
+
+        let customerId: string | null = null;
+        let isNew = false;
+
+        // 1. Email match (in-memory)
+        if (email) {
+          const key = email.trim().toLowerCase();
+          const match = attrEmailIndex.get(key);
+          if (match) {
+            customerId = match.id;
+            if (name && (!match.full_name || shouldUpdateName(match.name_source, "attribution"))) {
+              nameUpdates.set(match.id, { id: match.id, name });
+              attrEmailIndex.set(key, { ...match, full_name: name, name_source: "attribution" });
+            }
+          }
+        }
+
+        // 2. Phone match (in-memory)
+        if (!customerId && phone) {
+          const norm = normalizePhone(phone, defaultPhoneCountry);
+          if (norm) {
+            const matchId = attrPhoneIndex.get(norm);
+            if (matchId) customerId = matchId;
+          }
+        }
+
+        // 3. No match — create new customer (sequential, needed for customer_id)
+        if (!customerId) {
+          const { data: newCust, error: newCustErr } = await admin
+            .from("customers")
+            .insert({
+              org_id: orgId,
+              email,
+              full_name: name,
+              phone: phone ?? null,
+              name_source: name ? "attribution" : null,
+            })
+            .select("id")
+            .single();
+          if (newCustErr) {
+            recordError({ row: i + 1, field: "", message: `Failed to create customer: ${newCustErr.message}` });
+            errorRows++;
+            continue;
+          }
+          const newId = newCust.id;
+          customerId = newId;
+          isNew = true;
+          if (email) attrEmailIndex.set(email.trim().toLowerCase(), { id: newId, full_name: name, name_source: "attribution" });
+          if (phone) {
+            const norm = normalizePhone(phone, defaultPhoneCountry);
+            if (norm) attrPhoneIndex.set(norm, newId);
+          }
+        }
+
+        rowResults.push({ rowIndex: i + 1, isNew });
+
+        // Build insert record
+        const insertRecord: Record<string, unknown> = {
+          org_id: orgId,
+          customer_id: customerId,
+          import_id: importId,
+          attribution_type: attributionType,
+          conversion_id: mapped.conversion_id ?? null,
+          conversion_source: mapped.conversion_source ?? null,
+          full_name: name,
+          product: mapped.product ?? null,
+          revenue_usd: mapped.revenue_usd ? (parseCurrency(mapped.revenue_usd) ?? null) : null,
+          conversion_date: mapped.conversion_date ?? null,
+          first_touch_channel: mapped.first_touch_channel ?? null,
+          referral_source: mapped.referral_source ?? null,
+          campaign: mapped.campaign ?? mapped.first_touch_campaign ?? null,
+          acquisition_date: mapped.acquisition_date ?? mapped.conversion_date ?? null,
+          raw_data: rawRow,
+        };
+
+        if (isJourneys) {
+          insertRecord.touch_id = mapped.touch_id ?? null;
+          insertRecord.touch_number = mapped.touch_number ? parseInt(mapped.touch_number, 10) || null : null;
+          insertRecord.total_touches = mapped.total_touches ? parseInt(mapped.total_touches, 10) || null : null;
+          insertRecord.touch_position = mapped.touch_position ?? null;
+          insertRecord.channel = mapped.channel ?? null;
+          insertRecord.utm_source = mapped.utm_source ?? null;
+          insertRecord.utm_medium = mapped.utm_medium ?? null;
+          insertRecord.utm_campaign = mapped.utm_campaign ?? null;
+          insertRecord.referrer = mapped.referrer ?? null;
+          insertRecord.touch_date = mapped.touch_date ?? null;
+          insertRecord.days_before_conversion = mapped.days_before_conversion ? parseInt(mapped.days_before_conversion, 10) || null : null;
+          insertRecord.first_touch_credit = mapped.first_touch_credit ? (parseCurrency(mapped.first_touch_credit) ?? null) : null;
+          insertRecord.first_touch_revenue = mapped.first_touch_revenue ? (parseCurrency(mapped.first_touch_revenue) ?? null) : null;
+        } else {
+          insertRecord.n_touchpoints = mapped.n_touchpoints ? parseInt(mapped.n_touchpoints, 10) || null : null;
+          insertRecord.journey_span_days = mapped.journey_span_days ? parseInt(mapped.journey_span_days, 10) || null : null;
+          insertRecord.first_touch_utm_source = mapped.first_touch_utm_source ?? null;
+          insertRecord.first_touch_utm_medium = mapped.first_touch_utm_medium ?? null;
+          insertRecord.first_touch_campaign = mapped.first_touch_campaign ?? null;
+          insertRecord.first_touch_referrer = mapped.first_touch_referrer ?? null;
+          insertRecord.first_touch_date = mapped.first_touch_date ?? null;
+          insertRecord.last_touch_channel = mapped.last_touch_channel ?? null;
+          insertRecord.last_touch_utm_source = mapped.last_touch_utm_source ?? null;
+          insertRecord.last_touch_date = mapped.last_touch_date ?? null;
+          insertRecord.attributed_revenue_usd = mapped.attributed_revenue_usd ? (parseCurrency(mapped.attributed_revenue_usd) ?? null) : null;
+        }
+
+        attrBatch.push(insertRecord);
+      }
+
+      // Batch insert attribution records in chunks of 200
+      for (let b = 0; b < attrBatch.length; b += ATTRIBUTION_BATCH_SIZE) {
+        const chunk = attrBatch.slice(b, b + ATTRIBUTION_BATCH_SIZE);
+        const { error: batchErr } = await admin.from("customer_attribution").insert(chunk);
+        if (batchErr) {
+          // Fallback: insert individually to find which rows fail
+          for (let j = 0; j < chunk.length; j++) {
+            const { error: rowErr } = await admin.from("customer_attribution").insert(chunk[j]);
+            if (rowErr) {
+              recordError({ row: rowResults[b + j].rowIndex, field: "", message: rowErr.message });
+              errorRows++;
+            } else {
+              importedRows++;
+            }
+          }
+        } else {
+          importedRows += chunk.length;
+        }
+      }
+
+      // Count match types
+      for (const r of rowResults) {
+        if (r.isNew) newCustomersCreated++;
+        else matchedByEmail++;
+      }
+      attrBatch.length = 0;
+      rowResults.length = 0;
+      reportProgress(batch.rows.length);
+    }
+
+    // Batch name updates (parallel)
+    if (nameUpdates.size > 0) {
+      const updatePromises = Array.from(nameUpdates.values()).map(({ id, name: n }) =>
+        admin.from("customers").update({
+          full_name: n, name_source: "attribution", updated_at: new Date().toISOString(),
+        }).eq("id", id)
+      );
+      await Promise.all(updatePromises);
+    }
+  }
+  // ─── Transaction import path (existing) ──────────────────
+  else {
+  for await (const batch of csv.batches) {
+    // Pre-resolve FX rates for all rows in batch
+    const fxPairs: { currency: string; date: string }[] = [];
+    for (const rawRow of batch.rows) {
+      const mapped = applyMapping(rawRow, mapping, transforms);
+      const cur = (mapped.currency ?? "USD").toUpperCase().trim() || "USD";
+      const dateStr = mapped.payment_date ?? mapped.booking_date ?? "";
+      const parsedDate = parseTimestamp(dateStr, dateOptions);
+      const dateOnly = parsedDate ? parsedDate.split("T")[0] : new Date().toISOString().split("T")[0];
+      if (cur !== "USD") {
+        fxPairs.push({ currency: cur, date: dateOnly });
+      }
+    }
+    const rateMap = fxPairs.length > 0 ? await resolveRates(admin, fxPairs) : new Map<string, number>();
+
+    for (let j = 0; j < batch.rows.length; j++) {
+      const i = batch.firstRow - 1 + j;
+      const rawRow = batch.rows[j];
+      const mapped = applyMapping(rawRow, mapping, transforms);
+      if (mapped.status) {
+        mapped.status = normalizeStatus(mapped.status, options.source, valueMappings.status);
+      }
+      const { errors: rowErrors, warnings: rowWarnings } = validateMappedRow(mapped, schema, i + 1, customerIndex.policy.default_phone_country, dateOptions);
+
+      // Collect warnings (stripped emails etc.) — row still imports
+      if (rowWarnings.length > 0) {
+        recordError(...rowWarnings.map((w) => ({ ...w, severity: "warning" as const })));
+      }
+
+      if (rowErrors.length > 0) {
+        recordError(...rowErrors);
+        errorRows++;
+        continue;
+      }
+
+      try {
+        const externalId = mapped[schema.idField] ?? "";
+        const email = mapped[schema.emailField] ?? null;
+        const name = schema.nameField ? (mapped[schema.nameField] ?? null) : null;
+        const phone = schema.phoneField ? (mapped[schema.phoneField] ?? null) : null;
+
+        // Use customerIdField (e.g. membership_id for POS, stripe customer ID) as stitch key
+        const stitchExternalId =
+          schema.customerIdField
+            ? (mapped[schema.customerIdField] ?? externalId)
+            : externalId;
+
+        // Check for user skip decision
+        const decision = decisions[i + 1]; // decisions are keyed by 1-based row index
+        if (decision && decision.action === "skip") {
+          userSkippedRows++;
+          skippedRows++;
+          continue;
+        }
+
+        // Determine forceCustomerId and enrichFields from user decisions
+        let forceId: string | undefined;
+        let enrichFields: { full_name?: string; email?: string; phone?: string } | undefined;
+        let forceNameUpdate: string | undefined;
+
+        if (decision) {
+          if (decision.action === "merge") {
+            forceId = decision.targetCustomerId;
+          } else if (decision.action === "merge_keep_name") {
+            forceId = decision.targetCustomerId;
+          } else if (decision.action === "merge_update_name") {
+            forceId = decision.targetCustomerId;
+            if (name) forceNameUpdate = name;
+          } else if (decision.action === "accept_enrichment") {
+            forceId = decision.targetCustomerId;
+            // Build enrichment fields from the CSV row data
+            enrichFields = {};
+            if (name) enrichFields.full_name = name;
+            if (email) enrichFields.email = email;
+            if (phone) enrichFields.phone = phone;
+            enrichedCount++;
+          }
+        }
+
+        // Stitch identity (fast in-memory lookups)
+        const { customerId, isNew, matchedBy } = await stitchIdentityFast(
+          admin,
+          customerIndex,
+          options.source,
+          stitchExternalId,
+          email,
+          name,
+          phone,
+          forceId,
+          enrichFields,
+          forceNameUpdate,
+          importId,
+          mapped.country ?? null
+        );
+
+        // Track match type
+        if (forceId && !enrichFields) {
+          matchedByEmail++; // User-forced merges count as manual match
+        } else if (isNew) {
+          newCustomersCreated++;
+          // A new customer with a match signal was flagged for review
+          if (matchedBy !== "none") conflictsCreated++;
+        } else if (matchedBy === "external_id") {
+          matchedByExternalId++;
+        } else if (matchedBy === "email") {
+          matchedByEmail++;
+        } else if (matchedBy === "phone") {
+          matchedByPhone++;
+        }
+
+        // Insert into source-specific table (with FX conversion)
+        const inserted = await insertSourceRow(
+          admin,
+          orgId,
+          options.source,
+          schema,
+          mapped,
+          customerId,
+          importId,
+          rawRow,
+          rateMap,
+          dateOptions
+        );
+
+        if (inserted) {
+          importedRows++;
+        } else {
+          duplicateRowsSkipped++;
+          skippedRows++;
+        }
+      } catch (err) {
+        const message =
+          err instanceof Error ? err.message : "Unknown error";
+        recordError({
+          row: i + 1,
+          field: "",
+          message,
+        });
+        errorRows++;
+      }
+    }
+
+    reportProgress(batch.rows.length);
+  }
+  } // end transaction path
+
+  // Update import record
+  const finalStatus =
+    errorRows === totalRows
+      ? "failed"
+      : importedRows === 0
+        ? "skipped"
+        : "completed";
+
+  await admin
+    .from("import_history")
+    .update({
+      file_size_bytes: csv.bytesRead,
+      total_rows: totalRows,
+      imported_rows: importedRows,
+      skipped_rows: skippedRows,
+      error_rows: errorRows,
+      status: finalStatus,
+      errors: errors.length > 0 ? errors.slice(0, 100) : null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", importId);
+
+  // Post-import conflict detection (uses index for fast name lookups). The
+  // rows are already committed, so a failure is reported, not thrown
+  let conflictDetectionError: string | null = null;
+  try {
+    conflictsCreated += await detectPostImportConflicts(admin, orgId, importId, customerIndex);
+  } catch (err) {
+    conflictDetectionError = err instanceof Error ? err.message : "Unknown error";
+    console.error(`Post-import conflict detection failed: ${conflictDetectionError}`);
+  }
+
+  const importCustomerIds = await getImportCustomerIds(admin, orgId, importId).catch((err) => {
+    console.error(`[audit] ${err instanceof Error ? err.message : err}`);
+    return [];
+  });
+
+  await recordAuditEvent(admin, ctx, {
+    action: "import.uploaded",
+    entityType: "import",
+    entityId: importId,
+    customerIds: importCustomerIds,
+    details: {
+      file_name: options.fileName,
+      source: options.source,
+      status: finalStatus,
+      total_rows: totalRows,
+      imported_rows: importedRows,
+      skipped_rows: skippedRows,
+      error_rows: errorRows,
+      new_customers: newCustomersCreated,
+      conflicts_created: conflictsCreated,
+      conflict_detection_error: conflictDetectionError,
+    },
+  });
+
+  return {
+    importId,
+    totalRows,
+    importedRows,
+    skippedRows,
+    errorRows,
+    errors,
+    matchedByExternalId,
+    matchedByEmail,
+    matchedByPhone,
+    newCustomersCreated,
+    duplicateRowsSkipped,
+    userSkippedRows,
+    conflictsCreated,
+    enrichedCount,
+    conflictDetectionError,
+  };
+}
+
+/**
+ * Insert a row into the source-specific table.
+ * Returns true if inserted, false if skipped (duplicate).
+ */
+async function insertSourceRow(
+  admin: SupabaseClient,
+  orgId: string,
+  source: SourceType,
+  schema: SourceSchema,
+  mapped: Record<string, string | null>,
+  customerId: string,
+  importId: string,
+  rawRow: Record<string, string>,
+  rateMap: Map<string, number> = new Map(),
+  dateOptions?: DateOptions
+): Promise<boolean> {
+  if (!customerId) {
+    throw new Error(`Cannot insert ${source} row without customer_id (import ${importId})`);
+  }
+
+  if (isCustomSource(source)) {
+    return insertCustomSourceRow(admin, orgId, source, schema, mapped, customerId, importId, rawRow, rateMap, dateOptions);
+  }
+
+  switch (source) {
+    case "stripe": {
+      const amount = parseCurrency(mapped.amount ?? "0") ?? 0;
+      const currency = (mapped.currency ?? "USD").toUpperCase().trim() || "USD";
+      const paymentDate = parseTimestamp(mapped.payment_date ?? "", dateOptions) ?? new Date().toISOString();
+      const dateOnly = paymentDate.split("T")[0];
+      const fx = toUSD(amount, currency, dateOnly, rateMap);
+
+      const { error } = await admin.from("payments").insert({
+        org_id: orgId,
+        customer_id: customerId,
+        import_id: importId,
+        external_payment_id: mapped.external_payment_id,
+        source: "stripe",
+        amount,
+        currency,
+        status: (mapped.status?.toLowerCase() as "succeeded" | "pending" | "failed" | "refunded" | "disputed") ?? "succeeded",
+        payment_date: paymentDate,
+        amount_usd: fx.amountUsd,
+        fx_rate: fx.rate,
+        fx_rate_date: fx.rateDate,
+        fx_source: fx.source,
+        raw_data: rawRow,
+      });
+
+      if (error) {
+        if (error.code === "23505") return false;
+        throw new Error(`Payment insert failed: ${error.message}`);
+      }
+      return true;
+    }
+
+    case "pos": {
+      const amount = parseCurrency(mapped.amount ?? "0") ?? 0;
+      const currency = (mapped.currency ?? "USD").toUpperCase().trim() || "USD";
+      const paymentDate = parseTimestamp(mapped.payment_date ?? "", dateOptions) ?? new Date().toISOString();
+      const dateOnly = paymentDate.split("T")[0];
+      const fx = toUSD(amount, currency, dateOnly, rateMap);
+
+      const { error } = await admin.from("payments").insert({
+        org_id: orgId,
+        customer_id: customerId,
+        import_id: importId,
+        external_payment_id: mapped.external_payment_id,
+        source: "pos",
+        amount,
+        currency,
+        status: (mapped.status?.toLowerCase() as "approved" | "succeeded" | "pending" | "failed" | "refunded" | "void") ?? "approved",
+        payment_date: paymentDate,
+        payment_type: mapped.payment_type ?? null,
+        amount_usd: fx.amountUsd,
+        fx_rate: fx.rate,
+        fx_rate_date: fx.rateDate,
+        fx_source: fx.source,
+        raw_data: rawRow,
+      });
+
+      if (error) {
+        if (error.code === "23505") return false;
+        throw new Error(`POS payment insert failed: ${error.message}`);
+      }
+      return true;
+    }
+
+    case "shopify": {
+      const amount = parseCurrency(mapped.amount ?? "0") ?? 0;
+      const currency = (mapped.currency ?? "USD").toUpperCase().trim() || "USD";
+      const paymentDate = parseTimestamp(mapped.payment_date ?? "", dateOptions) ?? new Date().toISOString();
+      const dateOnly = paymentDate.split("T")[0];
+      const fx = toUSD(amount, currency, dateOnly, rateMap);
+      const discountCodes = parseDiscountCodes(mapped.discount_codes);
+
+      const { error } = await admin.from("payments").insert({
+        org_id: orgId,
+        customer_id: customerId,
+        import_id: importId,
+        external_payment_id: mapped.external_payment_id,
+        source: "shopify",
+        amount,
+        currency,
+        status: (mapped.status?.toLowerCase() as "succeeded" | "pending" | "failed" | "refunded" | "void") ?? "succeeded",
+        payment_date: paymentDate,
+        payment_type: mapped.payment_type ?? null,
+        line_items: shopifyLineItems(rawRow),
+        discount_codes: discountCodes.length > 0 ? discountCodes : null,
+        ...landingSiteUtm(mapped.landing_site),
+        amount_usd: fx.amountUsd,
+        fx_rate: fx.rate,
+        fx_rate_date: fx.rateDate,
+        fx_source: fx.source,
+        raw_data: rawRow,
+      });
+
+      if (error) {
+        if (error.code === "23505") return false;
+        throw new Error(`Shopify payment insert failed: ${error.message}`);
+      }
+      return true;
+    }
+
+    case "square": {
+      const amount = parseCurrency(mapped.amount ?? "0") ?? 0;
+      const currency = (mapped.currency ?? "USD").toUpperCase().trim() || "USD";
+      const paymentDate = parseTimestamp(mapped.payment_date ?? "", dateOptions) ?? new Date().toISOString();
+      const dateOnly = paymentDate.split("T")[0];
+      const fx = toUSD(amount, currency, dateOnly, rateMap);
+
+      const { error } = await admin.from("payments").insert({
+        org_id: orgId,
+        customer_id: customerId,
+        import_id: importId,
+        external_payment_id: mapped.external_payment_id,
+        source: "square",
+        amount,
+        currency,
+        status: (mapped.status?.toLowerCase() as "succeeded" | "pending" | "failed" | "refunded" | "void") ?? "succeeded",
+        payment_date: paymentDate,
+        payment_type: mapped.payment_type ?? null,
+        amount_usd: fx.amountUsd,
+        fx_rate: fx.rate,
+        fx_rate_date: fx.rateDate,
+        fx_source: fx.source,
+        raw_data: rawRow,
+      });
+
+      if (error) {
+        if (error.code === "23505") return false;
+        throw new Error(`Square payment insert failed: ${error.message}`);
+      }
+      return true;
+    }
+
+    case "mindbody": {
+      // Class visits export → attendance
+      if (schema.idField === "external_attendance_id") {
+        const { error } = await admin.from("attendance").insert({
+          org_id: orgId,
+          customer_id: customerId,
+          import_id: importId,
+          external_attendance_id: mapped.external_attendance_id,
+          source: "mindbody",
+          event_name: mapped.event_name,
+          check_in_time: parseTimestamp(mapped.check_in_time ?? "", dateOptions) ?? new Date().toISOString(),
+          ticket_type: mapped.ticket_type ?? null,
+          raw_data: rawRow,
+        });
+
+        if (error) {
+          if (error.code === "23505") return false;
+          throw new Error(`Mindbody visit insert failed: ${error.message}`);
+        }
+        return true;
+      }
+
+      // Sales export → payments
+      const amount = parseCurrency(mapped.amount ?? "0") ?? 0;
+      const currency = (mapped.currency ?? "USD").toUpperCase().trim() || "USD";
+      const paymentDate = parseTimestamp(mapped.payment_date ?? "", dateOptions) ?? new Date().toISOString();
+      const dateOnly = paymentDate.split("T")[0];
+      const fx = toUSD(amount, currency, dateOnly, rateMap);
+
+      const { error } = await admin.from("payments").insert({
+        org_id: orgId,
+        customer_id: customerId,
+        import_id: importId,
+        external_payment_id: mapped.external_payment_id,
+        source: "mindbody",
+        amount,
+        currency,
+        status: "succeeded",
+        payment_date: paymentDate,
+        payment_type: mapped.payment_type ?? null,
+        line_items: mapped.item_name ? [{ name: mapped.item_name, quantity: null, price: amount, sku: null }] : null,
+        amount_usd: fx.amountUsd,
+        fx_rate: fx.rate,
+        fx_rate_date: fx.rateDate,
+        fx_source: fx.source,
+        raw_data: rawRow,
+      });
+
+      if (error) {
+        if (error.code === "23505") return false;
+        throw new Error(`Mindbody sale insert failed: ${error.message}`);
+      }
+      return true;
+    }
+
+    case "calendly": {
+      const { error } = await admin.from("bookings").insert({
+        org_id: orgId,
+        customer_id: customerId,
+        import_id: importId,
+        external_booking_id: mapped.external_booking_id,
+        source: "calendly",
+        event_type: mapped.event_type,
+        start_time: parseTimestamp(mapped.start_time ?? "", dateOptions) ?? new Date().toISOString(),
+        end_time: mapped.end_time ? parseTimestamp(mapped.end_time, dateOptions) : null,
+        status: (mapped.status?.toLowerCase() as "scheduled" | "completed" | "cancelled" | "no_show" | "confirmed" | "rescheduled") ?? "scheduled",
+        raw_data: rawRow,
+      });
+
+      if (error) {
+        if (error.code === "23505") return false;
+        throw new Error(`Booking insert failed: ${error.message}`);
+      }
+      return true;
+    }
+
+    case "wetravel": {
+      // DUAL INSERT: one payment record + one booking record
+      const bookingDate = parseTimestamp(mapped.booking_date ?? "", dateOptions) ?? new Date().toISOString();
+      const bookingId = mapped.external_booking_id;
+      const status = mapped.status?.toLowerCase() ?? "confirmed";
+
+      // 1. Insert into payments (WeTravel is always USD)
+      const wtAmount = parseCurrency(mapped.amount_paid ?? "0") ?? 0;
+      const { error: paymentError } = await admin.from("payments").insert({
+        org_id: orgId,
+        customer_id: customerId,
+        import_id: importId,
+        external_payment_id: bookingId,
+        source: "wetravel",
+        amount: wtAmount,
+        currency: "USD",
+        status: status === "cancelled" ? "refunded" : "succeeded",
+        payment_date: bookingDate,
+        payment_type: mapped.payment_plan_type ?? null,
+        amount_usd: wtAmount,
+        fx_rate: 1,
+        fx_rate_date: bookingDate.split("T")[0],
+        fx_source: "identity",
+        raw_data: rawRow,
+      });
+
+      if (paymentError) {
+        if (paymentError.code === "23505") {
+          // Duplicate — skip both inserts
+          return false;
+        }
+        throw new Error(`WeTravel payment insert failed: ${paymentError.message}`);
+      }
+
+      // 2. Insert into bookings
+      const { error: bookingError } = await admin.from("bookings").insert({
+        org_id: orgId,
+        customer_id: customerId,
+        import_id: importId,
+        external_booking_id: bookingId,
+        source: "wetravel",
+        event_type: mapped.trip_name ?? null,
+        start_time: bookingDate,
+        start_date: mapped.trip_start_date ?? null,
+        end_date: mapped.trip_end_date ?? null,
+        status: status as "confirmed" | "cancelled" | "completed" | "scheduled" | "rescheduled",
+        lead_source_channel: mapped.lead_source_channel ?? null,
+        utm_source: mapped.utm_source ?? null,
+        utm_medium: mapped.utm_medium ?? null,
+        utm_campaign: mapped.utm_campaign ?? null,
+        utm_content: mapped.utm_content ?? null,
+        referrer: mapped.referrer ?? null,
+        referral_partner: mapped.referral_partner ?? null,
+        lead_capture_method: mapped.lead_capture_method ?? null,
+        raw_data: rawRow,
+      });
+
+      if (bookingError) {
+        if (bookingError.code === "23505") {
+          // Booking duplicate — payment already inserted; treat as success
+          // (edge case: payment succeeded but booking was duplicate)
+          return true;
+        }
+        throw new Error(`WeTravel booking insert failed: ${bookingError.message}`);
+      }
+      return true;
+    }
+
+    case "passline": {
+      const { error } = await admin.from("attendance").insert({
+        org_id: orgId,
+        customer_id: customerId,
+        import_id: importId,
+        external_attendance_id: mapped.external_attendance_id,
+        source: "passline",
+        event_name: mapped.event_name,
+        check_in_time: parseTimestamp(mapped.check_in_time ?? "", dateOptions) ?? new Date().toISOString(),
+        ticket_type: mapped.ticket_type ?? null,
+        raw_data: rawRow,
+      });
+
+      if (error) {
+        if (error.code === "23505") return false;
+        throw new Error(`Attendance insert failed: ${error.message}`);
+      }
+      return true;
+    }
+
+    default:
+      throw new Error(`Unknown source: ${source}`);
+  }
+}
+
+/**
+ * Insert a custom source's row into its target table. The target's own
+ * columns come from the fields of the same key; the id field's value is the
+ * external id. Every field stays in raw_data.
+ */
+async function insertCustomSourceRow(
+  admin: SupabaseClient,
+  orgId: string,
+  source: SourceType,
+  schema: SourceSchema,
+  mapped: Record<string, string | null>,
+  customerId: string,
+  importId: string,
+  rawRow: Record<string, string>,
+  rateMap: Map<string, number>,
+  dateOptions?: DateOptions
+): Promise<boolean> {
+  if (!schema.target) throw new Error(`Source ${source} has no target table`);
+  const target = CUSTOM_SOURCE_TARGETS[schema.target];
+  const row: Record<string, unknown> = {
+    org_id: orgId,
+    customer_id: customerId,
+    import_id: importId,
+    [target.idColumn]: mapped[schema.idField],
+    source,
+    raw_data: rawRow,
+  };
+
+  switch (schema.target) {
+    case "payments": {
+      const amount = parseCurrency(mapped.amount ?? "0") ?? 0;
+      const currency = (mapped.currency ?? "USD").toUpperCase().trim() || "USD";
+      const paymentDate = parseTimestamp(mapped.payment_date ?? "", dateOptions) ?? new Date().toISOString();
+      const fx = toUSD(amount, currency, paymentDate.split("T")[0], rateMap);
+      Object.assign(row, {
+        amount,
+        currency,
+        status: mapped.status?.toLowerCase() ?? "succeeded",
+        payment_date: paymentDate,
+        payment_type: mapped.payment_type ?? null,
+        amount_usd: fx.amountUsd,
+        fx_rate: fx.rate,
+        fx_rate_date: fx.rateDate,
+        fx_source: fx.source,
+      });
+      break;
+    }
+    case "bookings":
+      Object.assign(row, {
+        event_type: mapped.event_type ?? null,
+        start_time: parseTimestamp(mapped.start_time ?? "", dateOptions) ?? new Date().toISOString(),
+        end_time: mapped.end_time ? parseTimestamp(mapped.end_time, dateOptions) : null,
+        status: mapped.status?.toLowerCase() ?? "scheduled",
+      });
+      break;
+    case "attendance":
+      Object.assign(row, {
+        event_name: mapped.event_name,
+        check_in_time: parseTimestamp(mapped.check_in_time ?? "", dateOptions) ?? new Date().toISOString(),
+        ticket_type: mapped.ticket_type ?? null,
+      });
+      break;
+  }
+
+  const { error } = await admin.from(schema.target).insert(row);
+  if (error) {
+    if (error.code === "23505") return false;
+    throw new Error(`${schema.label} insert failed: ${error.message}`);
+  }
+  return true;
+}
@@ -3,6 +3,8 @@
  * to our internal enum values.
  */
 
+import type { SchemaField, SourceSchema, ValueMappings } from "@/lib/types";
+
 const PAYMENT_STATUS_MAP: Record<string, string> = {
   succeeded: "succeeded",
   paid: "succeeded",
@@ -21,6 +23,22 @@ const POS_STATUS_MAP: Record<string, string> = {
   void: "void",
 };
 
+const SHOPIFY_STATUS_MAP: Record<string, string> = {
+  ...PAYMENT_STATUS_MAP,
+  authorized: "pending",
+  partially_paid: "pending",
+  voided: "void",
+  expired: "failed",
+};
+
+const SQUARE_STATUS_MAP: Record<string, string> = {
+  ...PAYMENT_STATUS_MAP,
+  completed: "succeeded",
+  canceled: "void",
+  cancelled: "void",
+  voided: "void",
+};
+
 const BOOKING_STATUS_MAP: Record<string, string> = {
   scheduled: "scheduled",
   active: "scheduled",
@@ -41,21 +59,35 @@ const WETRAVEL_STATUS_MAP: Record<string, string> = {
   confirmed: "confirmed",
 };
 
+/** The key a source value is stored under in a value mapping */
+export function valueMappingKey(value: string): string {
+  return value.toLowerCase().trim();
+}
+
 /**
- * Normalize a status value using the appropriate source map.
+ * Normalize a status value: the user's value mapping (saved with the
+ * mapping template) first, then the appropriate source map.
  * Returns the normalized value, or the original value if no mapping exists.
  */
 export function normalizeStatus(
   value: string,
-  source: string
+  source: string,
+  userMap?: Record<string, string>
 ): string {
-  const normalized = value.toLowerCase().trim();
+  const normalized = valueMappingKey(value);
+
+  const mapped = userMap?.[normalized];
+  if (mapped) return mapped;
 
   switch (source) {
     case "stripe":
       return PAYMENT_STATUS_MAP[normalized] ?? normalized;
     case "pos":
       return POS_STATUS_MAP[normalized] ?? normalized;
+    case "shopify":
+      return SHOPIFY_STATUS_MAP[normalized] ?? normalized;
+    case "square":
+      return SQUARE_STATUS_MAP[normalized] ?? normalized;
     case "calendly":
       return BOOKING_STATUS_MAP[normalized] ?? normalized;
     case "wetravel":
@@ -64,3 +96,124 @@ export function normalizeStatus(
       return normalized;
   }
 }
+
+// ─── User value mappings ─────────────────────────────────────
+
+/** Distinct values listed per enum column — more than this isn't an enum */
+const MAX_DISTINCT_VALUES = 50;
+
+export interface EnumValueCount {
+  /** The value as it first appears in the file */
+  value: string;
+  key: string;
+  count: number;
+  /** What the built-in tables make of it, ignoring user mappings */
+  builtIn: string;
+}
+
+export interface EnumColumnValues {
+  field: SchemaField;
+  values: EnumValueCount[];
+  /** More distinct values than were listed */
+  truncated: boolean;
+}
+
+/**
+ * Distinct values of each enum field across mapped rows, most frequent
+ * first, for the value mapping editor.
+ */
+export function collectEnumValues(
+  rows: Record<string, string | null>[],
+  schema: SourceSchema,
+  source: string
+): EnumColumnValues[] {
+  const columns: EnumColumnValues[] = [];
+  for (const field of schema.fields) {
+    if (field.type !== "enum" || !field.enumValues) continue;
+
+    const counts = new Map<string, EnumValueCount>();
+    for (const row of rows) {
+      const value = row[field.key]?.trim();
+      if (!value) continue;
+      const key = valueMappingKey(value);
+      const entry = counts.get(key);
+      if (entry) entry.count++;
+      else counts.set(key, { value, key, count: 1, builtIn: normalizeStatus(value, source) });
+    }
+    if (counts.size === 0) continue;
+
+    const values = [...counts.values()].sort((a, b) => b.count - a.count);
+    columns.push({
+      field,
+      values: values.slice(0, MAX_DISTINCT_VALUES),
+      truncated: values.length > MAX_DISTINCT_VALUES,
+    });
+  }
+  return columns;
+}
+
+/**
+ * Check value mappings (which arrive from the client or a saved template).
+ * With a schema, each field must be an enum field and each target one of
+ * its allowed values.
+ */
+export function validateValueMappings(valueMappings: unknown, schema?: SourceSchema): string[] {
+  if (typeof valueMappings !== "object" || valueMappings === null || Array.isArray(valueMappings)) {
+    return ["value mappings must map fields to values"];
+  }
+  const problems: string[] = [];
+  for (const [fieldKey, values] of Object.entries(valueMappings)) {
+    if (typeof values !== "object" || values === null || Array.isArray(values)) {
+      problems.push(`${fieldKey}: values must map text to text`);
+      continue;
+    }
+    const field = schema?.fields.find((f) => f.key === fieldKey);
+    if (schema && (field?.type !== "enum" || !field.enumValues)) {
+      problems.push(`${fieldKey} is not a field with fixed values`);
+      continue;
+    }
+    for (const [from, to] of Object.entries(values)) {
+      if (typeof to !== "string") {
+        problems.push(`${fieldKey} "${from}": value must be text`);
+      } else if (field?.enumValues && !field.enumValues.includes(to)) {
+        problems.push(`${fieldKey} "${from}": "${to}" is not one of ${field.enumValues.join(", ")}`);
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Split value mappings into the entries validateValueMappings accepts and
+ * the problems with the rest. For saved templates, which can predate a
+ * change to a field's allowed values.
+ */
+export function validValueMappings(
+  valueMappings: ValueMappings,
+  schema: SourceSchema
+): { valueMappings: ValueMappings; problems: string[] } {
+  const valid: ValueMappings = {};
+  const problems: string[] = [];
+  for (const [fieldKey, values] of Object.entries(valueMappings)) {
+    const fieldProblems = validateValueMappings({ [fieldKey]: {} }, schema);
+    if (fieldProblems.length > 0) {
+      problems.push(...fieldProblems);
+      continue;
+    }
+    for (const [from, to] of Object.entries(values)) {
+      const entryProblems = validateValueMappings({ [fieldKey]: { [from]: to } }, schema);
+      if (entryProblems.length > 0) problems.push(...entryProblems);
+      else (valid[fieldKey] ??= {})[from] = to;
+    }
+  }
+  return { valueMappings: valid, problems };
+}
+
+/** Throw on the first problem validateValueMappings finds. */
+export function assertValidValueMappings(
+  valueMappings: unknown,
+  schema: SourceSchema
+): asserts valueMappings is ValueMappings {
+  const problems = validateValueMappings(valueMappings, schema);
+  if (problems.length > 0) throw new Error(`Invalid value mapping — ${problems[0]}`);
+}
@@ -3,9 +3,74 @@ import type { ParseResult, ParseError } from "@/lib/types";
 
 const SAMPLE_SIZE = 5;
 
+/** Largest file the upload page accepts; imports stream it to the server. */
+export const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+const DELIMITERS = [",", ";", "\t", "|"] as const;
+
+export type Delimiter = (typeof DELIMITERS)[number];
+
+/** Lines inspected when detecting the delimiter */
+const DELIMITER_SAMPLE_LINES = 20;
+
+/**
+ * Count each candidate delimiter per line, outside quoted fields, for the
+ * first lines of the file.
+ */
+function delimiterCounts(content: string): Record<Delimiter, number>[] {
+  const lines: Record<Delimiter, number>[] = [];
+  let counts = { ",": 0, ";": 0, "\t": 0, "|": 0 };
+  let inQuotes = false;
+  let lineHasText = false;
+
+  for (let i = 0; i < content.length && lines.length < DELIMITER_SAMPLE_LINES; i++) {
+    const ch = content[i];
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (ch === "\n" || ch === "\r")) {
+      if (lineHasText) lines.push(counts);
+      counts = { ",": 0, ";": 0, "\t": 0, "|": 0 };
+      lineHasText = false;
+      continue;
+    } else if (!inQuotes && ch in counts) {
+      counts[ch as Delimiter]++;
+    }
+    if (ch.trim()) lineHasText = true;
+  }
+  if (lineHasText && lines.length < DELIMITER_SAMPLE_LINES) lines.push(counts);
+  return lines;
+}
+
+/**
+ * Pick the delimiter of a CSV/TSV/semicolon file from its first lines: the
+ * candidate that splits the header and then splits the most rows into the
+ * same number of fields. Semicolon files with decimal commas ("1.250,00")
+ * resolve to ";" because the header has no commas. Defaults to ",".
+ */
+export function detectDelimiter(content: string): Delimiter {
+  const lines = delimiterCounts(content);
+  if (lines.length === 0) return ",";
+
+  let best: Delimiter = ",";
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const headerCount = lines[0][delimiter];
+    if (headerCount === 0) continue;
+    const consistent = lines.filter((l) => l[delimiter] === headerCount).length;
+    // Consistency first, then more fields
+    const score = consistent / lines.length + headerCount / 1000;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
 export function parseCSVContent(content: string): ParseResult {
   const result = Papa.parse<Record<string, string>>(content, {
     header: true,
+    delimiter: detectDelimiter(content),
     skipEmptyLines: "greedy",
     transformHeader: (header: string) => header.trim(),
   });
@@ -0,0 +1,80 @@
+/**
+ * Read an uploaded file into delimited text for parseCSVContent. CSV, TSV
+ * and other delimited text arrive in whatever encoding the exporting tool
+ * used; .xlsx workbooks are converted sheet by sheet. Either way the result
+ * is UTF-8 text, so detection, mapping and the streamed import only ever
+ * see one format.
+ */
+
+import Papa from "papaparse";
+import { decodeText, type TextEncodingName } from "./encoding";
+import { readWorkbook } from "./xlsx";
+
+/** File types the upload flow accepts. */
+export const UPLOAD_FILE_EXTENSIONS = [".csv", ".tsv", ".txt", ".xlsx"] as const;
+
+/** Value for a file input's `accept` attribute */
+export const UPLOAD_FILE_ACCEPT = UPLOAD_FILE_EXTENSIONS.join(",");
+
+export function isSupportedUploadFile(name: string): boolean {
+  const lower = name.toLowerCase();
+  return UPLOAD_FILE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+function isWorkbook(name: string): boolean {
+  return name.toLowerCase().endsWith(".xlsx");
+}
+
+export interface UploadFileContents {
+  /** UTF-8 delimited text, ready for parseCSVContent */
+  content: string;
+  /** What to upload: the original file if it is already UTF-8 text, otherwise `content` as a file */
+  file: File;
+  /** Detected text encoding, or null for workbooks */
+  encoding: TextEncodingName | null;
+  /** Visible sheet names, for workbooks */
+  sheets: string[] | null;
+  /** The sheet `content` was read from, for workbooks */
+  sheet: string | null;
+}
+
+function asTextFile(content: string, original: File): File {
+  return new File([content], original.name, { type: "text/csv" });
+}
+
+/**
+ * Read an upload into text.
+ *
+ * 1. Workbooks: read `sheet` (default: the first visible sheet), drop the
+ *    blank rows above the header and write the cells out as CSV
+ * 2. Text: detect the encoding (BOM, UTF-16, UTF-8, else Windows-1252);
+ *    the delimiter is detected later, by the parser
+ */
+export async function readUploadFile(file: File, sheet?: string): Promise<UploadFileContents> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+
+  if (isWorkbook(file.name)) {
+    const workbook = await readWorkbook(bytes);
+    const sheetName = sheet ?? workbook.sheetNames[0];
+    const rows = await workbook.readSheet(sheetName);
+    const firstRow = rows.findIndex((row) => row.length > 0);
+    const content = firstRow === -1 ? "" : Papa.unparse(rows.slice(firstRow), { newline: "\n" });
+
+    return {
+      content,
+      file: asTextFile(content, file),
+      encoding: null,
+      sheets: workbook.sheetNames,
+      sheet: sheetName,
+    };
+  }
+
+  const { text, encoding } = decodeText(bytes);
+  return {
+    content: text,
+    file: encoding === "utf-8" ? file : asTextFile(text, file),
+    encoding,
+    sheets: null,
+    sheet: null,
+  };
+}
@@ -555,6 +555,600 @@ export const POS_SCHEMA: SourceSchema = {
   phoneField: "customer_phone",
 };
 
+export const SHOPIFY_SCHEMA: SourceSchema = {
+  source: "shopify",
+  label: "Shopify Orders",
+  fields: [
+    {
+      key: "external_payment_id",
+      label: "Order",
+      type: "text",
+      required: true,
+      aliases: [
+        "name",
+        "order",
+        "order name",
+        "order_name",
+        "order number",
+        "order_number",
+      ],
+      samplePattern: /^#\d+/,
+      description: "Order name (e.g. #1001) — an order's line item rows share it",
+    },
+    {
+      key: "customer_email",
+      label: "Email",
+      type: "email",
+      required: false,
+      aliases: [
+        "email",
+        "customer email",
+        "customer_email",
+        "contact email",
+      ],
+      description: "Customer email address",
+    },
+    {
+      key: "full_name",
+      label: "Billing Name",
+      type: "text",
+      required: false,
+      aliases: [
+        "billing name",
+        "billing_name",
+        "customer name",
+        "shipping name",
+      ],
+      description: "Name on the billing address",
+    },
+    {
+      key: "customer_phone",
+      label: "Phone",
+      type: "text",
+      required: false,
+      aliases: [
+        "phone",
+        "billing phone",
+        "billing_phone",
+        "shipping phone",
+      ],
+      description: "Customer or billing phone number",
+    },
+    {
+      key: "amount",
+      label: "Total",
+      type: "currency",
+      required: true,
+      aliases: [
+        "total",
+        "total price",
+        "total_price",
+        "order total",
+      ],
+      description: "Order total, after discounts, shipping and taxes",
+    },
+    {
+      key: "currency",
+      label: "Currency",
+      type: "text",
+      required: false,
+      aliases: ["currency", "currency code", "presentment currency"],
+      description: "ISO currency code",
+    },
+    {
+      key: "status",
+      label: "Financial Status",
+      type: "enum",
+      required: false,
+      aliases: ["financial status", "financial_status", "payment status"],
+      enumValues: ["succeeded", "pending", "failed", "refunded", "void"],
+      description: "Payment status (paid, pending, refunded, voided, ...)",
+    },
+    {
+      key: "payment_date",
+      label: "Created At",
+      type: "timestamp",
+      required: true,
+      aliases: [
+        "created at",
+        "created_at",
+        "order date",
+        "processed at",
+        "processed_at",
+      ],
+      description: "When the order was placed",
+    },
+    {
+      key: "payment_type",
+      label: "Payment Method",
+      type: "text",
+      required: false,
+      aliases: ["payment method", "payment_method", "gateway", "payment gateway"],
+      description: "Payment method or gateway",
+    },
+    {
+      key: "line_item_name",
+      label: "Lineitem name",
+      type: "text",
+      required: false,
+      aliases: ["line item name", "lineitem_name", "product", "product title"],
+      description: "Product purchased — one per line item row",
+    },
+    {
+      key: "line_item_quantity",
+      label: "Lineitem quantity",
+      type: "number",
+      required: false,
+      aliases: ["line item quantity", "lineitem_quantity", "quantity"],
+      description: "Quantity of the line item",
+    },
+    {
+      key: "line_item_price",
+      label: "Lineitem price",
+      type: "currency",
+      required: false,
+      aliases: ["line item price", "lineitem_price"],
+      description: "Unit price of the line item",
+    },
+    {
+      key: "line_item_sku",
+      label: "Lineitem sku",
+      type: "text",
+      required: false,
+      aliases: ["line item sku", "lineitem_sku", "sku"],
+      description: "SKU of the line item",
+    },
+    {
+      key: "discount_codes",
+      label: "Discount Code",
+      type: "text",
+      required: false,
+      aliases: ["discount code", "discount codes", "discount_code", "discount_codes"],
+      description: "Discount codes used, comma-separated",
+    },
+    {
+      key: "discount_amount",
+      label: "Discount Amount",
+      type: "currency",
+      required: false,
+      aliases: ["discount amount", "discount_amount", "total discounts"],
+      description: "Total discount on the order",
+    },
+    {
+      key: "landing_site",
+      label: "Landing Site",
+      type: "text",
+      required: false,
+      aliases: ["landing site", "landing_site", "landing page", "landing page url"],
+      description: "First page of the visit that led to the order; its utm_ parameters are kept",
+    },
+  ],
+  idField: "external_payment_id",
+  emailField: "customer_email",
+  nameField: "full_name",
+  phoneField: "customer_phone",
+};
+
+export const SQUARE_SCHEMA: SourceSchema = {
+  source: "square",
+  label: "Square Transactions",
+  fields: [
+    {
+      key: "external_payment_id",
+      label: "Transaction ID",
+      type: "text",
+      required: true,
+      aliases: [
+        "transaction id",
+        "transaction_id",
+        "payment id",
+        "payment_id",
+      ],
+      description: "Square transaction ID",
+    },
+    {
+      key: "customer_id",
+      label: "Customer ID",
+      type: "text",
+      required: false,
+      aliases: [
+        "customer id",
+        "customer_id",
+        "square customer id",
+      ],
+      description: "Square customer ID — the customer's ID for stitching",
+    },
+    {
+      key: "full_name",
+      label: "Customer Name",
+      type: "text",
+      required: false,
+      aliases: [
+        "customer name",
+        "customer_name",
+        "customer",
+      ],
+      description: "Customer's name on the transaction",
+    },
+    {
+      key: "customer_email",
+      label: "Email",
+      type: "email",
+      required: false,
+      aliases: [
+        "customer email",
+        "customer_email",
+        "email",
+        "email address",
+      ],
+      description: "Customer email address",
+    },
+    {
+      key: "customer_phone",
+      label: "Phone",
+      type: "text",
+      required: false,
+      aliases: [
+        "customer phone",
+        "customer_phone",
+        "phone",
+        "phone number",
+      ],
+      description: "Customer phone number",
+    },
+    {
+      key: "amount",
+      label: "Total Collected",
+      type: "currency",
+      required: true,
+      aliases: [
+        "total collected",
+        "total_collected",
+        "total",
+        "amount",
+      ],
+      description: "Amount collected, including tax and tip",
+    },
+    {
+      key: "gross_sales",
+      label: "Gross Sales",
+      type: "currency",
+      required: false,
+      aliases: ["gross sales", "gross_sales"],
+      description: "Sales before discounts, tax and tip",
+    },
+    {
+      key: "currency",
+      label: "Currency",
+      type: "text",
+      required: false,
+      aliases: [
+        "currency",
+        "currency code",
+        "currency_code",
+      ],
+      description: "ISO currency code",
+    },
+    {
+      key: "payment_date",
+      label: "Date",
+      type: "timestamp",
+      required: true,
+      aliases: [
+        "date",
+        "transaction date",
+        "transaction_date",
+      ],
+      description: "When the transaction occurred",
+    },
+    {
+      key: "payment_type",
+      label: "Card Brand",
+      type: "text",
+      required: false,
+      aliases: [
+        "card brand",
+        "card_brand",
+        "tender type",
+        "payment method",
+      ],
+      description: "How the customer paid (card brand, cash, ...)",
+    },
+    {
+      key: "location",
+      label: "Location",
+      type: "text",
+      required: false,
+      aliases: ["location", "location name"],
+      description: "Square location the sale was rung up at",
+    },
+    {
+      key: "status",
+      label: "Transaction Status",
+      type: "enum",
+      required: false,
+      aliases: [
+        "transaction status",
+        "transaction_status",
+        "status",
+      ],
+      enumValues: ["succeeded", "pending", "failed", "refunded", "void"],
+      description: "Transaction status",
+    },
+  ],
+  idField: "external_payment_id",
+  emailField: "customer_email",
+  nameField: "full_name",
+  customerIdField: "customer_id",
+  phoneField: "customer_phone",
+};
+
+export const MINDBODY_SALES_SCHEMA: SourceSchema = {
+  source: "mindbody",
+  label: "Mindbody Sales",
+  fields: [
+    {
+      key: "external_payment_id",
+      label: "Sale ID",
+      type: "text",
+      required: true,
+      aliases: [
+        "sale id",
+        "sale_id",
+        "sales id",
+        "receipt id",
+      ],
+      description: "Mindbody sale ID",
+    },
+    {
+      key: "client_id",
+      label: "Client ID",
+      type: "text",
+      required: false,
+      aliases: [
+        "client id",
+        "client_id",
+        "clientid",
+        "mindbody id",
+      ],
+      description: "Mindbody client ID — the customer's ID for stitching",
+    },
+    {
+      key: "full_name",
+      label: "Client",
+      type: "text",
+      required: false,
+      aliases: [
+        "client",
+        "client name",
+        "client_name",
+      ],
+      description: "Client's full name",
+    },
+    {
+      key: "customer_email",
+      label: "Email",
+      type: "email",
+      required: false,
+      aliases: [
+        "email",
+        "client email",
+        "client_email",
+        "email address",
+      ],
+      description: "Client email address",
+    },
+    {
+      key: "customer_phone",
+      label: "Phone",
+      type: "text",
+      required: false,
+      aliases: [
+        "phone",
+        "mobile phone",
+        "client phone",
+        "home phone",
+      ],
+      description: "Client phone number",
+    },
+    {
+      key: "item_name",
+      label: "Item",
+      type: "text",
+      required: false,
+      aliases: [
+        "item name",
+        "item_name",
+        "item",
+        "description",
+      ],
+      description: "What was sold (pricing option, product)",
+    },
+    {
+      key: "amount",
+      label: "Total",
+      type: "currency",
+      required: true,
+      aliases: [
+        "total",
+        "item total",
+        "total paid",
+        "amount",
+      ],
+      description: "Amount paid for the sale",
+    },
+    {
+      key: "currency",
+      label: "Currency",
+      type: "text",
+      required: false,
+      aliases: ["currency", "currency code"],
+      description: "ISO currency code",
+    },
+    {
+      key: "payment_date",
+      label: "Sale Date",
+      type: "timestamp",
+      required: true,
+      aliases: [
+        "sale date",
+        "sale_date",
+        "date",
+      ],
+      description: "When the sale was made",
+    },
+    {
+      key: "payment_type",
+      label: "Payment Method",
+      type: "text",
+      required: false,
+      aliases: [
+        "payment method",
+        "payment_method",
+        "payment type",
+      ],
+      description: "How the client paid",
+    },
+    {
+      key: "location",
+      label: "Location",
+      type: "text",
+      required: false,
+      aliases: ["location", "studio"],
+      description: "Studio location of the sale",
+    },
+  ],
+  idField: "external_payment_id",
+  emailField: "customer_email",
+  nameField: "full_name",
+  customerIdField: "client_id",
+  phoneField: "customer_phone",
+};
+
+export const MINDBODY_VISITS_SCHEMA: SourceSchema = {
+  source: "mindbody",
+  label: "Mindbody Visits",
+  fields: [
+    {
+      key: "external_attendance_id",
+      label: "Visit ID",
+      type: "text",
+      required: true,
+      aliases: [
+        "visit id",
+        "visit_id",
+        "visitid",
+        "visit ref no",
+      ],
+      description: "Mindbody visit ID",
+    },
+    {
+      key: "client_id",
+      label: "Client ID",
+      type: "text",
+      required: false,
+      aliases: [
+        "client id",
+        "client_id",
+        "clientid",
+        "mindbody id",
+      ],
+      description: "Mindbody client ID — the customer's ID for stitching",
+    },
+    {
+      key: "attendee_name",
+      label: "Client",
+      type: "text",
+      required: false,
+      aliases: [
+        "client",
+        "client name",
+        "client_name",
+      ],
+      description: "Client's full name",
+    },
+    {
+      key: "attendee_email",
+      label: "Email",
+      type: "email",
+      required: false,
+      aliases: [
+        "email",
+        "client email",
+        "client_email",
+        "email address",
+      ],
+      description: "Client email address",
+    },
+    {
+      key: "phone",
+      label: "Phone",
+      type: "text",
+      required: false,
+      aliases: [
+        "phone",
+        "mobile phone",
+        "client phone",
+        "home phone",
+      ],
+      description: "Client phone number",
+    },
+    {
+      key: "event_name",
+      label: "Class",
+      type: "text",
+      required: true,
+      aliases: [
+        "class name",
+        "class_name",
+        "class",
+        "class/appointment",
+        "service name",
+      ],
+      description: "Class or appointment visited",
+    },
+    {
+      key: "check_in_time",
+      label: "Visit Date",
+      type: "timestamp",
+      required: true,
+      aliases: [
+        "visit date",
+        "visit_date",
+        "class date",
+        "date",
+      ],
+      description: "When the visit took place",
+    },
+    {
+      key: "ticket_type",
+      label: "Visit Type",
+      type: "text",
+      required: false,
+      aliases: [
+        "visit type",
+        "visit_type",
+        "pricing option",
+        "series",
+      ],
+      description: "Pricing option or visit type the visit was paid with",
+    },
+    {
+      key: "location",
+      label: "Location",
+      type: "text",
+      required: false,
+      aliases: ["location", "studio"],
+      description: "Studio location of the visit",
+    },
+  ],
+  idField: "external_attendance_id",
+  emailField: "attendee_email",
+  nameField: "attendee_name",
+  customerIdField: "client_id",
+  phoneField: "phone",
+};
+
 export const WETRAVEL_SCHEMA: SourceSchema = {
   source: "wetravel",
   label: "WeTravel Bookings",
@@ -601,6 +1195,21 @@ export const WETRAVEL_SCHEMA: SourceSchema = {
       ],
       description: "Participant email address",
     },
+    {
+      key: "phone",
+      label: "Phone",
+      type: "text",
+      required: false,
+      aliases: [
+        "phone",
+        "phone_number",
+        "participant_phone",
+        "participant phone",
+        "mobile",
+        "whatsapp",
+      ],
+      description: "Participant phone number (parsed for the participant's country)",
+    },
     {
       key: "country",
       label: "Country",
@@ -825,6 +1434,7 @@ export const WETRAVEL_SCHEMA: SourceSchema = {
   idField: "external_booking_id",
   emailField: "email",
   nameField: "participant_name",
+  phoneField: "phone",
 };
 
 export const CRM_SCHEMA: SourceSchema = {
@@ -1357,25 +1967,36 @@ export const ATTRIBUTION_JOURNEYS_SCHEMA: SourceSchema = {
 // Keep backward compat: 'attribution' points to firsttouch
 export const ATTRIBUTION_SCHEMA = ATTRIBUTION_FIRSTTOUCH_SCHEMA;
 
+// Mindbody's sales and class visits exports share the 'mindbody' source but
+// have no base key — each export is detected on its own (see resolveSchemaKey)
 export const SCHEMAS: Record<string, SourceSchema> = {
   stripe: STRIPE_SCHEMA,
   calendly: CALENDLY_SCHEMA,
   passline: PASSLINE_SCHEMA,
   pos: POS_SCHEMA,
   wetravel: WETRAVEL_SCHEMA,
+  shopify: SHOPIFY_SCHEMA,
+  square: SQUARE_SCHEMA,
+  mindbody_sales: MINDBODY_SALES_SCHEMA,
+  mindbody_visits: MINDBODY_VISITS_SCHEMA,
   crm: CRM_SCHEMA,
   attribution: ATTRIBUTION_FIRSTTOUCH_SCHEMA,
   attribution_firsttouch: ATTRIBUTION_FIRSTTOUCH_SCHEMA,
   attribution_journeys: ATTRIBUTION_JOURNEYS_SCHEMA,
 };
 
-export function getSchema(source: string): SourceSchema | undefined {
-  return SCHEMAS[source];
+/**
+ * Look up a schema by source or schema key. Org-defined sources are not in
+ * the registry; pass the org's (see ./custom-sources) to include them.
+ */
+export function getSchema(source: string, customSchemas: SourceSchema[] = []): SourceSchema | undefined {
+  return SCHEMAS[source] ?? customSchemas.find((s) => s.source === source);
 }
 
 /** Resolve a SchemaKey to the DB-safe SourceType. */
 export function schemaKeyToSourceType(key: string): string {
   if (key.startsWith("attribution")) return "attribution";
+  if (key.startsWith("mindbody")) return "mindbody";
   return key;
 }
 
@@ -1388,3 +2009,23 @@ export function detectAttributionSubtype(headers: string[]): SchemaKey {
   }
   return "attribution_firsttouch";
 }
+
+/** Detect Mindbody export type (sales or class visits) from CSV headers. */
+export function detectMindbodySubtype(headers: string[]): SchemaKey {
+  const lowerHeaders = new Set(headers.map((h) => h.toLowerCase().trim()));
+  // Visits-specific columns
+  if (["visit id", "visit_id", "visit date", "visit type", "class name"].some((h) => lowerHeaders.has(h))) {
+    return "mindbody_visits";
+  }
+  return "mindbody_sales";
+}
+
+/**
+ * The schema key a file of `source` maps with: the key chosen on upload if
+ * it is one of the source's schemas, else the source's own — for Mindbody,
+ * which has one source for two exports, the headers decide.
+ */
+export function resolveSchemaKey(source: string, headers: string[], schemaKey?: string): string {
+  if (schemaKey && SCHEMAS[schemaKey] && schemaKeyToSourceType(schemaKey) === source) return schemaKey;
+  return source === "mindbody" ? detectMindbodySubtype(headers) : source;
+}
@@ -0,0 +1,182 @@
+/**
+ * Shopify's orders export writes one row per line item. The first row of an
+ * order carries the order's own columns (email, total, financial status);
+ * the rows after it repeat the order name and fill in only their line item.
+ * Rows are grouped back into one per order before mapping, with the line
+ * items kept as a list on the grouped row.
+ */
+
+import type { PaymentLineItem } from "@/lib/types";
+import type { CSVStream } from "./stream";
+import { parseCurrency } from "./validators";
+
+/** Schema fields that differ per line item rather than per order */
+export const SHOPIFY_LINE_ITEM_FIELDS = [
+  "line_item_name",
+  "line_item_quantity",
+  "line_item_price",
+  "line_item_sku",
+] as const;
+
+/** Column of a grouped row holding its line items (by schema field), as JSON */
+export const LINE_ITEMS_COLUMN = "__line_items";
+
+export interface ShopifyUtm {
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_content: string | null;
+}
+
+// ─── Grouping ────────────────────────────────────────────────
+
+/**
+ * Merge one order's rows: each column takes its first non-empty value, and
+ * every row's line item columns (header → schema field) are kept under
+ * LINE_ITEMS_COLUMN.
+ */
+export function mergeOrderRows(
+  rows: Record<string, string>[],
+  lineItemColumns: Record<string, string>
+): Record<string, string> {
+  const merged: Record<string, string> = { ...rows[0] };
+  for (const row of rows.slice(1)) {
+    for (const [header, value] of Object.entries(row)) {
+      if (!merged[header]?.trim() && value?.trim()) merged[header] = value;
+    }
+  }
+
+  const items = rows
+    .map((row) => Object.fromEntries(Object.entries(lineItemColumns).map(([h, field]) => [field, row[h] ?? ""])))
+    .filter((item) => Object.values(item).some((v) => v.trim()));
+  merged[LINE_ITEMS_COLUMN] = JSON.stringify(items);
+  return merged;
+}
+
+/**
+ * Groups consecutive rows with the same order name (Shopify writes an
+ * order's rows together). push() returns the orders completed by the row;
+ * flush() returns the last one. A row without an order name is its own order.
+ */
+function createOrderGrouper(mapping: Record<string, string>) {
+  const idHeader = Object.keys(mapping).find((h) => mapping[h] === "external_payment_id");
+  const lineItemColumns = Object.fromEntries(
+    Object.entries(mapping).filter(([, field]) => (SHOPIFY_LINE_ITEM_FIELDS as readonly string[]).includes(field))
+  );
+  let current: Record<string, string>[] = [];
+  let currentKey = "";
+
+  const flush = (): Record<string, string>[] => {
+    if (current.length === 0) return [];
+    const merged = mergeOrderRows(current, lineItemColumns);
+    current = [];
+    return [merged];
+  };
+
+  const push = (row: Record<string, string>): Record<string, string>[] => {
+    const key = idHeader ? (row[idHeader] ?? "").trim() : "";
+    if (key && key === currentKey) {
+      current.push(row);
+      return [];
+    }
+    const done = flush();
+    current = [row];
+    currentKey = key;
+    return done;
+  };
+
+  return { push, flush };
+}
+
+/** Group a whole file's rows into one row per order. */
+export function groupOrderRows(
+  rows: Record<string, string>[],
+  mapping: Record<string, string>
+): Record<string, string>[] {
+  const grouper = createOrderGrouper(mapping);
+  return [...rows.flatMap((row) => grouper.push(row)), ...grouper.flush()];
+}
+
+/**
+ * Group a streamed file into one row per order. Orders spanning a batch
+ * boundary are held until their last row; row numbers count orders.
+ */
+export function groupOrderStream(csv: CSVStream, mapping: Record<string, string>): CSVStream {
+  const firstBatch = groupOrderRows(csv.firstBatch, mapping);
+
+  async function* batches() {
+    const grouper = createOrderGrouper(mapping);
+    let firstRow = 1;
+    for await (const batch of csv.batches) {
+      const rows = batch.rows.flatMap((row) => grouper.push(row));
+      if (rows.length > 0) {
+        yield { rows, firstRow };
+        firstRow += rows.length;
+      }
+    }
+    const rest = grouper.flush();
+    if (rest.length > 0) yield { rows: rest, firstRow };
+  }
+
+  return {
+    headers: csv.headers,
+    sampleRows: firstBatch.slice(0, csv.sampleRows.length),
+    firstBatch,
+    batches: batches(),
+    get bytesRead() {
+      return csv.bytesRead;
+    },
+  };
+}
+
+// ─── Order details ───────────────────────────────────────────
+
+/** The line items kept on a grouped row. */
+export function shopifyLineItems(rawRow: Record<string, string>): PaymentLineItem[] {
+  let items: unknown;
+  try {
+    items = JSON.parse(rawRow[LINE_ITEMS_COLUMN] ?? "[]");
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(items)) return [];
+
+  return items.map((item: Record<string, string | undefined>) => {
+    const text = (field: string) => item[field]?.trim() || null;
+    const quantity = Number(text("line_item_quantity") ?? NaN);
+    const price = text("line_item_price");
+    return {
+      name: text("line_item_name"),
+      quantity: Number.isFinite(quantity) ? quantity : null,
+      price: price ? parseCurrency(price) : null,
+      sku: text("line_item_sku"),
+    };
+  });
+}
+
+/** Discount codes from Shopify's comma-separated column. */
+export function parseDiscountCodes(value: string | null | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((code) => code.trim())
+    .filter(Boolean);
+}
+
+/** UTM parameters from the order's landing site (a path or full URL). */
+export function landingSiteUtm(landingSite: string | null | undefined): ShopifyUtm {
+  let params = new URLSearchParams();
+  if (landingSite?.trim()) {
+    try {
+      params = new URL(landingSite.trim(), "https://shop.invalid").searchParams;
+    } catch {
+      // Not a URL — no parameters
+    }
+  }
+  const get = (name: string) => params.get(name)?.trim() || null;
+  return {
+    utm_source: get("utm_source"),
+    utm_medium: get("utm_medium"),
+    utm_campaign: get("utm_campaign"),
+    utm_content: get("utm_content"),
+  };
+}
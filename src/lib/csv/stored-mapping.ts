@@ -0,0 +1,58 @@
+/**
+ * The stored form of a column mapping (saved_mappings.mapping,
+ * import_history.column_mapping): CSV header → field entries, plus a
+ * template's transforms and value mappings under reserved keys so older
+ * readers still see a plain header map.
+ */
+
+import type { FieldTransforms, ValueMappings } from "@/lib/types";
+import { activeTransforms, validateTransforms } from "./transforms";
+import { validateValueMappings } from "./normalizers";
+
+const TRANSFORMS_KEY = "__transforms";
+const VALUE_MAPPINGS_KEY = "__values";
+
+export interface MappingExtras {
+  transforms: FieldTransforms;
+  valueMappings: ValueMappings;
+}
+
+/** Fields with at least one mapped value */
+export function activeValueMappings(valueMappings: ValueMappings): ValueMappings {
+  return Object.fromEntries(
+    Object.entries(valueMappings).filter(([, values]) => Object.keys(values).length > 0)
+  );
+}
+
+/** The stored mapping value: columns plus any non-empty extras. */
+export function packMapping(
+  mapping: Record<string, string>,
+  extras: Partial<MappingExtras> = {}
+): Record<string, unknown> {
+  const stored: Record<string, unknown> = { ...mapping };
+  const transforms = activeTransforms(extras.transforms ?? {});
+  const valueMappings = activeValueMappings(extras.valueMappings ?? {});
+  if (Object.keys(transforms).length > 0) stored[TRANSFORMS_KEY] = transforms;
+  if (Object.keys(valueMappings).length > 0) stored[VALUE_MAPPINGS_KEY] = valueMappings;
+  return stored;
+}
+
+/**
+ * Split a stored mapping value back into columns and extras. Malformed
+ * extras are dropped rather than failing the read.
+ */
+export function unpackMapping(stored: Record<string, unknown>): { mapping: Record<string, string> } & MappingExtras {
+  const { [TRANSFORMS_KEY]: transforms, [VALUE_MAPPINGS_KEY]: valueMappings, ...columns } = stored;
+  const mapping = Object.fromEntries(
+    Object.entries(columns).filter((entry): entry is [string, string] => typeof entry[1] === "string")
+  );
+  return {
+    mapping,
+    transforms: transforms !== undefined && validateTransforms(transforms).length === 0
+      ? (transforms as FieldTransforms)
+      : {},
+    valueMappings: valueMappings !== undefined && validateValueMappings(valueMappings).length === 0
+      ? (valueMappings as ValueMappings)
+      : {},
+  };
+}
@@ -0,0 +1,202 @@
+/**
+ * Streaming CSV parsing for exports too large to hold in memory (Stripe
+ * exports run past 200k rows). Rows are parsed as the bytes arrive, using
+ * Papa's Node stream mode with backpressure, and handed out in batches —
+ * memory is bounded by the batch size rather than the file size.
+ */
+
+import Papa from "papaparse";
+import { Readable } from "node:stream";
+import { detectDelimiter } from "./parser";
+
+const SAMPLE_SIZE = 5;
+
+/** Rows per batch handed to the import and preview loops. */
+export const CSV_BATCH_SIZE = 1000;
+
+/** Upper bound for the JSON options line that precedes an uploaded file. */
+export const MAX_OPTIONS_BYTES = 5 * 1024 * 1024;
+
+const TEXT_SLICE = 64 * 1024;
+
+/** Text read before the parser starts, to detect the delimiter */
+const DELIMITER_SAMPLE_CHARS = 64 * 1024;
+
+export interface CSVBatch {
+  rows: Record<string, string>[];
+  /** 1-based row number of rows[0] (the same numbering as parseCSVContent rows + 1) */
+  firstRow: number;
+}
+
+export interface CSVStream {
+  headers: string[];
+  sampleRows: Record<string, string>[];
+  /** Rows of the first batch, read eagerly — for inference that needs more than the sample */
+  firstBatch: Record<string, string>[];
+  /** All rows in file order, including the ones already read for the sample. Iterate once. */
+  batches: AsyncIterable<CSVBatch>;
+  /** Bytes of input read so far, for progress against the file size */
+  readonly bytesRead: number;
+}
+
+export interface CSVProgress {
+  rowsProcessed: number;
+  bytesRead: number;
+}
+
+/**
+ * Decode the input to text without splitting multi-byte characters across
+ * chunks, counting bytes as they are read.
+ */
+async function* decodeChunks(
+  input: string | AsyncIterable<Uint8Array>,
+  onBytes: (n: number) => void
+): AsyncGenerator<string> {
+  if (typeof input === "string") {
+    for (let start = 0; start < input.length; start += TEXT_SLICE) {
+      const slice = input.slice(start, start + TEXT_SLICE);
+      onBytes(Buffer.byteLength(slice));
+      yield slice;
+    }
+    return;
+  }
+
+  const decoder = new TextDecoder("utf-8");
+  for await (const chunk of input) {
+    onBytes(chunk.byteLength);
+    const text = decoder.decode(chunk, { stream: true });
+    if (text) yield text;
+  }
+  const rest = decoder.decode();
+  if (rest) yield rest;
+}
+
+async function readBatch(
+  rows: AsyncIterator<Record<string, string>>,
+  size: number
+): Promise<Record<string, string>[]> {
+  const batch: Record<string, string>[] = [];
+  while (batch.length < size) {
+    const next = await rows.next();
+    if (next.done) break;
+    batch.push(next.value);
+  }
+  return batch;
+}
+
+/**
+ * Start parsing a CSV from a string or a byte stream (e.g. a request body).
+ * Parsing options match parseCSVContent, with the delimiter detected from
+ * the start of the file. The first batch is read eagerly so headers and
+ * sample rows are available before the caller iterates.
+ */
+export async function openCSVStream(
+  input: string | AsyncIterable<Uint8Array>,
+  batchSize: number = CSV_BATCH_SIZE
+): Promise<CSVStream> {
+  let bytesRead = 0;
+
+  const text = decodeChunks(input, (n) => (bytesRead += n));
+  let head = "";
+  while (head.length < DELIMITER_SAMPLE_CHARS) {
+    const next = await text.next();
+    if (next.done) break;
+    head += next.value;
+  }
+  async function* replay(): AsyncGenerator<string> {
+    if (head) yield head;
+    yield* text;
+  }
+
+  const delimiter = detectDelimiter(head);
+  // Papa has no header event in stream mode (and runs transformHeader on the
+  // first row of every chunk), so read the header row from the head
+  const headerRow = Papa.parse<string[]>(head, { delimiter, preview: 1, skipEmptyLines: "greedy" });
+  const headers = (headerRow.data[0] ?? []).map((h) => h.trim());
+
+  const parser = Papa.parse(Papa.NODE_STREAM_INPUT, {
+    header: true,
+    delimiter,
+    skipEmptyLines: "greedy",
+    transformHeader: (header: string) => header.trim(),
+  });
+  const source = Readable.from(replay());
+  source.on("error", (err) => parser.destroy(err));
+  source.pipe(parser);
+
+  const rows = parser[Symbol.asyncIterator]() as AsyncIterator<Record<string, string>>;
+  const first = await readBatch(rows, batchSize);
+
+  async function* batches(): AsyncGenerator<CSVBatch> {
+    let batch = first;
+    let firstRow = 1;
+    while (batch.length > 0) {
+      yield { rows: batch, firstRow };
+      firstRow += batch.length;
+      batch = await readBatch(rows, batchSize);
+    }
+  }
+
+  return {
+    headers,
+    sampleRows: first.slice(0, SAMPLE_SIZE),
+    firstBatch: first,
+    batches: batches(),
+    get bytesRead() {
+      return bytesRead;
+    },
+  };
+}
+
+async function* readChunks(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<Uint8Array> {
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    yield value;
+  }
+}
+
+/**
+ * Split a request body of the form `<JSON options>\n<file bytes>` into the
+ * parsed options and the remaining bytes, without buffering the file.
+ * Throws if the options line is missing, too large, or not JSON.
+ */
+export async function readOptionsLine<T>(
+  body: ReadableStream<Uint8Array>
+): Promise<{ options: T; rest: AsyncIterable<Uint8Array> }> {
+  const chunks = readChunks(body.getReader());
+  const head: Uint8Array[] = [];
+  let headBytes = 0;
+  let remainder: Uint8Array | null = null;
+
+  while (remainder === null) {
+    const next = await chunks.next();
+    if (next.done) throw new Error("Upload is missing its options line");
+    const newline = next.value.indexOf(0x0a);
+    if (newline === -1) {
+      head.push(next.value);
+    } else {
+      head.push(next.value.subarray(0, newline));
+      remainder = next.value.subarray(newline + 1);
+    }
+    headBytes += next.value.byteLength;
+    if (headBytes > MAX_OPTIONS_BYTES && remainder === null) {
+      throw new Error("Upload options are too large");
+    }
+  }
+
+  let options: T;
+  try {
+    options = JSON.parse(Buffer.concat(head).toString("utf-8")) as T;
+  } catch {
+    throw new Error("Upload options are not valid JSON");
+  }
+
+  const first = remainder;
+  async function* rest(): AsyncGenerator<Uint8Array> {
+    if (first.byteLength > 0) yield first;
+    yield* chunks;
+  }
+
+  return { options, rest: rest() };
+}
@@ -0,0 +1,267 @@
+/**
+ * Field transforms: per-field pipelines applied after column mapping, for
+ * exports whose columns don't line up one-to-one with schema fields — first
+ * and last names in separate columns, amounts in cents, IDs inside URLs.
+ */
+
+import type { FieldTransforms, TransformStep } from "@/lib/types";
+
+export const TRANSFORM_STEP_LABELS: Record<TransformStep["type"], string> = {
+  concat: "Combine columns",
+  split: "Split",
+  multiply: "Multiply",
+  divide: "Divide",
+  regex: "Extract (regex)",
+  constant: "Constant value",
+  lookup: "Lookup table",
+};
+
+/** A new step of the given type, with editable defaults */
+export function defaultTransformStep(type: TransformStep["type"]): TransformStep {
+  switch (type) {
+    case "concat":
+      return { type, columns: [], separator: " " };
+    case "split":
+      return { type, separator: " ", index: 0 };
+    case "multiply":
+      return { type, factor: 1 };
+    case "divide":
+      return { type, divisor: 100 };
+    case "regex":
+      return { type, pattern: "", group: 1 };
+    case "constant":
+      return { type, value: "" };
+    case "lookup":
+      return { type, table: {} };
+  }
+}
+
+// ─── Applying ────────────────────────────────────────────────
+
+/** Patterns run against every row on the server, so they're kept small */
+export const MAX_PATTERN_LENGTH = 200;
+const REGEX_CACHE_SIZE = 100;
+
+/**
+ * Whether a pattern repeats a group that itself repeats or has
+ * alternatives — (a+)+, (\w*\s?)*, (a|ab)+ — which backtracks
+ * exponentially on a value that almost matches.
+ */
+function hasNestedRepetition(pattern: string): boolean {
+  // One frame per open group: does its body repeat or branch?
+  const groups: { repeats: boolean; branches: boolean }[] = [{ repeats: false, branches: false }];
+  const quantifierAt = (i: number) =>
+    pattern[i] === "*" || pattern[i] === "+" || /^\{\d+(,\d*)?\}/.test(pattern.slice(i));
+
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i];
+    const top = groups[groups.length - 1];
+    if (ch === "\\") {
+      i++;
+    } else if (ch === "[") {
+      // Skip the class; its contents are literal
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+    } else if (ch === "(") {
+      groups.push({ repeats: false, branches: false });
+    } else if (ch === ")" && groups.length > 1) {
+      const group = groups.pop()!;
+      const repeated = quantifierAt(i + 1);
+      if (repeated && (group.repeats || group.branches)) return true;
+      groups[groups.length - 1].repeats ||= group.repeats || repeated;
+    } else if (ch === "|") {
+      top.branches = true;
+    } else if (quantifierAt(i)) {
+      top.repeats = true;
+    }
+  }
+  return false;
+}
+
+/** Why a regex step's pattern can't be used, or null */
+function patternProblem(pattern: string): string | null {
+  if (pattern.length > MAX_PATTERN_LENGTH) return `pattern is longer than ${MAX_PATTERN_LENGTH} characters`;
+  if (hasNestedRepetition(pattern)) return `pattern /${pattern}/ repeats a repeating group, which can stall the import`;
+  try {
+    new RegExp(pattern);
+  } catch {
+    return `invalid pattern /${pattern}/`;
+  }
+  return null;
+}
+
+// Most recently used last; the oldest is evicted past REGEX_CACHE_SIZE
+const regexCache = new Map<string, RegExp | null>();
+
+/** The compiled pattern, or null when patternProblem rejects it */
+function compilePattern(pattern: string): RegExp | null {
+  let re = regexCache.get(pattern);
+  if (re === undefined) {
+    re = patternProblem(pattern) ? null : new RegExp(pattern);
+  } else {
+    regexCache.delete(pattern);
+  }
+  regexCache.set(pattern, re);
+  if (regexCache.size > REGEX_CACHE_SIZE) {
+    regexCache.delete(regexCache.keys().next().value!);
+  }
+  return re;
+}
+
+const lookupCache = new WeakMap<Record<string, string>, Map<string, string>>();
+
+function lookupKeys(table: Record<string, string>): Map<string, string> {
+  let keys = lookupCache.get(table);
+  if (!keys) {
+    keys = new Map(Object.entries(table).map(([from, to]) => [from.trim().toLowerCase(), to]));
+    lookupCache.set(table, keys);
+  }
+  return keys;
+}
+
+/** Amounts as exported: "$1,250", "1250", " 12.5 " */
+function parseAmount(value: string): number | null {
+  const cleaned = value.replace(/[$,\s]/g, "");
+  if (!cleaned) return null;
+  const n = Number(cleaned);
+  return Number.isFinite(n) ? n : null;
+}
+
+/** Float noise (0.1 * 3) would otherwise leak into imported amounts */
+function formatAmount(n: number): string {
+  return String(Number(n.toPrecision(12)));
+}
+
+function applyStep(value: string, step: TransformStep, rawRow: Record<string, string>): string {
+  switch (step.type) {
+    case "concat":
+      return [value, ...step.columns.map((c) => rawRow[c]?.trim() ?? "")]
+        .filter(Boolean)
+        .join(step.separator);
+    case "split": {
+      if (!step.separator) return value;
+      const parts = value.split(step.separator).map((p) => p.trim());
+      return parts[step.index < 0 ? parts.length + step.index : step.index] ?? "";
+    }
+    case "multiply": {
+      const n = parseAmount(value);
+      return n === null ? value : formatAmount(n * step.factor);
+    }
+    case "divide": {
+      const n = parseAmount(value);
+      return n === null ? value : formatAmount(n / step.divisor);
+    }
+    case "regex": {
+      const re = compilePattern(step.pattern);
+      if (!re) return value;
+      const m = value.match(re);
+      return m?.[step.group] ?? "";
+    }
+    case "constant":
+      return step.value;
+    case "lookup":
+      return lookupKeys(step.table).get(value.trim().toLowerCase()) ?? value;
+  }
+}
+
+/** Run one field's pipeline from its mapped value. */
+export function runTransformPipeline(
+  initial: string,
+  steps: TransformStep[],
+  rawRow: Record<string, string>
+): string {
+  return steps.reduce((value, step) => applyStep(value, step, rawRow), initial).trim();
+}
+
+/**
+ * Apply transforms to a mapped row in place. A field with a pipeline gets
+ * its result, or null when the result is empty.
+ */
+export function applyTransforms(
+  mapped: Record<string, string | null>,
+  rawRow: Record<string, string>,
+  transforms: FieldTransforms
+): void {
+  for (const [field, steps] of Object.entries(transforms)) {
+    if (steps.length === 0) continue;
+    mapped[field] = runTransformPipeline(mapped[field] ?? "", steps, rawRow) || null;
+  }
+}
+
+// ─── Validation ──────────────────────────────────────────────
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === "object" && value !== null && !Array.isArray(value) &&
+    Object.values(value).every((v) => typeof v === "string")
+  );
+}
+
+function stepProblem(step: Record<string, unknown>): string | null {
+  switch (step.type) {
+    case "concat":
+      if (!Array.isArray(step.columns) || !step.columns.every((c) => typeof c === "string")) return "columns must be a list of column names";
+      if (typeof step.separator !== "string") return "separator must be text";
+      return null;
+    case "split":
+      if (typeof step.separator !== "string") return "separator must be text";
+      if (!Number.isInteger(step.index)) return "part must be a whole number";
+      return null;
+    case "multiply":
+      return typeof step.factor === "number" && Number.isFinite(step.factor) ? null : "factor must be a number";
+    case "divide":
+      return typeof step.divisor === "number" && Number.isFinite(step.divisor) && step.divisor !== 0
+        ? null
+        : "divisor must be a non-zero number";
+    case "regex": {
+      if (typeof step.pattern !== "string" || !step.pattern) return "pattern is empty";
+      const problem = patternProblem(step.pattern);
+      if (problem) return problem;
+      if (!Number.isInteger(step.group) || (step.group as number) < 0) return "group must be a whole number";
+      return null;
+    }
+    case "constant":
+      return typeof step.value === "string" ? null : "value must be text";
+    case "lookup":
+      return isStringRecord(step.table) ? null : "table must map text to text";
+    default:
+      return `unknown transform "${String(step.type)}"`;
+  }
+}
+
+/**
+ * Check transforms (which arrive from the client or a saved template).
+ * Returns one message per broken step, e.g. `full_name step 2: pattern is empty`.
+ */
+export function validateTransforms(transforms: unknown): string[] {
+  if (typeof transforms !== "object" || transforms === null || Array.isArray(transforms)) {
+    return ["transforms must map fields to steps"];
+  }
+  const problems: string[] = [];
+  for (const [field, steps] of Object.entries(transforms)) {
+    if (!Array.isArray(steps)) {
+      problems.push(`${field}: steps must be a list`);
+      continue;
+    }
+    steps.forEach((step: unknown, i) => {
+      const problem =
+        typeof step === "object" && step !== null
+          ? stepProblem(step as Record<string, unknown>)
+          : "step must be an object";
+      if (problem) problems.push(`${field} step ${i + 1}: ${problem}`);
+    });
+  }
+  return problems;
+}
+
+/** Throw on the first problem validateTransforms finds. */
+export function assertValidTransforms(transforms: unknown): asserts transforms is FieldTransforms {
+  const problems = validateTransforms(transforms);
+  if (problems.length > 0) throw new Error(`Invalid transform — ${problems[0]}`);
+}
+
+/** Fields with at least one step — the ones worth keeping */
+export function activeTransforms(transforms: FieldTransforms): FieldTransforms {
+  return Object.fromEntries(Object.entries(transforms).filter(([, steps]) => steps.length > 0));
+}
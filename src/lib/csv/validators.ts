@@ -1,4 +1,8 @@
-import type { SourceSchema, ValidationError } from "@/lib/types";
+import type { CountryCode } from "libphonenumber-js";
+import type { FieldTransforms, SourceSchema, ValidationError } from "@/lib/types";
+import { DEFAULT_COUNTRY, normalizePhone, phoneCountry } from "@/lib/stitching/phone-utils";
+import { DATE_ORDER_LABELS, DEFAULT_DATE_OPTIONS, parseDate, type DateOptions } from "./dates";
+import { applyTransforms } from "./transforms";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
 
@@ -53,37 +57,26 @@ export function parseNumber(value: string): number | null {
 
 /**
  * Try to parse a date/timestamp string. Returns ISO string or null.
+ * Numeric dates are read in the import's date order (month-first unless
+ * chosen or inferred otherwise) — see parseDate.
  */
-export function parseTimestamp(value: string): string | null {
-  // Try direct Date parsing
-  const d = new Date(value);
-  if (!isNaN(d.getTime())) return d.toISOString();
-
-  // Try common formats: MM/DD/YYYY, DD/MM/YYYY etc.
-  // For ambiguous dates, prefer month-first (US convention)
-  const parts = value.match(/(\d{1,2})[/\-.](\d{1,2})[/\-.](\d{2,4})/);
-  if (parts) {
-    const [, a, b, yearStr] = parts;
-    const year =
-      yearStr.length === 2
-        ? 2000 + parseInt(yearStr)
-        : parseInt(yearStr);
-    // Try month/day/year first
-    const mdDate = new Date(year, parseInt(a) - 1, parseInt(b));
-    if (!isNaN(mdDate.getTime())) return mdDate.toISOString();
-  }
-
-  return null;
+export function parseTimestamp(value: string, dateOptions: DateOptions = DEFAULT_DATE_OPTIONS): string | null {
+  return parseDate(value, dateOptions);
 }
 
 /**
  * Validate a single mapped row against the schema.
  * Returns errors (hard failures that skip the row) and warnings (stripped fields, row still imports).
+ * Phones are parsed for the row's country, else `defaultPhoneCountry`;
+ * numbers that can't be normalized are kept but reported as warnings.
+ * Dates are parsed with `dateOptions` (the import's date order and timezone).
  */
 export function validateMappedRow(
   row: Record<string, string | null>,
   schema: SourceSchema,
-  rowIndex: number
+  rowIndex: number,
+  defaultPhoneCountry: CountryCode = DEFAULT_COUNTRY,
+  dateOptions: DateOptions = DEFAULT_DATE_OPTIONS
 ): { errors: ValidationError[]; warnings: ValidationError[] } {
   const errors: ValidationError[] = [];
   const warnings: ValidationError[] = [];
@@ -105,6 +98,21 @@ export function validateMappedRow(
     // Skip empty optional fields
     if (!value) continue;
 
+    // Phone: keep the raw value, but report numbers matching can't use
+    if (field.key === schema.phoneField) {
+      const country = phoneCountry(row.country, defaultPhoneCountry);
+      if (!normalizePhone(value, country)) {
+        warnings.push({
+          row: rowIndex,
+          field: field.key,
+          message: `Phone could not be normalized for ${country}: "${value}" (kept, not used for matching)`,
+          value,
+          severity: "warning",
+        });
+      }
+      continue;
+    }
+
     // Type-specific validation
     switch (field.type) {
       case "email": {
@@ -163,11 +171,13 @@ export function validateMappedRow(
 
       case "date":
       case "timestamp":
-        if (parseTimestamp(value) === null) {
+        if (parseTimestamp(value, dateOptions) === null) {
           errors.push({
             row: rowIndex,
             field: field.key,
-            message: `Invalid date/time: "${value}"`,
+            message: /^\d{1,2}[/\-.]\d{1,2}[/\-.]\d{2,4}/.test(value)
+              ? `Invalid date for ${DATE_ORDER_LABELS[dateOptions.order]}: "${value}"`
+              : `Invalid date/time: "${value}"`,
             value,
           });
         }
@@ -191,11 +201,13 @@ export function validateMappedRow(
 
 /**
  * Apply a column mapping to a raw CSV row, producing a mapped row
- * with schema field keys as keys.
+ * with schema field keys as keys. Field transforms then run on the
+ * mapped values (see transforms.ts).
  */
 export function applyMapping(
   rawRow: Record<string, string>,
-  mapping: Record<string, string>
+  mapping: Record<string, string>,
+  transforms?: FieldTransforms
 ): Record<string, string | null> {
   const mapped: Record<string, string | null> = {};
 
@@ -204,5 +216,7 @@ export function applyMapping(
     mapped[schemaField] = value || null;
   }
 
+  if (transforms) applyTransforms(mapped, rawRow, transforms);
+
   return mapped;
 }
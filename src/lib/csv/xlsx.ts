@@ -0,0 +1,341 @@
+/**
+ * Minimal .xlsx reader for the upload flow: lists a workbook's sheets and
+ * reads one as rows of cell text. Covers what system exports contain —
+ * shared and inline strings, numbers, booleans, formula results and dates —
+ * and ignores formatting. Runs in the browser and in Node.
+ */
+
+// ─── ZIP container ───────────────────────────────────────────
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_SIGNATURE = 0x02014b50;
+const LOCAL_SIGNATURE = 0x04034b50;
+
+/** True if the bytes start like a ZIP archive (every .xlsx is one) */
+export function isZipFile(bytes: Uint8Array): boolean {
+  return bytes.length >= 4 && bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // The end-of-central-directory record sits within the last 64 KB (comment)
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("This file is not a valid Excel workbook");
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const names = new TextDecoder("utf-8");
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_SIGNATURE) {
+      throw new Error("This file is not a valid Excel workbook");
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = names.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as Uint8Array<ArrayBuffer>])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function readZipText(
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>,
+  name: string
+): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const local = entry.localHeaderOffset;
+  if (view.getUint32(local, true) !== LOCAL_SIGNATURE) {
+    throw new Error("This file is not a valid Excel workbook");
+  }
+  // Sizes come from the central directory — local headers may defer them
+  const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+  const data = bytes.subarray(start, start + entry.compressedSize);
+
+  let raw: Uint8Array;
+  if (entry.method === 0) raw = data;
+  else if (entry.method === 8) raw = await inflate(data);
+  else throw new Error(`Unsupported compression in workbook part ${name}`);
+  return new TextDecoder("utf-8").decode(raw);
+}
+
+// ─── XML helpers ─────────────────────────────────────────────
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function attributes(tag: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  for (const m of tag.matchAll(/([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attrs[m[1]] = decodeXml(m[2] ?? m[3]);
+  }
+  return attrs;
+}
+
+/** Concatenated text of the <t> runs in a string item, skipping phonetic runs */
+function runText(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  let text = "";
+  for (const m of withoutPhonetic.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)) {
+    text += decodeXml(m[1]);
+  }
+  return text;
+}
+
+// ─── Workbook parts ──────────────────────────────────────────
+
+interface SheetRef {
+  name: string;
+  path: string;
+}
+
+function readSheetRefs(workbookXml: string, relsXml: string): SheetRef[] {
+  const targets = new Map<string, string>();
+  for (const m of relsXml.matchAll(/<Relationship\b[^>]*>/g)) {
+    const attrs = attributes(m[0]);
+    if (!attrs.Id || !attrs.Target) continue;
+    const target = attrs.Target.startsWith("/")
+      ? attrs.Target.slice(1)
+      : `xl/${attrs.Target}`;
+    targets.set(attrs.Id, target);
+  }
+
+  const sheets: SheetRef[] = [];
+  for (const m of workbookXml.matchAll(/<sheet\b[^>]*>/g)) {
+    const attrs = attributes(m[0]);
+    if (attrs.state === "hidden" || attrs.state === "veryHidden") continue;
+    const path = targets.get(attrs["r:id"]);
+    if (attrs.name && path) sheets.push({ name: attrs.name, path });
+  }
+  return sheets;
+}
+
+function readSharedStrings(xml: string | null): string[] {
+  if (!xml) return [];
+  const strings: string[] = [];
+  for (const m of xml.matchAll(/<si\b[^>]*?(?:\/>|>([\s\S]*?)<\/si>)/g)) {
+    strings.push(m[1] ? runText(m[1]) : "");
+  }
+  return strings;
+}
+
+type CellFormat = "date" | "time" | null;
+
+/** Built-in number formats that display dates or times */
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 22]);
+const BUILTIN_TIME_FORMATS = new Set([18, 19, 20, 21, 45, 46, 47]);
+
+function classifyFormatCode(code: string): CellFormat {
+  // Ignore quoted literals, escapes and [color]/[locale] sections
+  const tokens = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, "").toLowerCase();
+  if (/[dy]/.test(tokens)) return "date";
+  if (/[hs]/.test(tokens)) return "time";
+  return null;
+}
+
+/** Date/time classification of each cell style (the cell's `s` attribute) */
+function readCellFormats(xml: string | null): CellFormat[] {
+  if (!xml) return [];
+
+  const custom = new Map<number, CellFormat>();
+  for (const m of xml.matchAll(/<numFmt\b[^>]*>/g)) {
+    const attrs = attributes(m[0]);
+    custom.set(Number(attrs.numFmtId), classifyFormatCode(attrs.formatCode ?? ""));
+  }
+
+  const cellXfs = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/);
+  if (!cellXfs) return [];
+  const formats: CellFormat[] = [];
+  for (const m of cellXfs[1].matchAll(/<xf\b[^>]*>/g)) {
+    const id = Number(attributes(m[0]).numFmtId ?? 0);
+    if (custom.has(id)) formats.push(custom.get(id)!);
+    else if (BUILTIN_DATE_FORMATS.has(id)) formats.push("date");
+    else if (BUILTIN_TIME_FORMATS.has(id)) formats.push("time");
+    else formats.push(null);
+  }
+  return formats;
+}
+
+// ─── Cell values ─────────────────────────────────────────────
+
+const MS_PER_DAY = 86_400_000;
+/** Day 0 of the 1900 date system, allowing for Excel's phantom 1900-02-29 */
+const EPOCH_1900 = Date.UTC(1899, 11, 30);
+const EPOCH_1904 = Date.UTC(1904, 0, 1);
+
+function pad(n: number): string {
+  return String(n).padStart(2, "0");
+}
+
+function formatSerialDate(serial: number, format: "date" | "time", date1904: boolean): string {
+  const ms = Math.round(serial * MS_PER_DAY / 1000) * 1000;
+  const d = new Date((date1904 ? EPOCH_1904 : EPOCH_1900) + ms);
+  const time = `${pad(d.getUTCHours())}:${pad(d.getUTCMinutes())}:${pad(d.getUTCSeconds())}`;
+  if (format === "time") return time;
+
+  const date = `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+  return ms % MS_PER_DAY === 0 ? date : `${date} ${time}`;
+}
+
+/** Excel shows 15 significant digits; stored values carry float noise past that */
+function formatNumber(value: string): string {
+  const n = Number(value);
+  if (!Number.isFinite(n)) return value;
+  return String(Number(n.toPrecision(15)));
+}
+
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const ch of ref) {
+    const code = ch.charCodeAt(0);
+    if (code < 65 || code > 90) break;
+    index = index * 26 + (code - 64);
+  }
+  return index - 1;
+}
+
+interface WorkbookContext {
+  sharedStrings: string[];
+  cellFormats: CellFormat[];
+  date1904: boolean;
+}
+
+function readCellValue(attrs: Record<string, string>, inner: string, ctx: WorkbookContext): string {
+  const type = attrs.t ?? "n";
+  if (type === "inlineStr") {
+    const is = inner.match(/<is>([\s\S]*?)<\/is>/);
+    return is ? runText(is[1]) : "";
+  }
+
+  const v = inner.match(/<v>([\s\S]*?)<\/v>/);
+  if (!v) return "";
+  const raw = decodeXml(v[1]);
+
+  switch (type) {
+    case "s":
+      return ctx.sharedStrings[Number(raw)] ?? "";
+    case "str":
+      return raw;
+    case "b":
+      return raw === "1" ? "TRUE" : "FALSE";
+    case "e":
+      // Formula errors (#N/A, #REF!) are not data
+      return "";
+    default: {
+      const format = attrs.s ? ctx.cellFormats[Number(attrs.s)] : null;
+      const serial = Number(raw);
+      if (format && Number.isFinite(serial)) return formatSerialDate(serial, format, ctx.date1904);
+      return formatNumber(raw);
+    }
+  }
+}
+
+function readSheetRows(xml: string, ctx: WorkbookContext): string[][] {
+  const rows: string[][] = [];
+  for (const rowMatch of xml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    for (const cell of (rowMatch[1] ?? "").matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attrs = attributes(cell[1]);
+      const index = attrs.r ? columnIndex(attrs.r) : row.length;
+      const value = readCellValue(attrs, cell[2] ?? "", ctx);
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+    // Trailing blank cells only widen the row
+    while (row.length > 0 && row[row.length - 1] === "") row.pop();
+    rows.push(row);
+  }
+  return rows;
+}
+
+// ─── Public API ──────────────────────────────────────────────
+
+export interface Workbook {
+  /** Visible sheets, in workbook order */
+  sheetNames: string[];
+  /** Cell text of a sheet, row by row (dates as YYYY-MM-DD[ HH:MM:SS]) */
+  readSheet(name: string): Promise<string[][]>;
+}
+
+/**
+ * Open an .xlsx workbook.
+ *
+ * 1. Read the ZIP directory and the workbook's sheet list
+ * 2. Load shared strings and cell styles (to tell dates from numbers)
+ * 3. Sheets are parsed on demand, one at a time
+ */
+export async function readWorkbook(bytes: Uint8Array): Promise<Workbook> {
+  if (!isZipFile(bytes)) {
+    throw new Error("This file is not an .xlsx workbook — save it as .xlsx or CSV and try again");
+  }
+  const entries = readZipDirectory(bytes);
+
+  const workbookXml = await readZipText(bytes, entries, "xl/workbook.xml");
+  const relsXml = await readZipText(bytes, entries, "xl/_rels/workbook.xml.rels");
+  if (!workbookXml || !relsXml) throw new Error("This file is not a valid Excel workbook");
+
+  const sheets = readSheetRefs(workbookXml, relsXml);
+  if (sheets.length === 0) throw new Error("This workbook has no sheets");
+
+  const ctx: WorkbookContext = {
+    sharedStrings: readSharedStrings(await readZipText(bytes, entries, "xl/sharedStrings.xml")),
+    cellFormats: readCellFormats(await readZipText(bytes, entries, "xl/styles.xml")),
+    date1904: /<workbookPr\b[^>]*\bdate1904\s*=\s*"(?:1|true)"/.test(workbookXml),
+  };
+
+  return {
+    sheetNames: sheets.map((s) => s.name),
+    async readSheet(name: string) {
+      const sheet = sheets.find((s) => s.name === name);
+      if (!sheet) throw new Error(`Sheet "${name}" not found in workbook`);
+      const xml = await readZipText(bytes, entries, sheet.path);
+      if (xml === null) throw new Error(`Sheet "${name}" is missing from the workbook`);
+      return readSheetRows(xml, ctx);
+    },
+  };
+}
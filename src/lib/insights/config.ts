@@ -2,8 +2,6 @@ import { createAdminClient } from "@/lib/supabase/admin";
 import { getProfile, DEFAULT_PROFILE_ID } from "./profiles";
 import type { ResolvedConfig } from "./types";
 
-const DEFAULT_ORG_ID = "00000000-0000-0000-0000-000000000001";
-
 /**
  * Resolves the active config by merging profile defaults with DB overrides.
  *
@@ -15,6 +13,7 @@ const DEFAULT_ORG_ID = "00000000-0000-0000-0000-000000000001";
  * 5. Legacy DB columns (churn_days, high_value_threshold) are ignored
  */
 export async function resolveConfig(
+  orgId: string,
   profileParam?: string | null
 ): Promise<ResolvedConfig> {
   const admin = createAdminClient();
@@ -24,7 +23,7 @@ export async function resolveConfig(
     .select(
       "active_profile, at_risk_days, dormant_days, lost_days, repeat_purchase_min, new_high_value_window_days, one_and_done_days"
     )
-    .eq("org_id", DEFAULT_ORG_ID)
+    .eq("org_id", orgId)
     .single();
 
   // Determine profile ID: URL param > DB active_profile > default
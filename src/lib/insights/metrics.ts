@@ -1,4 +1,5 @@
 import { createAdminClient } from "@/lib/supabase/admin";
+import { householdRevenue } from "@/lib/stitching/household";
 import type {
   ComputedCustomer,
   RevenueTier,
@@ -6,8 +7,6 @@ import type {
   ResolvedConfig,
 } from "./types";
 
-const DEFAULT_ORG_ID = "00000000-0000-0000-0000-000000000001";
-
 // ── Shared predicates (used by both cards and table drilldown) ────
 
 export function isRevenueAtRisk(
@@ -108,6 +107,7 @@ export function minDate(...dates: (string | null | undefined)[]): string | null
 // ── Main computation ─────────────────────────────────────────────
 
 export async function computeAllCustomerMetrics(
+  orgId: string,
   config: ResolvedConfig
 ): Promise<ComputedCustomer[]> {
   const admin = createAdminClient();
@@ -118,23 +118,23 @@ export async function computeAllCustomerMetrics(
     await Promise.all([
       admin
         .from("customers")
-        .select("id, full_name, email")
-        .eq("org_id", DEFAULT_ORG_ID),
+        .select("id, full_name, email, household_id")
+        .eq("org_id", orgId),
       admin
         .from("payments")
         .select("customer_id, amount, amount_usd, payment_date, source")
-        .eq("org_id", DEFAULT_ORG_ID)
+        .eq("org_id", orgId)
         .in("status", ["succeeded", "approved"]),
       admin
         .from("bookings")
         .select(
           "customer_id, start_time, status, source, lead_source_channel"
         )
-        .eq("org_id", DEFAULT_ORG_ID),
+        .eq("org_id", orgId),
       admin
         .from("attendance")
         .select("customer_id, check_in_time")
-        .eq("org_id", DEFAULT_ORG_ID),
+        .eq("org_id", orgId),
     ]);
 
   const customers = customersRes.data ?? [];
@@ -211,7 +211,7 @@ export async function computeAllCustomerMetrics(
   }
 
   // Compute per customer
-  return customers.map((c) => {
+  const computed: ComputedCustomer[] = customers.map((c) => {
     const payInfo = paymentAgg.get(c.id);
     const bookInfo = bookingAgg.get(c.id);
     const lifetime_revenue = Math.round((payInfo?.total ?? 0) * 100) / 100;
@@ -290,6 +290,16 @@ export async function computeAllCustomerMetrics(
       first_payment_date,
       days_since_first_payment,
       revenue_by_source,
+      household_id: c.household_id ?? null,
+      household_revenue: null,
     };
   });
+
+  // Household LTV: sum of members' individual LTV
+  const householdTotals = householdRevenue(computed);
+  for (const c of computed) {
+    if (c.household_id) c.household_revenue = householdTotals.get(c.household_id) ?? null;
+  }
+
+  return computed;
 }
@@ -26,6 +26,9 @@ export interface ComputedCustomer {
   first_payment_date: string | null;
   days_since_first_payment: number | null;
   revenue_by_source: Record<string, number>;
+  // Households — null when the customer isn't in one
+  household_id: string | null;
+  household_revenue: number | null; // sum of members' lifetime_revenue
 }
 
 // Profile config — 4 required fields + Phase 1 extensions
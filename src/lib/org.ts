@@ -0,0 +1,69 @@
+import { cookies } from "next/headers";
+import { createClient } from "@/lib/supabase/server";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { hasPermission, type Permission } from "@/lib/permissions";
+import type { OrgRole } from "@/lib/types";
+
+/** Cookie holding the org the user last switched to in the sidebar. */
+export const ACTIVE_ORG_COOKIE = "tl_active_org";
+
+export interface OrgContext {
+  userId: string;
+  email: string | null;
+  orgId: string;
+  role: OrgRole;
+}
+
+/**
+ * Resolve the signed-in user and the organization this request acts on.
+ *
+ * 1. Require an authenticated user
+ * 2. Load the user's memberships (oldest first)
+ * 3. Use the active-org cookie if it names one of those memberships,
+ *    otherwise fall back to the user's first organization
+ *
+ * Every server action goes through this before touching org-scoped data,
+ * since the admin client bypasses RLS.
+ */
+export async function requireOrg(): Promise<OrgContext> {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) throw new Error("Unauthorized");
+
+  const admin = createAdminClient();
+  const { data: memberships, error } = await admin
+    .from("organization_members")
+    .select("org_id, role")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true });
+
+  if (error) throw new Error(`Failed to load memberships: ${error.message}`);
+  if (!memberships || memberships.length === 0) {
+    throw new Error("No organization membership");
+  }
+
+  const cookieStore = await cookies();
+  const preferred = cookieStore.get(ACTIVE_ORG_COOKIE)?.value;
+  const active = memberships.find((m) => m.org_id === preferred) ?? memberships[0];
+
+  return {
+    userId: user.id,
+    email: user.email ?? null,
+    orgId: active.org_id,
+    role: active.role as OrgRole,
+  };
+}
+
+/**
+ * Like requireOrg(), but also fails unless the user's role in the active
+ * org grants `permission`. Use for every mutating server action.
+ */
+export async function requirePermission(permission: Permission): Promise<OrgContext> {
+  const ctx = await requireOrg();
+  if (!hasPermission(ctx.role, permission)) {
+    throw new Error(`Forbidden: ${ctx.role} role cannot perform ${permission}`);
+  }
+  return ctx;
+}
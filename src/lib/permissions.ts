@@ -0,0 +1,58 @@
+import type { OrgRole } from "@/lib/types";
+
+// ── Permissions ─────────────────────────────────────────────
+// Pure role → capability table shared by server actions (enforcement)
+// and client pages (hiding controls). Viewers are read-only.
+
+export type Permission =
+  | "import:upload"
+  | "import:revert"
+  | "import:delete"
+  | "conflict:resolve"
+  | "customer:merge"
+  | "customer:split"
+  | "customer:household"
+  | "config:update"
+  | "data:reset";
+
+const ROLE_PERMISSIONS: Record<OrgRole, readonly Permission[]> = {
+  owner: [
+    "import:upload",
+    "import:revert",
+    "import:delete",
+    "conflict:resolve",
+    "customer:merge",
+    "customer:split",
+    "customer:household",
+    "config:update",
+    "data:reset",
+  ],
+  admin: [
+    "import:upload",
+    "import:revert",
+    "import:delete",
+    "conflict:resolve",
+    "customer:merge",
+    "customer:split",
+    "customer:household",
+    "config:update",
+  ],
+  analyst: [
+    "import:upload",
+    "conflict:resolve",
+    "customer:merge",
+    "customer:split",
+    "customer:household",
+  ],
+  viewer: [],
+};
+
+export const ORG_ROLES: readonly OrgRole[] = ["owner", "admin", "analyst", "viewer"];
+
+export function hasPermission(
+  role: OrgRole | null | undefined,
+  permission: Permission
+): boolean {
+  if (!role) return false;
+  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+}
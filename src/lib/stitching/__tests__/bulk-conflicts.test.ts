@@ -0,0 +1,80 @@
+import { describe, it, expect } from "vitest";
+import {
+  conflictMatchesRule,
+  describeBulkRule,
+  normalizeBulkRule,
+  type BulkConflictCandidate,
+  type BulkCustomerContact,
+} from "../bulk-conflicts";
+
+function conflict(fields: Partial<BulkConflictCandidate>): BulkConflictCandidate {
+  return { id: "x", customer_a_id: "a", customer_b_id: "b", confidence: 0.5, import_id: null, ...fields };
+}
+
+const noContacts = new Map<string, BulkCustomerContact>();
+
+describe("normalizeBulkRule", () => {
+  it("dedupes selected ids and rejects an empty selection", () => {
+    expect(normalizeBulkRule({ kind: "selected", conflictIds: ["1", "1", "2"] })).toEqual({
+      kind: "selected",
+      conflictIds: ["1", "2"],
+    });
+    expect(() => normalizeBulkRule({ kind: "selected", conflictIds: [] })).toThrow();
+  });
+
+  it("requires a threshold between 0 and 1", () => {
+    expect(normalizeBulkRule({ kind: "confidence_below", threshold: 0.456 })).toEqual({
+      kind: "confidence_below",
+      threshold: 0.46,
+    });
+    expect(() => normalizeBulkRule({ kind: "confidence_below", threshold: 0 })).toThrow();
+    expect(() => normalizeBulkRule({ kind: "confidence_below", threshold: 1.5 })).toThrow();
+  });
+
+  it("requires an import id", () => {
+    expect(() => normalizeBulkRule({ kind: "import", importId: "" })).toThrow();
+  });
+});
+
+describe("conflictMatchesRule", () => {
+  it("matches by confidence, leaving unscored conflicts alone", () => {
+    const rule = { kind: "confidence_below" as const, threshold: 0.5 };
+    expect(conflictMatchesRule(conflict({ confidence: 0.45 }), rule, noContacts, "US")).toBe(true);
+    expect(conflictMatchesRule(conflict({ confidence: 0.5 }), rule, noContacts, "US")).toBe(false);
+    expect(conflictMatchesRule(conflict({ confidence: null }), rule, noContacts, "US")).toBe(false);
+  });
+
+  it("matches by import and by selection", () => {
+    expect(
+      conflictMatchesRule(conflict({ import_id: "imp1" }), { kind: "import", importId: "imp1" }, noContacts, "US")
+    ).toBe(true);
+    expect(
+      conflictMatchesRule(conflict({ id: "c2" }), { kind: "selected", conflictIds: ["c1"] }, noContacts, "US")
+    ).toBe(false);
+  });
+
+  it("matches when both customers' phones normalize to the same number", () => {
+    const contacts = new Map<string, BulkCustomerContact>([
+      ["a", { phone: "(415) 867-5309", country: null }],
+      ["b", { phone: "+1 415 867 5309", country: "US" }],
+      ["c", { phone: "020 7946 0958", country: "GB" }],
+      ["d", { phone: "+44 20 7946 0958", country: null }],
+      ["e", { phone: null, country: null }],
+    ]);
+    const rule = { kind: "phones_match" as const };
+    expect(conflictMatchesRule(conflict({}), rule, contacts, "US")).toBe(true);
+    expect(conflictMatchesRule(conflict({ customer_a_id: "c", customer_b_id: "d" }), rule, contacts, "US")).toBe(true);
+    expect(conflictMatchesRule(conflict({ customer_a_id: "a", customer_b_id: "c" }), rule, contacts, "US")).toBe(false);
+    expect(conflictMatchesRule(conflict({ customer_b_id: "e" }), rule, contacts, "US")).toBe(false);
+    expect(conflictMatchesRule(conflict({ customer_b_id: null }), rule, contacts, "US")).toBe(false);
+  });
+});
+
+describe("describeBulkRule", () => {
+  it("describes each rule", () => {
+    expect(describeBulkRule({ kind: "confidence_below", threshold: 0.5 })).toBe(
+      "conflicts with confidence below 50%"
+    );
+    expect(describeBulkRule({ kind: "import", importId: "1" }, "march.csv")).toBe("conflicts from march.csv");
+  });
+});
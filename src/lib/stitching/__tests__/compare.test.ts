@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { compareIdentityFields, type ComparableCustomer } from "../compare";
+
+const customer = (overrides: Partial<ComparableCustomer> = {}): ComparableCustomer => ({
+  full_name: null,
+  email: null,
+  phone: null,
+  country: null,
+  ...overrides,
+});
+
+describe("compareIdentityFields", () => {
+  it("treats case and whitespace differences as the same", () => {
+    const result = compareIdentityFields(
+      customer({ full_name: "Jane  Doe", email: "Jane@Example.com" }),
+      customer({ full_name: "jane doe", email: "jane@example.com" }),
+      [],
+      "US"
+    );
+    expect(result).toEqual({ full_name: "same", email: "same", phone: "same", country: "same" });
+  });
+
+  it("marks values equal under the matching rules as equivalent", () => {
+    const result = compareIdentityFields(
+      customer({ full_name: "Bob Jones", email: "jane.doe@gmail.com", phone: "(415) 867-5309", country: "US" }),
+      customer({ full_name: "Robert Jones", email: "janedoe+spa@gmail.com", phone: "+1 415 867 5309", country: "United States" }),
+      [],
+      "US"
+    );
+    expect(result).toEqual({
+      full_name: "equivalent",
+      email: "equivalent",
+      phone: "equivalent",
+      country: "equivalent",
+    });
+  });
+
+  it("parses phones for each customer's own country", () => {
+    const result = compareIdentityFields(
+      customer({ phone: "020 7946 0958", country: "GB" }),
+      customer({ phone: "+44 20 7946 0958" }),
+      [],
+      "US"
+    );
+    expect(result.phone).toBe("equivalent");
+  });
+
+  it("flags differences and one-sided values", () => {
+    const result = compareIdentityFields(
+      customer({ full_name: "Luis Garcia", email: "luis@a.com", phone: "+14158675309" }),
+      customer({ full_name: "Laura Garcia", email: "laura@a.com" }),
+      [],
+      "US"
+    );
+    expect(result).toEqual({ full_name: "different", email: "different", phone: "missing", country: "same" });
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { findNameConflicts } from "../conflict-detection";
+import { buildCustomerIndex, detectPostImportConflicts, indexCustomers, namePreviewResult, type CustomerRecord } from "../matcher";
+import { pairKey } from "../do-not-merge";
+import { DEFAULT_STITCHING_POLICY } from "../policy";
+import { createSupabaseStub } from "@/lib/__tests__/supabase-stub";
+
+function record(id: string, full_name: string | null, email: string | null): CustomerRecord {
+  return { id, full_name, email, phone: null, household_id: null, country: null };
+}
+
+function nameMapOf(customers: CustomerRecord[]) {
+  return indexCustomers("org", customers, [], new Set(), DEFAULT_STITCHING_POLICY).nameMap;
+}
+
+describe("findNameConflicts", () => {
+  const jane = record("1", "Jane Doe", "jane@work.com");
+  const janeHome = record("2", "jane doe", "jane@home.com");
+  const janeGmail = record("3", "Jane Doe", "jane.doe@gmail.com");
+  const janeGmailDots = record("4", "Jane Doe", "janedoe@gmail.com");
+  const janeNoEmail = record("5", "Jane Doe", null);
+  const all = [jane, janeHome, janeGmail, janeGmailDots, janeNoEmail];
+
+  it("flags same-name customers with different emails", () => {
+    const conflicts = findNameConflicts([jane], nameMapOf([jane, janeHome]), new Set());
+    expect(conflicts).toEqual([{ customerAId: "1", customerBId: "2", matchValue: "Jane Doe" }]);
+  });
+
+  it("does not flag emails with the same canonical form or missing emails", () => {
+    const conflicts = findNameConflicts([janeGmail], nameMapOf([janeGmail, janeGmailDots, janeNoEmail]), new Set());
+    expect(conflicts).toEqual([]);
+  });
+
+  it("returns each pair once when both customers were imported", () => {
+    const conflicts = findNameConflicts([jane, janeHome], nameMapOf([jane, janeHome]), new Set());
+    expect(conflicts).toHaveLength(1);
+  });
+
+  it("skips never-match pairs", () => {
+    const conflicts = findNameConflicts([jane], nameMapOf(all), new Set([pairKey("1", "2")]));
+    expect(conflicts.map((c) => c.customerBId)).toEqual(["3", "4"]);
+  });
+});
+
+describe("namePreviewResult", () => {
+  const jane = { id: "1", full_name: "Jane Doe", email: "jane.doe+promo@gmail.com", phone: null };
+  const rules = DEFAULT_STITCHING_POLICY.email_rules;
+
+  it("does not flag a sole candidate whose email has the same canonical form", () => {
+    const result = namePreviewResult([{ candidate: jane, score: 1 }], "janedoe@gmail.com", rules);
+    expect(result?.category).toBe("name_match");
+  });
+
+  it("flags a sole candidate with a different email", () => {
+    const result = namePreviewResult([{ candidate: jane, score: 1 }], "jane@work.com", rules);
+    expect(result?.category).toBe("name_conflict");
+  });
+});
+
+describe("detectPostImportConflicts", () => {
+  it("throws instead of reporting no conflicts when the import's customers can't be collected", async () => {
+    const stub = createSupabaseStub({
+      rpc: {
+        import_customer_ids: () => {
+          throw new Error("statement timeout");
+        },
+      },
+    });
+    await expect(detectPostImportConflicts(stub.client, "org", "imp1")).rejects.toThrow("statement timeout");
+  });
+});
+
+describe("post-import conflict detection benchmark", () => {
+  const FIRST = ["Ana", "Luis", "Maria", "John", "Sofia", "Pedro", "Laura", "Diego", "Emma", "Noah"];
+  const LAST = ["Garcia", "Smith", "Lopez", "Silva", "Brown", "Rossi", "Muller", "Kim", "Nguyen", "Costa"];
+
+  // 50k customers over 10k distinct names (~5 per name), each with its own email
+  function syntheticCustomers(count: number): CustomerRecord[] {
+    return Array.from({ length: count }, (_, i) => ({
+      id: `c${i}`,
+      full_name: `${FIRST[i % 10]} ${LAST[Math.floor(i / 10) % 10]} ${Math.floor(i / 100) % 100}`,
+      email: `customer${i}@example.com`,
+      phone: `+1415${String(2000000 + i).padStart(7, "0")}`,
+      household_id: null,
+      country: "US",
+    }));
+  }
+
+  it("loads and indexes 50k customers and checks a 5k-customer import in memory", async () => {
+    const customers = syntheticCustomers(50_000);
+    const stub = createSupabaseStub({
+      tables: {
+        customers: { rows: customers.map((c) => ({ ...c, org_id: "org" })) },
+        customer_sources: {
+          rows: customers.map((c, i) => ({
+            id: `s${i}`,
+            org_id: "org",
+            source: "stripe",
+            external_id: `cus_${i}`,
+            customer_id: c.id,
+            external_email: c.email,
+            customers: [c],
+          })),
+        },
+        do_not_merge: { rows: [{ id: "d1", org_id: "org", customer_a_id: "c0", customer_b_id: "c49999" }] },
+      },
+    });
+    const started = performance.now();
+
+    const index = await buildCustomerIndex(stub.client, "org");
+    const imported = customers.slice(-5_000).map((c) => index.customerMap.get(c.id)!);
+    const conflicts = findNameConflicts(imported, index.nameMap, index.doNotMerge);
+
+    const elapsed = performance.now() - started;
+    // Loaded past PostgREST's 1000-row cap, a page at a time
+    expect(index.customerMap.size).toBe(50_000);
+    expect(index.sourceIdMap.size).toBe(50_000);
+    expect(index.doNotMerge.size).toBe(1);
+    expect(stub.queries.customers).toBe(51);
+    // Each imported customer shares its name with 4 others; pairs inside the import count once
+    expect(conflicts.length).toBeGreaterThan(5_000);
+    expect(new Set(conflicts.map((c) => pairKey(c.customerAId, c.customerBId))).size).toBe(conflicts.length);
+    expect(elapsed).toBeLessThan(8_000);
+  }, 30_000);
+});
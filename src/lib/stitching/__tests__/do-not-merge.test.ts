@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { pairKey, isNeverMatch, excludeNeverMatch, loadDoNotMergePairs, addDoNotMergePair } from "../do-not-merge";
+import { indexCustomers, isNeverMatchForIndexedRow, type CustomerRecord } from "../matcher";
+import { DEFAULT_STITCHING_POLICY } from "../policy";
+
+const pairs = new Set([pairKey("jane", "john")]);
+
+describe("pairKey", () => {
+  it("is the same in either order", () => {
+    expect(pairKey("b", "a")).toBe(pairKey("a", "b"));
+  });
+});
+
+describe("isNeverMatch", () => {
+  it("matches a recorded pair in either direction", () => {
+    expect(isNeverMatch(pairs, "jane", "john")).toBe(true);
+    expect(isNeverMatch(pairs, "john", "jane")).toBe(true);
+  });
+
+  it("ignores unrelated pairs and self-pairs", () => {
+    expect(isNeverMatch(pairs, "jane", "joe")).toBe(false);
+    expect(isNeverMatch(pairs, "jane", "jane")).toBe(false);
+  });
+});
+
+describe("excludeNeverMatch", () => {
+  it("drops a phone match that is never-match with the row's name match", () => {
+    const matches = [{ id: "jane" }];
+    expect(excludeNeverMatch(matches, ["john"], pairs)).toEqual([]);
+  });
+
+  it("narrows a shared phone down to the name match", () => {
+    const matches = [{ id: "jane" }, { id: "john" }];
+    expect(excludeNeverMatch(matches, ["john"], pairs)).toEqual([{ id: "john" }]);
+  });
+
+  it("keeps matches when nothing else points at a blocked partner", () => {
+    const matches = [{ id: "jane" }];
+    expect(excludeNeverMatch(matches, [], pairs)).toEqual(matches);
+    expect(excludeNeverMatch(matches, ["joe"], pairs)).toEqual(matches);
+  });
+
+  it("keeps a match the row's name also finds, as for a split same-name pair", () => {
+    const matches = [{ id: "jane" }];
+    expect(excludeNeverMatch(matches, ["jane", "john"], pairs)).toEqual(matches);
+  });
+
+  it("keeps matches when there are no rules", () => {
+    const matches = [{ id: "jane" }];
+    expect(excludeNeverMatch(matches, ["john"], new Set())).toBe(matches);
+  });
+});
+
+/** A do_not_merge table behind PostgREST's 1000-row cap. */
+function doNotMergeClient(rows: { customer_a_id: string; customer_b_id: string }[], error?: string) {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    or: () => query,
+    order: () => query,
+    range: (from: number, to: number) =>
+      Promise.resolve(
+        error
+          ? { data: null, error: { message: error } }
+          : { data: rows.slice(from, Math.min(to + 1, from + 1000)), error: null }
+      ),
+  };
+  return { from: () => query } as unknown as SupabaseClient;
+}
+
+describe("loadDoNotMergePairs", () => {
+  it("loads pairs past the first page", async () => {
+    const rows = Array.from({ length: 2500 }, (_, i) => ({ customer_a_id: `a${i}`, customer_b_id: `b${i}` }));
+    const pairs = await loadDoNotMergePairs(doNotMergeClient(rows), "org");
+    expect(pairs.size).toBe(2500);
+    expect(isNeverMatch(pairs, "a2499", "b2499")).toBe(true);
+  });
+
+  it("throws instead of matching without the pairs", async () => {
+    await expect(loadDoNotMergePairs(doNotMergeClient([], "timeout"), "org")).rejects.toThrow("timeout");
+  });
+});
+
+describe("addDoNotMergePair", () => {
+  it("throws when the pair can't be saved", async () => {
+    const admin = {
+      from: () => ({ upsert: () => Promise.resolve({ error: { message: "permission denied" } }) }),
+    } as unknown as SupabaseClient;
+    await expect(
+      addDoNotMergePair(admin, "org", "jane", "john", { reason: "dismissed" })
+    ).rejects.toThrow("permission denied");
+  });
+});
+
+describe("isNeverMatchForIndexedRow", () => {
+  const jane: CustomerRecord = { id: "jane", full_name: "Jane Roe", email: "family@example.com", phone: null };
+  const john: CustomerRecord = { id: "john", full_name: "John Roe", email: "john@example.com", phone: null };
+  const index = indexCustomers("org", [jane, john], [], pairs, DEFAULT_STITCHING_POLICY);
+
+  it("blocks a match never-match with the row's name match", () => {
+    expect(isNeverMatchForIndexedRow(index, "jane", "John Roe")).toBe(true);
+    expect(isNeverMatchForIndexedRow(index, "jane", "Jane Roe")).toBe(false);
+  });
+
+  it("keeps a match when the row has no name", () => {
+    expect(isNeverMatchForIndexedRow(index, "jane", null)).toBe(false);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import {
+  canonicalEmail,
+  emailLookupPatterns,
+  emailsMatch,
+  normalizeEmailRules,
+  type EmailDomainRule,
+} from "../email-utils";
+
+const fastmail: EmailDomainRule = {
+  domain: "fastmail.com",
+  alias_of: null,
+  ignore_dots: false,
+  ignore_plus: true,
+};
+
+describe("canonicalEmail", () => {
+  it("trims and lowercases", () => {
+    expect(canonicalEmail("  Jane@Example.com ")).toBe("jane@example.com");
+  });
+
+  it("returns null for empty input", () => {
+    expect(canonicalEmail(null)).toBeNull();
+    expect(canonicalEmail("   ")).toBeNull();
+  });
+
+  it("ignores dots and +tags for Gmail", () => {
+    expect(canonicalEmail("jane.doe+retreat@gmail.com")).toBe("janedoe@gmail.com");
+    expect(canonicalEmail("J.A.N.E.D.O.E@Gmail.com")).toBe("janedoe@gmail.com");
+  });
+
+  it("treats googlemail.com as gmail.com", () => {
+    expect(canonicalEmail("jane.doe@googlemail.com")).toBe("janedoe@gmail.com");
+  });
+
+  it("leaves other domains alone by default", () => {
+    expect(canonicalEmail("jane.doe+x@example.com")).toBe("jane.doe+x@example.com");
+  });
+
+  it("applies org rules for other domains", () => {
+    expect(canonicalEmail("jane.doe+x@fastmail.com", [fastmail])).toBe("jane.doe@fastmail.com");
+  });
+
+  it("lets org rules replace the built-in ones", () => {
+    const rules = [{ domain: "gmail.com", alias_of: null, ignore_dots: false, ignore_plus: false }];
+    expect(canonicalEmail("jane.doe+x@gmail.com", rules)).toBe("jane.doe+x@gmail.com");
+  });
+
+  it("keeps addresses that don't parse", () => {
+    expect(canonicalEmail("not-an-email")).toBe("not-an-email");
+    expect(canonicalEmail("+tag@gmail.com")).toBe("+tag@gmail.com");
+  });
+});
+
+describe("emailsMatch", () => {
+  it("matches Gmail variants of the same inbox", () => {
+    expect(emailsMatch("jane.doe+retreat@gmail.com", "janedoe@gmail.com")).toBe(true);
+  });
+
+  it("does not match different inboxes", () => {
+    expect(emailsMatch("jane.doe@example.com", "janedoe@example.com")).toBe(false);
+    expect(emailsMatch("jane@gmail.com", null)).toBe(false);
+  });
+});
+
+describe("emailLookupPatterns", () => {
+  it("returns null for domains without rules", () => {
+    expect(emailLookupPatterns("jane@example.com")).toBeNull();
+  });
+
+  it("covers every domain that canonicalizes to the same one", () => {
+    expect(emailLookupPatterns("Jane.Doe+x@gmail.com")).toEqual([
+      "j%a%n%e%d%o%e%@gmail.com",
+      "j%a%n%e%d%o%e%@googlemail.com",
+    ]);
+  });
+
+  it("escapes LIKE wildcards in the address", () => {
+    expect(emailLookupPatterns("jane_doe@fastmail.com", [fastmail])).toEqual([
+      "jane\\_doe%@fastmail.com",
+    ]);
+  });
+
+  it("includes an alias target that has no rule of its own", () => {
+    const rules = [{ domain: "acme.co", alias_of: "acme.com", ignore_dots: false, ignore_plus: false }];
+    expect(emailLookupPatterns("jane@acme.co", rules)).toEqual(["jane@acme.co", "jane@acme.com"]);
+  });
+});
+
+describe("normalizeEmailRules", () => {
+  it("returns no rules for non-arrays", () => {
+    expect(normalizeEmailRules(null)).toEqual([]);
+    expect(normalizeEmailRules({ domain: "example.com" })).toEqual([]);
+  });
+
+  it("drops a self-alias and keeps the last rule per domain", () => {
+    expect(
+      normalizeEmailRules([
+        { domain: "example.com", ignore_dots: true },
+        { domain: "example.com", alias_of: "example.com", ignore_plus: true },
+      ])
+    ).toEqual([{ domain: "example.com", alias_of: null, ignore_dots: false, ignore_plus: true }]);
+  });
+});
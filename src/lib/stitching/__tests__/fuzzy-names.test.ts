@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  FUZZY_NAME_THRESHOLD,
+  addToNameBuckets,
+  editDistance,
+  findNameCandidates,
+  isNickname,
+  nameBlockingKeys,
+  nameCandidateConfidence,
+  nameSimilarity,
+  phoneticKey,
+  removeFromNameBuckets,
+} from "../fuzzy-names";
+
+describe("editDistance", () => {
+  it("counts insertions, deletions and substitutions", () => {
+    expect(editDistance("smith", "smith")).toBe(0);
+    expect(editDistance("smith", "smyth")).toBe(1);
+    expect(editDistance("anna", "ana")).toBe(1);
+    expect(editDistance("", "abc")).toBe(3);
+  });
+
+  it("counts an adjacent transposition as one edit", () => {
+    expect(editDistance("jonh", "john")).toBe(1);
+  });
+});
+
+describe("phoneticKey", () => {
+  it("gives the same key to names that sound alike", () => {
+    expect(phoneticKey("Smith")).toBe(phoneticKey("Smyth"));
+    expect(phoneticKey("Catherine")).toBe(phoneticKey("Kathryn"));
+  });
+
+  it("keeps different-sounding names apart", () => {
+    expect(phoneticKey("Smith")).not.toBe(phoneticKey("Brown"));
+  });
+});
+
+describe("isNickname", () => {
+  it("matches names in the same nickname group", () => {
+    expect(isNickname("bob", "robert")).toBe(true);
+    expect(isNickname("Bill", "William")).toBe(true);
+    expect(isNickname("pepe", "jose")).toBe(true);
+  });
+
+  it("does not match unrelated names", () => {
+    expect(isNickname("bob", "william")).toBe(false);
+    expect(isNickname("bob", "bob")).toBe(false);
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("scores identical names as 1", () => {
+    expect(nameSimilarity("John Smith", "john  smith")).toBe(1);
+  });
+
+  it("tolerates nicknames", () => {
+    expect(nameSimilarity("Bob Jones", "Robert Jones")).toBeGreaterThanOrEqual(0.9);
+    expect(nameSimilarity("Jon Smith", "John Smith")).toBeGreaterThanOrEqual(0.85);
+  });
+
+  it("tolerates typos and spelling variants", () => {
+    expect(nameSimilarity("Jonh Smith", "John Smith")).toBeGreaterThanOrEqual(FUZZY_NAME_THRESHOLD);
+    expect(nameSimilarity("John Smyth", "John Smith")).toBeGreaterThanOrEqual(FUZZY_NAME_THRESHOLD);
+    expect(nameSimilarity("Sara Gonzales", "Sarah Gonzalez")).toBeGreaterThanOrEqual(FUZZY_NAME_THRESHOLD);
+  });
+
+  it("does not match different people with the same surname", () => {
+    expect(nameSimilarity("Luis Garcia", "Laura Garcia")).toBeLessThan(FUZZY_NAME_THRESHOLD);
+    expect(nameSimilarity("John Smith", "Jane Smith")).toBeLessThan(FUZZY_NAME_THRESHOLD);
+  });
+
+  it("does not match initials alone", () => {
+    expect(nameSimilarity("A. B.", "Ana Brown")).toBeLessThan(FUZZY_NAME_THRESHOLD);
+  });
+});
+
+describe("nameBlockingKeys", () => {
+  it("blocks on the last and first name", () => {
+    const keys = nameBlockingKeys("John Smith");
+    expect(keys).toHaveLength(2);
+    expect(keys[0].startsWith("l:")).toBe(true);
+    expect(keys[1].startsWith("f:")).toBe(true);
+  });
+
+  it("puts spelling variants in a shared bucket", () => {
+    const a = nameBlockingKeys("John Smith");
+    const b = nameBlockingKeys("Jon Smyth");
+    expect(a.some((k) => b.includes(k))).toBe(true);
+  });
+
+  it("returns nothing for an empty name", () => {
+    expect(nameBlockingKeys("  ")).toEqual([]);
+  });
+});
+
+describe("findNameCandidates", () => {
+  const customers = [
+    { id: "1", full_name: "John Smith" },
+    { id: "2", full_name: "Jane Smith" },
+    { id: "3", full_name: "Robert Jones" },
+  ];
+
+  function buckets() {
+    const map = new Map<string, (typeof customers)[number][]>();
+    for (const c of customers) addToNameBuckets(map, c);
+    return map;
+  }
+
+  it("finds close names, best first", () => {
+    const ranked = findNameCandidates(buckets(), "Jon Smith");
+    expect(ranked.map((r) => r.candidate.id)).toEqual(["1"]);
+  });
+
+  it("finds nicknames", () => {
+    const ranked = findNameCandidates(buckets(), "Bob Jones");
+    expect(ranked.map((r) => r.candidate.id)).toEqual(["3"]);
+  });
+
+  it("stops finding a customer once removed", () => {
+    const map = buckets();
+    removeFromNameBuckets(map, customers[0]);
+    expect(findNameCandidates(map, "John Smith")).toEqual([]);
+  });
+});
+
+describe("nameCandidateConfidence", () => {
+  it("scales the base confidence by similarity", () => {
+    expect(nameCandidateConfidence(0.65, 1)).toBe(0.65);
+    expect(nameCandidateConfidence(0.65, 0.9)).toBe(0.59);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import { resolveHouseholdMatch, householdRevenue } from "../household";
+
+const jane = { id: "jane", full_name: "Jane Smith", email: "smiths@example.com", household_id: "h1" };
+const john = { id: "john", full_name: "John Smith", email: null, household_id: "h1" };
+const solo = { id: "solo", full_name: "Sam Lee", email: "sam@example.com", household_id: null };
+
+describe("resolveHouseholdMatch", () => {
+  it("returns null when the match is not in a household", () => {
+    expect(resolveHouseholdMatch([solo], [], "Someone Else")).toBeNull();
+  });
+
+  it("returns null when the matched customer has the row's name", () => {
+    expect(resolveHouseholdMatch([jane], [jane, john], "Jane Smith")).toBeNull();
+  });
+
+  it("returns null when the row has no name", () => {
+    expect(resolveHouseholdMatch([jane], [jane, john], null)).toBeNull();
+    expect(resolveHouseholdMatch([jane], [jane, john], "  ")).toBeNull();
+  });
+
+  it("attaches to the household member with the row's name", () => {
+    expect(resolveHouseholdMatch([jane], [jane, john], "John Smith")).toEqual({
+      kind: "member",
+      customerId: "john",
+    });
+  });
+
+  it("picks the named member among several shared-contact matches", () => {
+    expect(resolveHouseholdMatch([jane, john], [jane, john], "John Smith")).toEqual({
+      kind: "member",
+      customerId: "john",
+    });
+  });
+
+  it("adds a new member when nobody in the household has the name", () => {
+    expect(resolveHouseholdMatch([jane], [jane, john], "Amy Smith")).toEqual({
+      kind: "new_member",
+      householdId: "h1",
+    });
+  });
+
+  it("returns null when matches span different households", () => {
+    const other = { ...john, household_id: "h2" };
+    expect(resolveHouseholdMatch([jane, other], [jane], "Amy Smith")).toBeNull();
+  });
+});
+
+describe("householdRevenue", () => {
+  it("sums lifetime revenue per household and skips customers without one", () => {
+    const totals = householdRevenue([
+      { household_id: "h1", lifetime_revenue: 100.1 },
+      { household_id: "h1", lifetime_revenue: 50.2 },
+      { household_id: "h2", lifetime_revenue: 20 },
+      { household_id: null, lifetime_revenue: 999 },
+    ]);
+    expect(totals.get("h1")).toBe(150.3);
+    expect(totals.get("h2")).toBe(20);
+    expect(totals.size).toBe(2);
+  });
+});
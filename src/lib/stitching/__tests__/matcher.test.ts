@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { indexCustomers, stitchIdentity, stitchIdentityFast, type CustomerRecord } from "../matcher";
+import { pairKey } from "../do-not-merge";
+import { DEFAULT_STITCHING_POLICY } from "../policy";
+import { createSupabaseStub } from "@/lib/__tests__/supabase-stub";
+
+interface Fixture {
+  customers: CustomerRecord[];
+  sources: { id: string; customer_id: string; external_id: string; external_email: string | null }[];
+  neverMatch: [string, string];
+}
+
+/** A stub database and the matching in-memory index for a fixture. */
+function setup({ customers, sources, neverMatch }: Fixture) {
+  const stub = createSupabaseStub({
+    tables: {
+      customers: { rows: customers.map((c) => ({ ...c, org_id: "org" })) },
+      customer_sources: {
+        rows: sources.map((s) => ({ ...s, org_id: "org", source: "stripe" })),
+        unique: ["org_id", "source", "external_id"],
+      },
+      do_not_merge: {
+        rows: [{ id: "d1", org_id: "org", customer_a_id: neverMatch[0], customer_b_id: neverMatch[1] }],
+      },
+    },
+  });
+  const index = indexCustomers(
+    "org",
+    customers,
+    sources.map((s) => ({
+      ...s,
+      source: "stripe",
+      customer: customers.find((c) => c.id === s.customer_id) ?? null,
+    })),
+    new Set([pairKey(...neverMatch)]),
+    DEFAULT_STITCHING_POLICY
+  );
+  return { stub, index };
+}
+
+// Two Jane Does, split apart and marked never-match
+const sameName: Fixture = {
+  customers: [
+    { id: "jane1", full_name: "Jane Doe", email: "jane1@example.com", phone: null },
+    { id: "jane2", full_name: "Jane Doe", email: "jane2@example.com", phone: null },
+  ],
+  sources: [
+    { id: "s1", customer_id: "jane1", external_id: "cus_1", external_email: "jane1@example.com" },
+    { id: "s2", customer_id: "jane2", external_id: "cus_2", external_email: "jane2@example.com" },
+  ],
+  neverMatch: ["jane1", "jane2"],
+};
+
+// A couple sharing one email, split apart and marked never-match
+const sharedEmail: Fixture = {
+  customers: [
+    { id: "jane", full_name: "Jane Roe", email: "family@example.com", phone: null },
+    { id: "john", full_name: "John Roe", email: null, phone: null },
+  ],
+  sources: [
+    { id: "s1", customer_id: "jane", external_id: "cus_jane", external_email: "family@example.com" },
+    { id: "s2", customer_id: "john", external_id: "cus_john", external_email: "family@example.com" },
+  ],
+  neverMatch: ["jane", "john"],
+};
+
+describe("re-importing a split pair", () => {
+  it("stitches a split same-name customer on its external ID", async () => {
+    const { stub, index } = setup(sameName);
+    const args = ["stripe", "cus_2", "jane2@example.com", "Jane Doe", null] as const;
+
+    expect(await stitchIdentityFast(stub.client, index, ...args)).toEqual(
+      { customerId: "jane2", isNew: false, matchedBy: "external_id" }
+    );
+    expect(await stitchIdentity(stub.client, "org", ...args)).toEqual(
+      { customerId: "jane2", isNew: false, matchedBy: "external_id" }
+    );
+    expect(stub.inserted.customers).toBeUndefined();
+  });
+
+  it("stitches a split shared-email customer on its external ID", async () => {
+    const { stub, index } = setup(sharedEmail);
+    const args = ["stripe", "cus_john", "family@example.com", "John Roe", null] as const;
+
+    expect(await stitchIdentityFast(stub.client, index, ...args)).toEqual(
+      { customerId: "john", isNew: false, matchedBy: "external_id" }
+    );
+    expect(await stitchIdentity(stub.client, "org", ...args)).toEqual(
+      { customerId: "john", isNew: false, matchedBy: "external_id" }
+    );
+    expect(stub.inserted.customers).toBeUndefined();
+  });
+
+  it("matches a new source by email when the name finds both of a same-name pair", async () => {
+    const { stub, index } = setup(sameName);
+    expect(await stitchIdentityFast(stub.client, index, "calendly", "inv_1", "jane2@example.com", "Jane Doe", null)).toEqual(
+      { customerId: "jane2", isNew: false, matchedBy: "email" }
+    );
+    expect(await stitchIdentity(stub.client, "org", "calendly", "inv_2", "jane2@example.com", "Jane Doe", null)).toEqual(
+      { customerId: "jane2", isNew: false, matchedBy: "email" }
+    );
+  });
+
+  it("skips the never-match partner's email for a new source", async () => {
+    const { stub, index } = setup(sharedEmail);
+    const result = await stitchIdentityFast(stub.client, index, "calendly", "inv_1", "family@example.com", "John Roe", null);
+    expect(result).toEqual({ customerId: "john", isNew: false, matchedBy: "email" });
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from "vitest";
+import {
+  planMergeFieldUpdates,
+  defaultFieldPicks,
+  buildMergeUpdates,
+  previewMerge,
+  type MergeFieldSource,
+  type MergeCandidate,
+} from "../merge";
+
+const customer = (overrides: Partial<MergeFieldSource> = {}): MergeFieldSource => ({
+  full_name: null,
+  email: null,
+  phone: null,
+  name_source: null,
+  ...overrides,
+});
+
+describe("planMergeFieldUpdates", () => {
+  it("fills missing email and phone from the removed customer", () => {
+    const updates = planMergeFieldUpdates(
+      customer({ full_name: "Ana", name_source: "crm" }),
+      customer({ email: "ana@example.com", phone: "+15551234567" })
+    );
+    expect(updates).toEqual({ email: "ana@example.com", phone: "+15551234567" });
+  });
+
+  it("never overwrites an existing email or phone", () => {
+    const updates = planMergeFieldUpdates(
+      customer({ email: "a@example.com", phone: "+15550000000" }),
+      customer({ email: "b@example.com", phone: "+15551111111" })
+    );
+    expect(updates).toEqual({});
+  });
+
+  it("takes the removed name when the kept customer has none", () => {
+    const updates = planMergeFieldUpdates(
+      customer({ name_source: "crm" }),
+      customer({ full_name: "Ana Lopez", name_source: "pos" })
+    );
+    expect(updates).toEqual({ full_name: "Ana Lopez", name_source: "pos" });
+  });
+
+  it("takes the removed name when its source has higher precedence", () => {
+    const updates = planMergeFieldUpdates(
+      customer({ full_name: "A. Lopez", name_source: "pos" }),
+      customer({ full_name: "Ana Lopez", name_source: "crm" })
+    );
+    expect(updates).toEqual({ full_name: "Ana Lopez", name_source: "crm" });
+  });
+
+  it("keeps the existing name when its source has higher precedence", () => {
+    const updates = planMergeFieldUpdates(
+      customer({ full_name: "Ana Lopez", name_source: "crm" }),
+      customer({ full_name: "A. Lopez", name_source: "stripe" })
+    );
+    expect(updates).toEqual({});
+  });
+});
+
+const candidate = (id: string, overrides: Partial<MergeCandidate> = {}): MergeCandidate => ({
+  id,
+  name_source: null,
+  full_name: null,
+  email: null,
+  phone: null,
+  country: null,
+  notes: null,
+  last_visit_date: null,
+  classes_remaining: null,
+  membership_status: null,
+  referral_source: null,
+  occupation: null,
+  skill_level: null,
+  member_type: null,
+  join_date: null,
+  preferred_currency: null,
+  preferred_time_slot: null,
+  ...overrides,
+});
+
+describe("previewMerge", () => {
+  it("shows the kept customer with the fields taken from the removed one", () => {
+    const preview = previewMerge(
+      { ...customer({ full_name: "Jane", name_source: "pos", email: "jane@a.com" }), country: "US" },
+      customer({ full_name: "Jane Doe", name_source: "crm", email: "jane@b.com", phone: "+14158675309" })
+    );
+    expect(preview.record).toEqual({
+      full_name: "Jane Doe",
+      name_source: "crm",
+      email: "jane@a.com",
+      phone: "+14158675309",
+      country: "US",
+    });
+    expect(preview.fromRemoved).toEqual(["full_name", "phone"]);
+  });
+
+  it("does not report a field taken from B with the same value", () => {
+    const preview = previewMerge(
+      { ...customer({ full_name: "Jane Doe", name_source: "pos" }), country: null },
+      customer({ full_name: "Jane Doe", name_source: "pos" })
+    );
+    expect(preview.fromRemoved).toEqual([]);
+  });
+});
+
+describe("defaultFieldPicks", () => {
+  it("keeps the survivor's values where it has them", () => {
+    const picks = defaultFieldPicks(
+      [
+        candidate("a", { email: "a@example.com", country: "MX" }),
+        candidate("b", { email: "b@example.com", country: "US" }),
+      ],
+      "a"
+    );
+    expect(picks.email).toBe("a");
+    expect(picks.country).toBe("a");
+  });
+
+  it("fills empty survivor fields from the first other customer that has one", () => {
+    const picks = defaultFieldPicks(
+      [
+        candidate("a"),
+        candidate("b", { phone: "" }),
+        candidate("c", { phone: "+15551234567", classes_remaining: 0 }),
+      ],
+      "a"
+    );
+    expect(picks.phone).toBe("c");
+    expect(picks.classes_remaining).toBe("c");
+    expect(picks.membership_status).toBe("a");
+  });
+
+  it("picks the name with the strictly highest source precedence", () => {
+    const picks = defaultFieldPicks(
+      [
+        candidate("a", { full_name: "A. Lopez", name_source: "pos" }),
+        candidate("b", { full_name: "Ana Lopez", name_source: "crm" }),
+      ],
+      "a"
+    );
+    expect(picks.full_name).toBe("b");
+  });
+
+  it("keeps the survivor's name on a precedence tie", () => {
+    const picks = defaultFieldPicks(
+      [
+        candidate("a", { full_name: "A. Lopez", name_source: "calendly" }),
+        candidate("b", { full_name: "Ana Lopez", name_source: "passline" }),
+      ],
+      "a"
+    );
+    expect(picks.full_name).toBe("a");
+  });
+
+  it("rejects a survivor that is not a candidate", () => {
+    expect(() => defaultFieldPicks([candidate("a")], "z")).toThrow();
+  });
+});
+
+describe("buildMergeUpdates", () => {
+  const customers = [
+    candidate("a", { full_name: "A. Lopez", name_source: "pos", email: "a@example.com" }),
+    candidate("b", { full_name: "Ana Lopez", name_source: "crm", phone: "+15551234567" }),
+    candidate("c", { country: "MX" }),
+  ];
+
+  it("groups picked values under the customer they come from", () => {
+    const updates = buildMergeUpdates(customers, "a", {
+      full_name: "b",
+      phone: "b",
+      country: "c",
+      email: "a",
+    });
+    expect(updates).toEqual({
+      b: { full_name: "Ana Lopez", name_source: "crm", phone: "+15551234567" },
+      c: { country: "MX" },
+    });
+  });
+
+  it("skips picks whose value already matches the survivor", () => {
+    const updates = buildMergeUpdates(
+      [candidate("a", { country: "MX" }), candidate("b", { country: "MX" })],
+      "a",
+      { country: "b" }
+    );
+    expect(updates).toEqual({ b: {} });
+  });
+
+  it("rejects picks naming a customer outside the merge", () => {
+    expect(() => buildMergeUpdates(customers, "a", { phone: "z" })).toThrow();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import { normalizePhone, phoneCountry, phonesMatch, resolveCountryCode } from "../phone-utils";
+
+describe("resolveCountryCode", () => {
+  it("accepts ISO codes in any case", () => {
+    expect(resolveCountryCode("MX")).toBe("MX");
+    expect(resolveCountryCode(" es ")).toBe("ES");
+  });
+
+  it("resolves English, Spanish and Portuguese names", () => {
+    expect(resolveCountryCode("Mexico")).toBe("MX");
+    expect(resolveCountryCode("México")).toBe("MX");
+    expect(resolveCountryCode("España")).toBe("ES");
+    expect(resolveCountryCode("Brasil")).toBe("BR");
+    expect(resolveCountryCode("Germany")).toBe("DE");
+  });
+
+  it("resolves common aliases", () => {
+    expect(resolveCountryCode("USA")).toBe("US");
+    expect(resolveCountryCode("UK")).toBe("GB");
+    expect(resolveCountryCode("England")).toBe("GB");
+  });
+
+  it("returns null for unknown values", () => {
+    expect(resolveCountryCode("Atlantis")).toBeNull();
+    expect(resolveCountryCode("XX")).toBeNull();
+    expect(resolveCountryCode("")).toBeNull();
+    expect(resolveCountryCode(null)).toBeNull();
+  });
+});
+
+describe("phoneCountry", () => {
+  it("prefers the row's country over the fallback", () => {
+    expect(phoneCountry("Colombia", "US")).toBe("CO");
+  });
+
+  it("uses the fallback when the country doesn't resolve", () => {
+    expect(phoneCountry(null, "ES")).toBe("ES");
+    expect(phoneCountry("somewhere", "ES")).toBe("ES");
+    expect(phoneCountry(undefined)).toBe("US");
+  });
+});
+
+describe("normalizePhone", () => {
+  it("parses national numbers for the given country", () => {
+    expect(normalizePhone("55 1234 5678", "MX")).toBe("+525512345678");
+    expect(normalizePhone("612 345 678", "ES")).toBe("+34612345678");
+  });
+
+  it("ignores the country for numbers with a + prefix", () => {
+    expect(normalizePhone("+34 612 345 678", "MX")).toBe("+34612345678");
+  });
+
+  it("defaults to US", () => {
+    expect(normalizePhone("(415) 867-5309")).toBe("+14158675309");
+  });
+});
+
+describe("phonesMatch", () => {
+  it("parses each number for its own country", () => {
+    expect(phonesMatch("+52 55 1234 5678", "55 1234 5678", "US", "MX")).toBe(true);
+    expect(phonesMatch("+52 55 1234 5678", "55 1234 5678")).toBe(false);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  DEFAULT_STITCHING_POLICY,
+  loadStitchingPolicy,
+  matchDisposition,
+  normalizeStitchingPolicy,
+  phoneConfidence,
+} from "../policy";
+
+const policy = DEFAULT_STITCHING_POLICY;
+
+describe("matchDisposition", () => {
+  it("auto-merges email matches by default", () => {
+    expect(matchDisposition(policy, "email", 0.95)).toBe("auto");
+    expect(matchDisposition(policy, "email", 0.9)).toBe("auto");
+  });
+
+  it("flags phone matches below the minimum confidence", () => {
+    expect(matchDisposition(policy, "phone", 0.75)).toBe("review");
+    expect(matchDisposition({ ...policy, min_auto_confidence: 0.7 }, "phone", 0.75)).toBe("auto");
+  });
+
+  it("follows review and off actions regardless of confidence", () => {
+    expect(matchDisposition({ ...policy, email_action: "review" }, "email", 0.95)).toBe("review");
+    expect(matchDisposition({ ...policy, phone_action: "off" }, "phone", 1)).toBe("ignore");
+  });
+
+  it("never auto-merges name matches", () => {
+    expect(matchDisposition({ ...policy, min_auto_confidence: 0 }, "name", 1)).toBe("review");
+    expect(matchDisposition({ ...policy, name_action: "off" }, "name", 1)).toBe("ignore");
+  });
+});
+
+describe("phoneConfidence", () => {
+  it("uses the configured confidence for a single match and less for several", () => {
+    expect(phoneConfidence(policy, 1)).toBe(0.75);
+    expect(phoneConfidence(policy, 3)).toBe(0.6);
+    expect(phoneConfidence({ ...policy, phone_confidence: 0.1 }, 2)).toBe(0);
+  });
+});
+
+describe("normalizeStitchingPolicy", () => {
+  it("returns the defaults for a missing row", () => {
+    expect(normalizeStitchingPolicy(null)).toEqual(DEFAULT_STITCHING_POLICY);
+  });
+
+  it("replaces unknown actions and clamps confidences", () => {
+    expect(
+      normalizeStitchingPolicy({
+        email_action: "off",
+        phone_action: "review",
+        name_action: "auto",
+        phone_confidence: "0.856",
+        min_auto_confidence: 3,
+      })
+    ).toEqual({
+      email_action: "auto",
+      phone_action: "review",
+      name_action: "review",
+      phone_confidence: 0.86,
+      min_auto_confidence: 1,
+      email_rules: [],
+      default_phone_country: "US",
+    });
+  });
+
+  it("resolves the default phone country", () => {
+    expect(normalizeStitchingPolicy({ default_phone_country: "mx" }).default_phone_country).toBe("MX");
+    expect(normalizeStitchingPolicy({ default_phone_country: "Atlantis" }).default_phone_country).toBe("US");
+  });
+
+  it("keeps valid email rules and drops invalid ones", () => {
+    const policy = normalizeStitchingPolicy({
+      email_rules: [
+        { domain: " @Example.com ", ignore_plus: true },
+        { domain: "not a domain", ignore_dots: true },
+        "gmail.com",
+      ],
+    });
+    expect(policy.email_rules).toEqual([
+      { domain: "example.com", alias_of: null, ignore_dots: false, ignore_plus: true },
+    ]);
+  });
+});
+
+/** A stitching_policy table that returns one lookup result. */
+function policyClient(result: { data: Record<string, unknown> | null; error: { message: string } | null }) {
+  const query = {
+    select: () => query,
+    eq: () => query,
+    maybeSingle: () => Promise.resolve(result),
+  };
+  return { from: () => query } as unknown as SupabaseClient;
+}
+
+describe("loadStitchingPolicy", () => {
+  it("uses the defaults when the org has no policy", async () => {
+    const loaded = await loadStitchingPolicy(policyClient({ data: null, error: null }), "org");
+    expect(loaded).toEqual(DEFAULT_STITCHING_POLICY);
+  });
+
+  it("throws instead of stitching with the defaults when the policy can't be read", async () => {
+    await expect(
+      loadStitchingPolicy(policyClient({ data: null, error: { message: "timeout" } }), "org")
+    ).rejects.toThrow("timeout");
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { createRestitchScanner, type RestitchCustomer, type RestitchInput } from "../restitch";
+import { pairKey } from "../do-not-merge";
+import { DEFAULT_STITCHING_POLICY } from "../policy";
+
+let seq = 0;
+function customer(fields: Partial<RestitchCustomer>): RestitchCustomer {
+  seq++;
+  return {
+    id: `c${seq}`,
+    full_name: null,
+    email: null,
+    phone: null,
+    country: null,
+    household_id: null,
+    created_at: `2026-01-${String(seq).padStart(2, "0")}T00:00:00Z`,
+    ...fields,
+  };
+}
+
+function scanAll(input: Partial<RestitchInput> & { customers: RestitchCustomer[] }) {
+  const scanner = createRestitchScanner({
+    sources: [],
+    policy: DEFAULT_STITCHING_POLICY,
+    doNotMerge: new Set(),
+    existingPairs: new Set(),
+    ...input,
+  });
+  return scanner.scan(0, scanner.total);
+}
+
+describe("createRestitchScanner", () => {
+  it("proposes customers whose emails have the same canonical form", () => {
+    const a = customer({ full_name: "Jane Doe", email: "jane.doe@gmail.com" });
+    const b = customer({ full_name: "Janie Roe", email: "janedoe+retreat@googlemail.com" });
+    const proposals = scanAll({ customers: [b, a] });
+    expect(proposals).toEqual([
+      {
+        customerAId: a.id,
+        customerBId: b.id,
+        matchField: "email",
+        matchValue: "janedoe@gmail.com",
+        confidence: 0.95,
+      },
+    ]);
+  });
+
+  it("matches a customer's source email at source confidence", () => {
+    const a = customer({ full_name: "Ana Lopez", email: "ana@work.com" });
+    const b = customer({ full_name: "Pedro Ruiz", email: "ana@home.com" });
+    const proposals = scanAll({
+      customers: [a, b],
+      sources: [{ customer_id: a.id, external_email: "ANA@home.com" }],
+    });
+    expect(proposals).toHaveLength(1);
+    expect(proposals[0]).toMatchObject({ matchField: "email", confidence: 0.9 });
+  });
+
+  it("proposes phone matches parsed for each customer's country", () => {
+    const a = customer({ full_name: "Lucas Silva", phone: "(11) 91234-5678", country: "Brazil" });
+    const b = customer({ full_name: "Marta Souza", phone: "+55 11 91234 5678" });
+    const proposals = scanAll({ customers: [a, b] });
+    expect(proposals).toEqual([
+      expect.objectContaining({ matchField: "phone", matchValue: "+5511912345678", confidence: 0.75 }),
+    ]);
+  });
+
+  it("proposes fuzzy name matches once per pair, strongest signal first", () => {
+    const a = customer({ full_name: "Robert Jones", email: "rj@gmail.com" });
+    const b = customer({ full_name: "Bob Jones", email: "r.j@gmail.com" });
+    const c = customer({ full_name: "Jon Smith" });
+    const d = customer({ full_name: "John Smith" });
+    const proposals = scanAll({ customers: [a, b, c, d] });
+    expect(proposals.map((p) => [p.customerAId, p.customerBId, p.matchField])).toEqual([
+      [a.id, b.id, "email"],
+      [c.id, d.id, "name"],
+    ]);
+  });
+
+  it("skips never-match pairs, household members and existing conflicts", () => {
+    const a = customer({ phone: "+1 415 867 5309" });
+    const b = customer({ phone: "+1 415 867 5309" });
+    const c = customer({ email: "x@example.com", household_id: "h1" });
+    const d = customer({ email: "X@example.com", household_id: "h1" });
+    const e = customer({ full_name: "Maria Garcia" });
+    const f = customer({ full_name: "Maria Garcia" });
+    const proposals = scanAll({
+      customers: [a, b, c, d, e, f],
+      doNotMerge: new Set([pairKey(a.id, b.id)]),
+      existingPairs: new Set([pairKey(f.id, e.id)]),
+    });
+    expect(proposals).toEqual([]);
+  });
+
+  it("ignores signals switched off in the policy", () => {
+    const a = customer({ full_name: "John Smith", phone: "+1 415 867 5309" });
+    const b = customer({ full_name: "John Smith", phone: "+1 415 867 5309" });
+    const proposals = scanAll({
+      customers: [a, b],
+      policy: { ...DEFAULT_STITCHING_POLICY, phone_action: "off", name_action: "off" },
+    });
+    expect(proposals).toEqual([]);
+  });
+
+  it("treats contacts shared by many customers as shared, not duplicates", () => {
+    const desk = Array.from({ length: 7 }, (_, i) =>
+      customer({ full_name: `Guest ${i}`, phone: "+1 415 867 5309" })
+    );
+    expect(scanAll({ customers: desk }).filter((p) => p.matchField === "phone")).toEqual([]);
+  });
+
+  it("splits the scan into batches without repeating pairs", () => {
+    const customers = [
+      customer({ email: "a@example.com" }),
+      customer({ email: "A@example.com" }),
+      customer({ phone: "+1 415 867 5309" }),
+      customer({ phone: "4158675309" }),
+    ];
+    const scanner = createRestitchScanner({
+      customers,
+      sources: [],
+      policy: DEFAULT_STITCHING_POLICY,
+      doNotMerge: new Set(),
+      existingPairs: new Set(),
+    });
+    const batched = [...scanner.scan(0, 1), ...scanner.scan(1, 3), ...scanner.scan(3, 4)];
+    expect(batched.map((p) => p.matchField)).toEqual(["email", "phone"]);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Rule-based bulk resolution of stitching conflicts. A rule selects
+ * pending conflicts (hand-picked, phones also match, low confidence, from
+ * one import); the server merges or dismisses them one by one and reports
+ * a summary.
+ */
+
+import type { CountryCode } from "libphonenumber-js";
+import { phoneCountry, phonesMatch } from "./phone-utils";
+
+export type BulkConflictRule =
+  | { kind: "selected"; conflictIds: string[] }
+  /** Both customers' phones normalize to the same number */
+  | { kind: "phones_match" }
+  /** Confidence strictly below the threshold (0–1); unscored conflicts are left alone */
+  | { kind: "confidence_below"; threshold: number }
+  | { kind: "import"; importId: string };
+
+export type BulkResolution = "merged" | "dismissed";
+
+export interface BulkResolveSummary {
+  /** Pending conflicts the rule selected */
+  matched: number;
+  merged: number;
+  dismissed: number;
+  /** Already closed by an earlier merge in the same run, or a customer is gone */
+  skipped: number;
+  failed: { conflictId: string; error: string }[];
+  /** Matched but beyond MAX_BULK_CONFLICTS — run the rule again */
+  remaining: number;
+}
+
+/** Conflicts resolved per bulk run; each merge is its own transaction. */
+export const MAX_BULK_CONFLICTS = 200;
+
+export interface BulkConflictCandidate {
+  id: string;
+  customer_a_id: string | null;
+  customer_b_id: string | null;
+  confidence: number | null;
+  import_id: string | null;
+}
+
+export interface BulkCustomerContact {
+  phone: string | null;
+  country: string | null;
+}
+
+/**
+ * Validate a rule coming from the client. Throws on rules that would
+ * select nothing meaningful (no ids, threshold out of range).
+ */
+export function normalizeBulkRule(input: BulkConflictRule): BulkConflictRule {
+  switch (input?.kind) {
+    case "selected": {
+      const ids = Array.from(new Set((input.conflictIds ?? []).filter((id) => typeof id === "string" && id)));
+      if (ids.length === 0) throw new Error("Select at least one conflict");
+      return { kind: "selected", conflictIds: ids };
+    }
+    case "phones_match":
+      return { kind: "phones_match" };
+    case "confidence_below": {
+      const threshold = Number(input.threshold);
+      if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+        throw new Error("Confidence threshold must be between 0 and 100%");
+      }
+      return { kind: "confidence_below", threshold: Math.round(threshold * 100) / 100 };
+    }
+    case "import":
+      if (!input.importId) throw new Error("Choose an import");
+      return { kind: "import", importId: input.importId };
+    default:
+      throw new Error("Unknown bulk rule");
+  }
+}
+
+/**
+ * Whether a pending conflict is selected by the rule.
+ *
+ * @param contacts  phone and country of the conflict's customers
+ *                  (only read by the phones_match rule)
+ * @param defaultPhoneCountry  the org's default phone country
+ */
+export function conflictMatchesRule(
+  conflict: BulkConflictCandidate,
+  rule: BulkConflictRule,
+  contacts: Map<string, BulkCustomerContact>,
+  defaultPhoneCountry: CountryCode
+): boolean {
+  switch (rule.kind) {
+    case "selected":
+      return rule.conflictIds.includes(conflict.id);
+    case "confidence_below":
+      return conflict.confidence !== null && conflict.confidence < rule.threshold;
+    case "import":
+      return conflict.import_id === rule.importId;
+    case "phones_match": {
+      const a = conflict.customer_a_id ? contacts.get(conflict.customer_a_id) : undefined;
+      const b = conflict.customer_b_id ? contacts.get(conflict.customer_b_id) : undefined;
+      if (!a || !b) return false;
+      return phonesMatch(
+        a.phone,
+        b.phone,
+        phoneCountry(a.country, defaultPhoneCountry),
+        phoneCountry(b.country, defaultPhoneCountry)
+      );
+    }
+  }
+}
+
+/** Short human description of a rule, for confirmations and summaries. */
+export function describeBulkRule(rule: BulkConflictRule, importName?: string | null): string {
+  switch (rule.kind) {
+    case "selected":
+      return `${rule.conflictIds.length} selected ${rule.conflictIds.length === 1 ? "conflict" : "conflicts"}`;
+    case "phones_match":
+      return "conflicts where the phones also match";
+    case "confidence_below":
+      return `conflicts with confidence below ${Math.round(rule.threshold * 100)}%`;
+    case "import":
+      return `conflicts from ${importName ?? "the import"}`;
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Field-by-field comparison of two customers for the conflict review
+ * screen. Values that differ only in format ("jane.doe@gmail.com" vs
+ * "janedoe@gmail.com", "(415) 867-5309" vs "+14158675309") are reported
+ * as equivalent rather than different, using the same rules as matching.
+ */
+
+import type { CountryCode } from "libphonenumber-js";
+import { emailsMatch, type EmailDomainRule } from "./email-utils";
+import { FUZZY_NAME_THRESHOLD, nameSimilarity } from "./fuzzy-names";
+import { namesMatch } from "./name-utils";
+import { phoneCountry, phonesMatch, resolveCountryCode } from "./phone-utils";
+
+export const IDENTITY_FIELDS = ["full_name", "email", "phone", "country"] as const;
+
+export type IdentityField = (typeof IDENTITY_FIELDS)[number];
+
+/**
+ * - same: identical after trimming and case
+ * - equivalent: different text, same identity under the matching rules
+ * - different: both set and not equivalent
+ * - missing: set on one side only
+ */
+export type FieldMatch = "same" | "equivalent" | "different" | "missing";
+
+export type ComparableCustomer = Record<IdentityField, string | null>;
+
+function normalized(value: string | null): string {
+  return (value ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/**
+ * Compare the identity fields of two customers.
+ *
+ * @param rules   the org's email canonicalization rules
+ * @param defaultPhoneCountry  the org's default phone country
+ */
+export function compareIdentityFields(
+  a: ComparableCustomer,
+  b: ComparableCustomer,
+  rules: EmailDomainRule[],
+  defaultPhoneCountry: CountryCode
+): Record<IdentityField, FieldMatch> {
+  const equivalent: Record<IdentityField, (x: string, y: string) => boolean> = {
+    full_name: (x, y) =>
+      namesMatch(x, y) || nameSimilarity(x, y) >= FUZZY_NAME_THRESHOLD,
+    email: (x, y) => emailsMatch(x, y, rules),
+    phone: (x, y) =>
+      phonesMatch(
+        x,
+        y,
+        phoneCountry(a.country, defaultPhoneCountry),
+        phoneCountry(b.country, defaultPhoneCountry)
+      ),
+    country: (x, y) => {
+      const codeX = resolveCountryCode(x);
+      return !!codeX && codeX === resolveCountryCode(y);
+    },
+  };
+
+  const result = {} as Record<IdentityField, FieldMatch>;
+  for (const field of IDENTITY_FIELDS) {
+    const x = normalized(a[field]);
+    const y = normalized(b[field]);
+    if (x === y) result[field] = "same";
+    else if (!x || !y) result[field] = "missing";
+    else result[field] = equivalent[field](a[field]!, b[field]!) ? "equivalent" : "different";
+  }
+  return result;
+}
@@ -0,0 +1,57 @@
+/**
+ * Post-import conflict detection, in memory. Customers an import touched
+ * are compared against the CustomerIndex name map: same name, different
+ * email is flagged as a possible duplicate for review. Pure — the caller
+ * checks which pairs already have a conflict and writes the rest.
+ */
+
+import { emailsMatch, type EmailDomainRule } from "./email-utils";
+import { isNeverMatch, pairKey, type DoNotMergePairs } from "./do-not-merge";
+
+interface NamedCustomer {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+}
+
+export interface NameConflict {
+  /** The customer the import touched */
+  customerAId: string;
+  customerBId: string;
+  matchValue: string;
+}
+
+/**
+ * Same-name, different-email pairs among the import's customers.
+ *
+ * 1. Look each customer's name up in the index name map (case-insensitive)
+ * 2. Keep matches where both have an email and the emails differ by
+ *    canonical form (same canonical email is an email match, not a conflict)
+ * 3. Skip never-match pairs; each pair is returned once
+ */
+export function findNameConflicts<T extends NamedCustomer>(
+  importCustomers: T[],
+  nameMap: Map<string, T[]>,
+  doNotMerge: DoNotMergePairs,
+  emailRules: EmailDomainRule[] = []
+): NameConflict[] {
+  const seen = new Set<string>();
+  const conflicts: NameConflict[] = [];
+
+  for (const customer of importCustomers) {
+    if (!customer.full_name || !customer.email) continue;
+
+    for (const match of nameMap.get(customer.full_name.toLowerCase()) ?? []) {
+      if (match.id === customer.id || !match.email) continue;
+      if (emailsMatch(match.email, customer.email, emailRules)) continue;
+      if (isNeverMatch(doNotMerge, customer.id, match.id)) continue;
+
+      const key = pairKey(customer.id, match.id);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      conflicts.push({ customerAId: customer.id, customerBId: match.id, matchValue: customer.full_name });
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,101 @@
+/**
+ * "Never match" rules between customers known to be different people
+ * (e.g. family members sharing a phone). Pairs come from dismissed
+ * conflicts, splits and undone merges, and live in the do_not_merge table.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { selectAll } from "@/lib/supabase/select-all";
+
+/** Set of pair keys, see pairKey(). */
+export type DoNotMergePairs = Set<string>;
+
+export type DoNotMergeReason = "dismissed" | "split" | "unmerged";
+
+/** Order-independent key for a customer pair. */
+export function pairKey(a: string, b: string): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+export function isNeverMatch(pairs: DoNotMergePairs, a: string, b: string): boolean {
+  return a !== b && pairs.has(pairKey(a, b));
+}
+
+/**
+ * Drop matches that are marked never-match with another customer the
+ * same row also points to. Used on email and phone matches: if a shared
+ * phone finds Jane but the row's name finds John, and Jane and John are
+ * known to be different people, the phone match is not trusted. A match
+ * the row also points to is kept — a split same-name pair is found by
+ * name on both sides.
+ */
+export function excludeNeverMatch<T extends { id: string }>(
+  matches: T[],
+  otherCustomerIds: Iterable<string>,
+  pairs: DoNotMergePairs
+): T[] {
+  if (pairs.size === 0) return matches;
+  const others = Array.from(otherCustomerIds);
+  return matches.filter(
+    (m) => others.includes(m.id) || !others.some((id) => isNeverMatch(pairs, m.id, id))
+  );
+}
+
+/**
+ * Load never-match pairs for an org, optionally only those touching
+ * the given customers. Throws on a query error: matching without the
+ * pairs would re-merge customers known to be different people.
+ */
+export async function loadDoNotMergePairs(
+  admin: SupabaseClient,
+  orgId: string,
+  customerIds?: string[]
+): Promise<DoNotMergePairs> {
+  if (customerIds && customerIds.length === 0) return new Set();
+
+  const list = customerIds?.join(",");
+  const rows = await selectAll<{ customer_a_id: string; customer_b_id: string }>(
+    (from, to) => {
+      let query = admin
+        .from("do_not_merge")
+        .select("customer_a_id, customer_b_id")
+        .eq("org_id", orgId);
+      if (list) {
+        query = query.or(`customer_a_id.in.(${list}),customer_b_id.in.(${list})`);
+      }
+      return query.order("id").range(from, to);
+    },
+    "do_not_merge pairs"
+  );
+
+  return new Set(rows.map((p) => pairKey(p.customer_a_id, p.customer_b_id)));
+}
+
+/**
+ * Record that two customers must never be matched. Idempotent. Throws if
+ * the pair can't be saved, so callers don't report a rule that was lost.
+ */
+export async function addDoNotMergePair(
+  admin: SupabaseClient,
+  orgId: string,
+  customerAId: string,
+  customerBId: string,
+  options: { reason: DoNotMergeReason; conflictId?: string | null; userId?: string | null }
+): Promise<void> {
+  if (customerAId === customerBId) return;
+  const [a, b] = customerAId < customerBId ? [customerAId, customerBId] : [customerBId, customerAId];
+
+  const { error } = await admin.from("do_not_merge").upsert(
+    {
+      org_id: orgId,
+      customer_a_id: a,
+      customer_b_id: b,
+      reason: options.reason,
+      conflict_id: options.conflictId ?? null,
+      created_by: options.userId ?? null,
+    },
+    { onConflict: "org_id,customer_a_id,customer_b_id", ignoreDuplicates: true }
+  );
+
+  if (error) throw new Error(`Failed to record do_not_merge pair: ${error.message}`);
+}
@@ -0,0 +1,139 @@
+/**
+ * Email canonicalization for identity matching.
+ * Addresses that a mail provider delivers to the same inbox get the same
+ * canonical form: "Jane.Doe+retreat@googlemail.com" and "janedoe@gmail.com"
+ * are one person. Canonical forms are only used as match keys — the
+ * original address is what gets stored.
+ */
+
+export interface EmailDomainRule {
+  domain: string;
+  /** Domain these addresses are delivered to (googlemail.com → gmail.com) */
+  alias_of: string | null;
+  /** Dots in the local part are ignored ("jane.doe" = "janedoe") */
+  ignore_dots: boolean;
+  /** Everything after "+" in the local part is ignored ("jane+retreat" = "jane") */
+  ignore_plus: boolean;
+}
+
+/** Rules every org gets. Org rules for the same domain replace these. */
+export const BUILT_IN_EMAIL_RULES: EmailDomainRule[] = [
+  { domain: "gmail.com", alias_of: null, ignore_dots: true, ignore_plus: true },
+  { domain: "googlemail.com", alias_of: "gmail.com", ignore_dots: true, ignore_plus: true },
+];
+
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/;
+
+function ruleMap(rules: EmailDomainRule[]): Map<string, EmailDomainRule> {
+  const map = new Map<string, EmailDomainRule>();
+  for (const rule of BUILT_IN_EMAIL_RULES) map.set(rule.domain, rule);
+  for (const rule of rules) map.set(rule.domain, rule);
+  return map;
+}
+
+function splitEmail(email: string): { local: string; domain: string } | null {
+  const at = email.lastIndexOf("@");
+  if (at <= 0 || at === email.length - 1) return null;
+  return { local: email.slice(0, at), domain: email.slice(at + 1) };
+}
+
+/**
+ * Canonical form of an email address, used as the match key.
+ *
+ * 1. Trim and lowercase (null for empty input)
+ * 2. Apply the domain's rule, if any: drop the "+tag", drop dots,
+ *    and swap an alias domain for the one it delivers to
+ * 3. Addresses without a rule (or that don't parse) are just lowercased
+ */
+export function canonicalEmail(
+  email: string | null | undefined,
+  rules: EmailDomainRule[] = []
+): string | null {
+  const trimmed = email?.trim().toLowerCase();
+  if (!trimmed) return null;
+
+  const parts = splitEmail(trimmed);
+  if (!parts) return trimmed;
+
+  const rule = ruleMap(rules).get(parts.domain);
+  if (!rule) return trimmed;
+
+  let local = parts.local;
+  if (rule.ignore_plus) {
+    const plus = local.indexOf("+");
+    if (plus > 0) local = local.slice(0, plus);
+  }
+  if (rule.ignore_dots) local = local.replace(/\./g, "") || local;
+
+  return `${local}@${rule.alias_of ?? parts.domain}`;
+}
+
+/** Compare two emails by canonical form. */
+export function emailsMatch(
+  a: string | null | undefined,
+  b: string | null | undefined,
+  rules: EmailDomainRule[] = []
+): boolean {
+  const canonA = canonicalEmail(a, rules);
+  const canonB = canonicalEmail(b, rules);
+  if (!canonA || !canonB) return false;
+  return canonA === canonB;
+}
+
+/**
+ * ILIKE patterns that find every stored address with the same canonical
+ * form as `email`, or null when its domain has no rule (an exact match
+ * is enough). Patterns over-match — filter the rows with emailsMatch.
+ */
+export function emailLookupPatterns(
+  email: string | null | undefined,
+  rules: EmailDomainRule[] = []
+): string[] | null {
+  const canonical = canonicalEmail(email, rules);
+  const parts = canonical ? splitEmail(canonical) : null;
+  if (!parts) return null;
+
+  const map = ruleMap(rules);
+  const domains = Array.from(map.values()).filter(
+    (r) => (r.alias_of ?? r.domain) === parts.domain
+  );
+  if (domains.length === 0) return null;
+  // An alias target without its own rule still matches exactly
+  if (!map.has(parts.domain)) {
+    domains.push({ domain: parts.domain, alias_of: null, ignore_dots: false, ignore_plus: false });
+  }
+
+  const escape = (s: string) => s.replace(/[%_\\]/g, "\\$&");
+  return domains.map((rule) => {
+    const chars = Array.from(parts.local).map(escape);
+    const local = rule.ignore_dots ? chars.join("%") : chars.join("");
+    return `${local}${rule.ignore_plus ? "%" : ""}@${escape(rule.domain)}`;
+  });
+}
+
+/**
+ * Validate org rules coming from the client or the database. Invalid
+ * domains are dropped and the last rule for a domain wins.
+ */
+export function normalizeEmailRules(input: unknown): EmailDomainRule[] {
+  if (!Array.isArray(input)) return [];
+
+  const byDomain = new Map<string, EmailDomainRule>();
+  for (const raw of input) {
+    if (!raw || typeof raw !== "object") continue;
+    const r = raw as Record<string, unknown>;
+    const domain = typeof r.domain === "string" ? r.domain.trim().toLowerCase().replace(/^@/, "") : "";
+    if (!DOMAIN_PATTERN.test(domain)) continue;
+
+    const aliasRaw = typeof r.alias_of === "string" ? r.alias_of.trim().toLowerCase().replace(/^@/, "") : "";
+    const alias_of = DOMAIN_PATTERN.test(aliasRaw) && aliasRaw !== domain ? aliasRaw : null;
+
+    byDomain.set(domain, {
+      domain,
+      alias_of,
+      ignore_dots: r.ignore_dots === true,
+      ignore_plus: r.ignore_plus === true,
+    });
+  }
+  return Array.from(byDomain.values());
+}
@@ -0,0 +1,368 @@
+/**
+ * Graded name similarity for surfacing name-match candidates: typos
+ * (Jon ↔ John), nicknames (Bob ↔ Robert) and sound-alike spellings
+ * (Smith ↔ Smyth). Scores feed StitchCandidate.confidence; they never
+ * decide a merge on their own — namesMatch() stays the strict check.
+ */
+
+import { normalizeName, abbreviationMatch } from "./name-utils";
+
+/** Minimum similarity for a name to be offered as a candidate. */
+export const FUZZY_NAME_THRESHOLD = 0.7;
+
+// ─── Nicknames ────────────────────────────────────────────────────
+
+// Each group is one given name with its common variants and nicknames.
+const NICKNAME_GROUPS: string[][] = [
+  ["robert", "bob", "bobby", "rob", "robbie", "bert"],
+  ["william", "bill", "billy", "will", "willie", "liam"],
+  ["richard", "rick", "ricky", "rich", "richie", "dick"],
+  ["james", "jim", "jimmy", "jamie"],
+  ["john", "jack", "johnny", "jon"],
+  ["jonathan", "jon", "jonny"],
+  ["michael", "mike", "mikey", "mick"],
+  ["elizabeth", "liz", "lizzie", "beth", "betty", "eliza", "libby"],
+  ["katherine", "catherine", "kathryn", "kate", "katie", "kathy", "cathy", "kat"],
+  ["margaret", "maggie", "meg", "peggy", "marge"],
+  ["thomas", "tom", "tommy"],
+  ["charles", "charlie", "chuck"],
+  ["christopher", "chris", "topher"],
+  ["christina", "christine", "chris", "tina"],
+  ["daniel", "dan", "danny"],
+  ["david", "dave", "davey"],
+  ["joseph", "joe", "joey"],
+  ["anthony", "tony"],
+  ["edward", "ed", "eddie", "ted", "ned"],
+  ["alexander", "alex", "xander", "sasha"],
+  ["alexandra", "alex", "lexi", "sasha"],
+  ["andrew", "andy", "drew"],
+  ["benjamin", "ben", "benny"],
+  ["nicholas", "nick", "nicky"],
+  ["matthew", "matt"],
+  ["patrick", "pat", "paddy"],
+  ["patricia", "pat", "patty", "trish", "tricia"],
+  ["jennifer", "jen", "jenny"],
+  ["jessica", "jess", "jessie"],
+  ["rebecca", "becky", "becca"],
+  ["susan", "sue", "susie"],
+  ["deborah", "debra", "deb", "debbie"],
+  ["samuel", "sam", "sammy"],
+  ["samantha", "sam", "sammy"],
+  ["stephen", "steven", "steve"],
+  ["timothy", "tim", "timmy"],
+  ["gregory", "greg"],
+  ["jeffrey", "geoffrey", "jeff"],
+  ["joshua", "josh"],
+  ["kenneth", "ken", "kenny"],
+  ["ronald", "ron", "ronnie"],
+  ["donald", "don", "donnie"],
+  ["lawrence", "larry"],
+  ["peter", "pete"],
+  ["philip", "phillip", "phil"],
+  ["frederick", "fred", "freddie"],
+  ["henry", "hank", "harry"],
+  ["harold", "harry", "hal"],
+  ["victoria", "vicky", "tori"],
+  ["abigail", "abby"],
+  ["francis", "frank", "fran"],
+  ["francisco", "paco", "pancho", "frank"],
+  ["jose", "pepe"],
+  ["guillermo", "memo"],
+  ["alejandro", "alex", "ale"],
+  ["eduardo", "lalo"],
+  ["roberto", "beto"],
+  ["ignacio", "nacho"],
+  ["enrique", "kike"],
+  ["gabriel", "gabe", "gabi"],
+  ["isabel", "isabella", "bella", "isa"],
+  ["valentina", "vale"],
+  ["daniela", "dani"],
+  ["fernando", "nando"],
+];
+
+const NICKNAME_INDEX = new Map<string, Set<number>>();
+NICKNAME_GROUPS.forEach((group, i) => {
+  for (const name of group) {
+    const groups = NICKNAME_INDEX.get(name) ?? new Set<number>();
+    groups.add(i);
+    NICKNAME_INDEX.set(name, groups);
+  }
+});
+
+/** True when two given names are variants of the same name (Bob ↔ Robert). */
+export function isNickname(a: string, b: string): boolean {
+  const x = a.toLowerCase();
+  const y = b.toLowerCase();
+  if (x === y) return false;
+  const groupsA = NICKNAME_INDEX.get(x);
+  const groupsB = NICKNAME_INDEX.get(y);
+  if (!groupsA || !groupsB) return false;
+  for (const g of groupsA) if (groupsB.has(g)) return true;
+  return false;
+}
+
+// ─── Edit distance ────────────────────────────────────────────────
+
+/**
+ * Damerau–Levenshtein distance (optimal string alignment): insertions,
+ * deletions, substitutions and adjacent transpositions each cost 1.
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// ─── Phonetic key ─────────────────────────────────────────────────
+
+const VOWELS = new Set(["a", "e", "i", "o", "u"]);
+const isVowel = (c: string | undefined) => !!c && VOWELS.has(c);
+
+/**
+ * Metaphone key for a single word (the primary-code rules of Double
+ * Metaphone for English names, without the alternate codes). Words that
+ * sound alike share a key: Smith/Smyth → SM0, Catherine/Kathryn → K0RN.
+ */
+export function phoneticKey(word: string): string {
+  let w = word.toLowerCase().replace(/[^a-z]/g, "");
+  if (!w) return "";
+
+  // Silent or altered initial letters
+  if (/^(kn|gn|pn|ae|wr)/.test(w)) w = w.slice(1);
+  if (w[0] === "x") w = "s" + w.slice(1);
+  if (w.startsWith("wh")) w = "w" + w.slice(2);
+
+  let key = "";
+  for (let i = 0; i < w.length; i++) {
+    const c = w[i];
+    const prev = w[i - 1];
+    const next = w[i + 1];
+    const next2 = w[i + 2];
+
+    // Skip doubled letters except "cc"
+    if (c === prev && c !== "c") continue;
+
+    switch (c) {
+      case "a": case "e": case "i": case "o": case "u":
+        if (i === 0) key += c.toUpperCase();
+        break;
+      case "b":
+        if (!(prev === "m" && i === w.length - 1)) key += "B";
+        break;
+      case "c":
+        if (next === "i" && next2 === "a") key += "X";
+        else if (next === "h") key += prev === "s" ? "K" : "X";
+        else if (next === "i" || next === "e" || next === "y") {
+          if (prev !== "s") key += "S";
+        } else key += "K";
+        break;
+      case "d":
+        if (next === "g" && (next2 === "e" || next2 === "y" || next2 === "i")) key += "J";
+        else key += "T";
+        break;
+      case "g":
+        if (next === "h" && !(i + 2 >= w.length || isVowel(next2))) break;
+        if (next === "n" && (i + 2 === w.length || w.slice(i + 1) === "ned")) break;
+        if ((next === "i" || next === "e" || next === "y") && prev !== "g") key += "J";
+        else key += "K";
+        break;
+      case "h":
+        if (isVowel(next) && !(prev && "csptg".includes(prev))) key += "H";
+        break;
+      case "k":
+        if (prev !== "c") key += "K";
+        break;
+      case "p":
+        key += next === "h" ? "F" : "P";
+        break;
+      case "q":
+        key += "K";
+        break;
+      case "s":
+        if (next === "h" || (next === "i" && (next2 === "o" || next2 === "a"))) key += "X";
+        else key += "S";
+        break;
+      case "t":
+        if (next === "i" && (next2 === "o" || next2 === "a")) key += "X";
+        else if (next === "h") key += "0";
+        else if (!(next === "c" && next2 === "h")) key += "T";
+        break;
+      case "v":
+        key += "F";
+        break;
+      case "w":
+      case "y":
+        if (isVowel(next)) key += c.toUpperCase();
+        break;
+      case "x":
+        key += "KS";
+        break;
+      case "z":
+        key += "S";
+        break;
+      default:
+        // f, j, l, m, n, r
+        key += c.toUpperCase();
+    }
+  }
+  // Adjacent letters that code the same (the "dt" in Schmidt) count once
+  return key.replace(/(.)\1+/g, "$1");
+}
+
+// ─── Similarity ───────────────────────────────────────────────────
+
+/**
+ * Similarity of two name tokens.
+ * - identical → 1
+ * - nickname of the same given name (first names only) → 0.9
+ * - one typo in a 4+ letter token → 0.85, two typos in a 7+ letter token → 0.75
+ * - same phonetic key of 3+ sounds → 0.8
+ */
+function tokenSimilarity(a: string, b: string, givenName: boolean): number {
+  if (a === b) return 1;
+  if (givenName && isNickname(a, b)) return 0.9;
+
+  const shorter = Math.min(a.length, b.length);
+  const distance = editDistance(a, b);
+  if (distance === 1 && shorter >= 4) return 0.85;
+
+  if (shorter >= 3) {
+    const keyA = phoneticKey(a);
+    if (keyA.length >= 3 && keyA === phoneticKey(b)) return 0.8;
+  }
+
+  if (distance === 2 && shorter >= 7) return 0.75;
+  return 0;
+}
+
+/**
+ * Graded similarity of two full names, 0–1.
+ *
+ * 1. Normalized exact match → 1
+ * 2. Abbreviation match (A. Mendoza ↔ Ana Mendoza) → 0.9
+ * 3. First and last tokens compared separately (middle names ignored,
+ *    with a small penalty when only one side has them) and multiplied
+ *
+ * Single-word names only score on an exact or nickname match.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const normA = normalizeName(a);
+  const normB = normalizeName(b);
+  if (!normA || !normB) return 0;
+  if (normA === normB) return 1;
+  if (abbreviationMatch(normA, normB)) return 0.9;
+
+  const tokensA = normA.replace(/-/g, " ").split(" ").filter(Boolean);
+  const tokensB = normB.replace(/-/g, " ").split(" ").filter(Boolean);
+
+  if (tokensA.length === 1 || tokensB.length === 1) {
+    if (tokensA.length !== tokensB.length) return 0;
+    return isNickname(tokensA[0], tokensB[0]) ? 0.8 : 0;
+  }
+
+  const first = tokenSimilarity(tokensA[0], tokensB[0], true);
+  if (first === 0) return 0;
+  const last = tokenSimilarity(tokensA[tokensA.length - 1], tokensB[tokensB.length - 1], false);
+  if (last === 0) return 0;
+
+  const penalty = tokensA.length !== tokensB.length ? 0.05 : 0;
+  return Math.round(Math.max(0, first * last - penalty) * 100) / 100;
+}
+
+/**
+ * Blocking keys for candidate lookup: the phonetic keys of the last and
+ * the first name. A name scoring above FUZZY_NAME_THRESHOLD needs one of
+ * the two tokens to match closely, so it almost always shares a bucket —
+ * lookups only score names within those buckets.
+ */
+export function nameBlockingKeys(name: string): string[] {
+  const tokens = normalizeName(name).replace(/-/g, " ").split(" ").filter(Boolean);
+  if (tokens.length === 0) return [];
+  const last = tokens[tokens.length - 1];
+  const keys = [`l:${phoneticKey(last) || last}`];
+  if (tokens.length > 1) keys.push(`f:${phoneticKey(tokens[0]) || tokens[0]}`);
+  return keys;
+}
+
+/**
+ * Score candidates against a name and keep those at or above the
+ * threshold, best first.
+ */
+export function rankNameCandidates<T extends { full_name: string | null }>(
+  name: string,
+  candidates: T[],
+  threshold = FUZZY_NAME_THRESHOLD
+): { candidate: T; score: number }[] {
+  return candidates
+    .map((candidate) => ({
+      candidate,
+      score: candidate.full_name ? nameSimilarity(candidate.full_name, name) : 0,
+    }))
+    .filter((r) => r.score >= threshold)
+    .sort((x, y) => y.score - x.score);
+}
+
+// ─── Name buckets ─────────────────────────────────────────────────
+
+/** Add a customer to every bucket its name blocks into. */
+export function addToNameBuckets<T extends { full_name: string | null }>(
+  buckets: Map<string, T[]>,
+  rec: T
+): void {
+  if (!rec.full_name) return;
+  for (const key of nameBlockingKeys(rec.full_name)) {
+    const arr = buckets.get(key) ?? [];
+    arr.push(rec);
+    buckets.set(key, arr);
+  }
+}
+
+/** Remove a customer from the buckets of its current name. */
+export function removeFromNameBuckets<T extends { id: string; full_name: string | null }>(
+  buckets: Map<string, T[]>,
+  rec: T
+): void {
+  if (!rec.full_name) return;
+  for (const key of nameBlockingKeys(rec.full_name)) {
+    const arr = buckets.get(key);
+    if (!arr) continue;
+    const filtered = arr.filter((r) => r.id !== rec.id);
+    if (filtered.length === 0) buckets.delete(key);
+    else buckets.set(key, filtered);
+  }
+}
+
+/**
+ * Name candidates for a row from pre-built buckets, scored and ranked
+ * (see rankNameCandidates).
+ */
+export function findNameCandidates<T extends { id: string; full_name: string | null }>(
+  buckets: Map<string, T[]>,
+  name: string,
+  threshold = FUZZY_NAME_THRESHOLD
+): { candidate: T; score: number }[] {
+  const pool = new Map<string, T>();
+  for (const key of nameBlockingKeys(name)) {
+    for (const rec of buckets.get(key) ?? []) pool.set(rec.id, rec);
+  }
+  return rankNameCandidates(name, Array.from(pool.values()), threshold);
+}
+
+/** Confidence of a name candidate: the base confidence scaled by similarity. */
+export function nameCandidateConfidence(base: number, score: number): number {
+  return Math.round(base * score * 100) / 100;
+}
@@ -0,0 +1,67 @@
+/**
+ * Household-aware matching. When a shared email or phone lands on a
+ * customer who belongs to a household but the row's name is someone else,
+ * the row is attached to the right member — or becomes a new member —
+ * instead of being merged into whoever owns the contact.
+ */
+
+import { namesMatch } from "./name-utils";
+
+export interface HouseholdCandidate {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  household_id?: string | null;
+}
+
+export type HouseholdResolution =
+  | { kind: "member"; customerId: string }
+  | { kind: "new_member"; householdId: string };
+
+/**
+ * Decide where a row goes after a shared-contact match.
+ *
+ * @param matched  customers the row's email or phone matched (one or more)
+ * @param members  every customer in the matched household
+ * @param name     the row's name
+ *
+ * Returns null — normal matching applies — when the matches don't all sit
+ * in one household, the row has no name, or a single match already has
+ * the row's name.
+ */
+export function resolveHouseholdMatch(
+  matched: HouseholdCandidate[],
+  members: HouseholdCandidate[],
+  name: string | null
+): HouseholdResolution | null {
+  if (matched.length === 0 || !name?.trim()) return null;
+
+  const householdId = matched[0].household_id;
+  if (!householdId || matched.some((m) => m.household_id !== householdId)) return null;
+
+  const sameName = (c: HouseholdCandidate) =>
+    !!c.full_name && namesMatch(c.full_name, name, c.email);
+
+  if (matched.length === 1 && (!matched[0].full_name || sameName(matched[0]))) return null;
+
+  const member = [...matched, ...members].find(sameName);
+  if (member) return { kind: "member", customerId: member.id };
+
+  return { kind: "new_member", householdId };
+}
+
+/**
+ * Sum individual LTV per household. Customers without a household are
+ * skipped.
+ */
+export function householdRevenue(
+  customers: { household_id: string | null; lifetime_revenue: number }[]
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const c of customers) {
+    if (!c.household_id) continue;
+    totals.set(c.household_id, (totals.get(c.household_id) ?? 0) + c.lifetime_revenue);
+  }
+  for (const [id, total] of totals) totals.set(id, Math.round(total * 100) / 100);
+  return totals;
+}
@@ -1,19 +1,47 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type {
   SourceType,
+  SourceSchema,
   StitchMatchCategory,
   StitchCandidate,
   EnrichableField,
 } from "@/lib/types";
-import { normalizePhone, phonesMatch } from "./phone-utils";
+import { getImportCustomerIds } from "@/lib/audit";
+import { selectAll } from "@/lib/supabase/select-all";
+import { normalizePhone, phoneCountry, phonesMatch } from "./phone-utils";
 import {
   isPlaceholderName,
   namesMatch,
   detectEnrichableFields,
   hasConflictingFields,
 } from "./name-utils";
-
-const DEFAULT_ORG_ID = "00000000-0000-0000-0000-000000000001";
+import {
+  excludeNeverMatch,
+  loadDoNotMergePairs,
+  pairKey,
+  type DoNotMergePairs,
+} from "./do-not-merge";
+import { resolveHouseholdMatch, type HouseholdCandidate } from "./household";
+import { findNameConflicts } from "./conflict-detection";
+import {
+  canonicalEmail,
+  emailLookupPatterns,
+  emailsMatch,
+  type EmailDomainRule,
+} from "./email-utils";
+import {
+  addToNameBuckets,
+  findNameCandidates,
+  nameCandidateConfidence,
+  rankNameCandidates,
+  removeFromNameBuckets,
+} from "./fuzzy-names";
+import {
+  loadStitchingPolicy,
+  matchDisposition,
+  phoneConfidence,
+  type StitchingPolicy,
+} from "./policy";
 
 // ─── Pre-loaded index types for fast import ────────────────────────
 
@@ -23,26 +51,50 @@ export interface CustomerRecord {
   email: string | null;
   phone: string | null;
   name_source?: string | null;
+  household_id?: string | null;
+  /** Country the customer's phone is parsed for when it has no "+" prefix */
+  country?: string | null;
 }
 
 export interface CustomerIndex {
+  orgId: string;
+  customerMap: Map<string, CustomerRecord>;
+  /** Keyed by canonicalEmail() under the org's email rules */
   emailMap: Map<string, CustomerRecord>;
   phoneMap: Map<string, CustomerRecord[]>;
   nameMap: Map<string, CustomerRecord[]>;
+  /** Fuzzy-name buckets keyed by nameBlockingKeys() */
+  nameKeyMap: Map<string, CustomerRecord[]>;
   sourceIdMap: Map<string, { customerId: string; customer: CustomerRecord | null }>;
+  /** Keyed by canonicalEmail() of customer_sources.external_email */
   extEmailMap: Map<string, { customerId: string; customer: CustomerRecord | null }>;
+  doNotMerge: DoNotMergePairs;
+  householdMap: Map<string, CustomerRecord[]>;
+  policy: StitchingPolicy;
 }
 
 // Name precedence: higher number = higher priority for full_name updates.
 const NAME_SOURCE_PRIORITY: Record<string, number> = {
-  crm: 100, stripe: 80, pos: 60, wetravel: 50, calendly: 50,
-  passline: 50, attribution: 40, manual: 20,
+  crm: 100, stripe: 80, pos: 60, shopify: 60, square: 60, mindbody: 60,
+  wetravel: 50, calendly: 50, passline: 50, attribution: 40, manual: 20,
 };
 
 export function shouldUpdateName(currentSource: string | null, incomingSource: string): boolean {
   return (NAME_SOURCE_PRIORITY[incomingSource] ?? 0) >= (NAME_SOURCE_PRIORITY[currentSource ?? ""] ?? 0);
 }
 
+/**
+ * E.164 key for a phone number, parsed for the given country (a row's or
+ * customer's) or the org's default phone country.
+ */
+function phoneKey(
+  phone: string | null | undefined,
+  country: string | null | undefined,
+  policy: StitchingPolicy
+): string | null {
+  return normalizePhone(phone, phoneCountry(country, policy.default_phone_country));
+}
+
 interface StitchResult {
   customerId: string;
   isNew: boolean;
@@ -64,20 +116,30 @@ export interface PreviewStitchResult {
  * but performs NO database writes. Used by the verify step.
  *
  * Cascade: External ID → Email → Phone → Name → New
+ *
+ * Email and phone results that carry candidates need a decision (the org's
+ * policy only flags them); results without candidates are auto-accepted.
+ * Pass `policy` when previewing many rows to avoid reloading it per row.
  */
 export async function previewStitchIdentity(
   admin: SupabaseClient,
+  orgId: string,
   source: SourceType,
   externalId: string,
   email: string | null,
   name: string | null,
-  phone: string | null
+  phone: string | null,
+  policy?: StitchingPolicy,
+  country?: string | null
 ): Promise<PreviewStitchResult> {
+  const rules = policy ?? await loadStitchingPolicy(admin, orgId);
+
   // 1. Check external ID in customer_sources
   if (externalId) {
     const { data: existingSource } = await admin
       .from("customer_sources")
       .select("customer_id, customers(id, full_name, email, phone)")
+      .eq("org_id", orgId)
       .eq("source", source)
       .eq("external_id", externalId)
       .maybeSingle();
@@ -114,16 +176,25 @@ export async function previewStitchIdentity(
     }
   }
 
-  // 2. Check email
+  // 2. Check email (by canonical form — Gmail dots, +tags, alias domains),
+  // skipping customers marked never-match with the row's name match
   if (email) {
-    const { data: customerByEmail } = await admin
-      .from("customers")
-      .select("id, full_name, email, phone")
-      .eq("org_id", DEFAULT_ORG_ID)
-      .eq("email", email)
-      .maybeSingle();
+    const [customerByEmail = null] = await excludeNeverMatchForRow(
+      admin, orgId,
+      await selectByEmail<{
+        id: string; full_name: string | null; email: string | null; phone: string | null; household_id: string | null;
+      }>(admin, orgId, "customers", "email", "id, full_name, email, phone, household_id", email, rules.email_rules),
+      name
+    );
 
     if (customerByEmail) {
+      const household = await previewHouseholdMatch(admin, orgId, [customerByEmail], name, "email", 0.95);
+      if (household) return household;
+
+      if (matchDisposition(rules, "email", 0.95) === "review") {
+        return reviewResult([customerByEmail], "email", 0.95);
+      }
+
       const enrichableFields = detectEnrichableFields(customerByEmail, name, email, phone);
       if (enrichableFields.length > 0 && !hasConflictingFields(customerByEmail, name, email)) {
         return {
@@ -165,17 +236,26 @@ export async function previewStitchIdentity(
       };
     }
 
-    const { data: sourceByEmail } = await admin
-      .from("customer_sources")
-      .select("customer_id, customers(id, full_name, email, phone)")
-      .eq("external_email", email)
-      .limit(1)
-      .maybeSingle();
+    const [found = null] = await selectByEmail<{ customer_id: string; customers: unknown }>(
+      admin, orgId, "customer_sources", "external_email",
+      "customer_id, external_email, customers(id, full_name, email, phone, household_id)",
+      email, rules.email_rules
+    );
+    const sourceByEmail = found && !(await isNeverMatchForRow(admin, orgId, found.customer_id, name)) ? found : null;
 
     if (sourceByEmail) {
-      const cArr = sourceByEmail.customers as unknown as { id: string; full_name: string | null; email: string | null; phone: string | null }[] | null;
+      const cArr = sourceByEmail.customers as unknown as { id: string; full_name: string | null; email: string | null; phone: string | null; household_id: string | null }[] | null;
       const c = cArr?.[0] ?? null;
 
+      if (c) {
+        const household = await previewHouseholdMatch(admin, orgId, [c], name, "email", 0.9);
+        if (household) return household;
+
+        if (matchDisposition(rules, "email", 0.9) === "review") {
+          return reviewResult([c], "email", 0.9);
+        }
+      }
+
       if (c) {
         const enrichableFields = detectEnrichableFields(c, name, email, phone);
         if (enrichableFields.length > 0 && !hasConflictingFields(c, name, email)) {
@@ -220,21 +300,28 @@ export async function previewStitchIdentity(
     }
   }
 
-  // 3. Phone match (NEW)
-  const normalizedPhone = normalizePhone(phone);
+  // 3. Phone match — skipped when the policy ignores phones
+  const normalizedPhone = rules.phone_action === "off" ? null : phoneKey(phone, country, rules);
   if (normalizedPhone) {
     const { data: customersByPhone } = await admin
       .from("customers")
-      .select("id, full_name, email, phone")
-      .eq("org_id", DEFAULT_ORG_ID)
+      .select("id, full_name, email, phone, household_id, country")
+      .eq("org_id", orgId)
       .not("phone", "is", null);
 
     if (customersByPhone) {
-      const phoneMatches = customersByPhone.filter((c) =>
-        phonesMatch(c.phone, phone)
+      const phoneMatches = await excludeNeverMatchForRow(
+        admin,
+        orgId,
+        customersByPhone.filter((c) => phoneKey(c.phone, c.country, rules) === normalizedPhone),
+        name
       );
 
-      if (phoneMatches.length === 1) {
+      const confidence = phoneConfidence(rules, phoneMatches.length);
+      const household = await previewHouseholdMatch(admin, orgId, phoneMatches, name, "phone", confidence);
+      if (household) return household;
+
+      if (phoneMatches.length === 1 && matchDisposition(rules, "phone", confidence) === "auto") {
         const match = phoneMatches[0];
         const enrichableFields = detectEnrichableFields(match, name, email, phone);
         if (enrichableFields.length > 0 && !hasConflictingFields(match, name, email)) {
@@ -243,7 +330,7 @@ export async function previewStitchIdentity(
             existingCustomerId: match.id,
             existingCustomerName: match.full_name,
             existingCustomerEmail: match.email,
-            confidence: 0.75,
+            confidence,
             candidates: [],
             enrichableFields,
           };
@@ -253,93 +340,28 @@ export async function previewStitchIdentity(
           existingCustomerId: match.id,
           existingCustomerName: match.full_name,
           existingCustomerEmail: match.email,
-          confidence: 0.75,
-          candidates: [{
-            customerId: match.id,
-            customerName: match.full_name,
-            customerEmail: match.email,
-            customerPhone: match.phone,
-            matchedBy: "phone",
-            confidence: 0.75,
-          }],
+          confidence,
+          candidates: [],
           enrichableFields: [],
         };
       }
 
-      if (phoneMatches.length > 1) {
-        return {
-          category: "phone",
-          existingCustomerId: phoneMatches[0].id,
-          existingCustomerName: phoneMatches[0].full_name,
-          existingCustomerEmail: phoneMatches[0].email,
-          confidence: 0.6,
-          candidates: phoneMatches.map((m) => ({
-            customerId: m.id,
-            customerName: m.full_name,
-            customerEmail: m.email,
-            customerPhone: m.phone,
-            matchedBy: "phone" as const,
-            confidence: 0.6,
-          })),
-          enrichableFields: [],
-        };
+      // Several customers share the phone, or the policy only flags phones
+      if (phoneMatches.length > 0) {
+        return reviewResult(phoneMatches, "phone", confidence);
       }
     }
   }
 
-  // 4. Name match (FIXED) — any name match goes to uncertain, regardless of email
-  if (name) {
-    const { data: customersByName } = await admin
-      .from("customers")
-      .select("id, email, full_name, phone")
-      .eq("org_id", DEFAULT_ORG_ID)
-      .ilike("full_name", name)
-      .limit(5);
-
-    if (customersByName && customersByName.length > 0) {
-      if (customersByName.length === 1) {
-        const existing = customersByName[0];
-        // If existing has different email AND both have emails → name_conflict
-        // Otherwise → name_match (uncertain)
-        const isConflict = existing.email && email && existing.email.toLowerCase() !== email.toLowerCase();
-        const category: StitchMatchCategory = isConflict ? "name_conflict" : "name_match";
-
-        return {
-          category,
-          existingCustomerId: existing.id,
-          existingCustomerName: existing.full_name,
-          existingCustomerEmail: existing.email,
-          confidence: 0.65,
-          candidates: [{
-            customerId: existing.id,
-            customerName: existing.full_name,
-            customerEmail: existing.email,
-            customerPhone: existing.phone,
-            matchedBy: "name",
-            confidence: 0.65,
-          }],
-          enrichableFields: [],
-        };
-      }
-
-      // Multiple name matches
-      return {
-        category: "name_match",
-        existingCustomerId: customersByName[0].id,
-        existingCustomerName: customersByName[0].full_name,
-        existingCustomerEmail: customersByName[0].email,
-        confidence: 0.5,
-        candidates: customersByName.map((c) => ({
-          customerId: c.id,
-          customerName: c.full_name,
-          customerEmail: c.email,
-          customerPhone: c.phone,
-          matchedBy: "name" as const,
-          confidence: 0.5,
-        })),
-        enrichableFields: [],
-      };
-    }
+  // 4. Name match — any close name match (typos, nicknames, sound-alikes)
+  // goes to uncertain, regardless of email; skipped when the policy
+  // ignores name-only matches
+  if (name && rules.name_action !== "off") {
+    const ranked = await queryNameCandidates<{ id: string; email: string | null; full_name: string | null; phone: string | null }>(
+      admin, orgId, name, "id, email, full_name, phone"
+    );
+    const result = namePreviewResult(ranked.slice(0, 5), email, rules.email_rules);
+    if (result) return result;
   }
 
   // 5. No match — new customer
@@ -354,14 +376,244 @@ export async function previewStitchIdentity(
   };
 }
 
+/**
+ * Preview result for a match the user has to decide on: one candidate per
+ * matched customer, the first one pre-selected.
+ */
+function reviewResult(
+  matches: { id: string; full_name: string | null; email: string | null; phone: string | null }[],
+  matchedBy: "email" | "phone",
+  confidence: number
+): PreviewStitchResult {
+  return {
+    category: matchedBy,
+    existingCustomerId: matches[0].id,
+    existingCustomerName: matches[0].full_name,
+    existingCustomerEmail: matches[0].email,
+    confidence,
+    candidates: matches.map((m) => ({
+      customerId: m.id,
+      customerName: m.full_name,
+      customerEmail: m.email,
+      customerPhone: m.phone,
+      matchedBy,
+      confidence,
+    })),
+    enrichableFields: [],
+  };
+}
+
+/**
+ * Preview result for ranked name candidates (best first), or null when
+ * there are none. A single candidate with a different email (compared by
+ * canonical form under `rules`) is a name_conflict; confidence is scaled
+ * by name similarity.
+ */
+export function namePreviewResult(
+  ranked: {
+    candidate: { id: string; full_name: string | null; email: string | null; phone: string | null };
+    score: number;
+  }[],
+  email: string | null,
+  rules: EmailDomainRule[]
+): PreviewStitchResult | null {
+  if (ranked.length === 0) return null;
+
+  const base = ranked.length === 1 ? 0.65 : 0.5;
+  const top = ranked[0].candidate;
+  const isConflict =
+    ranked.length === 1 && !!top.email && !!email && !emailsMatch(top.email, email, rules);
+
+  return {
+    category: isConflict ? "name_conflict" : "name_match",
+    existingCustomerId: top.id,
+    existingCustomerName: top.full_name,
+    existingCustomerEmail: top.email,
+    confidence: nameCandidateConfidence(base, ranked[0].score),
+    candidates: ranked.map(({ candidate: c, score }) => ({
+      customerId: c.id,
+      customerName: c.full_name,
+      customerEmail: c.email,
+      customerPhone: c.phone,
+      matchedBy: "name" as const,
+      confidence: nameCandidateConfidence(base, score),
+    })),
+    enrichableFields: [],
+  };
+}
+
+/**
+ * The one candidate an import flags a name conflict against: the best
+ * match, unless several candidates share the best score.
+ */
+function soleNameCandidate<T>(ranked: { candidate: T; score: number }[]): { candidate: T; score: number } | null {
+  if (ranked.length === 0) return null;
+  if (ranked.length > 1 && ranked[1].score === ranked[0].score) return null;
+  return ranked[0];
+}
+
+/**
+ * Rows of `table` whose `column` has the same canonical email as `email`.
+ * Domains without rules are looked up exactly; for the others (Gmail)
+ * ILIKE patterns over-match and rows are filtered by canonical form.
+ * `columns` must include `column`.
+ */
+async function selectByEmail<T>(
+  admin: SupabaseClient,
+  orgId: string,
+  table: "customers" | "customer_sources",
+  column: "email" | "external_email",
+  columns: string,
+  email: string,
+  rules: EmailDomainRule[]
+): Promise<T[]> {
+  const patterns = emailLookupPatterns(email, rules);
+  if (!patterns) {
+    const { data } = await admin
+      .from(table)
+      .select(columns)
+      .eq("org_id", orgId)
+      .eq(column, email)
+      .limit(1);
+    return (data ?? []) as unknown as T[];
+  }
+
+  const rows: T[] = [];
+  for (const pattern of patterns) {
+    const { data } = await admin
+      .from(table)
+      .select(columns)
+      .eq("org_id", orgId)
+      .ilike(column, pattern)
+      .limit(100);
+    for (const row of (data ?? []) as unknown as Record<string, string | null>[]) {
+      if (emailsMatch(row[column], email, rules)) rows.push(row as unknown as T);
+    }
+  }
+  return rows;
+}
+
+/**
+ * Customers with a name close to `name`, ranked (see rankNameCandidates).
+ * Narrows in the database on the last word of the name, so typos there
+ * are only caught by the in-memory index path.
+ */
+async function queryNameCandidates<T extends { id: string; full_name: string | null }>(
+  admin: SupabaseClient,
+  orgId: string,
+  name: string,
+  columns: string
+): Promise<{ candidate: T; score: number }[]> {
+  const words = name.replace(/[,.]/g, " ").trim().split(/\s+/);
+  // "Last, First" puts the surname first
+  const surname = (name.includes(",") ? words[0] : words[words.length - 1]) ?? "";
+  const pattern = surname.replace(/[%_\\]/g, "");
+  if (!pattern) return [];
+
+  const { data } = await admin
+    .from("customers")
+    .select(columns)
+    .eq("org_id", orgId)
+    .ilike("full_name", `%${pattern}%`)
+    .limit(200);
+
+  return rankNameCandidates(name, (data ?? []) as unknown as T[]);
+}
+
+/**
+ * Preview counterpart of attachToHousehold: a shared email/phone inside a
+ * household resolves to the named member, or to a new customer.
+ */
+async function previewHouseholdMatch(
+  admin: SupabaseClient,
+  orgId: string,
+  matched: HouseholdCandidate[],
+  name: string | null,
+  category: "email" | "phone",
+  confidence: number
+): Promise<PreviewStitchResult | null> {
+  const householdId = matched[0]?.household_id;
+  if (!householdId) return null;
+
+  const { data: members } = await admin
+    .from("customers")
+    .select("id, full_name, email, household_id")
+    .eq("org_id", orgId)
+    .eq("household_id", householdId);
+
+  const resolution = resolveHouseholdMatch(matched, members ?? [], name);
+  if (!resolution) return null;
+
+  if (resolution.kind === "new_member") {
+    return {
+      category: "new",
+      existingCustomerId: null,
+      existingCustomerName: null,
+      existingCustomerEmail: null,
+      confidence: 0,
+      candidates: [],
+      enrichableFields: [],
+    };
+  }
+
+  const member = (members ?? []).find((m) => m.id === resolution.customerId);
+  return {
+    category,
+    existingCustomerId: resolution.customerId,
+    existingCustomerName: member?.full_name ?? null,
+    existingCustomerEmail: member?.email ?? null,
+    confidence,
+    candidates: [],
+    enrichableFields: [],
+  };
+}
+
+/**
+ * Drop matches marked never-match with a customer the row's name points
+ * to (see excludeNeverMatch). Only queries names when a pair exists.
+ */
+async function excludeNeverMatchForRow<T extends { id: string }>(
+  admin: SupabaseClient,
+  orgId: string,
+  matches: T[],
+  name: string | null
+): Promise<T[]> {
+  if (matches.length === 0 || !name) return matches;
+
+  const pairs = await loadDoNotMergePairs(admin, orgId, matches.map((c) => c.id));
+  if (pairs.size === 0) return matches;
+
+  const { data: byName } = await admin
+    .from("customers")
+    .select("id")
+    .eq("org_id", orgId)
+    .ilike("full_name", name)
+    .limit(5);
+
+  return excludeNeverMatch(matches, (byName ?? []).map((c) => c.id), pairs);
+}
+
+/** Whether excludeNeverMatchForRow drops `customerId`. */
+async function isNeverMatchForRow(
+  admin: SupabaseClient,
+  orgId: string,
+  customerId: string,
+  name: string | null
+): Promise<boolean> {
+  return (await excludeNeverMatchForRow(admin, orgId, [{ id: customerId }], name)).length === 0;
+}
+
 /**
  * Check if a row already exists in the source-specific table.
  * Returns true if a record with this external ID + source already exists.
+ * Mindbody's table depends on the export, named by its schema's id field.
  */
 export async function checkDuplicateRow(
   admin: SupabaseClient,
+  orgId: string,
   source: SourceType,
-  externalId: string
+  externalId: string,
+  schema?: SourceSchema
 ): Promise<boolean> {
   let table: string;
   let idColumn: string;
@@ -378,6 +630,22 @@ export async function checkDuplicateRow(
       idColumn = "external_payment_id";
       sourceFilter = "pos";
       break;
+    case "shopify":
+      table = "payments";
+      idColumn = "external_payment_id";
+      sourceFilter = "shopify";
+      break;
+    case "square":
+      table = "payments";
+      idColumn = "external_payment_id";
+      sourceFilter = "square";
+      break;
+    case "mindbody":
+      if (!schema) return false;
+      table = schema.idField === "external_attendance_id" ? "attendance" : "payments";
+      idColumn = schema.idField;
+      sourceFilter = "mindbody";
+      break;
     case "calendly":
       table = "bookings";
       idColumn = "external_booking_id";
@@ -400,6 +668,7 @@ export async function checkDuplicateRow(
   const { data } = await admin
     .from(table)
     .select("id")
+    .eq("org_id", orgId)
     .eq(idColumn, externalId)
     .eq("source", sourceFilter)
     .limit(1)
@@ -418,11 +687,19 @@ export async function checkDuplicateRow(
  * 4. Name — if name matches but email differs, flag conflict (don't auto-merge)
  * 5. No match — create new customer
  *
+ * Exact external-ID links are trusted (a split moves them to the right
+ * customer). Steps 2–3 skip a customer marked never-match with another
+ * customer the row's name points to.
+ *
+ * The org's stitching policy decides whether an email/phone match merges,
+ * or creates a new customer with a conflict to review, or is skipped.
+ *
  * When `forceCustomerId` is set, skip cascade and link directly to that customer.
  * When `enrichFields` is provided, update null fields on the target customer with COALESCE.
  */
 export async function stitchIdentity(
   admin: SupabaseClient,
+  orgId: string,
   source: SourceType,
   externalId: string,
   email: string | null,
@@ -431,7 +708,8 @@ export async function stitchIdentity(
   forceCustomerId?: string,
   enrichFields?: { full_name?: string; email?: string; phone?: string },
   forceNameUpdate?: string,
-  importId?: string
+  importId?: string,
+  country?: string | null
 ): Promise<StitchResult> {
   // If user explicitly chose to merge or accept enrichment, skip cascade
   if (forceCustomerId) {
@@ -450,6 +728,7 @@ export async function stitchIdentity(
 
     await linkSourceToCustomer(
       admin,
+      orgId,
       forceCustomerId,
       source,
       externalId,
@@ -464,11 +743,14 @@ export async function stitchIdentity(
     };
   }
 
+  const policy = await loadStitchingPolicy(admin, orgId);
+
   // 1. Check external ID in customer_sources
   if (externalId) {
     const { data: existingSource } = await admin
       .from("customer_sources")
       .select("customer_id")
+      .eq("org_id", orgId)
       .eq("source", source)
       .eq("external_id", externalId)
       .maybeSingle();
@@ -482,14 +764,22 @@ export async function stitchIdentity(
     }
   }
 
-  // 2. Check email — in customers table and customer_sources
+  // 2. Check email — in customers table and customer_sources, by canonical
+  // form, skipping customers marked never-match with the row's name match
   if (email) {
-    const { data: customerByEmail } = await admin
-      .from("customers")
-      .select("id, full_name, name_source")
-      .eq("org_id", DEFAULT_ORG_ID)
-      .eq("email", email)
-      .maybeSingle();
+    const [customerByEmail = null] = await excludeNeverMatchForRow(
+      admin, orgId,
+      await selectByEmail<{
+        id: string; full_name: string | null; name_source: string | null;
+      }>(admin, orgId, "customers", "email", "id, full_name, email, name_source", email, policy.email_rules),
+      name
+    );
+
+    if (customerByEmail && matchDisposition(policy, "email", 0.95) === "review") {
+      return createFlaggedCustomer(
+        admin, orgId, customerByEmail.id, "email", 0.95, source, externalId, email, name, phone, importId, country
+      );
+    }
 
     if (customerByEmail) {
       // Apply name precedence — placeholder names (email-as-name) always get overwritten
@@ -504,6 +794,7 @@ export async function stitchIdentity(
 
       await linkSourceToCustomer(
         admin,
+        orgId,
         customerByEmail.id,
         source,
         externalId,
@@ -518,12 +809,16 @@ export async function stitchIdentity(
       };
     }
 
-    const { data: sourceByEmail } = await admin
-      .from("customer_sources")
-      .select("customer_id")
-      .eq("external_email", email)
-      .limit(1)
-      .maybeSingle();
+    const [found = null] = await selectByEmail<{ customer_id: string }>(
+      admin, orgId, "customer_sources", "external_email", "customer_id, external_email", email, policy.email_rules
+    );
+    const sourceByEmail = found && !(await isNeverMatchForRow(admin, orgId, found.customer_id, name)) ? found : null;
+
+    if (sourceByEmail && matchDisposition(policy, "email", 0.9) === "review") {
+      return createFlaggedCustomer(
+        admin, orgId, sourceByEmail.customer_id, "email", 0.9, source, externalId, email, name, phone, importId, country
+      );
+    }
 
     if (sourceByEmail) {
       // Apply name precedence on source-email match too
@@ -545,6 +840,7 @@ export async function stitchIdentity(
 
       await linkSourceToCustomer(
         admin,
+        orgId,
         sourceByEmail.customer_id,
         source,
         externalId,
@@ -561,22 +857,33 @@ export async function stitchIdentity(
   }
 
   // 3. Phone match
-  const normalizedPhone = normalizePhone(phone);
+  const normalizedPhone = policy.phone_action === "off" ? null : phoneKey(phone, country, policy);
   if (normalizedPhone) {
     const { data: customersByPhone } = await admin
       .from("customers")
-      .select("id, phone")
-      .eq("org_id", DEFAULT_ORG_ID)
+      .select("id, phone, country")
+      .eq("org_id", orgId)
       .not("phone", "is", null);
 
     if (customersByPhone) {
-      const phoneMatches = customersByPhone.filter((c) =>
-        phonesMatch(c.phone, phone)
+      const phoneMatches = await excludeNeverMatchForRow(
+        admin,
+        orgId,
+        customersByPhone.filter((c) => phoneKey(c.phone, c.country, policy) === normalizedPhone),
+        name
       );
 
       if (phoneMatches.length === 1) {
+        const confidence = phoneConfidence(policy, 1);
+        if (matchDisposition(policy, "phone", confidence) === "review") {
+          return createFlaggedCustomer(
+            admin, orgId, phoneMatches[0].id, "phone", confidence, source, externalId, email, name, phone, importId, country
+          );
+        }
+
         await linkSourceToCustomer(
           admin,
+          orgId,
           phoneMatches[0].id,
           source,
           externalId,
@@ -594,22 +901,22 @@ export async function stitchIdentity(
     }
   }
 
-  // 4. Name match — look for existing customer with same name
-  if (name) {
-    const { data: customersByName } = await admin
-      .from("customers")
-      .select("id, email")
-      .eq("org_id", DEFAULT_ORG_ID)
-      .ilike("full_name", name)
-      .limit(5);
+  // 4. Name match — look for an existing customer with the same or a close name
+  if (name && policy.name_action !== "off") {
+    const sole = soleNameCandidate(
+      await queryNameCandidates<{ id: string; full_name: string | null; email: string | null }>(
+        admin, orgId, name, "id, full_name, email"
+      )
+    );
 
-    if (customersByName && customersByName.length === 1) {
-      const existingCustomer = customersByName[0];
+    if (sole) {
+      const existingCustomer = sole.candidate;
       // Flag conflict if both have emails and they differ
-      if (existingCustomer.email && email && existingCustomer.email !== email) {
-        const newCustomerId = await createCustomer(admin, email, name, phone, source);
+      if (existingCustomer.email && email && !emailsMatch(existingCustomer.email, email, policy.email_rules)) {
+        const newCustomerId = await createCustomer(admin, orgId, email, name, phone, source, null, country);
         await linkSourceToCustomer(
           admin,
+          orgId,
           newCustomerId,
           source,
           externalId,
@@ -620,11 +927,12 @@ export async function stitchIdentity(
 
         await flagConflict(
           admin,
+          orgId,
           existingCustomer.id,
           newCustomerId,
           "name",
           name,
-          0.6
+          nameCandidateConfidence(0.6, sole.score)
         );
 
         return { customerId: newCustomerId, isNew: true, matchedBy: "name" };
@@ -635,9 +943,10 @@ export async function stitchIdentity(
   }
 
   // 5. No match — create new customer
-  const newCustomerId = await createCustomer(admin, email, name, phone, source);
+  const newCustomerId = await createCustomer(admin, orgId, email, name, phone, source, null, country);
   await linkSourceToCustomer(
     admin,
+    orgId,
     newCustomerId,
     source,
     externalId,
@@ -649,24 +958,60 @@ export async function stitchIdentity(
   return { customerId: newCustomerId, isNew: true, matchedBy: "none" };
 }
 
+/**
+ * A match the org's policy only flags: create the row as a new customer
+ * and open a conflict against the matched one. After an email match the
+ * new customer gets no email (emails are unique per org) — it stays on
+ * the source link.
+ */
+async function createFlaggedCustomer(
+  admin: SupabaseClient,
+  orgId: string,
+  matchedCustomerId: string,
+  matchedBy: "email" | "phone",
+  confidence: number,
+  source: SourceType,
+  externalId: string,
+  email: string | null,
+  name: string | null,
+  phone: string | null,
+  importId?: string,
+  country?: string | null
+): Promise<StitchResult> {
+  const newCustomerId = await createCustomer(
+    admin, orgId, matchedBy === "email" ? null : email, name, phone, source, null, country
+  );
+  await linkSourceToCustomer(admin, orgId, newCustomerId, source, externalId, email, name, importId);
+  await flagConflict(
+    admin, orgId, matchedCustomerId, newCustomerId, matchedBy,
+    matchedBy === "email" ? email : phone, confidence, importId
+  );
+  return { customerId: newCustomerId, isNew: true, matchedBy };
+}
+
 /**
  * Create a new customer record.
  */
 async function createCustomer(
   admin: SupabaseClient,
+  orgId: string,
   email: string | null,
   name: string | null,
   phone?: string | null,
-  source?: string
+  source?: string,
+  householdId?: string | null,
+  country?: string | null
 ): Promise<string> {
   const { data, error } = await admin
     .from("customers")
     .insert({
-      org_id: DEFAULT_ORG_ID,
+      org_id: orgId,
       email,
       full_name: name,
       phone: phone ?? null,
       name_source: name ? (source ?? null) : null,
+      household_id: householdId ?? null,
+      country: country ?? null,
     })
     .select("id")
     .single();
@@ -718,6 +1063,7 @@ async function enrichCustomer(
  */
 async function linkSourceToCustomer(
   admin: SupabaseClient,
+  orgId: string,
   customerId: string,
   source: SourceType,
   externalId: string,
@@ -726,6 +1072,7 @@ async function linkSourceToCustomer(
   importId?: string
 ): Promise<void> {
   const { error } = await admin.from("customer_sources").insert({
+    org_id: orgId,
     customer_id: customerId,
     source,
     external_id: externalId,
@@ -735,11 +1082,12 @@ async function linkSourceToCustomer(
   });
 
   if (error?.code === "23505") {
-    // Conflict on (source, external_id) — update email/name only.
+    // Conflict on (org_id, source, external_id) — update email/name only.
     // PRESERVE original import_id to maintain "first import" provenance.
     await admin
       .from("customer_sources")
       .update({ external_email: email, external_name: name })
+      .eq("org_id", orgId)
       .eq("source", source)
       .eq("external_id", externalId);
   } else if (error) {
@@ -752,6 +1100,7 @@ async function linkSourceToCustomer(
  */
 async function flagConflict(
   admin: SupabaseClient,
+  orgId: string,
   customerAId: string,
   customerBId: string,
   matchField: string,
@@ -760,7 +1109,7 @@ async function flagConflict(
   importId?: string
 ): Promise<void> {
   const { error } = await admin.from("stitching_conflicts").insert({
-    org_id: DEFAULT_ORG_ID,
+    org_id: orgId,
     customer_a_id: customerAId,
     customer_b_id: customerBId,
     match_field: matchField,
@@ -782,6 +1131,7 @@ async function flagConflict(
  */
 export async function matchCRMCustomer(
   admin: SupabaseClient,
+  orgId: string,
   email: string | null,
   phone: string | null,
   memberId: string | null,
@@ -792,7 +1142,7 @@ export async function matchCRMCustomer(
     const { data } = await admin
       .from("customers")
       .select("id")
-      .eq("org_id", DEFAULT_ORG_ID)
+      .eq("org_id", orgId)
       .eq("email", email)
       .maybeSingle();
     if (data) return { customerId: data.id, isNew: false };
@@ -805,7 +1155,7 @@ export async function matchCRMCustomer(
       const { data: customersByPhone } = await admin
         .from("customers")
         .select("id, phone")
-        .eq("org_id", DEFAULT_ORG_ID)
+        .eq("org_id", orgId)
         .not("phone", "is", null);
 
       if (customersByPhone) {
@@ -824,6 +1174,7 @@ export async function matchCRMCustomer(
     const { data } = await admin
       .from("customer_sources")
       .select("customer_id")
+      .eq("org_id", orgId)
       .eq("source", "pos")
       .eq("external_id", memberId)
       .maybeSingle();
@@ -831,7 +1182,7 @@ export async function matchCRMCustomer(
   }
 
   // 4. No match — create new customer
-  const customerId = await createCustomer(admin, email, name, phone);
+  const customerId = await createCustomer(admin, orgId, email, name, phone);
   return { customerId, isNew: true };
 }
 
@@ -843,6 +1194,7 @@ export async function matchCRMCustomer(
  */
 export async function matchAttributionCustomer(
   admin: SupabaseClient,
+  orgId: string,
   email: string | null,
   phone: string | null,
   name: string | null = null
@@ -852,7 +1204,7 @@ export async function matchAttributionCustomer(
     const { data } = await admin
       .from("customers")
       .select("id, full_name, name_source")
-      .eq("org_id", DEFAULT_ORG_ID)
+      .eq("org_id", orgId)
       .eq("email", email)
       .maybeSingle();
     if (data) {
@@ -875,7 +1227,7 @@ export async function matchAttributionCustomer(
       const { data: customersByPhone } = await admin
         .from("customers")
         .select("id, phone")
-        .eq("org_id", DEFAULT_ORG_ID)
+        .eq("org_id", orgId)
         .not("phone", "is", null);
 
       if (customersByPhone) {
@@ -890,173 +1242,226 @@ export async function matchAttributionCustomer(
   }
 
   // 3. No match — create new customer
-  const customerId = await createCustomer(admin, email, name, phone, "attribution");
+  const customerId = await createCustomer(admin, orgId, email, name, phone, "attribution");
   return { customerId, isNew: true };
 }
 
+/** Candidate pairs per existing_conflict_pairs call, and conflict rows per insert. */
+const CONFLICT_BATCH_SIZE = 1000;
+
 /**
  * Post-import conflict detection.
- * Looks for customers with matching names but different emails that
- * were created during the same import.
+ * Looks for customers the import touched whose name matches another
+ * customer with a different email, and flags each new pair for review.
  *
- * When a CustomerIndex is provided, uses in-memory name lookup instead
- * of per-customer ilike queries.
+ * 1. Collect the import's customers (one RPC)
+ * 2. Find name conflicts in memory against the CustomerIndex — the
+ *    import's own index when provided, otherwise one is built
+ * 3. Drop pairs that already have a conflict (batched existence check)
+ * 4. Insert the rest in bulk
  */
 export async function detectPostImportConflicts(
   admin: SupabaseClient,
+  orgId: string,
   importId: string,
   index?: CustomerIndex
 ): Promise<number> {
-  const { data: sources } = await admin
-    .from("customer_sources")
-    .select("customer_id, external_email, external_name")
-    .order("created_at", { ascending: false });
-
-  if (!sources || sources.length === 0) return 0;
-
-  const tables = ["payments", "bookings", "attendance"] as const;
-  const importCustomerIds = new Set<string>();
+  const policy = index?.policy ?? await loadStitchingPolicy(admin, orgId);
+  // Name-only matches switched off in the org's policy — nothing to flag
+  if (policy.name_action === "off") return 0;
+
+  const importCustomerIds = await getImportCustomerIds(admin, orgId, importId);
+  if (importCustomerIds.length === 0) return 0;
+
+  const customerIndex = index ?? await buildCustomerIndex(admin, orgId);
+  const importCustomers = importCustomerIds
+    .map((id) => customerIndex.customerMap.get(id))
+    .filter((c): c is CustomerRecord => !!c);
+
+  const candidates = findNameConflicts(
+    importCustomers,
+    customerIndex.nameMap,
+    customerIndex.doNotMerge,
+    policy.email_rules
+  );
+  if (candidates.length === 0) return 0;
 
-  for (const table of tables) {
-    const { data } = await admin
-      .from(table)
-      .select("customer_id")
-      .eq("import_id", importId)
-      .not("customer_id", "is", null);
+  const existing = await findExistingConflictPairs(admin, orgId, candidates);
+  const fresh = candidates.filter((c) => !existing.has(pairKey(c.customerAId, c.customerBId)));
 
-    if (data) {
-      for (const row of data) {
-        if (row.customer_id) importCustomerIds.add(row.customer_id);
-      }
+  let conflictsFound = 0;
+  for (let i = 0; i < fresh.length; i += CONFLICT_BATCH_SIZE) {
+    const batch = fresh.slice(i, i + CONFLICT_BATCH_SIZE);
+    const { error } = await admin.from("stitching_conflicts").insert(
+      batch.map((c) => ({
+        org_id: orgId,
+        customer_a_id: c.customerAId,
+        customer_b_id: c.customerBId,
+        match_field: "name",
+        match_value: c.matchValue,
+        confidence: 0.5,
+        status: "pending",
+        import_id: importId,
+      }))
+    );
+    if (error) {
+      console.error(`Failed to flag conflicts: ${error.message}`);
+      continue;
     }
+    conflictsFound += batch.length;
   }
 
-  if (importCustomerIds.size === 0) return 0;
-
-  const { data: importCustomers } = await admin
-    .from("customers")
-    .select("id, full_name, email")
-    .in("id", Array.from(importCustomerIds));
-
-  if (!importCustomers) return 0;
-
-  let conflictsFound = 0;
-
-  for (const customer of importCustomers) {
-    if (!customer.full_name) continue;
-
-    // Use index for name matching when available, otherwise fall back to DB
-    let nameMatches: { id: string; email: string | null }[];
-    if (index) {
-      const candidates = index.nameMap.get(customer.full_name.toLowerCase()) ?? [];
-      nameMatches = candidates
-        .filter(c => c.id !== customer.id)
-        .map(c => ({ id: c.id, email: c.email }));
-    } else {
-      const { data } = await admin
-        .from("customers")
-        .select("id, email")
-        .eq("org_id", DEFAULT_ORG_ID)
-        .ilike("full_name", customer.full_name)
-        .neq("id", customer.id);
-      nameMatches = data ?? [];
-    }
+  return conflictsFound;
+}
 
-    for (const match of nameMatches) {
-      if (match.email && customer.email && match.email !== customer.email) {
-        const { data: existingConflict } = await admin
-          .from("stitching_conflicts")
-          .select("id")
-          .or(
-            `and(customer_a_id.eq.${customer.id},customer_b_id.eq.${match.id}),and(customer_a_id.eq.${match.id},customer_b_id.eq.${customer.id})`
-          )
-          .maybeSingle();
-
-        if (!existingConflict) {
-          await flagConflict(
-            admin,
-            customer.id,
-            match.id,
-            "name",
-            customer.full_name,
-            0.5,
-            importId
-          );
-          conflictsFound++;
-        }
-      }
+/**
+ * pairKey()s of the given pairs that already have a conflict (any status,
+ * either order), via the existing_conflict_pairs RPC.
+ */
+async function findExistingConflictPairs(
+  admin: SupabaseClient,
+  orgId: string,
+  pairs: { customerAId: string; customerBId: string }[]
+): Promise<Set<string>> {
+  const existing = new Set<string>();
+
+  for (let i = 0; i < pairs.length; i += CONFLICT_BATCH_SIZE) {
+    const batch = pairs.slice(i, i + CONFLICT_BATCH_SIZE);
+    const { data, error } = await admin.rpc("existing_conflict_pairs", {
+      target_org_id: orgId,
+      a_ids: batch.map((p) => p.customerAId),
+      b_ids: batch.map((p) => p.customerBId),
+    });
+    if (error) throw new Error(`Failed to check existing conflicts: ${error.message}`);
+    for (const row of (data ?? []) as { customer_a_id: string; customer_b_id: string }[]) {
+      existing.add(pairKey(row.customer_a_id, row.customer_b_id));
     }
   }
 
-  return conflictsFound;
+  return existing;
 }
 
 // ─── Pre-loaded index builder ─────────────────────────────────────
 
 /**
  * Pre-load all customer data into in-memory indexes.
- * 2 parallel queries total (customers + customer_sources), both org-scoped.
+ * 4 parallel loads (customers + customer_sources + do_not_merge +
+ * stitching_policy), all org-scoped; the first three are read a page at
+ * a time so large orgs are indexed in full.
  */
 export async function buildCustomerIndex(
   admin: SupabaseClient,
-  orgId: string = DEFAULT_ORG_ID
+  orgId: string
 ): Promise<CustomerIndex> {
-  const [customersRes, customerSourcesRes] = await Promise.all([
-    admin
-      .from("customers")
-      .select("id, email, phone, full_name, name_source")
-      .eq("org_id", orgId),
-    admin
-      .from("customer_sources")
-      .select("source, external_id, customer_id, external_email, customers(id, full_name, email, phone)")
+  const [customers, customerSources, doNotMerge, policy] = await Promise.all([
+    selectAll<CustomerRecord>(
+      (from, to) =>
+        admin
+          .from("customers")
+          .select("id, email, phone, full_name, name_source, household_id, country")
+          .eq("org_id", orgId)
+          .order("id")
+          .range(from, to),
+      "customers"
+    ),
+    selectAll<Omit<IndexedSource, "customer"> & { customers: unknown }>(
+      (from, to) =>
+        admin
+          .from("customer_sources")
+          .select("source, external_id, customer_id, external_email, customers(id, full_name, email, phone, household_id)")
+          .eq("org_id", orgId)
+          .order("id")
+          .range(from, to),
+      "customer sources"
+    ),
+    loadDoNotMergePairs(admin, orgId),
+    loadStitchingPolicy(admin, orgId),
   ]);
 
-  const emailMap = new Map<string, CustomerRecord>();
-  const phoneMap = new Map<string, CustomerRecord[]>();
-  const nameMap = new Map<string, CustomerRecord[]>();
-
-  if (customersRes.data) {
-    for (const c of customersRes.data) {
-      const rec: CustomerRecord = {
-        id: c.id,
-        full_name: c.full_name,
-        email: c.email,
-        phone: c.phone,
-        name_source: c.name_source,
-      };
-      if (c.email) emailMap.set(c.email.trim().toLowerCase(), rec);
-      if (c.phone) {
-        const norm = normalizePhone(c.phone);
-        if (norm) {
-          const arr = phoneMap.get(norm) ?? [];
-          arr.push(rec);
-          phoneMap.set(norm, arr);
-        }
-      }
-      if (c.full_name) {
-        const key = c.full_name.toLowerCase();
-        const arr = nameMap.get(key) ?? [];
-        arr.push(rec);
-        nameMap.set(key, arr);
-      }
-    }
-  }
+  return indexCustomers(
+    orgId,
+    customers,
+    customerSources.map((s) => ({
+      ...s,
+      customer: (s.customers as CustomerRecord[] | null)?.[0] ?? null,
+    })),
+    doNotMerge,
+    policy
+  );
+}
 
-  const sourceIdMap = new Map<string, { customerId: string; customer: CustomerRecord | null }>();
-  const extEmailMap = new Map<string, { customerId: string; customer: CustomerRecord | null }>();
+/** A customer_sources row as indexed, with its customer when loaded. */
+export interface IndexedSource {
+  source: string;
+  external_id: string;
+  customer_id: string;
+  external_email: string | null;
+  customer: CustomerRecord | null;
+}
 
-  if (customerSourcesRes.data) {
-    for (const s of customerSourcesRes.data) {
-      const cArr = s.customers as unknown as CustomerRecord[] | null;
-      const c = cArr?.[0] ?? null;
-      sourceIdMap.set(`${s.source}:${s.external_id}`, { customerId: s.customer_id, customer: c });
-      if (s.external_email) {
-        extEmailMap.set(s.external_email.trim().toLowerCase(), { customerId: s.customer_id, customer: c });
-      }
+/**
+ * Build the in-memory indexes from loaded rows. Pure, so the index can
+ * be built (and benchmarked) without a database.
+ */
+export function indexCustomers(
+  orgId: string,
+  customers: CustomerRecord[],
+  sources: IndexedSource[],
+  doNotMerge: DoNotMergePairs,
+  policy: StitchingPolicy
+): CustomerIndex {
+  const index: CustomerIndex = {
+    orgId,
+    customerMap: new Map(),
+    emailMap: new Map(),
+    phoneMap: new Map(),
+    nameMap: new Map(),
+    nameKeyMap: new Map(),
+    sourceIdMap: new Map(),
+    extEmailMap: new Map(),
+    doNotMerge,
+    householdMap: new Map(),
+    policy,
+  };
+
+  for (const c of customers) {
+    addToIndex(index, {
+      id: c.id,
+      full_name: c.full_name,
+      email: c.email,
+      phone: c.phone,
+      name_source: c.name_source,
+      household_id: c.household_id,
+      country: c.country,
+    });
+  }
+
+  for (const s of sources) {
+    index.sourceIdMap.set(`${s.source}:${s.external_id}`, { customerId: s.customer_id, customer: s.customer });
+    const extKey = canonicalEmail(s.external_email, policy.email_rules);
+    if (extKey) {
+      index.extEmailMap.set(extKey, { customerId: s.customer_id, customer: s.customer });
     }
   }
 
-  return { emailMap, phoneMap, nameMap, sourceIdMap, extEmailMap };
+  return index;
+}
+
+/**
+ * Customers the index finds for a row's exact name: the ones a match is
+ * checked against for never-match pairs.
+ */
+export function rowCustomerIds(index: Pick<CustomerIndex, "nameMap">, name: string | null): string[] {
+  return name ? (index.nameMap.get(name.toLowerCase()) ?? []).map((c) => c.id) : [];
+}
+
+/** Whether excludeNeverMatch drops `customerId` for a row with this name. */
+export function isNeverMatchForIndexedRow(
+  index: Pick<CustomerIndex, "nameMap" | "doNotMerge">,
+  customerId: string,
+  name: string | null
+): boolean {
+  return excludeNeverMatch([{ id: customerId }], rowCustomerIds(index, name), index.doNotMerge).length === 0;
 }
 
 // ─── Fast stitching (in-memory reads, DB writes) ──────────────────
@@ -1076,7 +1481,8 @@ export async function stitchIdentityFast(
   forceCustomerId?: string,
   enrichFields?: { full_name?: string; email?: string; phone?: string },
   forceNameUpdate?: string,
-  importId?: string
+  importId?: string,
+  country?: string | null
 ): Promise<StitchResult> {
   // If user explicitly chose to merge or accept enrichment, skip cascade
   if (forceCustomerId) {
@@ -1089,7 +1495,7 @@ export async function stitchIdentityFast(
         .update({ full_name: forceNameUpdate, updated_at: new Date().toISOString() })
         .eq("id", forceCustomerId);
     }
-    await linkSourceToCustomer(admin, forceCustomerId, source, externalId, email, name, importId);
+    await linkSourceToCustomer(admin, index.orgId, forceCustomerId, source, externalId, email, name, importId);
     updateIndexAfterLink(index, source, externalId, email, forceCustomerId, null);
     return { customerId: forceCustomerId, isNew: false, matchedBy: "email" };
   }
@@ -1104,9 +1510,17 @@ export async function stitchIdentityFast(
 
   // 2. Check email
   if (email) {
-    const emailKey = email.trim().toLowerCase();
-    const customerMatch = index.emailMap.get(emailKey);
+    const emailKey = canonicalEmail(email, index.policy.email_rules) ?? "";
+    const found = index.emailMap.get(emailKey);
+    const customerMatch = found && !isNeverMatchForIndexedRow(index, found.id, name) ? found : undefined;
     if (customerMatch) {
+      const household = await attachToHousehold(admin, index, [customerMatch], source, externalId, email, name, phone, importId, "email", country);
+      if (household) return household;
+
+      if (matchDisposition(index.policy, "email", 0.95) === "review") {
+        return createFlaggedCustomerFast(admin, index, customerMatch.id, "email", 0.95, source, externalId, email, name, phone, importId, country);
+      }
+
       // Apply name precedence
       const nameIsPlaceholder = customerMatch.full_name && isPlaceholderName(customerMatch.full_name, email);
       if (name && (!customerMatch.full_name || nameIsPlaceholder || shouldUpdateName(customerMatch.name_source ?? null, source))) {
@@ -1115,14 +1529,24 @@ export async function stitchIdentityFast(
         }).eq("id", customerMatch.id);
         updateIndexAfterNameChange(index, customerMatch, name, source);
       }
-      await linkSourceToCustomer(admin, customerMatch.id, source, externalId, email, name, importId);
+      await linkSourceToCustomer(admin, index.orgId, customerMatch.id, source, externalId, email, name, importId);
       updateIndexAfterLink(index, source, externalId, email, customerMatch.id, customerMatch);
       return { customerId: customerMatch.id, isNew: false, matchedBy: "email" };
     }
 
     // Email match — customer_sources external_email
-    const extMatch = index.extEmailMap.get(emailKey);
+    const foundExt = index.extEmailMap.get(emailKey);
+    const extMatch = foundExt && !isNeverMatchForIndexedRow(index, foundExt.customerId, name) ? foundExt : undefined;
     if (extMatch) {
+      if (extMatch.customer) {
+        const household = await attachToHousehold(admin, index, [extMatch.customer], source, externalId, email, name, phone, importId, "email", country);
+        if (household) return household;
+      }
+
+      if (matchDisposition(index.policy, "email", 0.9) === "review") {
+        return createFlaggedCustomerFast(admin, index, extMatch.customerId, "email", 0.9, source, externalId, email, name, phone, importId, country);
+      }
+
       // Apply name precedence on source-email match
       if (name) {
         const { data: existCust } = await admin
@@ -1141,34 +1565,50 @@ export async function stitchIdentityFast(
           }
         }
       }
-      await linkSourceToCustomer(admin, extMatch.customerId, source, externalId, email, name, importId);
+      await linkSourceToCustomer(admin, index.orgId, extMatch.customerId, source, externalId, email, name, importId);
       updateIndexAfterLink(index, source, externalId, email, extMatch.customerId, extMatch.customer);
       return { customerId: extMatch.customerId, isNew: false, matchedBy: "email" };
     }
   }
 
-  // 3. Phone match
-  const normalizedPhone = normalizePhone(phone);
+  // 3. Phone match — skipping customers marked never-match with the
+  // customer this row's name points to, and skipped entirely when the
+  // policy ignores phones
+  const normalizedPhone = index.policy.phone_action === "off" ? null : phoneKey(phone, country, index.policy);
   if (normalizedPhone) {
-    const phoneMatches = index.phoneMap.get(normalizedPhone);
-    if (phoneMatches && phoneMatches.length === 1) {
-      await linkSourceToCustomer(admin, phoneMatches[0].id, source, externalId, email, name, importId);
+    const phoneMatches = excludeNeverMatch(
+      index.phoneMap.get(normalizedPhone) ?? [],
+      rowCustomerIds(index, name),
+      index.doNotMerge
+    );
+    const household = await attachToHousehold(admin, index, phoneMatches, source, externalId, email, name, phone, importId, "phone", country);
+    if (household) return household;
+
+    if (phoneMatches.length === 1) {
+      const confidence = phoneConfidence(index.policy, 1);
+      if (matchDisposition(index.policy, "phone", confidence) === "review") {
+        return createFlaggedCustomerFast(admin, index, phoneMatches[0].id, "phone", confidence, source, externalId, email, name, phone, importId, country);
+      }
+      await linkSourceToCustomer(admin, index.orgId, phoneMatches[0].id, source, externalId, email, name, importId);
       updateIndexAfterLink(index, source, externalId, email, phoneMatches[0].id, phoneMatches[0]);
       return { customerId: phoneMatches[0].id, isNew: false, matchedBy: "phone" };
     }
     // Multiple phone matches — don't auto-merge, fall through
   }
 
-  // 4. Name match
-  if (name) {
-    const nameMatches = index.nameMap.get(name.toLowerCase());
-    if (nameMatches && nameMatches.length === 1) {
-      const existingCustomer = nameMatches[0];
-      if (existingCustomer.email && email && existingCustomer.email !== email) {
-        const newCustomerId = await createCustomer(admin, email, name, phone, source);
-        await linkSourceToCustomer(admin, newCustomerId, source, externalId, email, name, importId);
-        await flagConflict(admin, existingCustomer.id, newCustomerId, "name", name, 0.6);
-        const newRec: CustomerRecord = { id: newCustomerId, full_name: name, email, phone: phone ?? null, name_source: source };
+  // 4. Name match (same or close name)
+  if (name && index.policy.name_action !== "off") {
+    const sole = soleNameCandidate(findNameCandidates(index.nameKeyMap, name));
+    if (sole) {
+      const existingCustomer = sole.candidate;
+      if (existingCustomer.email && email && !emailsMatch(existingCustomer.email, email, index.policy.email_rules)) {
+        const newCustomerId = await createCustomer(admin, index.orgId, email, name, phone, source, null, country);
+        await linkSourceToCustomer(admin, index.orgId, newCustomerId, source, externalId, email, name, importId);
+        await flagConflict(
+          admin, index.orgId, existingCustomer.id, newCustomerId, "name", name,
+          nameCandidateConfidence(0.6, sole.score)
+        );
+        const newRec: CustomerRecord = { id: newCustomerId, full_name: name, email, phone: phone ?? null, name_source: source, country };
         addToIndex(index, newRec);
         updateIndexAfterLink(index, source, externalId, email, newCustomerId, newRec);
         return { customerId: newCustomerId, isNew: true, matchedBy: "name" };
@@ -1177,9 +1617,9 @@ export async function stitchIdentityFast(
   }
 
   // 5. No match — create new customer
-  const newCustomerId = await createCustomer(admin, email, name, phone, source);
-  await linkSourceToCustomer(admin, newCustomerId, source, externalId, email, name, importId);
-  const newRec: CustomerRecord = { id: newCustomerId, full_name: name, email, phone: phone ?? null, name_source: source };
+  const newCustomerId = await createCustomer(admin, index.orgId, email, name, phone, source, null, country);
+  await linkSourceToCustomer(admin, index.orgId, newCustomerId, source, externalId, email, name, importId);
+  const newRec: CustomerRecord = { id: newCustomerId, full_name: name, email, phone: phone ?? null, name_source: source, country };
   addToIndex(index, newRec);
   updateIndexAfterLink(index, source, externalId, email, newCustomerId, newRec);
   return { customerId: newCustomerId, isNew: true, matchedBy: "none" };
@@ -1195,17 +1635,18 @@ export async function matchCRMCustomerFast(
   email: string | null,
   phone: string | null,
   memberId: string | null,
-  name: string | null
+  name: string | null,
+  country?: string | null
 ): Promise<{ customerId: string; isNew: boolean }> {
   // 1. Email lookup
   if (email) {
-    const match = index.emailMap.get(email.trim().toLowerCase());
+    const match = index.emailMap.get(canonicalEmail(email, index.policy.email_rules) ?? "");
     if (match) return { customerId: match.id, isNew: false };
   }
 
   // 2. Phone lookup
   if (phone) {
-    const norm = normalizePhone(phone);
+    const norm = phoneKey(phone, country, index.policy);
     if (norm) {
       const phoneMatches = index.phoneMap.get(norm);
       if (phoneMatches && phoneMatches.length === 1) {
@@ -1221,30 +1662,109 @@ export async function matchCRMCustomerFast(
   }
 
   // 4. No match — create new customer
-  const customerId = await createCustomer(admin, email, name, phone);
-  const newRec: CustomerRecord = { id: customerId, full_name: name, email, phone: phone ?? null };
+  const customerId = await createCustomer(admin, index.orgId, email, name, phone, undefined, null, country);
+  const newRec: CustomerRecord = { id: customerId, full_name: name, email, phone: phone ?? null, country };
   addToIndex(index, newRec);
   return { customerId, isNew: true };
 }
 
+// ─── Households ───────────────────────────────────────────────────
+
+/**
+ * Shared email/phone inside a household: link the row to the member it
+ * names, or create it as a new member — never merge into the contact's
+ * owner. Returns null when household rules don't apply.
+ */
+async function attachToHousehold(
+  admin: SupabaseClient,
+  index: CustomerIndex,
+  matched: CustomerRecord[],
+  source: SourceType,
+  externalId: string,
+  email: string | null,
+  name: string | null,
+  phone: string | null,
+  importId: string | undefined,
+  matchedBy: "email" | "phone",
+  country?: string | null
+): Promise<StitchResult | null> {
+  const householdId = matched[0]?.household_id;
+  if (!householdId) return null;
+
+  const members = index.householdMap.get(householdId) ?? [];
+  const resolution = resolveHouseholdMatch(matched, members, name);
+  if (!resolution) return null;
+
+  if (resolution.kind === "member") {
+    const member = members.find((m) => m.id === resolution.customerId) ?? null;
+    await linkSourceToCustomer(admin, index.orgId, resolution.customerId, source, externalId, email, name, importId);
+    updateIndexAfterLink(index, source, externalId, email, resolution.customerId, member);
+    return { customerId: resolution.customerId, isNew: false, matchedBy };
+  }
+
+  // The shared email stays with its owner (emails are unique per org)
+  const newCustomerId = await createCustomer(admin, index.orgId, null, name, phone, source, householdId, country);
+  await linkSourceToCustomer(admin, index.orgId, newCustomerId, source, externalId, email, name, importId);
+  const newRec: CustomerRecord = {
+    id: newCustomerId, full_name: name, email: null, phone: phone ?? null,
+    name_source: source, household_id: householdId, country,
+  };
+  addToIndex(index, newRec);
+  updateIndexAfterLink(index, source, externalId, email, newCustomerId, newRec);
+  return { customerId: newCustomerId, isNew: true, matchedBy: "none" };
+}
+
+/** Index-aware counterpart of createFlaggedCustomer. */
+async function createFlaggedCustomerFast(
+  admin: SupabaseClient,
+  index: CustomerIndex,
+  matchedCustomerId: string,
+  matchedBy: "email" | "phone",
+  confidence: number,
+  source: SourceType,
+  externalId: string,
+  email: string | null,
+  name: string | null,
+  phone: string | null,
+  importId: string | undefined,
+  country?: string | null
+): Promise<StitchResult> {
+  const result = await createFlaggedCustomer(
+    admin, index.orgId, matchedCustomerId, matchedBy, confidence, source, externalId, email, name, phone, importId, country
+  );
+  const newRec: CustomerRecord = {
+    id: result.customerId, full_name: name, email: matchedBy === "email" ? null : email,
+    phone: phone ?? null, name_source: source, country,
+  };
+  addToIndex(index, newRec);
+  updateIndexAfterLink(index, source, externalId, email, result.customerId, newRec);
+  return result;
+}
+
 // ─── Index update helpers ─────────────────────────────────────────
 
 /** Add a new customer record to all relevant index maps. */
 function addToIndex(index: CustomerIndex, rec: CustomerRecord): void {
-  if (rec.email) index.emailMap.set(rec.email.trim().toLowerCase(), rec);
-  if (rec.phone) {
-    const norm = normalizePhone(rec.phone);
-    if (norm) {
-      const arr = index.phoneMap.get(norm) ?? [];
-      arr.push(rec);
-      index.phoneMap.set(norm, arr);
-    }
+  index.customerMap.set(rec.id, rec);
+  const emailKey = canonicalEmail(rec.email, index.policy.email_rules);
+  if (emailKey) index.emailMap.set(emailKey, rec);
+  if (rec.household_id) {
+    const arr = index.householdMap.get(rec.household_id) ?? [];
+    arr.push(rec);
+    index.householdMap.set(rec.household_id, arr);
+  }
+  const norm = phoneKey(rec.phone, rec.country, index.policy);
+  if (norm) {
+    const arr = index.phoneMap.get(norm) ?? [];
+    arr.push(rec);
+    index.phoneMap.set(norm, arr);
   }
   if (rec.full_name) {
     const key = rec.full_name.toLowerCase();
     const arr = index.nameMap.get(key) ?? [];
     arr.push(rec);
     index.nameMap.set(key, arr);
+    addToNameBuckets(index.nameKeyMap, rec);
   }
 }
 
@@ -1260,12 +1780,13 @@ function updateIndexAfterLink(
   if (externalId) {
     index.sourceIdMap.set(`${source}:${externalId}`, { customerId, customer });
   }
-  if (email) {
-    index.extEmailMap.set(email.trim().toLowerCase(), { customerId, customer });
+  const emailKey = canonicalEmail(email, index.policy.email_rules);
+  if (emailKey) {
+    index.extEmailMap.set(emailKey, { customerId, customer });
   }
 }
 
-/** Update nameMap after a name change on an existing customer. */
+/** Update nameMap and nameKeyMap after a name change on an existing customer. */
 function updateIndexAfterNameChange(
   index: CustomerIndex,
   rec: CustomerRecord,
@@ -1281,6 +1802,7 @@ function updateIndexAfterNameChange(
       if (filtered.length === 0) index.nameMap.delete(oldKey);
       else index.nameMap.set(oldKey, filtered);
     }
+    removeFromNameBuckets(index.nameKeyMap, rec);
   }
   // Mutate rec in place (shared reference across maps)
   rec.full_name = newName;
@@ -1290,4 +1812,5 @@ function updateIndexAfterNameChange(
   const arr = index.nameMap.get(newKey) ?? [];
   arr.push(rec);
   index.nameMap.set(newKey, arr);
+  addToNameBuckets(index.nameKeyMap, rec);
 }
@@ -0,0 +1,166 @@
+import { shouldUpdateName } from "./matcher";
+
+export interface MergeFieldSource {
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  name_source: string | null;
+}
+
+export type MergeFieldUpdates = Partial<Record<keyof MergeFieldSource, string>>;
+
+/**
+ * Fields of the kept customer (A) to overwrite from the absorbed one (B).
+ *
+ * - full_name/name_source: taken from B when A has no name, or when B's
+ *   name source has equal or higher precedence
+ * - email/phone: only filled when A has none
+ */
+export function planMergeFieldUpdates(
+  kept: MergeFieldSource,
+  removed: MergeFieldSource
+): MergeFieldUpdates {
+  const updates: MergeFieldUpdates = {};
+
+  if (removed.full_name) {
+    if (!kept.full_name || shouldUpdateName(kept.name_source, removed.name_source ?? "")) {
+      updates.full_name = removed.full_name;
+      updates.name_source = removed.name_source ?? "";
+    }
+  }
+  if (!kept.email && removed.email) updates.email = removed.email;
+  if (!kept.phone && removed.phone) updates.phone = removed.phone;
+
+  return updates;
+}
+
+export interface MergePreview {
+  /** The kept customer (A) as it will look after absorbing B */
+  record: MergeFieldSource & { country: string | null };
+  /** Fields whose value comes from B */
+  fromRemoved: Exclude<keyof MergeFieldSource, "name_source">[];
+}
+
+/**
+ * What resolving a conflict as "merged" produces: A with the fields
+ * planMergeFieldUpdates takes from B. Country is never copied.
+ */
+export function previewMerge(
+  kept: MergeFieldSource & { country: string | null },
+  removed: MergeFieldSource
+): MergePreview {
+  const updates = planMergeFieldUpdates(kept, removed);
+  return {
+    record: { ...kept, ...updates },
+    fromRemoved: (["full_name", "email", "phone"] as const).filter(
+      (field) => field in updates && updates[field] !== kept[field]
+    ),
+  };
+}
+
+// ─── Manual merge ───────────────────────────────────────────
+
+/** Customer fields the manual merge lets staff pick a survivor value for. */
+export const MERGE_FIELDS = [
+  "full_name",
+  "email",
+  "phone",
+  "country",
+  "notes",
+  "last_visit_date",
+  "classes_remaining",
+  "membership_status",
+  "referral_source",
+  "occupation",
+  "skill_level",
+  "member_type",
+  "join_date",
+  "preferred_currency",
+  "preferred_time_slot",
+] as const;
+
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+export type MergeCandidate = { id: string; name_source: string | null } & {
+  [K in MergeField]: string | number | null;
+};
+
+/** For each field, the ID of the customer whose value survives. */
+export type MergeFieldPicks = Record<MergeField, string>;
+
+/**
+ * Default survivor value per field.
+ *
+ * - full_name: the name with the highest name_source precedence; the
+ *   survivor keeps its own name unless another source strictly outranks it
+ * - everything else: the survivor's value, or the first non-empty value
+ *   among the other customers
+ */
+export function defaultFieldPicks(
+  candidates: MergeCandidate[],
+  survivorId: string
+): MergeFieldPicks {
+  const survivor = candidates.find((c) => c.id === survivorId);
+  if (!survivor) throw new Error("Survivor must be one of the candidates");
+  const others = candidates.filter((c) => c.id !== survivorId);
+
+  const picks = {} as MergeFieldPicks;
+  for (const field of MERGE_FIELDS) {
+    if (!isEmpty(survivor[field])) {
+      picks[field] = survivor.id;
+      continue;
+    }
+    picks[field] = others.find((c) => !isEmpty(c[field]))?.id ?? survivor.id;
+  }
+
+  let best = isEmpty(survivor.full_name) ? null : survivor;
+  for (const c of others) {
+    if (isEmpty(c.full_name)) continue;
+    const outranks =
+      !best ||
+      (shouldUpdateName(best.name_source, c.name_source ?? "") &&
+        !shouldUpdateName(c.name_source, best.name_source ?? ""));
+    if (outranks) best = c;
+  }
+  picks.full_name = best?.id ?? survivor.id;
+
+  return picks;
+}
+
+/**
+ * Turn field picks into the per-customer updates merge_customer_group
+ * applies to the survivor. Each value travels with the merge of the
+ * customer it came from, so unmerging that customer gives it back.
+ * Picking a name also carries its name_source.
+ */
+export function buildMergeUpdates(
+  candidates: MergeCandidate[],
+  survivorId: string,
+  picks: Partial<MergeFieldPicks>
+): Record<string, Record<string, string | number | null>> {
+  const byId = new Map(candidates.map((c) => [c.id, c]));
+  const survivor = byId.get(survivorId);
+  if (!survivor) throw new Error("Survivor must be one of the candidates");
+
+  const updates: Record<string, Record<string, string | number | null>> = {};
+  for (const c of candidates) {
+    if (c.id !== survivorId) updates[c.id] = {};
+  }
+
+  for (const field of MERGE_FIELDS) {
+    const sourceId = picks[field];
+    if (!sourceId || sourceId === survivorId) continue;
+    const source = byId.get(sourceId);
+    if (!source) throw new Error(`Unknown customer picked for ${field}`);
+    if (source[field] === survivor[field]) continue;
+
+    updates[sourceId][field] = source[field];
+    if (field === "full_name") updates[sourceId].name_source = source.name_source;
+  }
+
+  return updates;
+}
+
+function isEmpty(value: string | number | null): boolean {
+  return value === null || value === "";
+}
@@ -43,7 +43,7 @@ export function normalizeName(s: string): string {
  * and only one token pair may be initial vs full name.
  * An initial is a single character (e.g., "A" matches "Ana").
  */
-function abbreviationMatch(a: string, b: string): boolean {
+export function abbreviationMatch(a: string, b: string): boolean {
   const tokensA = a.split(" ");
   const tokensB = b.split(" ");
 
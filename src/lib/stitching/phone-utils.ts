@@ -2,12 +2,84 @@
  * Phone number normalization and comparison utilities.
  * Uses libphonenumber-js for proper international parsing.
  * Numbers with a "+" prefix are parsed as-is. Numbers without one
- * are assumed to be US by default (configurable via defaultCountry).
+ * are parsed for a default country: the row's or customer's country
+ * when known (see phoneCountry), otherwise the org default, otherwise US.
  */
 
-import { parsePhoneNumberFromString, type CountryCode } from "libphonenumber-js";
+import { getCountries, parsePhoneNumberFromString, type CountryCode } from "libphonenumber-js";
 
-const DEFAULT_COUNTRY: CountryCode = "US";
+export const DEFAULT_COUNTRY: CountryCode = "US";
+
+/** Common spellings Intl.DisplayNames doesn't produce. */
+const COUNTRY_ALIASES: Record<string, CountryCode> = {
+  usa: "US",
+  "u.s.": "US",
+  "u.s.a.": "US",
+  "united states of america": "US",
+  america: "US",
+  eeuu: "US",
+  "ee.uu.": "US",
+  uk: "GB",
+  "u.k.": "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  "great britain": "GB",
+  "reino unido": "GB",
+  holland: "NL",
+  "south korea": "KR",
+  "czech republic": "CZ",
+};
+
+const LOCALES = ["en", "es", "pt"];
+
+function foldCountryName(value: string): string {
+  return value.normalize("NFD").replace(/[\u0300-\u036f]/g, "").trim().toLowerCase();
+}
+
+let countryNames: Map<string, CountryCode> | null = null;
+
+/** Country names (English, Spanish, Portuguese) → ISO code, built on first use. */
+function countryNameIndex(): Map<string, CountryCode> {
+  if (countryNames) return countryNames;
+  countryNames = new Map();
+  for (const locale of LOCALES) {
+    const names = new Intl.DisplayNames([locale], { type: "region" });
+    for (const code of getCountries()) {
+      const name = names.of(code);
+      if (name && name !== code) countryNames.set(foldCountryName(name), code);
+    }
+  }
+  for (const [alias, code] of Object.entries(COUNTRY_ALIASES)) countryNames.set(alias, code);
+  return countryNames;
+}
+
+/**
+ * Resolve a free-text country ("MX", "Mexico", "México", "España", "USA")
+ * to an ISO 3166 alpha-2 code libphonenumber knows, or null.
+ */
+export function resolveCountryCode(country: string | null | undefined): CountryCode | null {
+  if (!country) return null;
+  const trimmed = country.trim();
+  if (!trimmed) return null;
+
+  const upper = trimmed.toUpperCase();
+  if (upper.length === 2 && (getCountries() as string[]).includes(upper)) {
+    return upper as CountryCode;
+  }
+  return countryNameIndex().get(foldCountryName(trimmed)) ?? null;
+}
+
+/**
+ * Default country for parsing a phone number: the row's (or customer's)
+ * country when it resolves, otherwise the fallback (the org default).
+ */
+export function phoneCountry(
+  country: string | null | undefined,
+  fallback: CountryCode = DEFAULT_COUNTRY
+): CountryCode {
+  return resolveCountryCode(country) ?? fallback;
+}
 
 /**
  * Normalize a phone number to E.164 format (e.g. "+15558675309").
@@ -35,13 +107,16 @@ export function normalizePhone(
  * Compare two phone numbers after normalizing to E.164.
  * "+1 (555) 867-5309", "5558675309", and "15558675309" all match.
  * International numbers like "+33 6 12 34 56 78" are handled correctly.
+ * Numbers without a prefix are parsed for their own default country.
  */
 export function phonesMatch(
   a: string | null | undefined,
-  b: string | null | undefined
+  b: string | null | undefined,
+  countryA: CountryCode = DEFAULT_COUNTRY,
+  countryB: CountryCode = countryA
 ): boolean {
-  const normA = normalizePhone(a);
-  const normB = normalizePhone(b);
+  const normA = normalizePhone(a, countryA);
+  const normB = normalizePhone(b, countryB);
   if (!normA || !normB) return false;
   return normA === normB;
 }
@@ -0,0 +1,127 @@
+/**
+ * Per-org stitching policy: which match signals may auto-merge, which only
+ * flag for review, and how confident a match must be to be auto-accepted.
+ * Stored in the stitching_policy table; preview and import both read it,
+ * so what the verify step shows is what the import does.
+ *
+ * External ID matches are exact and always auto-merge.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { CountryCode } from "libphonenumber-js";
+import { normalizeEmailRules, type EmailDomainRule } from "./email-utils";
+import { DEFAULT_COUNTRY, resolveCountryCode } from "./phone-utils";
+
+export type SignalAction = "auto" | "review" | "off";
+
+export interface StitchingPolicy {
+  email_action: Exclude<SignalAction, "off">;
+  phone_action: SignalAction;
+  /** Name-only matches are never auto-merged — only flagged or ignored */
+  name_action: Exclude<SignalAction, "auto">;
+  /** Confidence of a single phone match (several matches score lower) */
+  phone_confidence: number;
+  /** Matches below this confidence are flagged for review, never auto-merged */
+  min_auto_confidence: number;
+  /** Extra email canonicalization rules (on top of the built-in Gmail ones) */
+  email_rules: EmailDomainRule[];
+  /** Country for phone numbers without a "+" prefix when the row has none */
+  default_phone_country: CountryCode;
+}
+
+export const DEFAULT_STITCHING_POLICY: StitchingPolicy = {
+  email_action: "auto",
+  phone_action: "auto",
+  name_action: "review",
+  phone_confidence: 0.75,
+  min_auto_confidence: 0.8,
+  email_rules: [],
+  default_phone_country: DEFAULT_COUNTRY,
+};
+
+/** What the cascade does with a match: merge it, flag it, or skip the step. */
+export type MatchDisposition = "auto" | "review" | "ignore";
+
+/** Confidence penalty when a phone matches several customers. */
+const MULTI_PHONE_PENALTY = 0.15;
+
+export function phoneConfidence(policy: StitchingPolicy, matchCount: number): number {
+  const base = policy.phone_confidence;
+  return matchCount > 1 ? Math.max(0, Math.round((base - MULTI_PHONE_PENALTY) * 100) / 100) : base;
+}
+
+/**
+ * Decide what to do with a match on the given signal.
+ *
+ * 1. A signal switched off is ignored (the cascade moves on)
+ * 2. Name matches are always flagged for review
+ * 3. "auto" signals merge only when confidence reaches min_auto_confidence
+ */
+export function matchDisposition(
+  policy: StitchingPolicy,
+  signal: "email" | "phone" | "name",
+  confidence: number
+): MatchDisposition {
+  const action =
+    signal === "email" ? policy.email_action
+    : signal === "phone" ? policy.phone_action
+    : policy.name_action;
+
+  if (action === "off") return "ignore";
+  if (action === "review" || signal === "name") return "review";
+  return confidence >= policy.min_auto_confidence ? "auto" : "review";
+}
+
+/**
+ * Validate and normalize a policy coming from the client or the database.
+ * Unknown values fall back to the defaults; confidences are clamped to 0–1
+ * invalid email rules are dropped and the phone country must resolve.
+ */
+export function normalizeStitchingPolicy(
+  input: Partial<Record<keyof StitchingPolicy, unknown>> | null | undefined
+): StitchingPolicy {
+  const d = DEFAULT_STITCHING_POLICY;
+  const pick = <T extends string>(value: unknown, allowed: readonly T[], fallback: T): T =>
+    allowed.includes(value as T) ? (value as T) : fallback;
+  const confidence = (value: unknown, fallback: number): number => {
+    const n = typeof value === "string" ? Number(value) : value;
+    if (typeof n !== "number" || !Number.isFinite(n)) return fallback;
+    return Math.round(Math.min(1, Math.max(0, n)) * 100) / 100;
+  };
+
+  return {
+    email_action: pick(input?.email_action, ["auto", "review"] as const, d.email_action),
+    phone_action: pick(input?.phone_action, ["auto", "review", "off"] as const, d.phone_action),
+    name_action: pick(input?.name_action, ["review", "off"] as const, d.name_action),
+    phone_confidence: confidence(input?.phone_confidence, d.phone_confidence),
+    min_auto_confidence: confidence(input?.min_auto_confidence, d.min_auto_confidence),
+    email_rules: normalizeEmailRules(input?.email_rules),
+    default_phone_country:
+      typeof input?.default_phone_country === "string"
+        ? resolveCountryCode(input.default_phone_country) ?? d.default_phone_country
+        : d.default_phone_country,
+  };
+}
+
+export const STITCHING_POLICY_COLUMNS =
+  "email_action, phone_action, name_action, phone_confidence, min_auto_confidence, email_rules, default_phone_country";
+
+/**
+ * Load an org's stitching policy, falling back to the defaults when the
+ * org has none. Throws if it can't be read, rather than stitching with
+ * defaults the org may have turned off.
+ */
+export async function loadStitchingPolicy(
+  admin: SupabaseClient,
+  orgId: string
+): Promise<StitchingPolicy> {
+  const { data, error } = await admin
+    .from("stitching_policy")
+    .select(STITCHING_POLICY_COLUMNS)
+    .eq("org_id", orgId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load stitching policy: ${error.message}`);
+
+  return normalizeStitchingPolicy(data);
+}
@@ -0,0 +1,320 @@
+/**
+ * Re-run identity resolution over an org's whole customer base.
+ * Stitching normally runs per imported row, so duplicates created before a
+ * matcher fix or a policy change are never revisited. A re-stitch job
+ * scans every customer with the current rules — canonical emails (customer
+ * and source emails), country-aware phones and fuzzy names — and proposes
+ * each likely duplicate pair as a pending stitching_conflict. Nothing is
+ * merged automatically; proposals are reviewed on the Conflicts page.
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { OrgContext } from "@/lib/org";
+import { recordAuditEvent } from "@/lib/audit";
+import { selectAll } from "@/lib/supabase/select-all";
+import { canonicalEmail } from "./email-utils";
+import { addToNameBuckets, findNameCandidates, nameCandidateConfidence } from "./fuzzy-names";
+import { isPlaceholderName } from "./name-utils";
+import { normalizePhone, phoneCountry } from "./phone-utils";
+import {
+  isNeverMatch,
+  loadDoNotMergePairs,
+  pairKey,
+  type DoNotMergePairs,
+} from "./do-not-merge";
+import { loadStitchingPolicy, phoneConfidence, type StitchingPolicy } from "./policy";
+
+// ─── Scanner (pure) ───────────────────────────────────────────────
+
+export interface RestitchCustomer {
+  id: string;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  country: string | null;
+  household_id: string | null;
+  created_at: string;
+}
+
+export interface RestitchSource {
+  customer_id: string;
+  external_email: string | null;
+}
+
+export interface RestitchProposal {
+  /** The older customer — kept when the conflict is merged */
+  customerAId: string;
+  customerBId: string;
+  matchField: "email" | "phone" | "name";
+  matchValue: string;
+  confidence: number;
+}
+
+export interface RestitchInput {
+  customers: RestitchCustomer[];
+  sources: RestitchSource[];
+  policy: StitchingPolicy;
+  doNotMerge: DoNotMergePairs;
+  /** pairKey()s of pairs that already have a conflict, in any status */
+  existingPairs: Set<string>;
+}
+
+export interface RestitchScanner {
+  total: number;
+  /** Proposals for customers[start, end), oldest first. Each pair is proposed once. */
+  scan(start: number, end: number): RestitchProposal[];
+}
+
+/**
+ * Emails, phones and names shared by more customers than this are treated
+ * as shared contacts (a front desk number, a very common name) rather than
+ * evidence of a duplicate, and are not proposed.
+ */
+export const MAX_SHARED_MATCHES = 5;
+
+/** Same confidences the cascade gives email matches (customer / source email). */
+const CUSTOMER_EMAIL_CONFIDENCE = 0.95;
+const SOURCE_EMAIL_CONFIDENCE = 0.9;
+/** Same base the post-import check uses for name-only conflicts. */
+const NAME_CONFIDENCE = 0.5;
+
+/**
+ * Index the customer base under the current rules and return a scanner
+ * that can be run in batches (so the job can report progress).
+ *
+ * 1. Order customers oldest first — the older one is customer A
+ * 2. Group customers by canonical email (own and source emails) and by phone
+ * 3. Bucket names for fuzzy lookup
+ * 4. scan() pairs each customer with the others in its groups, strongest
+ *    signal first, skipping never-match pairs, household members and
+ *    pairs that already have a conflict
+ */
+export function createRestitchScanner(input: RestitchInput): RestitchScanner {
+  const { policy, doNotMerge, existingPairs } = input;
+  const customers = [...input.customers].sort(
+    (x, y) => x.created_at.localeCompare(y.created_at) || x.id.localeCompare(y.id)
+  );
+  const position = new Map(customers.map((c, i) => [c.id, i]));
+
+  // email key → customer id → confidence of that customer's claim on it
+  const emailGroups = new Map<string, Map<string, number>>();
+  const emailKeys = new Map<string, Set<string>>();
+  const addEmail = (customerId: string, email: string | null, confidence: number) => {
+    const key = canonicalEmail(email, policy.email_rules);
+    if (!key || !position.has(customerId)) return;
+    const group = emailGroups.get(key) ?? new Map<string, number>();
+    group.set(customerId, Math.max(group.get(customerId) ?? 0, confidence));
+    emailGroups.set(key, group);
+    const keys = emailKeys.get(customerId) ?? new Set<string>();
+    keys.add(key);
+    emailKeys.set(customerId, keys);
+  };
+  for (const c of customers) addEmail(c.id, c.email, CUSTOMER_EMAIL_CONFIDENCE);
+  for (const s of input.sources) addEmail(s.customer_id, s.external_email, SOURCE_EMAIL_CONFIDENCE);
+
+  const phoneGroups = new Map<string, RestitchCustomer[]>();
+  const phoneKeys = new Map<string, string>();
+  if (policy.phone_action !== "off") {
+    for (const c of customers) {
+      const key = normalizePhone(c.phone, phoneCountry(c.country, policy.default_phone_country));
+      if (!key) continue;
+      phoneKeys.set(c.id, key);
+      const group = phoneGroups.get(key) ?? [];
+      group.push(c);
+      phoneGroups.set(key, group);
+    }
+  }
+
+  const nameBuckets = new Map<string, RestitchCustomer[]>();
+  if (policy.name_action !== "off") {
+    for (const c of customers) {
+      if (c.full_name && !isPlaceholderName(c.full_name, c.email)) addToNameBuckets(nameBuckets, c);
+    }
+  }
+
+  const proposed = new Set<string>();
+
+  function propose(
+    out: RestitchProposal[],
+    a: RestitchCustomer,
+    b: RestitchCustomer,
+    matchField: RestitchProposal["matchField"],
+    matchValue: string,
+    confidence: number
+  ): void {
+    if (a.id === b.id) return;
+    const key = pairKey(a.id, b.id);
+    if (proposed.has(key) || existingPairs.has(key)) return;
+    if (isNeverMatch(doNotMerge, a.id, b.id)) return;
+    if (a.household_id && a.household_id === b.household_id) return;
+
+    proposed.add(key);
+    const [older, newer] = position.get(a.id)! < position.get(b.id)! ? [a, b] : [b, a];
+    out.push({ customerAId: older.id, customerBId: newer.id, matchField, matchValue, confidence });
+  }
+
+  const byId = new Map(customers.map((c) => [c.id, c]));
+
+  return {
+    total: customers.length,
+    scan(start, end) {
+      const out: RestitchProposal[] = [];
+
+      for (const customer of customers.slice(start, end)) {
+        for (const key of emailKeys.get(customer.id) ?? []) {
+          const group = emailGroups.get(key)!;
+          if (group.size < 2 || group.size > MAX_SHARED_MATCHES) continue;
+          const own = group.get(customer.id)!;
+          for (const [otherId, other] of group) {
+            propose(out, customer, byId.get(otherId)!, "email", key, Math.min(own, other));
+          }
+        }
+
+        const phone = phoneKeys.get(customer.id);
+        const phoneGroup = phone ? phoneGroups.get(phone)! : [];
+        if (phone && phoneGroup.length >= 2 && phoneGroup.length <= MAX_SHARED_MATCHES) {
+          const confidence = phoneConfidence(policy, phoneGroup.length - 1);
+          for (const other of phoneGroup) propose(out, customer, other, "phone", phone, confidence);
+        }
+
+        if (nameBuckets.size > 0 && customer.full_name && !isPlaceholderName(customer.full_name, customer.email)) {
+          const ranked = findNameCandidates(nameBuckets, customer.full_name).filter(
+            (r) => r.candidate.id !== customer.id
+          );
+          if (ranked.length <= MAX_SHARED_MATCHES) {
+            for (const { candidate, score } of ranked) {
+              propose(out, customer, candidate, "name", customer.full_name, nameCandidateConfidence(NAME_CONFIDENCE, score));
+            }
+          }
+        }
+      }
+
+      return out;
+    },
+  };
+}
+
+// ─── Job runner ───────────────────────────────────────────────────
+
+/** Customers scanned between progress updates. */
+export const RESTITCH_BATCH_SIZE = 500;
+
+/** A running job that hasn't reported progress for this long is treated as dead. */
+export const RESTITCH_STALE_AFTER_MS = 10 * 60 * 1000;
+
+/**
+ * Run a re-stitch job to completion, writing progress to restitch_jobs.
+ *
+ * 1. Load customers, source emails, never-match pairs, existing conflicts
+ *    and the stitching policy
+ * 2. Scan in batches of RESTITCH_BATCH_SIZE customers, inserting each
+ *    batch's proposals as pending conflicts and updating progress
+ * 3. Mark the job completed and record an audit event, or mark it failed
+ *    with the error
+ */
+export async function runRestitchJob(
+  admin: SupabaseClient,
+  ctx: Pick<OrgContext, "orgId" | "userId" | "email">,
+  jobId: string
+): Promise<void> {
+  const { orgId } = ctx;
+  const updateJob = async (fields: Record<string, unknown>) => {
+    const { error } = await admin
+      .from("restitch_jobs")
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq("id", jobId)
+      .eq("org_id", orgId);
+    if (error) console.error(`[restitch] Failed to update job ${jobId}: ${error.message}`);
+  };
+
+  try {
+    await updateJob({ status: "running" });
+
+    const [customers, sources, conflicts, doNotMerge, policy] = await Promise.all([
+      selectAll<RestitchCustomer>(
+        (from, to) =>
+          admin
+            .from("customers")
+            .select("id, full_name, email, phone, country, household_id, created_at")
+            .eq("org_id", orgId)
+            .order("id")
+            .range(from, to),
+        "customers"
+      ),
+      selectAll<RestitchSource>(
+        (from, to) =>
+          admin
+            .from("customer_sources")
+            .select("customer_id, external_email")
+            .eq("org_id", orgId)
+            .not("external_email", "is", null)
+            .order("id")
+            .range(from, to),
+        "customer sources"
+      ),
+      selectAll<{ customer_a_id: string | null; customer_b_id: string | null }>(
+        (from, to) =>
+          admin
+            .from("stitching_conflicts")
+            .select("customer_a_id, customer_b_id")
+            .eq("org_id", orgId)
+            .order("id")
+            .range(from, to),
+        "conflicts"
+      ),
+      loadDoNotMergePairs(admin, orgId),
+      loadStitchingPolicy(admin, orgId),
+    ]);
+
+    const existingPairs = new Set(
+      conflicts
+        .filter((c) => c.customer_a_id && c.customer_b_id)
+        .map((c) => pairKey(c.customer_a_id!, c.customer_b_id!))
+    );
+
+    const scanner = createRestitchScanner({ customers, sources, policy, doNotMerge, existingPairs });
+    await updateJob({ total_customers: scanner.total });
+
+    let created = 0;
+    for (let start = 0; start < scanner.total; start += RESTITCH_BATCH_SIZE) {
+      const end = Math.min(start + RESTITCH_BATCH_SIZE, scanner.total);
+      const proposals = scanner.scan(start, end);
+
+      if (proposals.length > 0) {
+        const { error } = await admin.from("stitching_conflicts").insert(
+          proposals.map((p) => ({
+            org_id: orgId,
+            customer_a_id: p.customerAId,
+            customer_b_id: p.customerBId,
+            match_field: p.matchField,
+            match_value: p.matchValue,
+            confidence: p.confidence,
+            status: "pending",
+            restitch_job_id: jobId,
+          }))
+        );
+        if (error) throw new Error(`Failed to save proposed merges: ${error.message}`);
+        created += proposals.length;
+      }
+
+      await updateJob({ processed_customers: end, conflicts_created: created });
+    }
+
+    await updateJob({ status: "completed", completed_at: new Date().toISOString() });
+
+    await recordAuditEvent(admin, ctx, {
+      action: "identity.restitched",
+      entityType: "organization",
+      entityId: orgId,
+      details: {
+        job_id: jobId,
+        total_customers: scanner.total,
+        conflicts_created: created,
+      },
+    });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[restitch] Job ${jobId} failed: ${message}`);
+    await updateJob({ status: "failed", error: message, completed_at: new Date().toISOString() });
+  }
+}
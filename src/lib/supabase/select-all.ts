@@ -0,0 +1,19 @@
+/** PostgREST returns at most this many rows per request. */
+export const PAGE_SIZE = 1000;
+
+/**
+ * Read every row of a query, a page at a time. `page` runs the query for
+ * one range; it needs a stable `.order()` so pages don't overlap.
+ */
+export async function selectAll<T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+  label: string
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`Failed to load ${label}: ${error.message}`);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
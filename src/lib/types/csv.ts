@@ -1,8 +1,11 @@
-import type { SourceType } from "./database";
+import type { SourceType, CustomSourceTarget } from "./database";
 
-/** Internal schema key — extends SourceType with attribution sub-types.
+/** Internal schema key — extends SourceType with attribution and Mindbody sub-types.
  *  Used ONLY for schema detection / mapping. Never written to DB. */
-export type SchemaKey = SourceType | "attribution_firsttouch" | "attribution_journeys";
+export type SchemaKey =
+  | SourceType
+  | "attribution_firsttouch" | "attribution_journeys"
+  | "mindbody_sales" | "mindbody_visits";
 
 export interface SchemaField {
   key: string;
@@ -15,6 +18,9 @@ export interface SchemaField {
   enumValues?: string[];
 }
 
+/** A field of an org-defined source, as stored in custom_sources.fields */
+export type CustomSourceField = Pick<SchemaField, "key" | "label" | "type" | "required" | "aliases">;
+
 export interface SourceSchema {
   source: SourceType | SchemaKey;
   label: string;
@@ -24,6 +30,8 @@ export interface SourceSchema {
   nameField: string;
   customerIdField?: string;
   phoneField?: string;
+  /** Org-defined sources only: the table rows are written to */
+  target?: CustomSourceTarget;
 }
 
 export interface ParseResult {
@@ -41,6 +49,33 @@ export interface ParseError {
 
 export type MatchType = "exact" | "alias" | "similarity" | "pattern" | "none";
 
+/**
+ * One step of a field's transform pipeline. The pipeline starts from the
+ * column mapped to the field (or "" if none) and runs the steps in order.
+ */
+export type TransformStep =
+  /** Append other columns' values, skipping empty ones */
+  | { type: "concat"; columns: string[]; separator: string }
+  /** Keep one part; a negative index counts from the end */
+  | { type: "split"; separator: string; index: number }
+  | { type: "multiply"; factor: number }
+  | { type: "divide"; divisor: number }
+  /** Keep a capture group (0 = the whole match); no match gives "" */
+  | { type: "regex"; pattern: string; group: number }
+  /** Replace the value outright */
+  | { type: "constant"; value: string }
+  /** Translate values (case-insensitive); unlisted values pass through */
+  | { type: "lookup"; table: Record<string, string> };
+
+/** Transform pipelines by schema field key. */
+export type FieldTransforms = Record<string, TransformStep[]>;
+
+/**
+ * User value mappings for enum fields, by schema field key: source value
+ * (lowercased, trimmed) → one of the field's `enumValues`.
+ */
+export type ValueMappings = Record<string, Record<string, string>>;
+
 export interface MappingSuggestion {
   csvHeader: string;
   schemaField: string | null;
@@ -96,7 +131,7 @@ export interface StitchCandidate {
   customerName: string | null;
   customerEmail: string | null;
   customerPhone: string | null;
-  matchedBy: "phone" | "name";
+  matchedBy: "email" | "phone" | "name";
   confidence: number;
 }
 
@@ -171,4 +206,6 @@ export interface ImportResultDetailed extends ImportResult {
   userSkippedRows: number;
   conflictsCreated: number;
   enrichedCount: number;
+  /** Set when post-import conflict detection failed; the rows are still imported */
+  conflictDetectionError: string | null;
 }
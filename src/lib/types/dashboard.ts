@@ -18,6 +18,9 @@ export interface RevenueTrendBySourcePoint {
   stripe: number;
   pos: number;
   wetravel: number;
+  shopify: number;
+  square: number;
+  mindbody: number;
   calendly: number;
   passline: number;
   manual: number;
@@ -57,12 +60,24 @@ export interface CustomerDetail {
     risk_status: "Healthy" | "At Risk" | "Dormant" | "Lost";
     sources: string[];
     sourceLinks: {
+      id: string;
       source: string;
       external_id: string;
       external_email: string | null;
       external_name: string | null;
     }[];
     revenueBySource: Record<string, number>;
+    household: {
+      id: string;
+      name: string | null;
+      totalRevenue: number;
+      members: {
+        id: string;
+        full_name: string | null;
+        email: string | null;
+        totalRevenue: number;
+      }[];
+    } | null;
   };
   transactions: {
     id: string;
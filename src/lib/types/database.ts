@@ -1,11 +1,52 @@
 // Database types matching the Supabase schema
 // These will be replaced by auto-generated types from `supabase gen types` once the schema is live
 
-export type SourceType = "stripe" | "calendly" | "passline" | "pos" | "wetravel" | "manual" | "crm" | "attribution";
+import type { FieldTransforms, ValueMappings, CustomSourceField } from "./csv";
+
+/** An org-defined source: "custom:<custom_sources.id>" */
+export type CustomSourceType = `custom:${string}`;
+export type SourceType =
+  | "stripe" | "calendly" | "passline" | "pos" | "wetravel" | "shopify" | "square" | "mindbody"
+  | "manual" | "crm" | "attribution"
+  | CustomSourceType;
+/** The table an org-defined source's rows are written to */
+export type CustomSourceTarget = "payments" | "bookings" | "attendance";
 export type ImportStatus = "pending" | "processing" | "completed" | "failed" | "skipped" | "reverted";
 export type PaymentStatus = "succeeded" | "pending" | "failed" | "refunded" | "disputed" | "approved" | "void";
 export type BookingStatus = "scheduled" | "completed" | "cancelled" | "no_show" | "confirmed" | "rescheduled";
 export type ConflictStatus = "pending" | "merged" | "dismissed" | "split";
+export type RestitchJobStatus = "pending" | "running" | "completed" | "failed";
+export type OrgRole = "owner" | "admin" | "analyst" | "viewer";
+export type AuditAction =
+  | "import.uploaded"
+  | "import.reverted"
+  | "import.deleted"
+  | "data.reset"
+  | "conflict.merged"
+  | "conflict.dismissed"
+  | "customer.merged"
+  | "customer.unmerged"
+  | "customer.split"
+  | "do_not_merge.removed"
+  | "household.created"
+  | "household.member_added"
+  | "household.member_removed"
+  | "mapping.saved"
+  | "mapping.deleted"
+  | "source.saved"
+  | "source.deleted"
+  | "config.updated"
+  | "identity.restitched";
+export type AuditEntityType =
+  | "import"
+  | "conflict"
+  | "customer"
+  | "household"
+  | "mapping"
+  | "custom_source"
+  | "insight_config"
+  | "stitching_policy"
+  | "organization";
 
 export interface Organization {
   id: string;
@@ -14,6 +55,14 @@ export interface Organization {
   updated_at: string;
 }
 
+export interface OrganizationMember {
+  id: string;
+  org_id: string;
+  user_id: string;
+  role: OrgRole;
+  created_at: string;
+}
+
 export interface Customer {
   id: string;
   org_id: string;
@@ -33,12 +82,14 @@ export interface Customer {
   preferred_currency: string | null;
   preferred_time_slot: string | null;
   name_source: string | null;
+  household_id: string | null;
   created_at: string;
   updated_at: string;
 }
 
 export interface CustomerSource {
   id: string;
+  org_id: string;
   customer_id: string;
   source: SourceType;
   external_id: string;
@@ -75,6 +126,14 @@ export interface ImportError {
   severity?: "error" | "warning";
 }
 
+/** A product on an order (Shopify orders keep theirs) */
+export interface PaymentLineItem {
+  name: string | null;
+  quantity: number | null;
+  price: number | null;
+  sku: string | null;
+}
+
 export interface Payment {
   id: string;
   org_id: string;
@@ -87,6 +146,12 @@ export interface Payment {
   status: PaymentStatus;
   payment_date: string;
   payment_type: string | null;
+  line_items: PaymentLineItem[] | null;
+  discount_codes: string[] | null;
+  utm_source: string | null;
+  utm_medium: string | null;
+  utm_campaign: string | null;
+  utm_content: string | null;
   amount_usd: number | null;
   fx_rate: number | null;
   fx_rate_date: string | null;
@@ -156,17 +221,41 @@ export interface SavedMapping {
   source: SourceType;
   name: string;
   mapping: Record<string, string>;
+  /** Field transforms — stored inside `mapping`, split out when read */
+  transforms: FieldTransforms;
+  /** Enum value mappings — also stored inside `mapping` */
+  value_mappings: ValueMappings;
   sample_headers: string[] | null;
+  /** Date order for numeric dates; null infers it per import */
+  date_format: "mdy" | "dmy" | "ymd" | null;
+  /** IANA timezone for times without an offset; null means UTC */
+  timezone: string | null;
   is_default: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export interface CustomSource {
+  id: string;
+  org_id: string;
+  name: string;
+  target: CustomSourceTarget;
+  fields: CustomSourceField[];
+  id_field: string;
+  email_field: string;
+  name_field: string;
+  phone_field: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface StitchingConflict {
   id: string;
   org_id: string;
-  customer_a_id: string;
-  customer_b_id: string;
+  // Null once that customer has been merged away
+  customer_a_id: string | null;
+  customer_b_id: string | null;
   match_field: string;
   match_value: string | null;
   confidence: number | null;
@@ -174,9 +263,87 @@ export interface StitchingConflict {
   resolved_by: string | null;
   resolved_at: string | null;
   import_id: string | null;
+  /** Set when proposed by a re-stitch job rather than an import */
+  restitch_job_id: string | null;
   created_at: string;
 }
 
+export interface RestitchJob {
+  id: string;
+  org_id: string;
+  status: RestitchJobStatus;
+  total_customers: number;
+  processed_customers: number;
+  conflicts_created: number;
+  error: string | null;
+  started_by: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface AuditEvent {
+  id: string;
+  org_id: string;
+  actor_id: string | null;
+  actor_email: string | null;
+  action: AuditAction;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  customer_ids: string[];
+  details: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface CustomerMerge {
+  id: string;
+  org_id: string;
+  conflict_id: string | null;
+  kept_customer_id: string;
+  removed_customer_id: string;
+  removed_customer: Customer;
+  kept_customer_before: Partial<Customer>;
+  kept_customer_after: Partial<Customer>;
+  // Row ids per table; stitching_conflicts also records which side was B
+  moved_rows: Record<string, string[] | { id: string; side: "a" | "b" }[]>;
+  resolved_conflict_ids: string[];
+  merged_by: string | null;
+  merged_at: string;
+  undone_by: string | null;
+  undone_at: string | null;
+}
+
+export interface CustomerSplit {
+  id: string;
+  org_id: string;
+  original_customer_id: string;
+  new_customer_id: string;
+  conflict_id: string | null;
+  moved_rows: Record<string, string[]>;
+  split_by: string | null;
+  split_at: string;
+}
+
+export interface DoNotMerge {
+  id: string;
+  org_id: string;
+  customer_a_id: string;
+  customer_b_id: string;
+  reason: "dismissed" | "split" | "unmerged";
+  conflict_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface Household {
+  id: string;
+  org_id: string;
+  name: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface CrmEnrichment {
   id: string;
   org_id: string;
@@ -1,5 +1,6 @@
-import type { SourceType, SchemaKey, StitchPreviewResult, StitchDecisions } from "@/lib/types";
+import type { SourceType, SchemaKey, StitchPreviewResult, StitchDecisions, FieldTransforms, ValueMappings } from "@/lib/types";
 import type { DetectionResult } from "@/lib/csv/detect-source";
+import type { DateFormat } from "@/lib/csv/dates";
 import { putBlob, getBlob, clearBlobs } from "@/lib/upload-store";
 
 const STORAGE_KEY = "tailorloom-upload-session";
@@ -16,6 +17,10 @@ export interface MapperRestoredData {
   mapping: Record<string, string>;
   headers: string[];
   totalRows: number;
+  dateFormat?: DateFormat;
+  timezone?: string;
+  transforms?: FieldTransforms;
+  valueMappings?: ValueMappings;
 }
 
 export interface MultiFileSessionEntry {
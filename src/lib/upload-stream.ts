@@ -0,0 +1,115 @@
+/**
+ * Streamed CSV uploads, for files too large to pass through a server
+ * action as a string. The browser posts `<JSON options>\n<file bytes>`, so
+ * the file goes from disk to the server as-is, and the route answers with
+ * newline-delimited JSON: progress events while rows are processed, then
+ * the result or an error.
+ *
+ * Routes: POST /api/import/preview (stitch preview), POST /api/import.
+ */
+
+export interface UploadProgress {
+  /** Rows the server has finished, or null before the first report */
+  rowsProcessed: number | null;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export type UploadStreamEvent<T> =
+  | { type: "progress"; rowsProcessed: number; bytesRead: number }
+  | { type: "result"; result: T }
+  | { type: "error"; message: string };
+
+/**
+ * Server side: run `work` and stream its progress and outcome as NDJSON.
+ * Errors thrown by `work` (including auth) become an error event.
+ */
+export function uploadEventResponse<T>(
+  work: (onProgress: (progress: { rowsProcessed: number; bytesRead: number }) => void) => Promise<T>
+): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: UploadStreamEvent<T>) =>
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      try {
+        const result = await work((progress) => send({ type: "progress", ...progress }));
+        send({ type: "result", result });
+      } catch (err) {
+        send({ type: "error", message: err instanceof Error ? err.message : "Upload failed" });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(body, {
+    headers: { "Content-Type": "application/x-ndjson", "Cache-Control": "no-store" },
+  });
+}
+
+/**
+ * Client side: post a file with its options and follow the event stream.
+ * Uses XMLHttpRequest rather than fetch for upload progress — the server
+ * reads the body only as fast as it processes rows, so bytes sent track
+ * the import until the server's own progress events arrive.
+ */
+export function postUpload<T>(
+  url: string,
+  options: unknown,
+  file: Blob,
+  onProgress?: (progress: UploadProgress) => void
+): Promise<T> {
+  const optionsLine = new Blob([JSON.stringify(options) + "\n"]);
+
+  return new Promise<T>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let parsedUpTo = 0;
+    let settled = false;
+    let rowsProcessed: number | null = null;
+    let bytesRead = 0;
+
+    const report = () => onProgress?.({ rowsProcessed, bytesRead, totalBytes: file.size });
+    const settle = (fn: () => void) => {
+      if (settled) return;
+      settled = true;
+      fn();
+    };
+
+    const readEvents = () => {
+      const text = xhr.responseText;
+      let newline: number;
+      while ((newline = text.indexOf("\n", parsedUpTo)) !== -1) {
+        const event = JSON.parse(text.slice(parsedUpTo, newline)) as UploadStreamEvent<T>;
+        parsedUpTo = newline + 1;
+        if (event.type === "progress") {
+          rowsProcessed = event.rowsProcessed;
+          bytesRead = Math.max(bytesRead, event.bytesRead);
+          report();
+        } else if (event.type === "result") {
+          settle(() => resolve(event.result));
+        } else {
+          settle(() => reject(new Error(event.message)));
+        }
+      }
+    };
+
+    xhr.open("POST", url);
+    xhr.setRequestHeader("Content-Type", "application/octet-stream");
+    xhr.upload.onprogress = (e) => {
+      bytesRead = Math.max(bytesRead, Math.min(file.size, e.loaded - optionsLine.size));
+      report();
+    };
+    xhr.onprogress = readEvents;
+    xhr.onload = () => {
+      if (xhr.status >= 400) {
+        settle(() => reject(new Error(`Upload failed (${xhr.status})`)));
+        return;
+      }
+      readEvents();
+      settle(() => reject(new Error("Upload ended without a result")));
+    };
+    xhr.onerror = () => settle(() => reject(new Error("Upload failed — network error")));
+    xhr.send(new Blob([optionsLine, file]));
+  });
+}
@@ -0,0 +1,135 @@
+-- Migration: organization_members + membership-scoped RLS
+-- Replaces the single hard-coded default org with real multi-tenancy:
+-- users belong to one or more organizations and every row is only
+-- visible to members of the org that owns it.
+
+-- 1. Membership table
+CREATE TABLE IF NOT EXISTS organization_members (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (org_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_organization_members_user ON organization_members(user_id);
+
+-- Backfill: every existing user keeps access to the default organization
+INSERT INTO organization_members (org_id, user_id)
+SELECT '00000000-0000-0000-0000-000000000001', id FROM auth.users
+ON CONFLICT (org_id, user_id) DO NOTHING;
+
+-- 2. Org-scope customer_sources (previously only reachable via customers)
+ALTER TABLE customer_sources ADD COLUMN IF NOT EXISTS org_id UUID
+  REFERENCES organizations(id) ON DELETE CASCADE;
+
+UPDATE customer_sources cs
+SET org_id = c.org_id
+FROM customers c
+WHERE c.id = cs.customer_id AND cs.org_id IS NULL;
+
+ALTER TABLE customer_sources ALTER COLUMN org_id SET NOT NULL;
+
+-- External IDs are only unique within a tenant
+DROP INDEX IF EXISTS idx_customer_sources_source_ext_id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_sources_org_source_ext_id
+  ON customer_sources(org_id, source, external_id);
+CREATE INDEX IF NOT EXISTS idx_customer_sources_org_id ON customer_sources(org_id);
+
+-- 3. No more silent fallback to the default org: inserts must name their org
+ALTER TABLE customers ALTER COLUMN org_id DROP DEFAULT;
+ALTER TABLE import_history ALTER COLUMN org_id DROP DEFAULT;
+ALTER TABLE payments ALTER COLUMN org_id DROP DEFAULT;
+ALTER TABLE bookings ALTER COLUMN org_id DROP DEFAULT;
+ALTER TABLE attendance ALTER COLUMN org_id DROP DEFAULT;
+ALTER TABLE saved_mappings ALTER COLUMN org_id DROP DEFAULT;
+ALTER TABLE stitching_conflicts ALTER COLUMN org_id DROP DEFAULT;
+ALTER TABLE crm_enrichments ALTER COLUMN org_id DROP DEFAULT;
+ALTER TABLE customer_attribution ALTER COLUMN org_id DROP DEFAULT;
+
+-- 4. Membership check used by every policy below.
+-- SECURITY DEFINER so the lookup is not itself subject to RLS recursion.
+CREATE OR REPLACE FUNCTION is_org_member(target_org_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM organization_members
+    WHERE org_id = target_org_id AND user_id = auth.uid()
+  );
+$$;
+
+-- 5. Replace the M1 "authenticated users can access everything" policies
+ALTER TABLE organization_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated read organizations" ON organizations;
+DROP POLICY IF EXISTS "Authenticated full access customers" ON customers;
+DROP POLICY IF EXISTS "Authenticated full access customer_sources" ON customer_sources;
+DROP POLICY IF EXISTS "Authenticated full access import_history" ON import_history;
+DROP POLICY IF EXISTS "Authenticated full access payments" ON payments;
+DROP POLICY IF EXISTS "Authenticated full access bookings" ON bookings;
+DROP POLICY IF EXISTS "Authenticated full access attendance" ON attendance;
+DROP POLICY IF EXISTS "Authenticated full access saved_mappings" ON saved_mappings;
+DROP POLICY IF EXISTS "Authenticated full access stitching_conflicts" ON stitching_conflicts;
+DROP POLICY IF EXISTS "Authenticated full access insight_config" ON insight_config;
+DROP POLICY IF EXISTS "Authenticated full access crm_enrichments" ON crm_enrichments;
+DROP POLICY IF EXISTS "Authenticated full access customer_attribution" ON customer_attribution;
+
+CREATE POLICY "Members read organizations"
+  ON organizations FOR SELECT TO authenticated USING (is_org_member(id));
+
+CREATE POLICY "Members read organization_members"
+  ON organization_members FOR SELECT TO authenticated
+  USING (user_id = auth.uid() OR is_org_member(org_id));
+
+CREATE POLICY "Members access customers"
+  ON customers FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Members access customer_sources"
+  ON customer_sources FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Members access import_history"
+  ON import_history FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Members access payments"
+  ON payments FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Members access bookings"
+  ON bookings FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Members access attendance"
+  ON attendance FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Members access saved_mappings"
+  ON saved_mappings FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Members access stitching_conflicts"
+  ON stitching_conflicts FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Members access insight_config"
+  ON insight_config FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Members access crm_enrichments"
+  ON crm_enrichments FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+CREATE POLICY "Members access customer_attribution"
+  ON customer_attribution FOR ALL TO authenticated
+  USING (is_org_member(org_id)) WITH CHECK (is_org_member(org_id));
+
+-- 6. Destructive RPCs trust their target_org_id argument, so only the
+-- service role (server actions, after resolving membership) may call them.
+REVOKE EXECUTE ON FUNCTION reset_demo_data(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION revert_import_data(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION delete_import_data(UUID, UUID) FROM PUBLIC, anon, authenticated;
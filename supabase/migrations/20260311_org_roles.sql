@@ -0,0 +1,44 @@
+-- Migration: per-org member roles
+-- Destructive actions (revert, delete, reset, merge) were open to any
+-- member. Each membership now carries a role that the server actions
+-- check before acting.
+
+-- 1. Role enum
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_type WHERE typname = 'org_role') THEN
+    CREATE TYPE org_role AS ENUM ('owner', 'admin', 'analyst', 'viewer');
+  END IF;
+END
+$$;
+
+-- 2. Role on membership. New members start read-only.
+ALTER TABLE organization_members
+  ADD COLUMN IF NOT EXISTS role org_role NOT NULL DEFAULT 'viewer';
+
+-- Backfill: existing members could already do everything, keep it that way
+UPDATE organization_members SET role = 'owner';
+
+-- 3. Writes go through the server actions, which check the role. The
+-- member policies from organization_members allowed every member to write
+-- these tables directly with their session, so a viewer could bypass the
+-- role checks. Members keep read access only, like the later tables.
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'customers', 'customer_sources', 'import_history', 'payments', 'bookings',
+    'attendance', 'saved_mappings', 'stitching_conflicts', 'insight_config',
+    'crm_enrichments', 'customer_attribution'
+  ]
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Members access %s" ON %I', t, t);
+    EXECUTE format('DROP POLICY IF EXISTS "Members read %s" ON %I', t, t);
+    EXECUTE format(
+      'CREATE POLICY "Members read %s" ON %I FOR SELECT TO authenticated USING (is_org_member(org_id))',
+      t, t
+    );
+  END LOOP;
+END
+$$;
@@ -0,0 +1,76 @@
+-- Migration: audit_events
+-- Append-only log of who imported, reverted, deleted, merged or
+-- reconfigured what. Powers the Activity page.
+
+-- 1. Table
+-- actor_id has no FK on purpose: removing a user must not rewrite history.
+-- actor_email is a snapshot so the log stays readable afterwards.
+CREATE TABLE IF NOT EXISTS audit_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  actor_id UUID,
+  actor_email TEXT,
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id UUID,
+  customer_ids UUID[] NOT NULL DEFAULT '{}',
+  details JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_org_created ON audit_events(org_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_org_action ON audit_events(org_id, action);
+CREATE INDEX IF NOT EXISTS idx_audit_events_org_actor ON audit_events(org_id, actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_customer_ids ON audit_events USING GIN (customer_ids);
+
+-- 2. Append-only: no UPDATE for anyone, DELETE only via org cascade
+CREATE OR REPLACE FUNCTION prevent_audit_event_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_events_no_update ON audit_events;
+CREATE TRIGGER audit_events_no_update
+  BEFORE UPDATE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION prevent_audit_event_update();
+
+REVOKE UPDATE, DELETE, TRUNCATE ON audit_events FROM PUBLIC, anon, authenticated, service_role;
+
+-- 3. RLS: members can read their org's log; writes go through server actions
+ALTER TABLE audit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read audit_events"
+  ON audit_events FOR SELECT TO authenticated
+  USING (is_org_member(org_id));
+
+-- 4. Customers touched by an import, captured before a revert/delete
+-- removes the provenance rows (same sources as revert_import_data step 2).
+CREATE OR REPLACE FUNCTION import_customer_ids(target_import_id UUID, target_org_id UUID)
+RETURNS UUID[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT customer_id), '{}')
+  FROM (
+    SELECT customer_id FROM payments WHERE import_id = target_import_id AND org_id = target_org_id
+    UNION
+    SELECT customer_id FROM bookings WHERE import_id = target_import_id AND org_id = target_org_id
+    UNION
+    SELECT customer_id FROM attendance WHERE import_id = target_import_id AND org_id = target_org_id
+    UNION
+    SELECT customer_id FROM crm_enrichments WHERE import_id = target_import_id AND org_id = target_org_id
+    UNION
+    SELECT customer_id FROM customer_attribution WHERE import_id = target_import_id AND org_id = target_org_id
+    UNION
+    SELECT customer_id FROM customer_sources WHERE import_id = target_import_id AND org_id = target_org_id
+  ) sub
+  WHERE customer_id IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_customer_ids(UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,192 @@
+-- Migration: customer_merges + unmerge_customers RPC
+-- Merging used to hard-delete customer B with no way back. Each merge now
+-- records a snapshot of B and the exact rows moved onto A, and
+-- unmerge_customers() replays it in reverse inside one transaction.
+
+-- 1. Conflicts outlive merged customers
+-- Deleting B used to cascade-delete the conflict being resolved (and any
+-- other conflicts naming B). Null out the side instead so the merged
+-- conflict stays visible and can be unmerged.
+ALTER TABLE stitching_conflicts ALTER COLUMN customer_a_id DROP NOT NULL;
+ALTER TABLE stitching_conflicts ALTER COLUMN customer_b_id DROP NOT NULL;
+
+ALTER TABLE stitching_conflicts DROP CONSTRAINT IF EXISTS stitching_conflicts_customer_a_id_fkey;
+ALTER TABLE stitching_conflicts DROP CONSTRAINT IF EXISTS stitching_conflicts_customer_b_id_fkey;
+ALTER TABLE stitching_conflicts
+  ADD CONSTRAINT stitching_conflicts_customer_a_id_fkey
+  FOREIGN KEY (customer_a_id) REFERENCES customers(id) ON DELETE SET NULL;
+ALTER TABLE stitching_conflicts
+  ADD CONSTRAINT stitching_conflicts_customer_b_id_fkey
+  FOREIGN KEY (customer_b_id) REFERENCES customers(id) ON DELETE SET NULL;
+
+-- 2. Merge snapshots
+-- Customer IDs are plain UUIDs (no FK): B is gone while the merge is
+-- active, and the record should survive A being removed by a revert.
+CREATE TABLE IF NOT EXISTS customer_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  conflict_id UUID REFERENCES stitching_conflicts(id) ON DELETE SET NULL,
+  kept_customer_id UUID NOT NULL,
+  removed_customer_id UUID NOT NULL,
+  -- Full customers row of B at merge time
+  removed_customer JSONB NOT NULL,
+  -- Fields of A overwritten by the merge: values before and after
+  kept_customer_before JSONB NOT NULL DEFAULT '{}',
+  kept_customer_after JSONB NOT NULL DEFAULT '{}',
+  -- { "<table>": [row ids moved from B to A] }
+  moved_rows JSONB NOT NULL DEFAULT '{}',
+  -- Other pending conflicts naming B that the merge auto-resolved
+  resolved_conflict_ids UUID[] NOT NULL DEFAULT '{}',
+  merged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  merged_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  undone_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  undone_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_merges_org_kept ON customer_merges(org_id, kept_customer_id);
+CREATE INDEX IF NOT EXISTS idx_customer_merges_conflict ON customer_merges(conflict_id);
+
+ALTER TABLE customer_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read customer_merges"
+  ON customer_merges FOR SELECT TO authenticated
+  USING (is_org_member(org_id));
+
+-- ─── unmerge_customers ──────────────────────────────────────────────
+-- Restores B from its snapshot, moves its rows back, and reopens the
+-- conflicts the merge closed.
+
+CREATE OR REPLACE FUNCTION unmerge_customers(
+  target_merge_id UUID,
+  target_org_id UUID,
+  acting_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  m RECORD;
+  kept_id UUID;
+  removed_id UUID;
+  moved_sources     INT := 0;
+  moved_payments    INT := 0;
+  moved_bookings    INT := 0;
+  moved_attendance  INT := 0;
+  reopened          INT := 0;
+BEGIN
+  -- 1. Fetch and validate merge
+  SELECT * INTO m
+  FROM customer_merges
+  WHERE id = target_merge_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+
+  IF m.org_id != target_org_id THEN
+    RAISE EXCEPTION 'Unauthorized: org mismatch';
+  END IF;
+
+  IF m.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Merge already undone';
+  END IF;
+
+  kept_id := m.kept_customer_id;
+  removed_id := m.removed_customer_id;
+
+  IF NOT EXISTS (SELECT 1 FROM customers WHERE id = kept_id) THEN
+    RAISE EXCEPTION 'Merged customer no longer exists';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM customers WHERE id = removed_id) THEN
+    RAISE EXCEPTION 'Customer already restored';
+  END IF;
+
+  -- 2. Give A back the fields the merge overwrote — unless they have been
+  -- edited since, in which case the newer value wins.
+  -- Runs before re-inserting B so a borrowed email is free again.
+  UPDATE customers c
+  SET
+    full_name = CASE
+      WHEN m.kept_customer_after ? 'full_name'
+        AND c.full_name IS NOT DISTINCT FROM m.kept_customer_after->>'full_name'
+      THEN m.kept_customer_before->>'full_name' ELSE c.full_name END,
+    name_source = CASE
+      WHEN m.kept_customer_after ? 'name_source'
+        AND c.name_source IS NOT DISTINCT FROM m.kept_customer_after->>'name_source'
+      THEN m.kept_customer_before->>'name_source' ELSE c.name_source END,
+    email = CASE
+      WHEN m.kept_customer_after ? 'email'
+        AND c.email IS NOT DISTINCT FROM m.kept_customer_after->>'email'
+      THEN m.kept_customer_before->>'email' ELSE c.email END,
+    phone = CASE
+      WHEN m.kept_customer_after ? 'phone'
+        AND c.phone IS NOT DISTINCT FROM m.kept_customer_after->>'phone'
+      THEN m.kept_customer_before->>'phone' ELSE c.phone END
+  WHERE c.id = kept_id;
+
+  -- 3. Re-create B exactly as it was
+  INSERT INTO customers
+  SELECT * FROM jsonb_populate_record(NULL::customers, m.removed_customer);
+
+  -- 4. Move B's rows back (only those still sitting on A)
+  UPDATE customer_sources SET customer_id = removed_id
+  WHERE customer_id = kept_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(m.moved_rows->'customer_sources', '[]'))::UUID);
+  GET DIAGNOSTICS moved_sources = ROW_COUNT;
+
+  UPDATE payments SET customer_id = removed_id
+  WHERE customer_id = kept_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(m.moved_rows->'payments', '[]'))::UUID);
+  GET DIAGNOSTICS moved_payments = ROW_COUNT;
+
+  UPDATE bookings SET customer_id = removed_id
+  WHERE customer_id = kept_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(m.moved_rows->'bookings', '[]'))::UUID);
+  GET DIAGNOSTICS moved_bookings = ROW_COUNT;
+
+  UPDATE attendance SET customer_id = removed_id
+  WHERE customer_id = kept_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(m.moved_rows->'attendance', '[]'))::UUID);
+  GET DIAGNOSTICS moved_attendance = ROW_COUNT;
+
+  -- 5. Reconnect conflicts whose B side was nulled by the delete.
+  -- The merged conflict becomes "split" (reviewed: not the same person);
+  -- conflicts the merge closed as a side effect go back to pending.
+  UPDATE stitching_conflicts
+  SET customer_a_id = COALESCE(customer_a_id, removed_id),
+      customer_b_id = COALESCE(customer_b_id, removed_id),
+      status = 'split',
+      resolved_by = acting_user_id,
+      resolved_at = NOW()
+  WHERE id = m.conflict_id;
+
+  UPDATE stitching_conflicts
+  SET customer_a_id = COALESCE(customer_a_id, removed_id),
+      customer_b_id = COALESCE(customer_b_id, removed_id),
+      status = 'pending',
+      resolved_by = NULL,
+      resolved_at = NULL
+  WHERE id = ANY(m.resolved_conflict_ids)
+    AND status = 'merged';
+  GET DIAGNOSTICS reopened = ROW_COUNT;
+
+  -- 6. Mark merge as undone
+  UPDATE customer_merges
+  SET undone_by = acting_user_id, undone_at = NOW()
+  WHERE id = target_merge_id;
+
+  RETURN jsonb_build_object(
+    'moved_sources', moved_sources,
+    'moved_payments', moved_payments,
+    'moved_bookings', moved_bookings,
+    'moved_attendance', moved_attendance,
+    'reopened_conflicts', reopened
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION unmerge_customers(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,331 @@
+-- Migration: merge_customers RPC
+-- Replaces the sequential client-side merge in resolveConflict with one
+-- transaction, and also carries crm_enrichments and customer_attribution
+-- over to the kept customer (they used to cascade-delete with B).
+
+-- ─── merge_customers ────────────────────────────────────────────────
+-- Absorbs remove_customer_id into keep_customer_id and records a
+-- customer_merges snapshot. kept_updates holds the fields of A to take
+-- from B (name precedence lives in the app, see planMergeFieldUpdates).
+
+CREATE OR REPLACE FUNCTION merge_customers(
+  target_org_id UUID,
+  keep_customer_id UUID,
+  remove_customer_id UUID,
+  kept_updates JSONB,
+  source_conflict_id UUID,
+  acting_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  kept RECORD;
+  removed RECORD;
+  updates JSONB;
+  kept_before JSONB;
+  moved JSONB;
+  other_conflicts UUID[];
+  new_merge_id UUID;
+  moved_sources     INT := 0;
+  moved_payments    INT := 0;
+  moved_bookings    INT := 0;
+  moved_attendance  INT := 0;
+  moved_crm         INT := 0;
+  moved_attribution INT := 0;
+BEGIN
+  -- 1. Validate and lock both customers
+  IF keep_customer_id = remove_customer_id THEN
+    RAISE EXCEPTION 'Cannot merge a customer into itself';
+  END IF;
+
+  SELECT * INTO kept FROM customers WHERE id = keep_customer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  SELECT * INTO removed FROM customers WHERE id = remove_customer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  IF kept.org_id != target_org_id OR removed.org_id != target_org_id THEN
+    RAISE EXCEPTION 'Unauthorized: org mismatch';
+  END IF;
+
+  IF source_conflict_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM stitching_conflicts
+    WHERE id = source_conflict_id AND org_id = target_org_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Conflict already resolved';
+  END IF;
+
+  -- Only identity fields may be copied onto A
+  SELECT COALESCE(jsonb_object_agg(key, value), '{}') INTO updates
+  FROM jsonb_each(COALESCE(kept_updates, '{}'))
+  WHERE key IN ('full_name', 'name_source', 'email', 'phone');
+
+  SELECT COALESCE(jsonb_object_agg(key, to_jsonb(kept)->key), '{}') INTO kept_before
+  FROM jsonb_object_keys(updates) AS key;
+
+  -- 2. Snapshot the rows about to move
+  moved := jsonb_build_object(
+    'customer_sources', (SELECT COALESCE(jsonb_agg(id), '[]') FROM customer_sources WHERE customer_id = remove_customer_id),
+    'payments', (SELECT COALESCE(jsonb_agg(id), '[]') FROM payments WHERE customer_id = remove_customer_id),
+    'bookings', (SELECT COALESCE(jsonb_agg(id), '[]') FROM bookings WHERE customer_id = remove_customer_id),
+    'attendance', (SELECT COALESCE(jsonb_agg(id), '[]') FROM attendance WHERE customer_id = remove_customer_id),
+    'crm_enrichments', (SELECT COALESCE(jsonb_agg(id), '[]') FROM crm_enrichments WHERE customer_id = remove_customer_id),
+    'customer_attribution', (SELECT COALESCE(jsonb_agg(id), '[]') FROM customer_attribution WHERE customer_id = remove_customer_id),
+    -- Every conflict naming B, whatever its status: the delete nulls B's
+    -- side of them, and unmerge puts it back
+    'stitching_conflicts', (
+      SELECT COALESCE(jsonb_agg(jsonb_build_object(
+        'id', id,
+        'side', CASE WHEN customer_a_id = remove_customer_id THEN 'a' ELSE 'b' END
+      )), '[]')
+      FROM stitching_conflicts
+      WHERE org_id = target_org_id
+        AND (customer_a_id = remove_customer_id OR customer_b_id = remove_customer_id)
+    )
+  );
+
+  SELECT COALESCE(array_agg(id), '{}') INTO other_conflicts
+  FROM stitching_conflicts
+  WHERE org_id = target_org_id
+    AND status = 'pending'
+    AND id IS DISTINCT FROM source_conflict_id
+    AND (customer_a_id = remove_customer_id OR customer_b_id = remove_customer_id);
+
+  -- 3. Move B's rows onto A
+  UPDATE customer_sources SET customer_id = keep_customer_id WHERE customer_id = remove_customer_id;
+  GET DIAGNOSTICS moved_sources = ROW_COUNT;
+
+  UPDATE payments SET customer_id = keep_customer_id WHERE customer_id = remove_customer_id;
+  GET DIAGNOSTICS moved_payments = ROW_COUNT;
+
+  UPDATE bookings SET customer_id = keep_customer_id WHERE customer_id = remove_customer_id;
+  GET DIAGNOSTICS moved_bookings = ROW_COUNT;
+
+  UPDATE attendance SET customer_id = keep_customer_id WHERE customer_id = remove_customer_id;
+  GET DIAGNOSTICS moved_attendance = ROW_COUNT;
+
+  UPDATE crm_enrichments SET customer_id = keep_customer_id WHERE customer_id = remove_customer_id;
+  GET DIAGNOSTICS moved_crm = ROW_COUNT;
+
+  UPDATE customer_attribution SET customer_id = keep_customer_id WHERE customer_id = remove_customer_id;
+  GET DIAGNOSTICS moved_attribution = ROW_COUNT;
+
+  -- 4. Copy identity fields onto A. B's email is released first, since
+  -- emails are unique per org.
+  IF updates ? 'email' THEN
+    UPDATE customers SET email = NULL WHERE id = remove_customer_id;
+  END IF;
+
+  IF updates != '{}' THEN
+    UPDATE customers
+    SET
+      full_name = CASE WHEN updates ? 'full_name' THEN updates->>'full_name' ELSE full_name END,
+      name_source = CASE WHEN updates ? 'name_source' THEN updates->>'name_source' ELSE name_source END,
+      email = CASE WHEN updates ? 'email' THEN updates->>'email' ELSE email END,
+      phone = CASE WHEN updates ? 'phone' THEN updates->>'phone' ELSE phone END
+    WHERE id = keep_customer_id;
+  END IF;
+
+  -- 5. Close the source conflict and other pending conflicts naming B
+  -- (before the delete nulls B's side of them)
+  UPDATE stitching_conflicts
+  SET status = 'merged', resolved_by = acting_user_id, resolved_at = NOW()
+  WHERE id = source_conflict_id OR id = ANY(other_conflicts);
+
+  -- 6. Delete B
+  DELETE FROM customers WHERE id = remove_customer_id;
+
+  -- 7. Record the merge for unmerge_customers()
+  INSERT INTO customer_merges (
+    org_id, conflict_id, kept_customer_id, removed_customer_id,
+    removed_customer, kept_customer_before, kept_customer_after,
+    moved_rows, resolved_conflict_ids, merged_by
+  )
+  VALUES (
+    target_org_id, source_conflict_id, keep_customer_id, remove_customer_id,
+    to_jsonb(removed), kept_before, updates,
+    moved, other_conflicts, acting_user_id
+  )
+  RETURNING id INTO new_merge_id;
+
+  RETURN jsonb_build_object(
+    'merge_id', new_merge_id,
+    'moved_sources', moved_sources,
+    'moved_payments', moved_payments,
+    'moved_bookings', moved_bookings,
+    'moved_attendance', moved_attendance,
+    'moved_crm', moved_crm,
+    'moved_attribution', moved_attribution,
+    'closed_conflicts', COALESCE(array_length(other_conflicts, 1), 0)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_customers(UUID, UUID, UUID, JSONB, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ─── unmerge_customers ──────────────────────────────────────────────
+-- Same as 20260313, plus moving crm_enrichments and customer_attribution
+-- back to the restored customer.
+
+CREATE OR REPLACE FUNCTION unmerge_customers(
+  target_merge_id UUID,
+  target_org_id UUID,
+  acting_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  m RECORD;
+  kept_id UUID;
+  removed_id UUID;
+  moved_sources     INT := 0;
+  moved_payments    INT := 0;
+  moved_bookings    INT := 0;
+  moved_attendance  INT := 0;
+  moved_crm         INT := 0;
+  moved_attribution INT := 0;
+  reopened          INT := 0;
+BEGIN
+  -- 1. Fetch and validate merge
+  SELECT * INTO m
+  FROM customer_merges
+  WHERE id = target_merge_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Merge not found';
+  END IF;
+
+  IF m.org_id != target_org_id THEN
+    RAISE EXCEPTION 'Unauthorized: org mismatch';
+  END IF;
+
+  IF m.undone_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Merge already undone';
+  END IF;
+
+  kept_id := m.kept_customer_id;
+  removed_id := m.removed_customer_id;
+
+  IF NOT EXISTS (SELECT 1 FROM customers WHERE id = kept_id) THEN
+    RAISE EXCEPTION 'Merged customer no longer exists';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM customers WHERE id = removed_id) THEN
+    RAISE EXCEPTION 'Customer already restored';
+  END IF;
+
+  -- 2. Give A back the fields the merge overwrote — unless they have been
+  -- edited since, in which case the newer value wins.
+  -- Runs before re-inserting B so a borrowed email is free again.
+  UPDATE customers c
+  SET
+    full_name = CASE
+      WHEN m.kept_customer_after ? 'full_name'
+        AND c.full_name IS NOT DISTINCT FROM m.kept_customer_after->>'full_name'
+      THEN m.kept_customer_before->>'full_name' ELSE c.full_name END,
+    name_source = CASE
+      WHEN m.kept_customer_after ? 'name_source'
+        AND c.name_source IS NOT DISTINCT FROM m.kept_customer_after->>'name_source'
+      THEN m.kept_customer_before->>'name_source' ELSE c.name_source END,
+    email = CASE
+      WHEN m.kept_customer_after ? 'email'
+        AND c.email IS NOT DISTINCT FROM m.kept_customer_after->>'email'
+      THEN m.kept_customer_before->>'email' ELSE c.email END,
+    phone = CASE
+      WHEN m.kept_customer_after ? 'phone'
+        AND c.phone IS NOT DISTINCT FROM m.kept_customer_after->>'phone'
+      THEN m.kept_customer_before->>'phone' ELSE c.phone END
+  WHERE c.id = kept_id;
+
+  -- 3. Re-create B exactly as it was
+  INSERT INTO customers
+  SELECT * FROM jsonb_populate_record(NULL::customers, m.removed_customer);
+
+  -- 4. Move B's rows back (only those still sitting on A)
+  UPDATE customer_sources SET customer_id = removed_id
+  WHERE customer_id = kept_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(m.moved_rows->'customer_sources', '[]'))::UUID);
+  GET DIAGNOSTICS moved_sources = ROW_COUNT;
+
+  UPDATE payments SET customer_id = removed_id
+  WHERE customer_id = kept_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(m.moved_rows->'payments', '[]'))::UUID);
+  GET DIAGNOSTICS moved_payments = ROW_COUNT;
+
+  UPDATE bookings SET customer_id = removed_id
+  WHERE customer_id = kept_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(m.moved_rows->'bookings', '[]'))::UUID);
+  GET DIAGNOSTICS moved_bookings = ROW_COUNT;
+
+  UPDATE attendance SET customer_id = removed_id
+  WHERE customer_id = kept_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(m.moved_rows->'attendance', '[]'))::UUID);
+  GET DIAGNOSTICS moved_attendance = ROW_COUNT;
+
+  UPDATE crm_enrichments SET customer_id = removed_id
+  WHERE customer_id = kept_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(m.moved_rows->'crm_enrichments', '[]'))::UUID);
+  GET DIAGNOSTICS moved_crm = ROW_COUNT;
+
+  UPDATE customer_attribution SET customer_id = removed_id
+  WHERE customer_id = kept_id
+    AND id IN (SELECT jsonb_array_elements_text(COALESCE(m.moved_rows->'customer_attribution', '[]'))::UUID);
+  GET DIAGNOSTICS moved_attribution = ROW_COUNT;
+
+  -- 5. Reconnect every conflict whose B side was nulled by the delete,
+  -- dismissed and merged ones included. Snapshots without this list still
+  -- get the COALESCE below for the conflicts they reopen.
+  UPDATE stitching_conflicts sc
+  SET customer_a_id = CASE WHEN x.side = 'a' THEN removed_id ELSE sc.customer_a_id END,
+      customer_b_id = CASE WHEN x.side = 'b' THEN removed_id ELSE sc.customer_b_id END
+  FROM jsonb_to_recordset(COALESCE(m.moved_rows->'stitching_conflicts', '[]')) AS x(id UUID, side TEXT)
+  WHERE sc.id = x.id
+    AND ((x.side = 'a' AND sc.customer_a_id IS NULL) OR (x.side = 'b' AND sc.customer_b_id IS NULL));
+
+  -- The merged conflict becomes "split" (reviewed: not the same person);
+  -- conflicts the merge closed as a side effect go back to pending.
+  UPDATE stitching_conflicts
+  SET customer_a_id = COALESCE(customer_a_id, removed_id),
+      customer_b_id = COALESCE(customer_b_id, removed_id),
+      status = 'split',
+      resolved_by = acting_user_id,
+      resolved_at = NOW()
+  WHERE id = m.conflict_id;
+
+  UPDATE stitching_conflicts
+  SET customer_a_id = COALESCE(customer_a_id, removed_id),
+      customer_b_id = COALESCE(customer_b_id, removed_id),
+      status = 'pending',
+      resolved_by = NULL,
+      resolved_at = NULL
+  WHERE id = ANY(m.resolved_conflict_ids)
+    AND status = 'merged';
+  GET DIAGNOSTICS reopened = ROW_COUNT;
+
+  -- 6. Mark merge as undone
+  UPDATE customer_merges
+  SET undone_by = acting_user_id, undone_at = NOW()
+  WHERE id = target_merge_id;
+
+  RETURN jsonb_build_object(
+    'moved_sources', moved_sources,
+    'moved_payments', moved_payments,
+    'moved_bookings', moved_bookings,
+    'moved_attendance', moved_attendance,
+    'moved_crm', moved_crm,
+    'moved_attribution', moved_attribution,
+    'reopened_conflicts', reopened
+  );
+END;
+$$;
@@ -0,0 +1,158 @@
+-- Migration: customer_splits + split_customer RPC
+-- When the stitching cascade links two different people (shared phone or
+-- name), part of a customer can be split off into a new one: chosen
+-- customer_sources links plus payments, bookings and attendance move over.
+-- Moving the source links is what keeps future imports of the same
+-- external IDs on the new customer; the 'split' conflict row keeps
+-- detectPostImportConflicts from flagging the pair again.
+
+-- 1. Split records
+-- Customer IDs are plain UUIDs (no FK) so the record survives either
+-- customer being removed by a later revert or merge.
+CREATE TABLE IF NOT EXISTS customer_splits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  original_customer_id UUID NOT NULL,
+  new_customer_id UUID NOT NULL,
+  conflict_id UUID REFERENCES stitching_conflicts(id) ON DELETE SET NULL,
+  -- { "<table>": [row ids moved to the new customer] }
+  moved_rows JSONB NOT NULL DEFAULT '{}',
+  split_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  split_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_splits_org_original ON customer_splits(org_id, original_customer_id);
+CREATE INDEX IF NOT EXISTS idx_customer_splits_org_new ON customer_splits(org_id, new_customer_id);
+
+ALTER TABLE customer_splits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read customer_splits"
+  ON customer_splits FOR SELECT TO authenticated
+  USING (is_org_member(org_id));
+
+-- ─── split_customer ─────────────────────────────────────────────────
+-- Creates the new customer from new_customer (full_name, email, phone,
+-- name_source) and moves the listed rows onto it. IDs that don't belong
+-- to source_customer_id are ignored.
+
+CREATE OR REPLACE FUNCTION split_customer(
+  target_org_id UUID,
+  source_customer_id UUID,
+  new_customer JSONB,
+  source_link_ids UUID[],
+  payment_ids UUID[],
+  booking_ids UUID[],
+  attendance_ids UUID[],
+  acting_user_id UUID
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  original RECORD;
+  new_email TEXT;
+  created_id UUID;
+  new_conflict_id UUID;
+  new_split_id UUID;
+  moved JSONB;
+  moved_sources    INT := 0;
+  moved_payments   INT := 0;
+  moved_bookings   INT := 0;
+  moved_attendance INT := 0;
+BEGIN
+  -- 1. Validate and lock the original customer
+  SELECT * INTO original FROM customers WHERE id = source_customer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  IF original.org_id != target_org_id THEN
+    RAISE EXCEPTION 'Unauthorized: org mismatch';
+  END IF;
+
+  new_email := NULLIF(lower(trim(new_customer->>'email')), '');
+  IF new_email IS NOT NULL AND EXISTS (
+    SELECT 1 FROM customers WHERE org_id = target_org_id AND lower(email) = new_email
+  ) THEN
+    RAISE EXCEPTION 'Email already belongs to another customer';
+  END IF;
+
+  -- 2. Snapshot the rows about to move (only those owned by the original)
+  moved := jsonb_build_object(
+    'customer_sources', (SELECT COALESCE(jsonb_agg(id), '[]') FROM customer_sources
+                         WHERE customer_id = source_customer_id AND id = ANY(COALESCE(source_link_ids, '{}'))),
+    'payments', (SELECT COALESCE(jsonb_agg(id), '[]') FROM payments
+                 WHERE customer_id = source_customer_id AND id = ANY(COALESCE(payment_ids, '{}'))),
+    'bookings', (SELECT COALESCE(jsonb_agg(id), '[]') FROM bookings
+                 WHERE customer_id = source_customer_id AND id = ANY(COALESCE(booking_ids, '{}'))),
+    'attendance', (SELECT COALESCE(jsonb_agg(id), '[]') FROM attendance
+                   WHERE customer_id = source_customer_id AND id = ANY(COALESCE(attendance_ids, '{}')))
+  );
+
+  IF moved->'customer_sources' = '[]' AND moved->'payments' = '[]'
+     AND moved->'bookings' = '[]' AND moved->'attendance' = '[]' THEN
+    RAISE EXCEPTION 'Nothing selected to split off';
+  END IF;
+
+  -- 3. Create the new customer
+  INSERT INTO customers (org_id, full_name, email, phone, name_source)
+  VALUES (
+    target_org_id,
+    NULLIF(trim(new_customer->>'full_name'), ''),
+    new_email,
+    NULLIF(trim(new_customer->>'phone'), ''),
+    CASE WHEN NULLIF(trim(new_customer->>'full_name'), '') IS NULL THEN NULL
+         ELSE COALESCE(new_customer->>'name_source', 'manual') END
+  )
+  RETURNING id INTO created_id;
+
+  -- 4. Move the selected rows
+  UPDATE customer_sources SET customer_id = created_id
+  WHERE customer_id = source_customer_id AND id = ANY(COALESCE(source_link_ids, '{}'));
+  GET DIAGNOSTICS moved_sources = ROW_COUNT;
+
+  UPDATE payments SET customer_id = created_id
+  WHERE customer_id = source_customer_id AND id = ANY(COALESCE(payment_ids, '{}'));
+  GET DIAGNOSTICS moved_payments = ROW_COUNT;
+
+  UPDATE bookings SET customer_id = created_id
+  WHERE customer_id = source_customer_id AND id = ANY(COALESCE(booking_ids, '{}'));
+  GET DIAGNOSTICS moved_bookings = ROW_COUNT;
+
+  UPDATE attendance SET customer_id = created_id
+  WHERE customer_id = source_customer_id AND id = ANY(COALESCE(attendance_ids, '{}'));
+  GET DIAGNOSTICS moved_attendance = ROW_COUNT;
+
+  -- 5. Record the pair as split so post-import detection leaves it alone
+  INSERT INTO stitching_conflicts (
+    org_id, customer_a_id, customer_b_id, match_field, match_value,
+    confidence, status, resolved_by, resolved_at
+  )
+  VALUES (
+    target_org_id, source_customer_id, created_id, 'split', NULL,
+    NULL, 'split', acting_user_id, NOW()
+  )
+  RETURNING id INTO new_conflict_id;
+
+  INSERT INTO customer_splits (
+    org_id, original_customer_id, new_customer_id, conflict_id, moved_rows, split_by
+  )
+  VALUES (
+    target_org_id, source_customer_id, created_id, new_conflict_id, moved, acting_user_id
+  )
+  RETURNING id INTO new_split_id;
+
+  RETURN jsonb_build_object(
+    'split_id', new_split_id,
+    'new_customer_id', created_id,
+    'moved_sources', moved_sources,
+    'moved_payments', moved_payments,
+    'moved_bookings', moved_bookings,
+    'moved_attendance', moved_attendance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION split_customer(UUID, UUID, JSONB, UUID[], UUID[], UUID[], UUID[], UUID) FROM PUBLIC, anon, authenticated;
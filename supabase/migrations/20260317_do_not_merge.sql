@@ -0,0 +1,52 @@
+-- Migration: do_not_merge pairs
+-- Dismissing a conflict only closed that one row, so the next import could
+-- flag (or auto-stitch by phone) the same two people again. do_not_merge
+-- keeps a permanent list of customer pairs known to be different people;
+-- the stitching cascade and post-import conflict detection consult it.
+
+-- 1. Pairs
+-- Stored once per pair with customer_a_id < customer_b_id. Customer IDs are
+-- plain UUIDs (no FK) so a pair survives a merge and comes back into force
+-- when that merge is undone.
+CREATE TABLE IF NOT EXISTS do_not_merge (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  customer_a_id UUID NOT NULL,
+  customer_b_id UUID NOT NULL,
+  -- What established the rule: 'dismissed' | 'split' | 'unmerged'
+  reason TEXT NOT NULL,
+  conflict_id UUID REFERENCES stitching_conflicts(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT do_not_merge_ordered CHECK (customer_a_id < customer_b_id),
+  CONSTRAINT do_not_merge_unique UNIQUE (org_id, customer_a_id, customer_b_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_do_not_merge_org_b ON do_not_merge(org_id, customer_b_id);
+
+ALTER TABLE do_not_merge ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read do_not_merge"
+  ON do_not_merge FOR SELECT TO authenticated
+  USING (is_org_member(org_id));
+
+-- 2. Backfill from conflicts already dismissed, split or unmerged
+INSERT INTO do_not_merge (org_id, customer_a_id, customer_b_id, reason, conflict_id, created_by, created_at)
+SELECT
+  org_id,
+  LEAST(customer_a_id, customer_b_id),
+  GREATEST(customer_a_id, customer_b_id),
+  CASE
+    WHEN status = 'dismissed' THEN 'dismissed'
+    WHEN match_field = 'split' THEN 'split'
+    ELSE 'unmerged'
+  END,
+  id,
+  resolved_by,
+  COALESCE(resolved_at, created_at)
+FROM stitching_conflicts
+WHERE status IN ('dismissed', 'split')
+  AND customer_a_id IS NOT NULL
+  AND customer_b_id IS NOT NULL
+  AND customer_a_id != customer_b_id
+ON CONFLICT (org_id, customer_a_id, customer_b_id) DO NOTHING;
@@ -0,0 +1,32 @@
+-- Migration: households
+-- Couples and families often share one email or phone, which the stitching
+-- indexes treat as a single person. A household groups such customers so
+-- the matcher can attach a new person to it instead of merging them, and
+-- so LTV can be reported per household as well as per person.
+
+-- 1. Households
+CREATE TABLE IF NOT EXISTS households (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_households_org_id ON households(org_id);
+
+ALTER TABLE households ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read households"
+  ON households FOR SELECT TO authenticated
+  USING (is_org_member(org_id));
+
+-- 2. Membership
+-- Optional: most customers have no household. Household rows are kept when
+-- they empty out, so merge snapshots that reference one stay restorable.
+ALTER TABLE customers
+  ADD COLUMN IF NOT EXISTS household_id UUID REFERENCES households(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_customers_household_id
+  ON customers(household_id) WHERE household_id IS NOT NULL;
@@ -0,0 +1,31 @@
+-- Migration: stitching_policy
+-- Per-org rules for the stitching cascade: which signals may auto-merge,
+-- which only flag for review, the phone match confidence and the minimum
+-- confidence for auto-accepting a match. Orgs without a row use the
+-- defaults below (mirrored in DEFAULT_STITCHING_POLICY).
+
+-- 1. Policy (one row per org)
+CREATE TABLE IF NOT EXISTS stitching_policy (
+  org_id UUID PRIMARY KEY REFERENCES organizations(id) ON DELETE CASCADE,
+  -- 'auto' | 'review'
+  email_action TEXT NOT NULL DEFAULT 'auto',
+  -- 'auto' | 'review' | 'off'
+  phone_action TEXT NOT NULL DEFAULT 'auto',
+  -- 'review' | 'off' (name-only matches never auto-merge)
+  name_action TEXT NOT NULL DEFAULT 'review',
+  phone_confidence NUMERIC(3,2) NOT NULL DEFAULT 0.75,
+  min_auto_confidence NUMERIC(3,2) NOT NULL DEFAULT 0.80,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT stitching_policy_email_action CHECK (email_action IN ('auto', 'review')),
+  CONSTRAINT stitching_policy_phone_action CHECK (phone_action IN ('auto', 'review', 'off')),
+  CONSTRAINT stitching_policy_name_action CHECK (name_action IN ('review', 'off')),
+  CONSTRAINT stitching_policy_phone_confidence CHECK (phone_confidence BETWEEN 0 AND 1),
+  CONSTRAINT stitching_policy_min_auto_confidence CHECK (min_auto_confidence BETWEEN 0 AND 1)
+);
+
+ALTER TABLE stitching_policy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read stitching_policy"
+  ON stitching_policy FOR SELECT TO authenticated
+  USING (is_org_member(org_id));
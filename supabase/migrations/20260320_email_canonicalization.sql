@@ -0,0 +1,12 @@
+-- Migration: email_canonicalization
+-- Per-org email canonicalization rules for identity matching, on top of
+-- the built-in Gmail rules (dots and +tags ignored, googlemail.com =
+-- gmail.com). Addresses are still stored as imported; the canonical form
+-- is only used as a match key.
+
+-- 1. Rules: [{ domain, alias_of, ignore_dots, ignore_plus }]
+ALTER TABLE stitching_policy
+  ADD COLUMN IF NOT EXISTS email_rules JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE stitching_policy
+  ADD CONSTRAINT stitching_policy_email_rules CHECK (jsonb_typeof(email_rules) = 'array');
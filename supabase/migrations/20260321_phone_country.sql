@@ -0,0 +1,11 @@
+-- Migration: phone_country
+-- Org default country for phone numbers without a "+" prefix. Stitching
+-- parses a number for the row's country (or the customer's country) when
+-- known, and falls back to this default instead of always assuming US.
+
+-- 1. Default phone country (ISO 3166 alpha-2)
+ALTER TABLE stitching_policy
+  ADD COLUMN IF NOT EXISTS default_phone_country TEXT NOT NULL DEFAULT 'US';
+
+ALTER TABLE stitching_policy
+  ADD CONSTRAINT stitching_policy_default_phone_country CHECK (default_phone_country ~ '^[A-Z]{2}$');
@@ -0,0 +1,43 @@
+-- Migration: restitch_jobs
+-- Stitching only runs per imported row, so duplicates created before a
+-- matcher fix (or a policy change) stay in the customer base. A re-stitch
+-- job scans every customer with the current rules and proposes merges as
+-- stitching_conflicts; this table tracks its progress.
+
+-- 1. Jobs
+CREATE TABLE IF NOT EXISTS restitch_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- 'pending' | 'running' | 'completed' | 'failed'
+  status TEXT NOT NULL DEFAULT 'pending',
+  total_customers INTEGER NOT NULL DEFAULT 0,
+  processed_customers INTEGER NOT NULL DEFAULT 0,
+  conflicts_created INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  started_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Bumped on every progress write; a running job that stops updating is stale
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ,
+  CONSTRAINT restitch_jobs_status CHECK (status IN ('pending', 'running', 'completed', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_restitch_jobs_org_created
+  ON restitch_jobs(org_id, created_at DESC);
+
+-- One active job per org
+CREATE UNIQUE INDEX IF NOT EXISTS idx_restitch_jobs_one_active
+  ON restitch_jobs(org_id) WHERE status IN ('pending', 'running');
+
+ALTER TABLE restitch_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read restitch_jobs"
+  ON restitch_jobs FOR SELECT TO authenticated
+  USING (is_org_member(org_id));
+
+-- 2. Conflicts proposed by a job
+ALTER TABLE stitching_conflicts
+  ADD COLUMN IF NOT EXISTS restitch_job_id UUID REFERENCES restitch_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stitching_conflicts_restitch_job
+  ON stitching_conflicts(restitch_job_id) WHERE restitch_job_id IS NOT NULL;
@@ -0,0 +1,37 @@
+-- Migration: conflict_pair_lookup
+-- Post-import conflict detection used to query stitching_conflicts once
+-- per candidate pair. existing_conflict_pairs checks every candidate pair
+-- in one call, so a large import costs one round trip instead of thousands.
+
+-- 1. Pair index (conflicts are looked up in both orders)
+CREATE INDEX IF NOT EXISTS idx_stitching_conflicts_pair
+  ON stitching_conflicts(org_id, customer_a_id, customer_b_id);
+
+-- 2. Which of the given pairs already have a conflict, in either order.
+-- a_ids[i] and b_ids[i] form pair i. Rows come back as stored.
+CREATE OR REPLACE FUNCTION existing_conflict_pairs(
+  target_org_id UUID,
+  a_ids UUID[],
+  b_ids UUID[]
+)
+RETURNS TABLE (customer_a_id UUID, customer_b_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH pairs AS (
+    SELECT a, b FROM unnest(a_ids, b_ids) AS p(a, b)
+  )
+  SELECT c.customer_a_id, c.customer_b_id
+  FROM pairs
+  JOIN stitching_conflicts c
+    ON c.org_id = target_org_id AND c.customer_a_id = pairs.a AND c.customer_b_id = pairs.b
+  UNION
+  SELECT c.customer_a_id, c.customer_b_id
+  FROM pairs
+  JOIN stitching_conflicts c
+    ON c.org_id = target_org_id AND c.customer_a_id = pairs.b AND c.customer_b_id = pairs.a;
+$$;
+
+REVOKE EXECUTE ON FUNCTION existing_conflict_pairs(UUID, UUID[], UUID[]) FROM PUBLIC, anon, authenticated;
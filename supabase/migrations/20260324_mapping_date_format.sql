@@ -0,0 +1,16 @@
+-- Migration: mapping_date_format
+-- Imports read numeric dates in a chosen order (month-first, day-first or
+-- year-first) and timezone instead of always assuming US month-first.
+-- Mapping templates remember both, so a DD/MM export maps the same way
+-- every time.
+
+-- 1. Date order (NULL infers it from each file)
+ALTER TABLE saved_mappings
+  ADD COLUMN IF NOT EXISTS date_format TEXT;
+
+ALTER TABLE saved_mappings
+  ADD CONSTRAINT saved_mappings_date_format CHECK (date_format IN ('mdy', 'dmy', 'ymd'));
+
+-- 2. Timezone for times without an offset (IANA name, NULL means UTC)
+ALTER TABLE saved_mappings
+  ADD COLUMN IF NOT EXISTS timezone TEXT;
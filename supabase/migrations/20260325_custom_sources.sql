@@ -0,0 +1,51 @@
+-- Migration: custom_sources
+-- Org-defined sources for exports the built-in schemas don't cover. A
+-- custom source names its fields and their aliases, which fields identify
+-- the customer, and the table its rows are written to (payments, bookings
+-- or attendance). Rows carry the source as 'custom:<id>', so the columns
+-- that used the source_type enum become text with a check instead —
+-- adding a source no longer needs an enum migration.
+
+-- 1. Custom sources
+CREATE TABLE IF NOT EXISTS custom_sources (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  -- 'payments' | 'bookings' | 'attendance'
+  target TEXT NOT NULL,
+  -- [{ key, label, type, required, aliases }]
+  fields JSONB NOT NULL DEFAULT '[]',
+  id_field TEXT NOT NULL,
+  email_field TEXT NOT NULL,
+  name_field TEXT NOT NULL,
+  phone_field TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT custom_sources_target CHECK (target IN ('payments', 'bookings', 'attendance')),
+  CONSTRAINT custom_sources_org_name UNIQUE (org_id, name)
+);
+
+ALTER TABLE custom_sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members read custom_sources"
+  ON custom_sources FOR SELECT TO authenticated
+  USING (is_org_member(org_id));
+
+-- 2. Source columns accept custom sources
+ALTER TABLE customer_sources ALTER COLUMN source TYPE TEXT USING source::text;
+ALTER TABLE import_history ALTER COLUMN source TYPE TEXT USING source::text;
+ALTER TABLE saved_mappings ALTER COLUMN source TYPE TEXT USING source::text;
+
+ALTER TABLE customer_sources ADD CONSTRAINT customer_sources_source CHECK (
+  source IN ('stripe', 'calendly', 'passline', 'pos', 'wetravel', 'manual', 'crm', 'attribution')
+  OR source ~ '^custom:[0-9a-f-]{36}$'
+);
+ALTER TABLE import_history ADD CONSTRAINT import_history_source CHECK (
+  source IN ('stripe', 'calendly', 'passline', 'pos', 'wetravel', 'manual', 'crm', 'attribution')
+  OR source ~ '^custom:[0-9a-f-]{36}$'
+);
+ALTER TABLE saved_mappings ADD CONSTRAINT saved_mappings_source CHECK (
+  source IN ('stripe', 'calendly', 'passline', 'pos', 'wetravel', 'manual', 'crm', 'attribution')
+  OR source ~ '^custom:[0-9a-f-]{36}$'
+);
@@ -0,0 +1,31 @@
+-- Migration: shopify_source
+-- Shopify orders import into payments with source 'shopify'. Orders keep
+-- their line items and discount codes, and the utm_ parameters of the
+-- landing site, on the payment row.
+
+-- 1. Source columns accept shopify
+ALTER TABLE customer_sources DROP CONSTRAINT IF EXISTS customer_sources_source;
+ALTER TABLE import_history DROP CONSTRAINT IF EXISTS import_history_source;
+ALTER TABLE saved_mappings DROP CONSTRAINT IF EXISTS saved_mappings_source;
+
+ALTER TABLE customer_sources ADD CONSTRAINT customer_sources_source CHECK (
+  source IN ('stripe', 'calendly', 'passline', 'pos', 'wetravel', 'shopify', 'manual', 'crm', 'attribution')
+  OR source ~ '^custom:[0-9a-f-]{36}$'
+);
+ALTER TABLE import_history ADD CONSTRAINT import_history_source CHECK (
+  source IN ('stripe', 'calendly', 'passline', 'pos', 'wetravel', 'shopify', 'manual', 'crm', 'attribution')
+  OR source ~ '^custom:[0-9a-f-]{36}$'
+);
+ALTER TABLE saved_mappings ADD CONSTRAINT saved_mappings_source CHECK (
+  source IN ('stripe', 'calendly', 'passline', 'pos', 'wetravel', 'shopify', 'manual', 'crm', 'attribution')
+  OR source ~ '^custom:[0-9a-f-]{36}$'
+);
+
+-- 2. Order details on payments
+-- [{ name, quantity, price, sku }]
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS line_items JSONB;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS discount_codes TEXT[];
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS utm_source TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS utm_medium TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS utm_campaign TEXT;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS utm_content TEXT;
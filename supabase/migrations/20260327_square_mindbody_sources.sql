@@ -0,0 +1,22 @@
+-- Migration: square_mindbody_sources
+-- Square transactions import into payments with source 'square'. Mindbody
+-- has one source, 'mindbody', for two exports: sales land in payments and
+-- class visits in attendance, so a client's Mindbody ID links both.
+
+-- 1. Source columns accept square and mindbody
+ALTER TABLE customer_sources DROP CONSTRAINT IF EXISTS customer_sources_source;
+ALTER TABLE import_history DROP CONSTRAINT IF EXISTS import_history_source;
+ALTER TABLE saved_mappings DROP CONSTRAINT IF EXISTS saved_mappings_source;
+
+ALTER TABLE customer_sources ADD CONSTRAINT customer_sources_source CHECK (
+  source IN ('stripe', 'calendly', 'passline', 'pos', 'wetravel', 'shopify', 'square', 'mindbody', 'manual', 'crm', 'attribution')
+  OR source ~ '^custom:[0-9a-f-]{36}$'
+);
+ALTER TABLE import_history ADD CONSTRAINT import_history_source CHECK (
+  source IN ('stripe', 'calendly', 'passline', 'pos', 'wetravel', 'shopify', 'square', 'mindbody', 'manual', 'crm', 'attribution')
+  OR source ~ '^custom:[0-9a-f-]{36}$'
+);
+ALTER TABLE saved_mappings ADD CONSTRAINT saved_mappings_source CHECK (
+  source IN ('stripe', 'calendly', 'passline', 'pos', 'wetravel', 'shopify', 'square', 'mindbody', 'manual', 'crm', 'attribution')
+  OR source ~ '^custom:[0-9a-f-]{36}$'
+);